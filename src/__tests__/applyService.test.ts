@@ -0,0 +1,169 @@
+/**
+ * Tests for ApplyService
+ */
+
+import * as vscode from 'vscode';
+import { ApplyService } from '../services/applyService';
+import { ApplyImplementationRequest } from '../models/types';
+import { MockOutputChannel } from './mocks';
+
+// Mock the vscode namespace with the positions, ranges and edits the service uses
+jest.mock('vscode', () => {
+  class Position {
+    constructor(public line: number, public character: number) {}
+  }
+  class Range {
+    start: Position;
+    end: Position;
+    constructor(a: any, b: any, c?: number, d?: number) {
+      this.start = typeof a === 'number' ? new Position(a, b) : a;
+      this.end = typeof a === 'number' ? new Position(c as number, d as number) : b;
+    }
+  }
+  class WorkspaceEdit {
+    replacements: { uri: any; range: Range; text: string }[] = [];
+    replace(uri: any, range: Range, text: string) {
+      this.replacements.push({ uri, range, text });
+    }
+  }
+  return {
+    Position,
+    Range,
+    WorkspaceEdit,
+    Uri: { parse: jest.fn((value: string) => ({ toString: () => value })) },
+    workspace: {
+      openTextDocument: jest.fn(),
+      applyEdit: jest.fn(),
+      asRelativePath: jest.fn((uri: any) => uri.toString())
+    },
+    window: {
+      visibleTextEditors: [],
+      showInformationMessage: jest.fn(),
+      showWarningMessage: jest.fn(),
+      showErrorMessage: jest.fn()
+    },
+    commands: {
+      executeCommand: jest.fn()
+    }
+  };
+}, { virtual: true });
+
+/**
+ * Creates a text document backed by a string.
+ */
+function createDocument(uri: string, text: string, languageId = 'javascript') {
+  const offsetAt = (position: any) => {
+    const lines = text.split('\n');
+    return lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+  };
+  const positionAt = (offset: number) => {
+    const before = text.slice(0, offset).split('\n');
+    return new vscode.Position(before.length - 1, before[before.length - 1].length);
+  };
+  return {
+    uri: { toString: () => uri },
+    languageId,
+    getText: (range?: any) => (range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text),
+    offsetAt,
+    positionAt
+  };
+}
+
+describe('ApplyService', () => {
+  const source = [
+    'class Stats {',
+    '    sum(xs) {',
+    '        let t = 0;',
+    '        for (const x of xs) t += x;',
+    '        return t;',
+    '    }',
+    '}'
+  ].join('\n');
+  const originalCode = source.split('\n').slice(1, 6).join('\n').trim();
+  const winner = 'sum(xs) {\n    return xs.reduce((a, b) => a + b, 0);\n}';
+  const expected = [
+    'class Stats {',
+    '    sum(xs) {',
+    '        return xs.reduce((a, b) => a + b, 0);',
+    '    }',
+    '}'
+  ].join('\n');
+
+  let service: ApplyService;
+  let request: ApplyImplementationRequest;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (vscode.window as any).visibleTextEditors = [];
+    service = new ApplyService(new MockOutputChannel('PerfCopilot') as any);
+    request = {
+      implementationName: 'Alternative 1',
+      functionName: 'sum',
+      code: winner,
+      originalCode,
+      languageId: 'javascript',
+      location: { uri: 'file:///stats.js', startLine: 1, startCharacter: 0, endLine: 5, endCharacter: 5, languageId: 'javascript' }
+    };
+  });
+
+  /**
+   * Opens `document` for the recorded location and an untitled document for everything else.
+   */
+  const openDocuments = (document: any) => {
+    (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (options: any) =>
+      options.content !== undefined ? createDocument('untitled:preview', options.content) : document);
+  };
+
+  it('should show a diff of the whole file and apply the winner at the recorded location', async () => {
+    const document = createDocument('file:///stats.js', source);
+    openDocuments(document);
+    (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Apply');
+    (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(true);
+
+    expect(await service.reviewAndApply(request)).toBe(true);
+
+    const preview = (vscode.workspace.openTextDocument as jest.Mock).mock.calls.find(([options]) => options.content !== undefined)[0];
+    expect(preview.content).toBe(expected);
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.diff', document.uri, expect.anything(), expect.stringContaining('Alternative 1'));
+
+    const edit = (vscode.workspace.applyEdit as jest.Mock).mock.calls[0][0];
+    expect(edit.replacements).toHaveLength(1);
+    const { range, text } = edit.replacements[0];
+    const applied = source.slice(0, document.offsetAt(range.start)) + text + source.slice(document.offsetAt(range.end));
+    expect(applied).toBe(expected);
+  });
+
+  it('should not apply the winner when the user cancels', async () => {
+    openDocuments(createDocument('file:///stats.js', source));
+    (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Cancel');
+
+    expect(await service.reviewAndApply(request)).toBe(false);
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
+  it('should find the original in a visible editor when the recorded range changed', async () => {
+    const edited = `// header\n${source}`;
+    const document = createDocument('file:///stats.js', edited);
+    openDocuments(document);
+    (vscode.window as any).visibleTextEditors = [{ document }];
+    (vscode.window.showInformationMessage as jest.Mock).mockResolvedValue('Apply');
+    (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(true);
+
+    expect(await service.reviewAndApply(request)).toBe(true);
+
+    const { range } = (vscode.workspace.applyEdit as jest.Mock).mock.calls[0][0].replacements[0];
+    expect(range.start).toEqual(new vscode.Position(2, 4));
+  });
+
+  it('should show a diff of the functions when the original cannot be found', async () => {
+    openDocuments(createDocument('file:///stats.js', 'function other() {}'));
+
+    expect(await service.reviewAndApply({ ...request, location: undefined })).toBe(false);
+
+    expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({ content: originalCode, language: 'javascript' });
+    expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({ content: winner, language: 'javascript' });
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('vscode.diff', expect.anything(), expect.anything(), 'sum: Original ↔ Alternative 1');
+    expect(vscode.window.showWarningMessage).toHaveBeenCalled();
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for the async execution helpers used by the verifier and the benchmark runner
+ */
+
+import * as vm from 'vm';
+import { createSandboxTimers, isThenable, settleWithin } from '../utils/asyncExecution';
+
+describe('asyncExecution', () => {
+  describe('createSandboxTimers', () => {
+    it('should let code in a vm context await timers', async () => {
+      const timers = createSandboxTimers();
+      const context = vm.createContext({ ...timers.globals });
+      vm.runInContext('async function delayed(x) { await new Promise(r => setTimeout(r, 5)); await new Promise(r => setImmediate(r)); return x * 2; }', context);
+
+      await expect(vm.runInContext('delayed(21)', context)).resolves.toBe(42);
+    });
+
+    it('should cancel pending timers on clearAll', async () => {
+      const timers = createSandboxTimers();
+      const callback = jest.fn();
+      timers.globals.setTimeout(callback, 5);
+      timers.globals.setInterval(callback, 5);
+      timers.globals.setImmediate(callback);
+
+      timers.clearAll();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isThenable', () => {
+    it('should recognize promises from another vm context', () => {
+      const foreignPromise = vm.runInNewContext('Promise.resolve(1)');
+
+      expect(foreignPromise instanceof Promise).toBe(false);
+      expect(isThenable(foreignPromise)).toBe(true);
+      expect(isThenable({ then: 1 })).toBe(false);
+      expect(isThenable(null)).toBe(false);
+    });
+  });
+
+  describe('settleWithin', () => {
+    it('should resolve and reject like the wrapped promise', async () => {
+      await expect(settleWithin(Promise.resolve('done'), 100, 'Call')).resolves.toBe('done');
+      await expect(settleWithin(Promise.reject(new Error('boom')), 100, 'Call')).rejects.toThrow('boom');
+    });
+
+    it('should fail when the promise does not settle in time', async () => {
+      await expect(settleWithin(new Promise(() => {}), 10, 'Call')).rejects.toThrow('Call did not settle within 10ms');
+    });
+  });
+});
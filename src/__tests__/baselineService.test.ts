@@ -0,0 +1,181 @@
+/**
+ * Tests for BaselineService
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BaselineService, compareWithBaseline } from '../services/baselineService';
+import { BenchmarkComparison, PinnedBaseline } from '../models/types';
+import { MockOutputChannel } from './mocks';
+
+// Mock the vscode namespace with the documents and diagnostics the service uses
+jest.mock('vscode', () => {
+  class Position {
+    constructor(public line: number, public character: number) {}
+  }
+  class Range {
+    constructor(public start: Position, public end: Position) {}
+  }
+  class Diagnostic {
+    source?: string;
+    constructor(public range: Range, public message: string, public severity: number) {}
+  }
+  return {
+    Position,
+    Range,
+    Diagnostic,
+    DiagnosticSeverity: { Warning: 1 },
+    Uri: { parse: jest.fn((value: string) => ({ toString: () => value })) },
+    workspace: {
+      workspaceFolders: undefined,
+      openTextDocument: jest.fn(),
+      getConfiguration: jest.fn(() => ({ get: jest.fn((_key: string, defaultValue: any) => defaultValue) }))
+    },
+    window: {
+      visibleTextEditors: [],
+      showInformationMessage: jest.fn(),
+      showErrorMessage: jest.fn()
+    }
+  };
+}, { virtual: true });
+
+/**
+ * Creates a text document backed by a string.
+ */
+function createDocument(uri: string, text: string) {
+  const lines = text.split('\n');
+  return {
+    uri: { toString: () => uri },
+    getText: () => text,
+    positionAt: (offset: number) => {
+      const before = text.slice(0, offset).split('\n');
+      return new vscode.Position(before.length - 1, before[before.length - 1].length);
+    },
+    lineAt: (line: number) => ({ range: { end: new vscode.Position(line, lines[line].length) } })
+  };
+}
+
+/**
+ * Creates results of a baseline benchmark.
+ */
+function createResults(current: number, baseline: number): BenchmarkComparison {
+  return {
+    fastest: current > baseline ? 'Current' : 'Baseline',
+    results: [{ name: 'Current', ops: current, margin: 0.01 }, { name: 'Baseline', ops: baseline, margin: 0.01 }]
+  };
+}
+
+describe('BaselineService', () => {
+  const baseline: PinnedBaseline = {
+    entryPointName: 'sum',
+    testData: [1, 2, 3],
+    implementation: { name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }', description: '' },
+    results: { fastest: 'Alternative_1', results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 400, margin: 0.01 }] },
+    resultName: 'Alternative_1',
+    benchmarkModule: 'module.exports = {};',
+    location: { uri: 'file:///math.js', startLine: 2, startCharacter: 0, endLine: 2, endCharacter: 60, languageId: 'javascript' },
+    timestamp: 0
+  };
+  const source = [
+    'const ZERO = 0;',
+    '',
+    'export function sum(xs) { let t = ZERO; for (const x of xs) t += x; return t; }'
+  ].join('\n');
+
+  let workspaceDir: string;
+  let diagnostics: { clear: jest.Mock; set: jest.Mock };
+  let benchmark: jest.Mock;
+  let service: BaselineService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'perfcopilot-baselines-'));
+    (vscode.workspace as any).workspaceFolders = [{ uri: { fsPath: workspaceDir } }];
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue(createDocument('file:///math.js', source));
+    diagnostics = { clear: jest.fn(), set: jest.fn() };
+    benchmark = jest.fn();
+    service = new BaselineService(new MockOutputChannel('PerfCopilot') as any, diagnostics as any, benchmark);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  describe('compareWithBaseline', () => {
+    it('should flag a slowdown beyond the threshold as a regression', () => {
+      const result = compareWithBaseline(baseline, createResults(300, 400), 10);
+
+      expect(result.status).toBe('REGRESSED');
+      expect(result.change).toBeCloseTo(-0.25);
+      expect(result.message).toBe('Performance regression: `sum` is 25.0% slower than its pinned baseline (Alternative 1; 300 vs 400 ops/sec; 400 ops/sec when pinned).');
+    });
+
+    it('should accept a slowdown within the threshold', () => {
+      expect(compareWithBaseline(baseline, createResults(380, 400), 10).status).toBe('OK');
+    });
+
+    it('should fail when the results are incomplete', () => {
+      expect(compareWithBaseline(baseline, { fastest: 'Current', results: [{ name: 'Current', ops: 1, margin: 0 }] }, 10).status).toBe('FAILED');
+    });
+  });
+
+  it('should pin a baseline to the workspace and list it', async () => {
+    expect(await service.pin(baseline)).toBe(true);
+
+    expect(fs.existsSync(path.join(workspaceDir, '.perfcopilot', 'baselines', 'sum.json'))).toBe(true);
+    expect(await service.getBaselines()).toEqual([baseline]);
+  });
+
+  it('should not pin without a workspace folder', async () => {
+    (vscode.workspace as any).workspaceFolders = undefined;
+
+    expect(await service.pin(baseline)).toBe(false);
+    expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+  });
+
+  it('should benchmark the current source and report a regression as a diagnostic', async () => {
+    await service.pin(baseline);
+    benchmark.mockResolvedValue(createResults(200, 400));
+
+    const [result] = await service.checkBaselines();
+
+    expect(result.status).toBe('REGRESSED');
+    expect(benchmark).toHaveBeenCalledWith(baseline, 'function sum(xs) { let t = ZERO; for (const x of xs) t += x; return t; }');
+    expect(diagnostics.clear).toHaveBeenCalled();
+    const [uri, [diagnostic]] = diagnostics.set.mock.calls[0];
+    expect(uri.toString()).toBe('file:///math.js');
+    expect(diagnostic.range.start).toEqual(new vscode.Position(2, 7));
+    expect(diagnostic.message).toBe(result.message);
+    expect(diagnostic.source).toBe('PerfCopilot');
+  });
+
+  it('should clear the diagnostics when there is no regression', async () => {
+    await service.pin(baseline);
+    benchmark.mockResolvedValue(createResults(420, 400));
+
+    expect((await service.checkBaselines())[0].status).toBe('OK');
+    expect(diagnostics.clear).toHaveBeenCalled();
+    expect(diagnostics.set).not.toHaveBeenCalled();
+  });
+
+  it('should report functions that no longer exist', async () => {
+    await service.pin(baseline);
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue(createDocument('file:///math.js', 'function other() {}'));
+
+    const [result] = await service.checkBaselines();
+
+    expect(result.status).toBe('MISSING');
+    expect(benchmark).not.toHaveBeenCalled();
+  });
+
+  it('should report benchmark failures', async () => {
+    await service.pin(baseline);
+    benchmark.mockRejectedValue(new Error('Could not transpile Current'));
+
+    const [result] = await service.checkBaselines();
+
+    expect(result).toEqual({ entryPointName: 'sum', status: 'FAILED', message: 'Could not benchmark `sum`: Could not transpile Current' });
+  });
+});
@@ -697,4 +697,192 @@ describe('runBenchmarks', () => {
          expect(mockedProcessExit).toHaveBeenCalledWith(1);
      });
 
-}); 
\ No newline at end of file
+});
+
+// --- Unit Tests for buildResultsPayload ---
+describe('buildResultsPayload', () => {
+    const environment = {
+        node: 'v20.0.0', v8: '11.3', platform: 'linux', arch: 'x64',
+        cpuModel: 'Test CPU', cpuCount: 2, totalMemory: 1024, timestamp: '2024-01-01T00:00:00.000Z'
+    };
+
+    it('should convert a Benny summary into a valid versioned payload', () => {
+        const summary = {
+            results: [
+                { name: 'Original', ops: 1000, margin: 1.5, samples: 80, details: { mean: 0.001, standardDeviation: 0.00002, sampleResults: [0.00099, 0.00101] } },
+                { name: 'Alternative_1', ops: 4000, margin: 0.5, samples: 90, details: { mean: 0.00025, standardDeviation: 0.00001 } }
+            ]
+        };
+
+        const payload = runnerUtils.buildResultsPayload(summary, environment);
+
+        expect(payload.version).toBe(5);
+        expect(payload.fastest).toBe('Alternative_1');
+        expect(payload.environment).toBe(environment);
+        // Benny margins are percentages; the payload uses decimals
+        expect(payload.results[0]).toEqual({
+            name: 'Original', ops: 1000, margin: 0.015, samples: 80, mean: 0.001, deviation: 0.00002,
+            sampleTimes: [0.00099, 0.00101]
+        });
+        expect(payload.results[1].margin).toBe(0.005);
+        // Missing raw samples are reported as an empty list rather than omitted
+        expect(payload.results[1].sampleTimes).toEqual([]);
+    });
+
+    it('should merge memory pass measurements into the matching result items', () => {
+        const summary = {
+            results: [
+                { name: 'Original', ops: 1000, margin: 1, samples: 2, details: { mean: 0.001, standardDeviation: 0, sampleResults: [0.001, 0.001] } },
+                { name: 'Alternative_1', ops: 2000, margin: 1, samples: 2, details: { mean: 0.0005, standardDeviation: 0, sampleResults: [0.0005, 0.0005] } }
+            ]
+        };
+        const memory = {
+            Original: { heapUsedBefore: 1000, heapUsedAfter: 5000, allocatedBytesPerCall: 64, retainedBytes: 0, gcCount: 1, gcTimeMs: 0.5 }
+        };
+
+        const payload = runnerUtils.buildResultsPayload(summary, environment, undefined, memory);
+
+        expect(payload.results[0]).toEqual(expect.objectContaining(memory.Original));
+        expect(payload.results[1].allocatedBytesPerCall).toBeUndefined();
+    });
+
+    it('should merge async timings into the matching result items', () => {
+        const summary = {
+            results: [
+                { name: 'Original', ops: 1000, margin: 1, samples: 2, details: { mean: 0.001, standardDeviation: 0, sampleResults: [0.001, 0.001] } },
+                { name: 'Alternative_1', ops: 2000, margin: 1, samples: 2, details: { mean: 0.0005, standardDeviation: 0, sampleResults: [0.0005, 0.0005] } }
+            ]
+        };
+        const asyncTiming = { Original: { isAsync: true, syncTimeMs: 0.01, resolveTimeMs: 0.5 } };
+
+        const payload = runnerUtils.buildResultsPayload(summary, environment, undefined, undefined, asyncTiming);
+
+        expect(payload.results[0]).toEqual(expect.objectContaining(asyncTiming.Original));
+        expect(payload.results[1].isAsync).toBeUndefined();
+    });
+
+    it('should report Unknown as fastest for an empty summary', () => {
+        const payload = runnerUtils.buildResultsPayload({ results: [] }, environment);
+        expect(payload.fastest).toBe('Unknown');
+        expect(payload.results).toEqual([]);
+    });
+});
+
+// --- Unit Tests for the complexity pass ---
+describe('runComplexityPass', () => {
+    const mockedRunInNewContext = vm.runInNewContext as jest.Mock;
+
+    beforeEach(() => {
+        // vm is mocked for this file; evaluate the factory source directly
+        mockedRunInNewContext.mockImplementation((code: string) => eval(code));
+    });
+
+    afterEach(() => {
+        mockedRunInNewContext.mockReset();
+    });
+
+    it('should time every implementation at each size produced by the factory', () => {
+        const prepared = new Map<string, (...args: any[]) => any>([
+            ['Original', (arr: number[]) => arr.reduce((sum, value) => sum + value, 0)],
+            ['Alternative_1', (arr: number[]) => arr.length]
+        ]);
+
+        const measurements = runnerUtils.runComplexityPass(
+            { factory: '(n) => Array.from({ length: n }, (_, i) => i)', sizes: [1, 10, 100] },
+            prepared
+        );
+
+        expect(measurements.sizes).toEqual([1, 10, 100]);
+        expect(measurements.series.map(series => series.name)).toEqual(['Original', 'Alternative_1']);
+        for (const series of measurements.series) {
+            expect(series.times).toHaveLength(3);
+            series.times.forEach(time => expect(time).toBeGreaterThan(0));
+        }
+    });
+
+    it('should throw if the factory does not evaluate to a function', () => {
+        expect(() => runnerUtils.runComplexityPass({ factory: '42', sizes: [10] }, new Map()))
+            .toThrow('Complexity data factory did not evaluate to a function.');
+    });
+});
+
+// --- Unit Tests for the memory pass ---
+describe('runMemoryPass', () => {
+    afterEach(() => {
+        delete (global as any).gc;
+    });
+
+    it('should skip the pass when global.gc is not exposed', async () => {
+        delete (global as any).gc;
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const result = await runnerUtils.runMemoryPass(new Map([['Original', () => 1]]), []);
+
+        expect(result).toBeUndefined();
+        expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('--expose-gc'));
+        consoleErrorSpy.mockRestore();
+    });
+
+    it('should measure every implementation using the exposed gc', async () => {
+        const gc = jest.fn();
+        (global as any).gc = gc;
+        const consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        const prepared = new Map<string, (...args: any[]) => any>([
+            ['Original', (n: number) => Array.from({ length: n }, (_, i) => ({ i }))],
+            ['Alternative_1', (n: number) => n]
+        ]);
+
+        const result = await runnerUtils.runMemoryPass(prepared, [100]);
+
+        expect(Object.keys(result!)).toEqual(['Original', 'Alternative_1']);
+        for (const measurement of Object.values(result!)) {
+            expect(measurement).toEqual({
+                heapUsedBefore: expect.any(Number),
+                heapUsedAfter: expect.any(Number),
+                allocatedBytesPerCall: expect.any(Number),
+                retainedBytes: expect.any(Number),
+                gcCount: expect.any(Number),
+                gcTimeMs: expect.any(Number)
+            });
+            expect(measurement.allocatedBytesPerCall).toBeGreaterThanOrEqual(0);
+            expect(measurement.retainedBytes).toBeGreaterThanOrEqual(0);
+        }
+        expect(gc).toHaveBeenCalled();
+        consoleLogSpy.mockRestore();
+    });
+});
+
+// --- Unit Tests for async implementations ---
+describe('async implementations', () => {
+    it('should detect the implementations that return a promise', async () => {
+        const prepared = new Map<string, (...args: any[]) => any>([
+            ['Original', async (x: number) => x + 1],
+            ['Alternative_1', (x: number) => x + 1],
+            ['Alternative_2', () => { throw new Error('sync failure surfaces in the suite'); }]
+        ]);
+
+        const asyncKeys = await runnerUtils.detectAsyncImplementations(prepared, [1]);
+
+        expect(Array.from(asyncKeys)).toEqual(['Original']);
+    });
+
+    it('should fail when an async implementation rejects', async () => {
+        const prepared = new Map<string, (...args: any[]) => any>([
+            ['Original', async () => { throw new Error('boom'); }]
+        ]);
+
+        await expect(runnerUtils.detectAsyncImplementations(prepared, []))
+            .rejects.toThrow("Async implementation 'Original' failed: boom");
+    });
+
+    it('should split the time per call into sync and resolve time', async () => {
+        const busyWait = (ms: number) => { const end = performance.now() + ms; while (performance.now() < end) { /* spin */ } };
+        const slowToResolve = () => { busyWait(1); return new Promise(resolve => setTimeout(resolve, 5)); };
+
+        const timing = await runnerUtils.measureAsyncTiming(slowToResolve, [], 50);
+
+        expect(timing.isAsync).toBe(true);
+        expect(timing.syncTimeMs).toBeGreaterThanOrEqual(0.9);
+        expect(timing.resolveTimeMs).toBeGreaterThanOrEqual(4);
+    });
+});
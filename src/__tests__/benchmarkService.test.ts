@@ -14,8 +14,9 @@ jest.mock('vscode', () => ({
   }
 }), { virtual: true });
 
-// Mock the filesystem module
+// Mock the filesystem module (the rest of fs stays real: the typescript package needs it when it loads)
 jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
   existsSync: jest.fn().mockReturnValue(true),
   writeFileSync: jest.fn(),
   symlinkSync: jest.fn()
@@ -312,7 +313,114 @@ describe('BenchmarkService', () => {
     });
   });
 
+  describe('parseJsonBenchmarkOutput', () => {
+    const payload = {
+      version: 5,
+      fastest: 'Alternative_1',
+      results: [
+        { name: 'Original', ops: 1000, margin: 0.015, samples: 4, mean: 0.001, deviation: 0.00003, sampleTimes: [0.00097, 0.001, 0.00103, 0.001] },
+        { name: 'Alternative_1', ops: 3000, margin: 0.006, samples: 4, mean: 0.00033, deviation: 0.00001, sampleTimes: [0.00032, 0.00033, 0.00034, 0.00033] },
+        { name: 'Alternative_2', ops: 1010, margin: 0.02, samples: 4, mean: 0.00099, deviation: 0.00003, sampleTimes: [0.00102, 0.00096, 0.00099, 0.00099] }
+      ],
+      environment: {
+        node: 'v20.0.0', v8: '11.3', platform: 'linux', arch: 'x64',
+        cpuModel: 'Test CPU', cpuCount: 4, totalMemory: 1024, timestamp: '2024-01-01T00:00:00.000Z'
+      }
+    };
+
+    it('should prefer the RESULTS_JSON line over the text lines and keep margins', () => {
+      const output = `
+        cycle: Name: Original, Ops: 1000
+        cycle: Name: Alternative_1, Ops: 3000
+        complete: Fastest is Alternative_1
+        RESULTS_JSON: ${JSON.stringify(payload)}
+      `;
+      const textSpy = jest.spyOn(benchmarkService as any, 'parseTextBenchmarkOutput');
+
+      const result = (benchmarkService as any).parseBenchmarkResults(output);
+
+      expect(result).toEqual(expect.objectContaining({ fastest: 'Alternative_1', results: payload.results, environment: payload.environment }));
+      expect(result.results[0].margin).toBe(0.015);
+      expect(textSpy).not.toHaveBeenCalled();
+    });
+
+    it('should test each alternative against Original and label ties', () => {
+      const output = `RESULTS_JSON: ${JSON.stringify(payload)}`;
+
+      const result = (benchmarkService as any).parseBenchmarkResults(output);
+
+      expect(result.comparisons).toHaveLength(2);
+      const [alt1, alt2] = result.comparisons;
+      expect(alt1).toEqual(expect.objectContaining({ name: 'Alternative_1', baseline: 'Original', significant: true, verdict: 'faster' }));
+      expect(alt1.speedup).toBeCloseTo(3.03, 1);
+      expect(alt1.ciLow).toBeLessThan(alt1.speedup);
+      expect(alt1.ciHigh).toBeGreaterThan(alt1.speedup);
+      // ~1% apart and well within noise: must not be reported as an optimization
+      expect(alt2).toEqual(expect.objectContaining({ name: 'Alternative_2', significant: false, verdict: 'no significant difference' }));
+    });
+
+    it('should estimate the Big-O class of each implementation from complexity timings', () => {
+      const sizes = [10, 100, 1000, 10000];
+      const complexity = {
+        sizes,
+        series: [
+          { name: 'Original', times: sizes.map(n => n * n * 1e-9) },
+          { name: 'Alternative_1', times: sizes.map(n => n * 1e-8) },
+          { name: 'Alternative_2', times: [1e-7, 1e-6, null, null] }
+        ]
+      };
+      const output = `RESULTS_JSON: ${JSON.stringify({ ...payload, complexity })}`;
+
+      const result = (benchmarkService as any).parseBenchmarkResults(output);
+
+      expect(result.complexityMeasurements).toEqual(complexity);
+      // Alternative_2 has only two measured sizes, which is not enough to fit
+      expect(result.complexity.map((estimate: any) => [estimate.name, estimate.bigO])).toEqual([
+        ['Original', 'O(n²)'],
+        ['Alternative_1', 'O(n)']
+      ]);
+    });
+
+    it('should fall back to text parsing when the payload fails validation', () => {
+      // Text lines must start at column 0 to match the legacy ^cycle:/^complete: regexes
+      const output = [
+        'cycle: Name: Original, Ops: 1000',
+        'complete: Fastest is Original',
+        `RESULTS_JSON: ${JSON.stringify({ ...payload, version: 99 })}`
+      ].join('\n');
+
+      const result = (benchmarkService as any).parseBenchmarkResults(output);
+
+      expect(result.fastest).toBe('Original');
+      expect(result.results).toEqual([{ name: 'Original', ops: 1000, margin: 0 }]);
+      expect(mockOutputChannel.appendLine).toHaveBeenCalledWith(expect.stringContaining('Warning: Invalid RESULTS_JSON payload'));
+    });
+  });
+
   describe('replaceRecursiveCalls', () => {
-    // ... existing code ...
+    it('should rename the definition and recursive calls', () => {
+      const code = 'function factorial(n = 1) { return n <= 1 ? 1 : n * factorial(n - 1); }';
+
+      const result = benchmarkService.replaceRecursiveCalls(code, 'factorial', 'Alternative_1');
+
+      expect(result).toBe('function Alternative_1(n = 1) { return n <= 1 ? 1 : n * Alternative_1(n - 1); }');
+    });
+
+    it('should rename arrow functions with destructured parameters', () => {
+      const code = 'const sumTree = ({ value, children = [] }) => value + children.reduce((s, c) => s + sumTree(c), 0);';
+
+      const result = benchmarkService.replaceRecursiveCalls(code, 'sumTree', 'Original');
+
+      expect(result).toBe('const Original = ({ value, children = [] }) => value + children.reduce((s, c) => s + Original(c), 0);');
+    });
+
+    it('should fall back to assigning the code to the new name when the definition is not found', () => {
+      const code = 'function other(n) { return n; }';
+
+      const result = benchmarkService.replaceRecursiveCalls(code, 'missing', 'Alternative_2');
+
+      expect(result).toBe(`const Alternative_2 = ${code};`);
+      expect(mockOutputChannel.appendLine).toHaveBeenCalledWith(expect.stringContaining('Could not find standard function definition for "missing"'));
+    });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,114 @@
+/**
+ * Tests for the perfcopilot CLI.
+ *
+ * The `vscode` module is deliberately not mocked: the CLI must run without it.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { extractFunction, main, parseArgs } from '../cli/perfcopilot';
+import { BenchmarkService } from '../services/benchmarkService';
+
+describe('perfcopilot CLI', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'perfcopilot-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseArgs', () => {
+    it('should parse the options and read the model settings from the environment', () => {
+      const options = parseArgs(
+        ['stats.js', '--function', 'sum', '--format', 'json', '--count', '3', '--strategy', 'micro', '--no-explain', '--repair-rounds', '0', '--evolve', '--complexity'],
+        { PERFCOPILOT_ENDPOINT: 'http://localhost:11434/v1', PERFCOPILOT_MODEL: 'llama3', OPENAI_API_KEY: 'key' }
+      );
+
+      expect(options).toEqual(expect.objectContaining({
+        file: 'stats.js',
+        functionName: 'sum',
+        format: 'json',
+        count: 3,
+        strategies: ['micro'],
+        explain: false,
+        memory: true,
+        repairRounds: 0,
+        evolve: true,
+        complexity: true,
+        endpoint: 'http://localhost:11434/v1',
+        model: 'llama3',
+        apiKey: 'key'
+      }));
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => parseArgs(['stats.js', '--format', 'xml'], {})).toThrow('Unknown format');
+      expect(() => parseArgs(['stats.js', '--count', '0'], {})).toThrow('--count');
+      expect(() => parseArgs(['stats.js', '--repair-rounds', '-1'], {})).toThrow('--repair-rounds');
+      expect(() => parseArgs(['stats.js', '--strategy', 'magic'], {})).toThrow('Unknown strategy');
+      expect(() => parseArgs(['stats.js', '--function'], {})).toThrow('--function needs a value');
+      expect(() => parseArgs([], {})).toThrow('Missing the file');
+      expect(() => parseArgs(['stats.js', '--stub', 'a.json', '--replay', 'b.json'], {})).toThrow('Use either --stub or --replay.');
+    });
+  });
+
+  describe('extractFunction', () => {
+    it('should extract the function without export, with the declarations it uses', () => {
+      const source = 'const OFFSET = 1;\nexport function add(a) { return a + OFFSET; }\nfunction other() {}\n';
+
+      expect(extractFunction(source, path.join(dir, 'add.js'), 'add')).toEqual({
+        code: 'function add(a) { return a + OFFSET; }',
+        name: 'add',
+        context: 'const OFFSET = 1;'
+      });
+      expect(extractFunction(source, path.join(dir, 'add.js')).name).toBe('add');
+      expect(() => extractFunction(source, 'add.js', 'missing')).toThrow('Function `missing` not found in add.js.');
+    });
+  });
+
+  describe('main', () => {
+    it('should analyze a function with the stub model and print the JSON report', async () => {
+      const runBenchmark = jest.spyOn(BenchmarkService.prototype, 'runBenchmark').mockResolvedValue({
+        fastest: 'Alternative_1',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 200, margin: 0.01 }]
+      });
+      fs.writeFileSync(path.join(dir, 'stats.js'), 'export function sum(xs) {\n  let t = 0;\n  for (const x of xs) t += x;\n  return t;\n}\n');
+      fs.writeFileSync(path.join(dir, 'answers.json'), JSON.stringify([
+        '```json\n[{"name": "Alternative 1", "code": "function sum(xs) { return xs.reduce((a, b) => a + b, 0); }", "explanation": "reduce"}]\n```',
+        '```json\n{"entryPointName": "sum", "testData": [1, 2, 3], "implementations": {}}\n```',
+        '```json\n[[[1, 2, 3]], [[]]]\n```'
+      ]));
+      const out = jest.fn();
+      const err = jest.fn();
+
+      const code = await main(
+        ['analyze', path.join(dir, 'stats.js'), '--function', 'sum', '--format', 'json', '--no-explain', '--stub', path.join(dir, 'answers.json')],
+        { out, err },
+        {}
+      );
+
+      expect(code).toBe(0);
+      const report = JSON.parse(out.mock.calls.map(call => call[0]).join(''));
+      expect(report.entryPointName).toBe('sum');
+      expect(report.model).toBe('stub');
+      expect(report.results.fastest).toBe('Alternative_1');
+      expect(report.verdicts).toEqual([{ name: 'Alternative 1', status: 'VERIFIED' }]);
+      expect(report.implementations.map((impl: any) => impl.executableCode)).toEqual([undefined, undefined]);
+      expect(err).toHaveBeenCalledWith('Generated 1 alternative implementations.\n');
+      runBenchmark.mockRestore();
+    });
+
+    it('should exit with 2 on usage errors and 1 when the analysis fails', async () => {
+      const err = jest.fn();
+
+      expect(await main(['optimize', 'stats.js'], { out: jest.fn(), err }, {})).toBe(2);
+      expect(err.mock.calls[0][0]).toContain('Unknown command "optimize"');
+
+      expect(await main(['analyze', path.join(dir, 'missing.js'), '--stub', 'answers.json'], { out: jest.fn(), err }, {})).toBe(1);
+    });
+  });
+});
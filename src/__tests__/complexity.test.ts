@@ -0,0 +1,63 @@
+/**
+ * Tests for the empirical complexity estimation helpers
+ */
+
+import { createLocalDataFactory, fitComplexity, formatComplexitySummary } from '../utils/complexity';
+
+describe('complexity', () => {
+  const sizes = [10, 100, 1000, 10000, 100000];
+
+  describe('fitComplexity', () => {
+    it.each([
+      ['O(1)', () => 5e-8],
+      ['O(log n)', (n: number) => Math.log2(n) * 1e-8],
+      ['O(n)', (n: number) => n * 1e-9],
+      ['O(n log n)', (n: number) => n * Math.log2(n) * 1e-9],
+      ['O(n²)', (n: number) => n * n * 1e-12]
+    ])('should identify %s timings', (bigO, timeAt) => {
+      const estimate = fitComplexity(sizes, { name: 'Original', times: sizes.map(timeAt) });
+      expect(estimate).toEqual(expect.objectContaining({ name: 'Original', bigO, points: 5 }));
+    });
+
+    it('should tolerate measurement noise', () => {
+      const noise = [1.1, 0.9, 1.05, 0.95, 1.02];
+      const estimate = fitComplexity(sizes, { name: 'Alternative_1', times: sizes.map((n, i) => n * 1e-9 * noise[i]) });
+      expect(estimate?.bigO).toBe('O(n)');
+    });
+
+    it('should ignore skipped sizes and require enough measured points', () => {
+      const partial = fitComplexity(sizes, { name: 'Original', times: [1e-10, 1e-8, 1e-6, null, null] });
+      expect(partial).toEqual(expect.objectContaining({ bigO: 'O(n²)', points: 3 }));
+
+      expect(fitComplexity(sizes, { name: 'Original', times: [1e-10, 1e-8, null, null, null] })).toBeUndefined();
+    });
+  });
+
+  describe('createLocalDataFactory', () => {
+    const evaluate = (factory: string | undefined) => eval(`(${factory})`);
+
+    it('should scale arrays by cycling the sample elements', () => {
+      const factory = evaluate(createLocalDataFactory([3, 1, 2]));
+      expect(factory(7)).toEqual([3, 1, 2, 3, 1, 2, 3]);
+    });
+
+    it('should scale strings and numbers', () => {
+      expect(evaluate(createLocalDataFactory('ab'))(5)).toBe('ababa');
+      expect(evaluate(createLocalDataFactory(42))(1000)).toBe(1000);
+    });
+
+    it('should return undefined for shapes it cannot scale', () => {
+      expect(createLocalDataFactory({ a: 1 })).toBeUndefined();
+      expect(createLocalDataFactory(null)).toBeUndefined();
+    });
+  });
+
+  describe('formatComplexitySummary', () => {
+    it('should list the class of each implementation', () => {
+      expect(formatComplexitySummary([
+        { name: 'Original', bigO: 'O(n²)', coefficient: 1, rms: 0, points: 5 },
+        { name: 'Alternative_1', bigO: 'O(n)', coefficient: 1, rms: 0, points: 5 }
+      ])).toBe('Original is O(n²), Alternative_1 is O(n)');
+    });
+  });
+});
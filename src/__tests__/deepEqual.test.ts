@@ -0,0 +1,109 @@
+/**
+ * Tests for the structural deep-equality engine used by correctness verification
+ */
+
+import * as vm from 'vm';
+import { compareValues, formatValue } from '../utils/deepEqual';
+
+describe('deepEqual', () => {
+  describe('compareValues', () => {
+    it('should report the path of the first difference', () => {
+      const expected = [{ total: 1 }, { total: 2 }, { total: 3 }, { total: 12 }];
+      const actual = [{ total: 1 }, { total: 2 }, { total: 3 }, { total: 12.000001 }];
+
+      expect(compareValues(expected, actual)).toEqual({
+        equal: false,
+        path: 'result[3].total',
+        difference: 'result[3].total: 12 vs 12.000001'
+      });
+      expect(compareValues({ 'line items': [1] }, { 'line items': [2] }).path).toBe('result["line items"][0]');
+    });
+
+    it('should distinguish values JSON.stringify conflates', () => {
+      expect(compareValues(NaN, NaN).equal).toBe(true);
+      expect(compareValues(NaN, null).equal).toBe(false);
+      expect(compareValues(0, -0).difference).toBe('result: 0 vs -0');
+      expect(compareValues(undefined, null).equal).toBe(false);
+      expect(compareValues({ a: 1, b: undefined }, { a: 1 }).difference).toBe('result.b: undefined vs (missing)');
+      expect(compareValues([undefined], [null]).equal).toBe(false);
+      expect(compareValues(10n, 10n).equal).toBe(true);
+      expect(compareValues(10n, 10).equal).toBe(false);
+    });
+
+    it('should compare built-in collections and objects by content', () => {
+      expect(compareValues(new Map([['a', { x: 1 }]]), new Map([['a', { x: 1 }]])).equal).toBe(true);
+      expect(compareValues(new Map([['a', { x: 1 }]]), new Map([['a', { x: 2 }]])).path).toBe("result.get('a').x");
+      expect(compareValues(new Map([[{ id: 1 }, 'a']]), new Map([[{ id: 1 }, 'a']])).equal).toBe(true);
+      expect(compareValues(new Set([1, { id: 2 }]), new Set([{ id: 2 }, 1])).equal).toBe(true);
+      expect(compareValues(new Set([1, 2]), new Set([1, 3])).difference).toBe('result: 2 is missing from the actual Set');
+      expect(compareValues(new Date(0), new Date(0)).equal).toBe(true);
+      expect(compareValues(new Date(0), new Date(1)).equal).toBe(false);
+      expect(compareValues(/a+/g, /a+/i).equal).toBe(false);
+      expect(compareValues(new Float64Array([1, NaN]), new Float64Array([1, NaN])).equal).toBe(true);
+      expect(compareValues(new Uint8Array([1, 2]), new Uint8Array([1, 3])).path).toBe('result[1]');
+      expect(compareValues(new Uint8Array([1]), new Int8Array([1])).equal).toBe(false);
+      expect(compareValues(new Error('boom'), new Error('bang')).difference).toBe('result: Error: boom vs Error: bang');
+      expect(compareValues(new Error('boom'), new TypeError('boom')).difference).toBe('result: instance of Error vs instance of TypeError');
+      expect(compareValues({}, [], {}).equal).toBe(false);
+    });
+
+    it('should require objects to be instances of the same class', () => {
+      class Point { constructor(public x: number) {} }
+      class Vector { constructor(public x: number) {} }
+
+      expect(compareValues(new Point(1), new Point(1)).equal).toBe(true);
+      expect(compareValues(new Point(1), new Vector(1)).difference).toBe('result: instance of Point vs instance of Vector');
+      expect(compareValues(new Point(1), { x: 1 }).equal).toBe(false);
+    });
+
+    it('should compare values created in different vm contexts', () => {
+      const create = () => vm.runInNewContext('({ list: [1, 2], map: new Map([["k", new Date(5)]]), set: new Set(["a"]), bytes: new Uint8Array([7]) })');
+
+      expect(compareValues(create(), create()).equal).toBe(true);
+      expect(compareValues(create(), { list: [1, 2], map: new Map([['k', new Date(5)]]), set: new Set(['a']), bytes: new Uint8Array([7]) }).equal).toBe(true);
+    });
+
+    it('should compare circular structures by shape', () => {
+      const makeCycle = (value: number) => { const node: any = { value }; node.self = node; return node; };
+      const makeChain = () => { const a: any = { value: 1 }; a.self = { value: 1, self: a }; return a; };
+
+      expect(compareValues(makeCycle(1), makeCycle(1)).equal).toBe(true);
+      expect(compareValues(makeCycle(1), makeCycle(2)).path).toBe('result.value');
+      expect(compareValues(makeCycle(1), makeChain()).difference).toBe('result.self: circular references differ');
+    });
+
+    it('should apply the epsilon option relative to the magnitude of the numbers', () => {
+      expect(compareValues(12, 12.000001, { epsilon: 1e-6 }).equal).toBe(true);
+      expect(compareValues(0.1 + 0.2, 0.3, { epsilon: 1e-9 }).equal).toBe(true);
+      expect(compareValues(1e9, 1e9 + 1, { epsilon: 1e-6 }).equal).toBe(true);
+      expect(compareValues(1, 1.1, { epsilon: 1e-6 }).equal).toBe(false);
+      expect(compareValues(Infinity, -Infinity, { epsilon: 1 }).equal).toBe(false);
+    });
+
+    it('should compare arrays as multisets with unorderedArrays', () => {
+      expect(compareValues([1, 2, 2, { a: 1 }], [{ a: 1 }, 2, 1, 2], { unorderedArrays: true }).equal).toBe(true);
+      expect(compareValues([1, 2, 2], [1, 2, 2], { unorderedArrays: true }).equal).toBe(true);
+      expect(compareValues([1, 2, 2], [2, 1, 1], { unorderedArrays: true }).difference)
+        .toBe('result[2]: 2 has no matching element in the actual array');
+      expect(compareValues([1, 2], [2, 1]).equal).toBe(false);
+    });
+
+    it('should check key order only when ignoreKeyOrder is disabled', () => {
+      expect(compareValues({ a: 1, b: 2 }, { b: 2, a: 1 }).equal).toBe(true);
+      expect(compareValues({ a: 1, b: 2 }, { b: 2, a: 1 }, { ignoreKeyOrder: false }).difference)
+        .toBe("result: key order [ 'a', 'b' ] vs [ 'b', 'a' ]");
+      expect(compareValues(new Map([['a', 1], ['b', 2]]), new Map([['b', 2], ['a', 1]]), { ignoreKeyOrder: false }).equal).toBe(false);
+    });
+  });
+
+  describe('formatValue', () => {
+    it('should format values JSON cannot represent without throwing', () => {
+      const cycle: any = {};
+      cycle.self = cycle;
+
+      expect(formatValue(10n)).toBe('10n');
+      expect(formatValue(undefined)).toBe('undefined');
+      expect(formatValue(cycle)).toContain('[Circular');
+    });
+  });
+});
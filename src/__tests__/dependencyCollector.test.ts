@@ -0,0 +1,120 @@
+/**
+ * Tests for collecting the workspace declarations an editor selection depends on
+ */
+
+import * as path from 'path';
+import * as vm from 'vm';
+import { collectDependencies } from '../utils/dependencyCollector';
+import { prepareImplementation } from '../utils/transpiler';
+
+describe('dependencyCollector', () => {
+  const root = path.resolve('/workspace/src');
+  const documentPath = path.join(root, 'orders.ts');
+
+  // In-memory workspace keyed by absolute path
+  const createReader = (files: Record<string, string>) =>
+    (filePath: string) => files[path.relative(root, filePath).split(path.sep).join('/')];
+
+  const selection = 'function orderTotal(order) {\n  return roundCents(sum(order.items.map(item => item.price * TAX_RATE)));\n}';
+
+  it('should collect helpers and constants from the document, dependencies first', () => {
+    const document = [
+      'const TAX_RATE = 1.2;',
+      'const CENTS = 100;',
+      'function unused() { return 0; }',
+      'function roundCents(value: number): number { return Math.round(value * CENTS) / CENTS; }',
+      'const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);',
+      selection
+    ].join('\n');
+
+    const result = collectDependencies(selection, document, documentPath, createReader({}));
+
+    expect(result.identifiers).toEqual(['roundCents', 'CENTS', 'sum', 'TAX_RATE']);
+    expect(result.code).toBe([
+      'const CENTS = 100;',
+      'function roundCents(value: number): number { return Math.round(value * CENTS) / CENTS; }',
+      'const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);',
+      'const TAX_RATE = 1.2;'
+    ].join('\n\n'));
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('should follow local imports, re-exports and aliases and strip export modifiers', () => {
+    const importingSelection = 'function orderTotal(order) {\n  return round(sum(order.items)) * rates.TAX_RATE;\n}';
+    const document = [
+      "import { roundCents as round } from './money';",
+      "import sum from './math/sum';",
+      "import * as rates from './rates';",
+      importingSelection
+    ].join('\n');
+    const files = {
+      'money/index.ts': "export { roundCents } from './round';",
+      'money/round.ts': "import { CENTS } from '../constants';\nexport function roundCents(value: number) { return Math.round(value * CENTS) / CENTS; }",
+      'constants.ts': 'export const CENTS = 100;\nexport interface Money { value: number }',
+      'math/sum.js': 'export default function sum(values) { return values.reduce((a, b) => a + b, 0); }',
+      'rates.ts': 'export const TAX_RATE = 1.2;\nexport const LOW_RATE = 1.05;'
+    };
+
+    const result = collectDependencies(importingSelection, document, documentPath, createReader(files));
+
+    expect(result.unresolved).toEqual([]);
+    expect(result.code).not.toMatch(/\bexport\b/);
+    expect(result.code).toContain('const round = roundCents;');
+    expect(result.code).toContain('const rates = { TAX_RATE, LOW_RATE };');
+
+    // The bundle defines everything the selection needs
+    const prepared = prepareImplementation({ name: 'Original', code: importingSelection, context: result.code });
+    const context = vm.createContext({ Math });
+    vm.runInContext(prepared.executableCode!, context);
+    expect(vm.runInContext('orderTotal({ items: [1.111, 2.222] })', context)).toBeCloseTo(3.996);
+  });
+
+  it('should resolve CommonJS requires', () => {
+    const document = "const { clamp } = require('./utils');\nfunction scale(x) { return clamp(x * 2); }";
+    const files = { 'utils.js': 'export function clamp(x) { return Math.min(Math.max(x, 0), 10); }' };
+
+    const result = collectDependencies('function scale(x) { return clamp(x * 2); }', document, documentPath, createReader(files));
+
+    expect(result.identifiers).toEqual(['clamp']);
+    expect(result.code).toBe('function clamp(x) { return Math.min(Math.max(x, 0), 10); }');
+  });
+
+  it('should report package imports and missing exports as unresolved', () => {
+    const document = [
+      "import { chunk } from 'lodash';",
+      "import { missing } from './helpers';",
+      'function run(xs) { return chunk(xs, missing); }'
+    ].join('\n');
+    const files = { 'helpers.ts': 'export const present = 1;' };
+
+    const result = collectDependencies('function run(xs) { return chunk(xs, missing); }', document, documentPath, createReader(files));
+
+    expect(result.code).toBe('');
+    expect(result.unresolved).toEqual([
+      "chunk (from 'lodash': package imports cannot be bundled)",
+      "missing ('missing' is not exported by './helpers')"
+    ]);
+  });
+
+  it('should not collect the selected function itself when a helper calls it back', () => {
+    const document = [
+      'function isEven(n) { return n === 0 ? true : isOdd(n - 1); }',
+      'function isOdd(n) { return n === 0 ? false : isEven(n - 1); }'
+    ].join('\n');
+
+    const result = collectDependencies('function isEven(n) { return n === 0 ? true : isOdd(n - 1); }', document, documentPath, createReader({}));
+
+    expect(result.identifiers).toEqual(['isOdd']);
+    expect(result.code).toBe('function isOdd(n) { return n === 0 ? false : isEven(n - 1); }');
+  });
+
+  it('should report a second declaration with an already included name', () => {
+    const document = "import { format as formatDate } from './date';\nconst format = (x) => String(x);\nfunction label(d) { return format(formatDate(d)); }";
+    const files = { 'date.ts': 'export function format(d) { return d.toISOString(); }' };
+
+    const result = collectDependencies('function label(d) { return format(formatDate(d)); }', document, documentPath, createReader(files));
+
+    expect(result.identifiers).toEqual(['format']);
+    expect(result.unresolved).toEqual(['format (date.ts: another declaration with this name is already included)']);
+  });
+});
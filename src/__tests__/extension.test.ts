@@ -15,6 +15,7 @@ jest.mock('vscode', () => {
   return {
     window: {
       createOutputChannel: jest.fn().mockReturnValue(mockOutputChannel),
+      registerTreeDataProvider: jest.fn().mockReturnValue({ dispose: jest.fn() }),
       showErrorMessage: jest.fn(),
       showInformationMessage: jest.fn().mockResolvedValue(null),
       activeTextEditor: {
@@ -30,6 +31,17 @@ jest.mock('vscode', () => {
       registerCommand: jest.fn().mockReturnValue({ dispose: jest.fn() }),
       executeCommand: jest.fn().mockResolvedValue(undefined)
     },
+    languages: {
+      registerCodeLensProvider: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+      createDiagnosticCollection: jest.fn().mockReturnValue({ clear: jest.fn(), set: jest.fn(), dispose: jest.fn() })
+    },
+    ProgressLocation: { Notification: 15 },
+    workspace: {
+      onDidChangeConfiguration: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+      getConfiguration: jest.fn(() => ({ get: jest.fn((_key: string, defaultValue: any) => defaultValue) }))
+    },
+    EventEmitter: jest.fn().mockImplementation(() => ({ event: jest.fn(), fire: jest.fn(), dispose: jest.fn() })),
+    Selection: jest.fn().mockImplementation((anchor, active) => ({ anchor, active })),
     extensions: {
       getExtension: jest.fn().mockReturnValue({
         isActive: true,
@@ -64,11 +76,13 @@ jest.mock('os');
 import { activate, deactivate } from '../extension';
 import { BenchmarkService } from '../services/benchmarkService';
 import { PerfCopilotParticipant } from '../perfCopilotParticipant';
+import { HistoryService } from '../services/historyService';
 
 describe('PerfCopilot Extension', () => {
   // Mock context for extension activation
   const mockContext: any = {
-    subscriptions: []
+    subscriptions: [],
+    globalStorageUri: { fsPath: '/global-storage' }
   };
   
   // Access the VS Code mock
@@ -137,6 +151,61 @@ describe('PerfCopilot Extension', () => {
         );
     });
 
+    it('should register the applyImplementation command', async () => {
+      await activate(mockContext);
+      expect(vscode.commands.registerCommand).toHaveBeenCalledWith(
+        'perfcopilot.applyImplementation',
+        expect.any(Function)
+      );
+    });
+
+    it('should register the CodeLens provider for JavaScript and TypeScript', async () => {
+      await activate(mockContext);
+      expect(vscode.languages.registerCodeLensProvider).toHaveBeenCalledWith(
+        expect.arrayContaining([{ language: 'javascript' }, { language: 'typescript' }]),
+        expect.any(Object)
+      );
+    });
+
+    it('should register the history view and its commands', async () => {
+      await activate(mockContext);
+      expect(vscode.window.registerTreeDataProvider).toHaveBeenCalledWith('perfcopilot.history', expect.any(Object));
+      for (const command of ['perfcopilot.history.refresh', 'perfcopilot.history.openReport', 'perfcopilot.history.rerun', 'perfcopilot.history.diff']) {
+        expect(vscode.commands.registerCommand).toHaveBeenCalledWith(command, expect.any(Function));
+      }
+    });
+
+    it('should save every recorded run to the history', async () => {
+      const listeners: ((run: any) => void)[] = [];
+      (PerfCopilotParticipant as jest.Mock).mockImplementationOnce(() => ({
+        register: jest.fn().mockReturnValue({ dispose: jest.fn() }),
+        onDidRecordRun: jest.fn((listener: (run: any) => void) => {
+          listeners.push(listener);
+          return { dispose: jest.fn() };
+        })
+      }));
+      const saveRun = jest.spyOn(HistoryService.prototype, 'saveRun').mockResolvedValue({} as any);
+      const run = { entryPointName: 'sum', testData: [], implementations: [], results: { fastest: 'Original', results: [] }, timestamp: 1 };
+
+      await activate(mockContext);
+      listeners.forEach(listener => listener(run));
+
+      expect(saveRun).toHaveBeenCalledWith(run);
+      saveRun.mockRestore();
+    });
+
+    it('should register the baseline commands', async () => {
+      await activate(mockContext);
+      expect(vscode.languages.createDiagnosticCollection).toHaveBeenCalledWith('perfcopilot-baselines');
+      expect(vscode.commands.registerCommand).toHaveBeenCalledWith('perfcopilot.pinBaseline', expect.any(Function));
+      expect(vscode.commands.registerCommand).toHaveBeenCalledWith('perfcopilot.checkBaselines', expect.any(Function));
+    });
+
+    it('should register the command to select the model of each stage', async () => {
+      await activate(mockContext);
+      expect(vscode.commands.registerCommand).toHaveBeenCalledWith('perfcopilot.selectModels', expect.any(Function));
+    });
+
     it('should handle errors when registering the chat participant', async () => {
       // Force an error when creating the participant
       (PerfCopilotParticipant as jest.Mock).mockImplementationOnce(() => {
@@ -216,6 +285,26 @@ describe('PerfCopilot Extension', () => {
     });
   });
   
+  describe('optimizeFunction command', () => {
+    it('should select the function range and start the analysis', async () => {
+      await activate(mockContext);
+      const optimizeCommandHandler = vscode.commands.registerCommand.mock.calls.find(
+        (call: any[]) => call[0] === 'perfcopilot.optimizeFunction'
+      )[1];
+      const editor: any = { revealRange: jest.fn() };
+      vscode.window.showTextDocument = jest.fn().mockResolvedValue(editor);
+      const uri = { toString: () => 'file:///sum.js' };
+      const range = { start: { line: 2, character: 0 }, end: { line: 4, character: 1 } };
+
+      await optimizeCommandHandler(uri, range);
+
+      expect(vscode.window.showTextDocument).toHaveBeenCalledWith(uri);
+      expect(editor.selection).toEqual({ anchor: range.start, active: range.end });
+      expect(editor.revealRange).toHaveBeenCalledWith(range);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith('perfcopilot.analyzeFunction');
+    });
+  });
+  
   describe('deactivate', () => {
     it('should dispose the output channel', async () => {
       // First activate the extension to create the output channel
@@ -0,0 +1,172 @@
+/**
+ * Tests for the TypeScript-compiler-API based function parser
+ */
+
+import { findFreeIdentifiers, parseFunctions, renameFunction, toStandaloneFunctions } from '../utils/functionParser';
+
+describe('functionParser', () => {
+  describe('parseFunctions', () => {
+    it('should list every top-level function with its kind, in source order', () => {
+      const code = [
+        'function helper(x) { return x * 2; }',
+        'const double = (x) => helper(x);',
+        'const triple = function (x) { return x * 3; };',
+        'class Calculator { add(a, b) { return a + b; } }'
+      ].join('\n');
+
+      const { functions, syntaxErrors } = parseFunctions(code);
+
+      expect(syntaxErrors).toEqual([]);
+      expect(functions.map(fn => [fn.name, fn.kind])).toEqual([
+        ['helper', 'declaration'],
+        ['double', 'arrow'],
+        ['triple', 'expression'],
+        ['add', 'method']
+      ]);
+      expect(functions[3].className).toBe('Calculator');
+    });
+
+    it('should report parameters including destructuring, defaults and rest', () => {
+      const code = 'function process({ items, limit = Math.min(10, 20) }, [first], mode?: string, ...rest) { return items; }';
+
+      const [fn] = parseFunctions(code).functions;
+
+      expect(fn.parameters).toEqual([
+        { name: '{ items, limit = Math.min(10, 20) }', optional: false, rest: false, hasDefault: false },
+        { name: '[first]', optional: false, rest: false, hasDefault: false },
+        { name: 'mode', optional: true, rest: false, hasDefault: false, type: 'string' },
+        { name: 'rest', optional: false, rest: true, hasDefault: false }
+      ]);
+    });
+
+    it('should detect async and generator functions', () => {
+      const code = 'async function load(url) { return url; }\nfunction* range(n) { yield n; }';
+
+      const [load, range] = parseFunctions(code).functions;
+
+      expect(load).toEqual(expect.objectContaining({ isAsync: true, isGenerator: false }));
+      expect(range).toEqual(expect.objectContaining({ isAsync: false, isGenerator: true }));
+    });
+
+    it('should handle generics, export default and $ in names', () => {
+      const code = 'export default function $find<T>(list: T[], pred: (item: T) => boolean): T | undefined { return list.find(pred); }\nconst $_map = <T,>(xs: T[]) => xs;';
+
+      const { functions, syntaxErrors } = parseFunctions(code);
+
+      expect(syntaxErrors).toEqual([]);
+      expect(functions.map(fn => fn.name)).toEqual(['$find', '$_map']);
+    });
+
+    it('should report source ranges and lines', () => {
+      const code = '// helper\nconst add = (a, b) => {\n  return a + b;\n};\n';
+
+      const [fn] = parseFunctions(code).functions;
+
+      expect(code.slice(fn.start, fn.end)).toBe('const add = (a, b) => {\n  return a + b;\n};');
+      expect([fn.startLine, fn.endLine]).toEqual([2, 4]);
+    });
+
+    it('should parse a bare method snippet as a method with ranges in the original snippet', () => {
+      const code = 'calculateSum(a, b) {\n  return a + b;\n}';
+
+      const { functions, syntaxErrors } = parseFunctions(code);
+
+      expect(syntaxErrors).toEqual([]);
+      expect(functions).toHaveLength(1);
+      expect(functions[0]).toEqual(expect.objectContaining({ name: 'calculateSum', kind: 'method', start: 0, end: code.length, startLine: 1, endLine: 3 }));
+      expect(functions[0].className).toBeUndefined();
+    });
+
+    it('should report syntax errors', () => {
+      expect(parseFunctions('function broken( { return 1; }').syntaxErrors.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('renameFunction', () => {
+    it('should rename the definition and recursive calls but not strings, comments or properties', () => {
+      const code = [
+        'function fib(n) {',
+        '  // fib(n) recursion',
+        '  const label = "fib(";',
+        '  return n < 2 ? n : fib(n - 1) + fib(n - 2) + obj.fib(0);',
+        '}'
+      ].join('\n');
+
+      const renamed = renameFunction(code, 'fib', 'Alternative_1');
+
+      expect(renamed).toBe([
+        'function Alternative_1(n) {',
+        '  // fib(n) recursion',
+        '  const label = "fib(";',
+        '  return n < 2 ? n : Alternative_1(n - 1) + Alternative_1(n - 2) + obj.fib(0);',
+        '}'
+      ].join('\n'));
+    });
+
+    it('should rename arrow functions and non-call references', () => {
+      const code = 'const walk$ = (node) => node.children.map(walk$);';
+
+      expect(renameFunction(code, 'walk$', 'Original')).toBe('const Original = (node) => node.children.map(Original);');
+    });
+
+    it('should rename recursive references passed as shorthand properties, keeping the key', () => {
+      const code = 'function walk(node) { return node.children.map(child => visit(child, { walk })); }';
+
+      expect(renameFunction(code, 'walk', 'Original')).toBe('function Original(node) { return node.children.map(child => visit(child, { walk: Original })); }');
+    });
+
+    it('should return undefined when the function is not defined at the top level', () => {
+      expect(renameFunction('function other() { return fib(1); }', 'fib', 'Original')).toBeUndefined();
+    });
+  });
+
+  describe('findFreeIdentifiers', () => {
+    it('should list referenced names that the snippet does not declare', () => {
+      const code = [
+        'function total(items: Item[], { rate = DEFAULT_RATE } = {}) {',
+        '  let sum = 0;',
+        '  for (const item of items) { sum += roundCents(item.price * rate); }',
+        '  outer: while (false) { break outer; }',
+        '  return format(sum, { currency: CURRENCY });',
+        '}'
+      ].join('\n');
+
+      expect(findFreeIdentifiers(code)).toEqual(['DEFAULT_RATE', 'roundCents', 'format', 'CURRENCY']);
+    });
+
+    it('should treat the function name and catch variables as declared', () => {
+      const code = 'const fib = (n) => { try { return n < 2 ? n : fib(n - 1) + fib(n - 2); } catch (e) { return log(e); } };';
+
+      expect(findFreeIdentifiers(code)).toEqual(['log']);
+    });
+
+    it('should count names used as shorthand properties as references', () => {
+      expect(findFreeIdentifiers('function f() { return { helper }; }')).toEqual(['helper']);
+      expect(findFreeIdentifiers('function f(helper) { return { helper, label: LABEL }; }')).toEqual(['LABEL']);
+    });
+  });
+
+  describe('toStandaloneFunctions', () => {
+    it('should turn bare methods into function declarations, keeping async, * and line breaks', () => {
+      const code = [
+        'private static async total(items: number[]) {',
+        '  return items.reduce((a, b) => a + b, 0);',
+        '}',
+        '*ids() { yield 1; }'
+      ].join('\n');
+
+      expect(toStandaloneFunctions(code)).toBe([
+        'async function total(items: number[]) {',
+        '  return items.reduce((a, b) => a + b, 0);',
+        '}',
+        'function* ids() { yield 1; }'
+      ].join('\n'));
+    });
+
+    it('should leave functions and members that cannot stand alone unchanged', () => {
+      expect(toStandaloneFunctions('function sum(a, b) { return a + b; }')).toBe('function sum(a, b) { return a + b; }');
+      expect(toStandaloneFunctions('#secret() { return 1; }')).toBe('#secret() { return 1; }');
+      expect(toStandaloneFunctions('get size() { return 1; }')).toBe('get size() { return 1; }');
+    });
+  });
+});
@@ -2,7 +2,7 @@
  * Tests for utility functions
  */
 
-import { extractFunctionName } from '../utils/functions';
+import { extractFunctionName, isValidJavaScriptFunction } from '../utils/functions';
 import { runNodeScript } from '../utils/functions';
 import path from 'path';
 import { EventEmitter } from 'events';
@@ -16,11 +16,15 @@ jest.mock('fs', () => ({
   mkdir: jest.fn()
 }), { virtual: true });
 
+// Keep the real implementations of everything else: the typescript package (used by the
+// function parser) needs them when it loads
 jest.mock('path', () => ({
+  ...jest.requireActual('path'),
   join: jest.fn().mockImplementation((...args) => args.join('/'))
 }), { virtual: true });
 
 jest.mock('os', () => ({
+  ...jest.requireActual('os'),
   tmpdir: jest.fn().mockReturnValue('/tmp')
 }), { virtual: true });
 
@@ -93,6 +97,15 @@ describe('Utility Functions', () => {
       expect(name).toBe('calculateSum');
     });
     
+    it('should extract names containing $ and from export default declarations', () => {
+      expect(extractFunctionName('export default function $sum({ a, b } = {}) { return a + b; }')).toBe('$sum');
+    });
+
+    it('should not be confused by default values containing parentheses', () => {
+      const code = `const pick = (list, fn = (x) => x) => list.map(fn);`;
+      expect(extractFunctionName(code)).toBe('pick');
+    });
+
     it('should return undefined for anonymous functions', () => {
       const code = `(function(a, b) {
         return a + b;
@@ -103,9 +116,25 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('isValidJavaScriptFunction', () => {
+    it('should accept declarations, arrows, methods and typed functions', () => {
+      expect(isValidJavaScriptFunction('function sum(a, b) { return a + b; }')).toBe(true);
+      expect(isValidJavaScriptFunction('const sum = ({ a, b }) => a + b;')).toBe(true);
+      expect(isValidJavaScriptFunction('sum(a, b) {\n  return a + b;\n}')).toBe(true);
+      expect(isValidJavaScriptFunction('function first<T>(xs: T[]): T { return xs[0]; }')).toBe(true);
+    });
+
+    it('should reject empty input, comments, plain statements and syntax errors', () => {
+      expect(isValidJavaScriptFunction('   ')).toBe(false);
+      expect(isValidJavaScriptFunction('// function sum(a, b) {}')).toBe(false);
+      expect(isValidJavaScriptFunction('const total = 1 + 2;')).toBe(false);
+      expect(isValidJavaScriptFunction('function sum(a, b { return a + b; }')).toBe(false);
+    });
+  });
+
   // Add tests for runNodeScript
   describe('runNodeScript', () => {
-    let runNodeScript: (scriptPath: string) => Promise<string>; // Type for the function
+    let runNodeScript: (scriptPath: string, args?: string[], nodeArgs?: string[], logger?: { appendLine: (line: string) => void }) => Promise<string>; // Type for the function
 
     beforeEach(() => {
       // Reset modules to ensure we get a fresh import with the mock
@@ -197,5 +226,35 @@ describe('Utility Functions', () => {
       await expect(promise).rejects.toThrow(error); 
        expect(mockSpawn).toHaveBeenCalledWith('node', [scriptPath]);
     });
+
+    it('should pass node flags before the script path and script args after it', async () => {
+      // Arrange
+      const scriptPath = '/tmp/runner.js';
+      const promise = runNodeScript(scriptPath, ['/tmp/funcs.js'], ['--expose-gc']);
+
+      // Act
+      mockChildProcess.emit('close', 0);
+
+      // Assert
+      await expect(promise).resolves.toBe('');
+      expect(mockSpawn).toHaveBeenCalledWith('node', ['--expose-gc', scriptPath, '/tmp/funcs.js']);
+    });
+
+    it('should log to the given logger instead of the console', async () => {
+      // Arrange
+      const logger = { appendLine: jest.fn() };
+      const consoleLogSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      const promise = runNodeScript('/tmp/runner.js', [], [], logger);
+
+      // Act
+      mockStdout.emit('data', 'output');
+      mockChildProcess.emit('close', 0);
+
+      // Assert
+      await expect(promise).resolves.toBe('output');
+      expect(logger.appendLine).toHaveBeenCalledWith('[runNodeScript] Spawning: node /tmp/runner.js');
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      consoleLogSpy.mockRestore();
+    });
   });
 }); 
\ No newline at end of file
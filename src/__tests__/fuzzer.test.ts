@@ -0,0 +1,186 @@
+/**
+ * Tests for the property-based fuzzing used by correctness verification
+ */
+
+import { ValueSchema } from '../models/types';
+import {
+  createRandom,
+  describeSchema,
+  fuzzProperty,
+  generateValue,
+  inferArgumentSchemas,
+  inferSchemaFromType,
+  inferSchemaFromValues,
+  shrinkValue
+} from '../utils/fuzzer';
+
+/**
+ * Whether a value matches a schema (used to check generated values)
+ */
+function matches(value: any, schema: ValueSchema): boolean {
+  switch (schema.kind) {
+    case 'number':
+      return typeof value === 'number' && (!schema.integer || Number.isInteger(value));
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'literal':
+      return value === schema.value;
+    case 'array':
+      return Array.isArray(value) && (!schema.items || value.every(item => matches(item, schema.items as ValueSchema)));
+    case 'tuple':
+      return Array.isArray(value) && value.length === schema.items.length && value.every((item, i) => matches(item, schema.items[i]));
+    case 'object':
+      return typeof value === 'object' && value !== null &&
+        Object.keys(value).every(key => key in schema.properties && matches(value[key], schema.properties[key])) &&
+        Object.keys(schema.properties).every(key => schema.optional.includes(key) || key in value);
+    case 'union':
+      return schema.options.some(option => matches(value, option));
+    default:
+      return true;
+  }
+}
+
+describe('fuzzer', () => {
+  describe('createRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const first = createRandom(42);
+      const second = createRandom(42);
+      const other = createRandom(43);
+
+      const sequence = Array.from({ length: 5 }, () => first());
+
+      expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+      expect(Array.from({ length: 5 }, () => other())).not.toEqual(sequence);
+      expect(sequence.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+  });
+
+  describe('inferSchemaFromValues', () => {
+    it('should merge examples into one schema', () => {
+      const schema = inferSchemaFromValues([
+        { id: 1, tags: ['a'] },
+        { id: 7, tags: [], note: null }
+      ]);
+
+      expect(schema).toEqual({
+        kind: 'object',
+        properties: {
+          id: { kind: 'number', integer: true, min: 1, max: 7 },
+          tags: { kind: 'array', items: { kind: 'string', examples: ['a'] } },
+          note: { kind: 'null' }
+        },
+        optional: ['note']
+      });
+      expect(inferSchemaFromValues([1, 'x', 2.5])).toEqual({
+        kind: 'union',
+        options: [{ kind: 'number', integer: false, min: 1, max: 2.5 }, { kind: 'string', examples: ['x'] }]
+      });
+    });
+  });
+
+  describe('inferSchemaFromType', () => {
+    it('should convert TypeScript types to schemas', () => {
+      expect(describeSchema(inferSchemaFromType('Array<{ id: number; tags?: readonly string[] }>') as ValueSchema))
+        .toBe('array<{ id: number; tags?: array<string> }>');
+      expect(describeSchema(inferSchemaFromType("'asc' | 'desc' | -1 | null | undefined") as ValueSchema))
+        .toBe('"asc" | "desc" | -1 | null');
+      expect(describeSchema(inferSchemaFromType('[x: number, boolean]') as ValueSchema)).toBe('[number, boolean]');
+    });
+
+    it('should return undefined for types it cannot generate', () => {
+      expect(inferSchemaFromType('Map<string, number>')).toBeUndefined();
+      expect(inferSchemaFromType('User[]')).toBeUndefined();
+      expect(inferSchemaFromType('(x: number) => number')).toBeUndefined();
+    });
+  });
+
+  describe('inferArgumentSchemas', () => {
+    it('should prefer parameter types and fall back to the examples', () => {
+      const code = 'function slice(items: number[], count) { return items.slice(0, count); }';
+
+      expect(inferArgumentSchemas([[[1, 2], 1], [[], 0]], code, 'slice')).toEqual([
+        { kind: 'array', items: { kind: 'number', integer: false } },
+        { kind: 'number', integer: true, min: 0, max: 1 }
+      ]);
+      expect(inferArgumentSchemas([], code, 'slice')).toEqual([
+        { kind: 'array', items: { kind: 'number', integer: false } },
+        { kind: 'any' }
+      ]);
+    });
+  });
+
+  describe('generateValue', () => {
+    it('should generate values matching the schema, deterministically for a seed', () => {
+      const schema = inferSchemaFromType('{ id: number; name: string; tags?: string[]; kind: "a" | "b" }') as ValueSchema;
+      const generate = (seed: number) => {
+        const random = createRandom(seed);
+        return Array.from({ length: 50 }, (_, size) => generateValue(schema, random, size % 31));
+      };
+
+      const values = generate(7);
+
+      expect(values.every(value => matches(value, schema))).toBe(true);
+      expect(generate(7)).toEqual(values);
+      expect(values.some(value => 'tags' in value)).toBe(true);
+      expect(values.some(value => !('tags' in value))).toBe(true);
+    });
+
+    it('should only generate JSON values', () => {
+      const random = createRandom(1);
+      const values = Array.from({ length: 200 }, () => generateValue({ kind: 'any' }, random, 30));
+
+      expect(JSON.parse(JSON.stringify(values))).toEqual(values);
+      expect(values.some(value => Object.is(value, -0))).toBe(false);
+    });
+  });
+
+  describe('shrinkValue', () => {
+    it('should only propose simpler values', () => {
+      expect(shrinkValue(0)).toEqual([]);
+      expect(shrinkValue(10)).toEqual([0, 5, 9]);
+      expect(shrinkValue(-2.5)).toEqual([0, -2, -1.25, -1.5]);
+      expect(shrinkValue('abc')).toEqual(['', 'a', 'bc', 'ab']);
+      expect(shrinkValue(true)).toEqual([false]);
+      expect(shrinkValue([3, 1])).toEqual([[], [3], [1], [3], [0, 1], [1, 1], [2, 1], [3, 0]]);
+      expect(shrinkValue({ a: 1 })).toEqual([{ a: 0 }]);
+      expect(shrinkValue(null)).toEqual([]);
+    });
+  });
+
+  describe('fuzzProperty', () => {
+    it('should pass when the property holds for every run', async () => {
+      const report = await fuzzProperty([{ kind: 'number', integer: true }], async ([n]) => (n * 2 === n + n ? undefined : 'differs'), { runs: 100, seed: 1 });
+
+      expect(report).toEqual({ runsCompleted: 100 });
+    });
+
+    it('should shrink a failure to a minimal counterexample', async () => {
+      // Fails for any array containing a number >= 10
+      const property = async ([list]: any[]) => (list.some((n: number) => n >= 10) ? `max ${Math.max(...list)}` : undefined);
+      const schemas: ValueSchema[] = [{ kind: 'array', items: { kind: 'number', integer: true, min: 0, max: 100 } }];
+
+      const report = await fuzzProperty(schemas, property, { runs: 200, seed: 4 });
+
+      expect(report.failure).toBeDefined();
+      expect(report.failure?.args).toEqual([[10]]);
+      expect(report.failure?.detail).toBe('max 10');
+      expect(report.failure?.generatedArgs).toEqual([[200]]);
+      expect(report.failure?.shrinkSteps).toBeGreaterThan(0);
+      expect(report.runsCompleted).toBe(report.failure?.run);
+
+      // Replaying the seed reproduces the same failure
+      expect(await fuzzProperty(schemas, property, { runs: 200, seed: 4 })).toEqual(report);
+    });
+
+    it('should stop when asked to', async () => {
+      let calls = 0;
+      const report = await fuzzProperty([{ kind: 'boolean' }], async () => { calls++; return undefined; }, { runs: 100, seed: 1 }, () => calls >= 5);
+
+      expect(report).toEqual({ runsCompleted: 5 });
+    });
+  });
+});
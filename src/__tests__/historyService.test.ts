@@ -0,0 +1,129 @@
+/**
+ * Tests for HistoryService
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createRerunPrompt, formatHistoryReport, HistoryService } from '../services/historyService';
+import { BenchmarkRun } from '../models/types';
+import { MockOutputChannel } from './mocks';
+
+// Mock the vscode namespace
+jest.mock('vscode', () => ({
+  window: {
+    createOutputChannel: jest.fn()
+  }
+}), { virtual: true });
+
+/**
+ * Creates a recorded run of `sum`.
+ */
+function createRun(timestamp: number, overrides: Partial<BenchmarkRun> = {}): BenchmarkRun {
+  return {
+    entryPointName: 'sum',
+    testData: [1, 2, 3],
+    implementations: [
+      { name: 'Original', code: 'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }', description: 'Original implementation', executableCode: 'compiled', lineMap: [1] },
+      { name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }', description: 'reduce' }
+    ],
+    results: {
+      fastest: 'Alternative_1',
+      results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 250, margin: 0.02 }],
+      environment: { node: 'v20.11.0', v8: '11.3', platform: 'linux', arch: 'x64', cpuModel: 'Test CPU', cpuCount: 4 } as any
+    },
+    timestamp,
+    verdicts: [{ name: 'Alternative 1', status: 'VERIFIED' }],
+    model: 'copilot/gpt-4',
+    ...overrides
+  };
+}
+
+describe('HistoryService', () => {
+  let storageDir: string;
+  let service: HistoryService;
+
+  beforeEach(() => {
+    storageDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'perfcopilot-history-')), 'history');
+    service = new HistoryService(new MockOutputChannel('PerfCopilot') as any, storageDir, 2);
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(storageDir), { recursive: true, force: true });
+  });
+
+  it('should store runs without the derived executable code and list them newest first', async () => {
+    const listener = jest.fn();
+    service.onDidChange(listener);
+
+    const saved = await service.saveRun(createRun(1000));
+    await service.saveRun(createRun(2000, { entryPointName: 'other fn' }));
+
+    expect(saved.id).toBe('1000-sum');
+    expect(fs.existsSync(path.join(storageDir, '1000-sum.json'))).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    const runs = await service.getRuns();
+    expect(runs.map(run => run.id)).toEqual(['2000-other_fn', '1000-sum']);
+    expect(runs[1].implementations[0]).toEqual({
+      name: 'Original',
+      code: 'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }',
+      description: 'Original implementation'
+    });
+    expect(runs[1].model).toBe('copilot/gpt-4');
+    expect(await service.getRun('1000-sum')).toEqual(runs[1]);
+  });
+
+  it('should delete the oldest runs beyond the maximum', async () => {
+    await service.saveRun(createRun(1000));
+    await service.saveRun(createRun(3000));
+    await service.saveRun(createRun(2000));
+
+    expect((await service.getRuns()).map(run => run.timestamp)).toEqual([3000, 2000]);
+  });
+
+  it('should skip unreadable files and return no runs before the first save', async () => {
+    expect(await service.getRuns()).toEqual([]);
+
+    await service.saveRun(createRun(1000));
+    fs.writeFileSync(path.join(storageDir, '5000-broken.json'), '{');
+
+    expect((await service.getRuns()).map(run => run.id)).toEqual(['1000-sum']);
+    expect(await service.getRun('missing')).toBeUndefined();
+  });
+
+  it('should format a run as a Markdown report', () => {
+    const report = formatHistoryReport({ ...createRun(1000), id: '1000-sum' });
+
+    expect(report).toContain('# PerfCopilot run: `sum`');
+    expect(report).toContain('- **Model:** copilot/gpt-4');
+    expect(report).toContain('Node v20.11.0 (V8 11.3), linux/x64, Test CPU × 4');
+    expect(report).toContain('| **Alternative_1** | 250 | ±2.0% | – |');
+    expect(report).toContain('- Alternative 1: VERIFIED');
+    expect(report).toContain('### Alternative 1\n\n```js\nfunction sum(xs) { return xs.reduce((a, b) => a + b, 0); }\n```');
+    expect(report).not.toContain('Models per stage');
+    expect(formatHistoryReport({ ...createRun(1000), id: '1000-sum', model: undefined })).not.toContain('**Model:**');
+  });
+
+  it('should list the model of each stage when the stages used different models', () => {
+    const stageModels = { alternatives: 'copilot/gpt-4', benchmarkConfig: 'copilot/gpt-4', testInputs: 'copilot/gpt-4o-mini', explanation: 'copilot/gpt-4o-mini' };
+    const report = formatHistoryReport({ ...createRun(1000), id: '1000-sum', stageModels });
+
+    expect(report).toContain('- **Models per stage:** Alternatives: copilot/gpt-4, Benchmark configuration: copilot/gpt-4, Test inputs: copilot/gpt-4o-mini, Explanation: copilot/gpt-4o-mini');
+  });
+
+  it('should re-run a stored benchmark with the same implementations and data', () => {
+    expect(createRerunPrompt({ ...createRun(1000), id: '1000-sum' })).toBe([
+      '@PerfCopilot /benchmark',
+      '```js',
+      'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }',
+      '```',
+      '```js title="Alternative 1"',
+      'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }',
+      '```',
+      '```json',
+      '[1,2,3]',
+      '```'
+    ].join('\n'));
+  });
+});
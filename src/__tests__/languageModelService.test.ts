@@ -0,0 +1,251 @@
+/**
+ * Tests for LanguageModelService
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LanguageModelService, StageModels } from '../services/languageModelService';
+import { PipelineChatModel } from '../utils/vscodeLanguageModel';
+import { MockOutputChannel } from './mocks';
+
+// Mock the vscode namespace with the language model API and the settings the service uses
+jest.mock('vscode', () => {
+  class LanguageModelTextPart {
+    constructor(public value: string) {}
+  }
+  return {
+    LanguageModelTextPart,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    LanguageModelChatMessage: { User: jest.fn((content: string) => ({ role: 'user', content: [new LanguageModelTextPart(content)] })) },
+    lm: { selectChatModels: jest.fn() },
+    window: {
+      showQuickPick: jest.fn(),
+      showInformationMessage: jest.fn()
+    },
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    ConfigurationTarget: { Global: 1 },
+    workspace: {
+      workspaceFolders: undefined,
+      getConfiguration: jest.fn()
+    }
+  };
+}, { virtual: true });
+
+/**
+ * Text of the streamed answer of a chat model.
+ */
+async function readAnswer(model: vscode.LanguageModelChat, prompt: string): Promise<string> {
+  const response = await model.sendRequest([vscode.LanguageModelChatMessage.User(prompt)], {}, { isCancellationRequested: false } as any);
+  let text = '';
+  for await (const chunk of response.stream) {
+    text += (chunk as vscode.LanguageModelTextPart).value;
+  }
+  return text;
+}
+
+describe('LanguageModelService', () => {
+  const copilotModel = { vendor: 'copilot', name: 'GPT-4o', sendRequest: jest.fn() };
+  let settings: Record<string, unknown>;
+  let update: jest.Mock;
+  let service: LanguageModelService;
+  let dir: string;
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'perfcopilot-models-'));
+    settings = {};
+    update = jest.fn().mockResolvedValue(undefined);
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      get: jest.fn((key: string, defaultValue: any) => key in settings ? settings[key] : defaultValue),
+      update
+    }));
+    (vscode.lm.selectChatModels as jest.Mock).mockResolvedValue([copilotModel]);
+    service = new LanguageModelService(new MockOutputChannel('PerfCopilot') as any);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should select a Copilot GPT-4 model by default', async () => {
+    expect(await service.selectModel(token)).toBe(copilotModel);
+    expect(vscode.lm.selectChatModels).toHaveBeenCalledWith({ vendor: 'copilot', family: 'gpt-4' });
+  });
+
+  it('should select the configured vendor and family, falling back to any vendor of the family', async () => {
+    settings = { 'model.vendor': 'acme', 'model.family': 'claude' };
+    (vscode.lm.selectChatModels as jest.Mock).mockResolvedValueOnce([]);
+
+    expect(await service.selectModel(token)).toBe(copilotModel);
+    expect(vscode.lm.selectChatModels).toHaveBeenNthCalledWith(1, { vendor: 'acme', family: 'claude' });
+    expect(vscode.lm.selectChatModels).toHaveBeenNthCalledWith(2, { family: 'claude' });
+  });
+
+  it('should accept any vendor and family when they are empty, and fail without a model', async () => {
+    settings = { 'model.vendor': '', 'model.family': '' };
+    (vscode.lm.selectChatModels as jest.Mock).mockResolvedValue([]);
+
+    await expect(service.selectModel(token)).rejects.toThrow('No suitable language model found (vendor "any", family "any")');
+    expect(vscode.lm.selectChatModels).toHaveBeenCalledTimes(1);
+    expect(vscode.lm.selectChatModels).toHaveBeenCalledWith({});
+  });
+
+  it('should reject unknown providers', async () => {
+    settings = { 'model.provider': 'carrier-pigeon' };
+
+    await expect(service.selectModel(token)).rejects.toThrow('Unknown language model provider "carrier-pigeon". Known providers: vscode, openai-compatible, replay.');
+  });
+
+  it('should send the prompts to the OpenAI-compatible endpoint', async () => {
+    const originalFetch = global.fetch;
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ choices: [{ message: { content: 'answer' } }] }) });
+    global.fetch = fetchMock as any;
+    try {
+      settings = { 'model.provider': 'openai-compatible', 'model.endpoint': 'http://localhost:8080/v1', 'model.name': 'qwen2.5-coder' };
+
+      const model = await service.selectModel(token);
+
+      expect(model).toBeInstanceOf(PipelineChatModel);
+      expect(`${model.vendor}/${model.name}`).toBe('openai-compatible/qwen2.5-coder');
+      expect(await readAnswer(model, 'prompt')).toBe('answer');
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/chat/completions');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages).toEqual([{ role: 'user', content: 'prompt' }]);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  it('should require the model name of the OpenAI-compatible provider', async () => {
+    settings = { 'model.provider': 'openai-compatible' };
+
+    await expect(service.selectModel(token)).rejects.toThrow('Set perfcopilot.model.name');
+  });
+
+  it('should record the exchanges with the selected model and replay them', async () => {
+    const fixture = path.join(dir, 'fixtures', 'model.json');
+    copilotModel.sendRequest.mockResolvedValue({ stream: (async function* () { yield new vscode.LanguageModelTextPart('recorded answer'); })() });
+    settings = { 'model.record': true, 'model.fixture': fixture };
+
+    const recorder = await service.selectModel(token);
+    expect(`${recorder.vendor}/${recorder.name}`).toBe('copilot/GPT-4o');
+    expect(await readAnswer(recorder, 'prompt')).toBe('recorded answer');
+    expect(JSON.parse(fs.readFileSync(fixture, 'utf8'))).toEqual([{ prompt: 'prompt', response: 'recorded answer', model: 'copilot/GPT-4o' }]);
+
+    settings = { 'model.provider': 'replay', 'model.fixture': fixture };
+    const replay = await service.selectModel(token);
+    expect(`${replay.vendor}/${replay.name}`).toBe('replay/copilot/GPT-4o');
+    expect(await readAnswer(replay, 'prompt')).toBe('recorded answer');
+    await expect(readAnswer(replay, 'prompt')).rejects.toThrow('no recorded answer for this prompt (1 of 1 answers used)');
+    expect(copilotModel.sendRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not resolve a relative fixture without a workspace folder', async () => {
+    settings = { 'model.provider': 'replay' };
+
+    await expect(service.selectModel(token)).rejects.toThrow('Cannot resolve the fixture .perfcopilot/fixtures/model.json without an open workspace folder.');
+  });
+
+  it('should select registered providers until they are disposed', async () => {
+    const custom = { vendor: 'custom', name: 'model' } as vscode.LanguageModelChat;
+    const registration = service.registerProvider('custom', { selectModel: async () => custom });
+    settings = { 'model.provider': 'custom' };
+
+    expect(await service.selectModel(token)).toBe(custom);
+
+    registration.dispose();
+    await expect(service.selectModel(token)).rejects.toThrow('Unknown language model provider "custom"');
+  });
+
+  describe('stage models', () => {
+    const miniModel = { vendor: 'copilot', name: 'GPT-4o mini', sendRequest: jest.fn() };
+
+    beforeEach(() => {
+      (vscode.lm.selectChatModels as jest.Mock).mockImplementation(async (selector?: { family?: string }) =>
+        [selector?.family === 'gpt-4o-mini' ? miniModel : copilotModel]);
+    });
+
+    it('should merge the settings of a stage into the model settings', () => {
+      settings = { 'model.family': 'gpt-4o', 'model.stages': { explanation: { family: 'gpt-4o-mini', vendor: 42 }, unknown: { family: 'x' } } };
+
+      expect(service.getStageSettings('explanation')).toEqual(expect.objectContaining({ provider: 'vscode', vendor: 'copilot', family: 'gpt-4o-mini' }));
+      expect(service.getStageSettings('alternatives')).toEqual(expect.objectContaining({ family: 'gpt-4o' }));
+    });
+
+    it('should ignore the stage settings when replaying a fixture', () => {
+      settings = { 'model.provider': 'replay', 'model.stages': { explanation: { provider: 'vscode', family: 'gpt-4o-mini' } } };
+
+      expect(service.getStageSettings('explanation')).toEqual(expect.objectContaining({ provider: 'replay', family: 'gpt-4' }));
+    });
+
+    it('should select one model per distinct stage settings', async () => {
+      settings = { 'model.stages': { testInputs: { family: 'gpt-4o-mini' }, explanation: { family: 'gpt-4o-mini' } } };
+
+      const models = await service.selectStageModels(token);
+
+      expect(vscode.lm.selectChatModels).toHaveBeenCalledTimes(2);
+      expect(models.getModelIds()).toEqual({
+        alternatives: 'copilot/GPT-4o',
+        benchmarkConfig: 'copilot/GPT-4o',
+        testInputs: 'copilot/GPT-4o mini',
+        explanation: 'copilot/GPT-4o mini'
+      });
+    });
+
+    it('should measure the requests of each stage', async () => {
+      copilotModel.sendRequest.mockResolvedValue({ stream: (async function* () { yield new vscode.LanguageModelTextPart('12345678'); })() });
+      const counted = { ...miniModel, countTokens: jest.fn(async (text: any) => typeof text === 'string' ? 2 : 5) };
+      miniModel.sendRequest.mockResolvedValue({ stream: (async function* () { yield new vscode.LanguageModelTextPart('answer'); })() });
+      const models = new StageModels({
+        alternatives: copilotModel as any,
+        benchmarkConfig: copilotModel as any,
+        testInputs: counted as any,
+        explanation: counted as any
+      });
+
+      expect(await readAnswer(models.get('alternatives'), 'abcd')).toBe('12345678');
+      expect(await readAnswer(models.get('explanation'), 'prompt')).toBe('answer');
+
+      expect(models.getUsage()).toEqual([
+        expect.objectContaining({ stage: 'alternatives', model: 'copilot/GPT-4o', requests: 1, inputTokens: 1, outputTokens: 2 }),
+        expect.objectContaining({ stage: 'explanation', model: 'copilot/GPT-4o mini', requests: 1, inputTokens: 5, outputTokens: 2 })
+      ]);
+      expect(models.getUsage()[0].latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should save the model picked for a stage in the user settings', async () => {
+      settings = { 'model.stages': { explanation: { family: 'gpt-4o-mini' } } };
+      (vscode.lm.selectChatModels as jest.Mock).mockResolvedValue([copilotModel, { ...miniModel, family: 'gpt-4o-mini' }]);
+      (vscode.window.showQuickPick as jest.Mock)
+        .mockImplementationOnce(async (items: any[]) => items.find(item => item.label === 'Test inputs'))
+        .mockImplementationOnce(async (items: any[]) => items.find(item => item.label === 'GPT-4o mini'));
+
+      expect(await service.pickStageModel()).toBe(true);
+
+      expect(update).toHaveBeenCalledWith('model.stages', {
+        explanation: { family: 'gpt-4o-mini' },
+        testInputs: { provider: 'vscode', vendor: 'copilot', family: 'gpt-4o-mini' }
+      }, vscode.ConfigurationTarget.Global);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('PerfCopilot will use GPT-4o mini for test inputs.');
+    });
+
+    it('should reset all stages to the default model', async () => {
+      settings = { 'model.stages': { explanation: { family: 'gpt-4o-mini' } } };
+      (vscode.window.showQuickPick as jest.Mock)
+        .mockImplementationOnce(async (items: any[]) => items[0])
+        .mockImplementationOnce(async (items: any[]) => items[0]);
+
+      expect(await service.pickStageModel()).toBe(true);
+      expect(update).toHaveBeenCalledWith('model.stages', {}, vscode.ConfigurationTarget.Global);
+    });
+
+    it('should not change the settings when a pick is cancelled', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined);
+
+      expect(await service.pickStageModel()).toBe(false);
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+});
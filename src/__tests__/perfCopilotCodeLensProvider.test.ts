@@ -0,0 +1,150 @@
+/**
+ * Tests for PerfCopilotCodeLensProvider
+ */
+
+import * as vm from 'vm';
+import * as vscode from 'vscode';
+import { describeSpeedup, PerfCopilotCodeLensProvider } from '../perfCopilotCodeLensProvider';
+import { BenchmarkRun } from '../models/types';
+import { getExecutableCode, prepareImplementation } from '../utils/transpiler';
+import { MockOutputChannel } from './mocks';
+
+// Mock the vscode namespace with the ranges and lenses the provider creates
+jest.mock('vscode', () => {
+  class Position {
+    constructor(public line: number, public character: number) {}
+  }
+  class Range {
+    constructor(public start: Position, public end: Position) {}
+  }
+  class CodeLens {
+    constructor(public range: Range, public command?: any) {}
+  }
+  class EventEmitter {
+    event = jest.fn();
+    fire = jest.fn();
+    dispose = jest.fn();
+  }
+  return {
+    Position,
+    Range,
+    CodeLens,
+    EventEmitter,
+    workspace: {
+      getConfiguration: jest.fn(() => ({ get: jest.fn((_key: string, defaultValue: any) => defaultValue) }))
+    }
+  };
+}, { virtual: true });
+
+/**
+ * Creates a text document backed by a string.
+ */
+function createDocument(text: string) {
+  return {
+    uri: { toString: () => 'file:///math.ts' },
+    getText: (range?: vscode.Range) => {
+      if (!range) {
+        return text;
+      }
+      const lines = text.split('\n').slice(range.start.line, range.end.line + 1);
+      lines[lines.length - 1] = lines[lines.length - 1].slice(0, range.end.character);
+      lines[0] = lines[0].slice(range.start.character);
+      return lines.join('\n');
+    },
+    positionAt: (offset: number) => {
+      const before = text.slice(0, offset).split('\n');
+      return new vscode.Position(before.length - 1, before[before.length - 1].length);
+    }
+  };
+}
+
+/**
+ * Creates a benchmark run with the given ops/sec per implementation.
+ */
+function createRun(fastest: string, ops: Record<string, number>): BenchmarkRun {
+  return {
+    entryPointName: 'sum',
+    testData: [],
+    implementations: [],
+    results: { fastest, results: Object.entries(ops).map(([name, value]) => ({ name, ops: value, margin: 0.01 })) },
+    timestamp: 0
+  };
+}
+
+describe('PerfCopilotCodeLensProvider', () => {
+  const source = [
+    'export function sum(xs: number[]) {',
+    '  return xs.reduce((a, b) => a + b, 0);',
+    '}',
+    'const double = (x: number) => x * 2;',
+    'class Stats {',
+    '  mean(xs: number[]) { return sum(xs) / xs.length; }',
+    '}'
+  ].join('\n');
+
+  let runs: Map<string, BenchmarkRun>;
+  let provider: PerfCopilotCodeLensProvider;
+
+  beforeEach(() => {
+    runs = new Map();
+    provider = new PerfCopilotCodeLensProvider(new MockOutputChannel('PerfCopilot') as any, name => runs.get(name));
+  });
+
+  it('should show the optimize action above every function, arrow function and method', () => {
+    const lenses = provider.provideCodeLenses(createDocument(source) as any);
+
+    expect(lenses.map(lens => lens.command?.title)).toEqual(Array(3).fill('⚡ Optimize with PerfCopilot'));
+    expect(lenses.map(lens => lens.range.start)).toEqual([
+      new vscode.Position(0, 7),
+      new vscode.Position(3, 0),
+      new vscode.Position(5, 2)
+    ]);
+    expect(lenses[0].range.end).toEqual(new vscode.Position(2, 1));
+    expect(lenses[0].command).toEqual(expect.objectContaining({
+      command: 'perfcopilot.optimizeFunction',
+      arguments: [expect.anything(), lenses[0].range]
+    }));
+  });
+
+  it('should send a method selection that can run on its own', () => {
+    const document = createDocument([
+      'class Cart {',
+      '  static total(items: number[]) {',
+      '    return items.reduce((a, b) => a + b, 0);',
+      '  }',
+      '}'
+    ].join('\n'));
+    const [lens] = provider.provideCodeLenses(document as any);
+    const selectedText = document.getText(lens.command?.arguments?.[1]);
+
+    const prepared = prepareImplementation({ name: 'Original', code: selectedText, description: 'Original implementation' });
+    const context = vm.createContext({});
+    vm.runInContext(getExecutableCode(prepared), context);
+
+    expect(selectedText.startsWith('static total(items: number[])')).toBe(true);
+    expect(vm.runInContext('total([1, 2, 3])', context)).toBe(6);
+  });
+
+  it('should summarize the last run of a benchmarked function', () => {
+    runs.set('sum', createRun('Alternative_1', { Original: 100, Alternative_1: 320 }));
+
+    const titles = provider.provideCodeLenses(createDocument(source) as any).map(lens => lens.command?.title);
+
+    expect(titles).toEqual([
+      '⚡ Optimize with PerfCopilot',
+      'Last run: 3.2x faster available',
+      '⚡ Optimize with PerfCopilot',
+      '⚡ Optimize with PerfCopilot'
+    ]);
+  });
+
+  it('should report when the original was the fastest', () => {
+    expect(describeSpeedup(createRun('Original', { Original: 300, Alternative_1: 100 }))).toBe('original is fastest');
+  });
+
+  it('should show no lenses when disabled in the settings', () => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({ get: jest.fn().mockReturnValue(false) });
+
+    expect(provider.provideCodeLenses(createDocument(source) as any)).toEqual([]);
+  });
+});
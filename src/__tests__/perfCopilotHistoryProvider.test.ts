@@ -0,0 +1,119 @@
+/**
+ * Tests for PerfCopilotHistoryProvider
+ */
+
+import * as vscode from 'vscode';
+import { HistoryNode, PerfCopilotHistoryProvider } from '../perfCopilotHistoryProvider';
+import { HistoryEntry } from '../models/types';
+import { MockOutputChannel } from './mocks';
+
+// Mock the vscode namespace with the tree items, documents and pickers the view uses
+jest.mock('vscode', () => {
+  class TreeItem {
+    description?: string;
+    tooltip?: string;
+    iconPath?: any;
+    contextValue?: string;
+    command?: any;
+    constructor(public label: string, public collapsibleState: number) {}
+  }
+  class EventEmitter {
+    event = jest.fn();
+    fire = jest.fn();
+    dispose = jest.fn();
+  }
+  return {
+    TreeItem,
+    EventEmitter,
+    TreeItemCollapsibleState: { None: 0, Collapsed: 1 },
+    ThemeIcon: jest.fn(),
+    workspace: {
+      openTextDocument: jest.fn(async (options: any) => ({ uri: { content: options.content } }))
+    },
+    window: {
+      showTextDocument: jest.fn(),
+      showQuickPick: jest.fn(),
+      showInformationMessage: jest.fn()
+    },
+    commands: {
+      executeCommand: jest.fn()
+    }
+  };
+}, { virtual: true });
+
+/**
+ * Creates a stored run.
+ */
+function createEntry(id: string, entryPointName: string, timestamp: number): HistoryEntry {
+  return {
+    id,
+    entryPointName,
+    testData: [1],
+    implementations: [{ name: 'Original', code: `function ${entryPointName}() {}`, description: '' }],
+    results: { fastest: 'Original', results: [{ name: 'Original', ops: 100, margin: 0.01 }] },
+    timestamp
+  };
+}
+
+describe('PerfCopilotHistoryProvider', () => {
+  const entries = [createEntry('3000-sum', 'sum', 3000), createEntry('2000-max', 'max', 2000), createEntry('1000-sum', 'sum', 1000)];
+  let historyService: { getRuns: jest.Mock };
+  let provider: PerfCopilotHistoryProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    historyService = { getRuns: jest.fn().mockResolvedValue(entries) };
+    provider = new PerfCopilotHistoryProvider(new MockOutputChannel('PerfCopilot') as any, historyService as any);
+  });
+
+  it('should group runs by function, newest first', async () => {
+    const functions = await provider.getChildren();
+
+    expect(functions.map(node => node.kind === 'function' && node.functionName)).toEqual(['sum', 'max']);
+    expect(provider.getTreeItem(functions[0]).description).toBe('2 runs');
+
+    const runs = await provider.getChildren(functions[0]);
+    expect(runs.map(node => node.kind === 'run' && node.entry.id)).toEqual(['3000-sum', '1000-sum']);
+    const item = provider.getTreeItem(runs[0]);
+    expect(item.description).toBe('original is fastest');
+    expect(item.contextValue).toBe('perfcopilotRun');
+    expect(item.command).toEqual(expect.objectContaining({ command: 'perfcopilot.history.openReport', arguments: [runs[0]] }));
+  });
+
+  it('should open the report of a run', async () => {
+    await provider.openReport({ kind: 'run', entry: entries[0] });
+
+    expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({ content: expect.stringContaining('# PerfCopilot run: `sum`'), language: 'markdown' });
+    expect(vscode.window.showTextDocument).toHaveBeenCalled();
+  });
+
+  it('should re-run a run through /benchmark in the chat', async () => {
+    await provider.rerun({ kind: 'run', entry: entries[0] });
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('workbench.action.chat.open', {
+      query: expect.stringMatching(/^@PerfCopilot \/benchmark\n```js\nfunction sum\(\) \{\}\n```/)
+    });
+  });
+
+  it('should diff a run against another run of the same function, older run first', async () => {
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items: any[]) => items[0]);
+    const node: HistoryNode = { kind: 'run', entry: entries[0] };
+
+    await provider.diff(node);
+
+    const [items] = (vscode.window.showQuickPick as jest.Mock).mock.calls[0];
+    expect(items.map((item: any) => item.entry.id)).toEqual(['1000-sum']);
+    const [, left, right] = (vscode.commands.executeCommand as jest.Mock).mock.calls[0];
+    expect(left.content).toContain(new Date(1000).toLocaleString());
+    expect(right.content).toContain(new Date(3000).toLocaleString());
+  });
+
+  it('should not diff when there is no other run', async () => {
+    historyService.getRuns.mockResolvedValue([entries[0]]);
+
+    await provider.diff({ kind: 'run', entry: entries[0] });
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('The PerfCopilot history has no runs to choose from.');
+    expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+  });
+});
@@ -9,9 +9,11 @@ import * as vscode from 'vscode';
 import { PerfCopilotParticipant } from '../perfCopilotParticipant';
 import { MockOutputChannel } from './mocks';
 import { BenchmarkService } from '../services/benchmarkService';
-import { verifyFunctionalEquivalence } from '../utils/correctnessVerifier';
-import { FunctionImplementation, BenchmarkComparison } from '../models/types';
+import { StageModels } from '../services/languageModelService';
+import { verifyAlternatives } from '../utils/correctnessVerifier';
+import { FunctionImplementation, BenchmarkComparison, VerificationReport } from '../models/types';
 import { isValidJavaScriptFunction } from '../utils/functions';
+import * as responses from '../core/responses';
 // Require the mock file instead of importing
 const vscodeMock = require('./vscode-mock');
 
@@ -37,7 +39,7 @@ jest.mock('../utils/functions', () => ({
 
 // Restore the global mock for correctnessVerifier
 jest.mock('../utils/correctnessVerifier', () => ({
-  verifyFunctionalEquivalence: jest.fn(), // Default mock implementation
+  verifyAlternatives: jest.fn(), // Default mock implementation
 }));
 
 // Add type for LanguageModelChatResponse if not available globally in tests
@@ -135,6 +137,7 @@ describe('PerfCopilotParticipant', () => {
     mockResponse = {
       markdown: jest.fn(),
       progress: jest.fn(),
+      button: jest.fn(),
     };
     mockCancellationToken = {
       isCancellationRequested: false,
@@ -230,8 +233,20 @@ describe('PerfCopilotParticipant', () => {
         .mockResolvedValueOnce({ text: mockInputGenerator() })          // Call 3: Input Gen (for Correctness Check)
         .mockResolvedValueOnce({ text: mockExplanationGenerator() });     // Call 4: Explanation
 
-      // Configure the globally mocked verifyFunctionalEquivalence for this test
-      (verifyFunctionalEquivalence as jest.Mock).mockResolvedValue([sampleAlternatives[0]]);
+      // Configure the globally mocked verifyAlternatives for this test
+      (verifyAlternatives as jest.Mock).mockResolvedValue({
+        testInputs: [[[1, 2, 2, 3]], [[5, 5, 5]], [[]]],
+        verdicts: [
+          { alternative: sampleAlternatives[0], status: 'VERIFIED', inputsTried: 3 },
+          {
+            alternative: sampleAlternatives[1],
+            status: 'REJECTED',
+            reason: 'Not equivalent',
+            inputsTried: 2,
+            mismatch: { args: [[5, 5, 5]], inputNumber: 2, expected: '[ 5, 5 ]', actual: '[ 5 ]', difference: 'result.length: 2 vs 1' }
+          }
+        ]
+      });
 
       // Revert to mockResolvedValueOnce for simplicity
       mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
@@ -273,6 +288,8 @@ describe('PerfCopilotParticipant', () => {
       expect(mockResponse.progress).toHaveBeenCalledWith('Verifying functional correctness...');
       // We expect 1 alternative to pass based on the benchmark mock setup
       expect(mockResponse.markdown).toHaveBeenCalledWith(expect.stringContaining('✅ 1 alternatives passed correctness check.')); 
+      expect(mockResponse.markdown).toHaveBeenCalledWith(expect.stringContaining('| Alternative 1 | ✅ VERIFIED | 3/3 |  |'));
+      expect(mockResponse.markdown).toHaveBeenCalledWith(expect.stringContaining('ℹ️ Rejected 1 alternatives due to incorrect results.'));
       // Check if the progress message before benchmarking is sent
       expect(mockResponse.progress).toHaveBeenCalledWith('Running benchmarks...'); 
       expect(mockBenchmarkService.runBenchmark).toHaveBeenCalled();
@@ -355,7 +372,7 @@ describe('PerfCopilotParticipant', () => {
         .mockReturnValueOnce(originalFunctionCode);
       
       // Mock parseAlternativeImplementations to prevent further processing in this specific test
-      const parseAlternativesSpy = jest.spyOn(participant as any, 'parseAlternativeImplementations').mockReturnValueOnce([]);
+      const parseAlternativesSpy = jest.spyOn(responses, 'parseAlternativeImplementations').mockReturnValueOnce([]);
 
       // Call the request handler
       await requestHandler(
@@ -773,6 +790,596 @@ describe('PerfCopilotParticipant', () => {
   });
 
   // --- Tests for sendRequestWithRetry --- 
+  describe('formatVerificationReport', () => {
+    const report: VerificationReport = {
+      testInputs: [[[1, 2]], [[3]]],
+      verdicts: [
+        {
+          alternative: { name: 'Alternative_1', code: '', description: '' },
+          status: 'REJECTED',
+          reason: 'Error behavior differs',
+          inputsTried: 1,
+          mismatch: { args: [[1, 2]], inputNumber: 1, expected: 'throws RangeError: bad | input', actual: '3', difference: 'Expected RangeError' }
+        },
+        {
+          alternative: { name: 'Alternative_2', code: '', description: '' },
+          status: 'INDETERMINATE',
+          reason: 'Original function failed on all inputs',
+          inputsTried: 0
+        }
+      ]
+    };
+
+    it('should render one row per alternative with the first mismatching input', () => {
+      const markdown: string = (participant as any).formatVerificationReport(report, 'sum');
+
+      expect(markdown).toContain('| Alternative | Verdict | Inputs | Details |');
+      expect(markdown).toContain('| Alternative_1 | ❌ REJECTED | 1/2 | Error behavior differs on input 1: `sum([1,2])` expected `throws RangeError: bad \\| input`, got `3` (Expected RangeError) |');
+      expect(markdown).toContain('| Alternative_2 | ⚠️ INDETERMINATE | 0/2 | Original function failed on all inputs |');
+    });
+  });
+
+  describe('alternatives options', () => {
+    it('should read --count and --strategy from the prompt and strip them', () => {
+      const options = (participant as any).getAlternativesOptions('--count 5 --strategy algorithmic,memory,fast function f() {}');
+
+      expect(options).toEqual({ count: 5, strategies: ['algorithmic', 'memory'], unknownStrategies: ['fast'], prompt: 'function f() {}' });
+      expect((participant as any).getAlternativesOptions('--count=50 function f() {}').count).toBe(10);
+      expect((participant as any).getAlternativesOptions('--count 0 function f() {}').count).toBe(1);
+    });
+
+    it('should fall back to the settings', () => {
+      (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({
+        get: jest.fn((key: string, defaultValue: any) => ({ 'alternatives.count': 3, 'alternatives.strategies': ['micro'] } as any)[key] ?? defaultValue)
+      });
+
+      expect((participant as any).getAlternativesOptions('function f() {}'))
+        .toEqual({ count: 3, strategies: ['micro'], unknownStrategies: [], prompt: 'function f() {}' });
+    });
+  });
+
+  describe('formatLineage', () => {
+    const original: FunctionImplementation = { name: 'Original', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }', description: '' };
+    const winner: FunctionImplementation = { name: 'Alternative 1', code: 'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }', description: 'Plain loop' };
+
+    it('should render the lineage as a table', () => {
+      const markdown: string = (participant as any).formatLineage([
+        { implementation: original, generation: 0, ops: 100 },
+        { implementation: winner, generation: 1, parent: 'Original', ops: 200, improvement: 1 }
+      ]);
+
+      expect(markdown).toContain('winner: Alternative 1');
+      expect(markdown).toContain('| 0 | Original | – | 100 | – |');
+      expect(markdown).toContain('| 1 | Alternative 1 | Original | 200 | 100.0% faster |');
+    });
+  });
+
+  describe('stage commands', () => {
+    const fence = '```';
+    const original = 'function total(xs) { return xs.reduce((a, b) => a + b, 0); }';
+    const version = 'function totalLoop(xs) { let t = 0; for (const x of xs) t += x; return t; }';
+    const twoVersions = `${fence}js\n${original}\n${fence}\n${fence}js\n${version}\n${fence}`;
+    const results: BenchmarkComparison = {
+      fastest: 'Version_2',
+      results: [{ name: 'Original', ops: 1000, margin: 0.01 }, { name: 'Version_2', ops: 3000, margin: 0.02 }]
+    };
+
+    const run = (command: string, prompt: string) =>
+      requestHandler({ prompt, command } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+    const respondWith = (text: string) => {
+      mockLM.sendRequest.mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(text); })() });
+    };
+
+    const markdown = () => mockResponse.markdown.mock.calls.map((call: any[]) => call[0]).join('\n');
+
+    it('/optimize should run the full analysis with the request options', async () => {
+      respondWith('No alternatives.');
+
+      const result = await run('optimize', `--count 5 --strategy micro ${fence}js\n${original}\n${fence}`);
+
+      const alternativesPrompt: string = mockLM.sendRequest.mock.calls[0][0][0].content;
+      expect(alternativesPrompt).toContain('Generate exactly 5 distinct alternative implementations');
+      expect(alternativesPrompt).toContain('micro-optimizations');
+      expect(markdown()).not.toContain('Unknown command');
+      expect(result?.metadata).toEqual({ message: 'No alternatives parsed.' });
+    });
+
+    it('/benchmark should benchmark the given versions with the given data and no model request', async () => {
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce(results);
+      const listener = jest.fn();
+      participant.onDidRecordRun(listener);
+
+      const result = await run('benchmark', `${twoVersions}\n${fence}json\n[1, 2, 3]\n${fence}`);
+
+      expect(mockLM.sendRequest).not.toHaveBeenCalled();
+      const module: string = mockBenchmarkService.runBenchmark.mock.calls[0][0];
+      expect(module).toContain('const testData = [\n  1,\n  2,\n  3\n];');
+      expect(module).toContain('"Original"');
+      expect(module).toContain('"Version_2"');
+      // The version's entry point is renamed to the original's before the benchmark renames it per implementation
+      expect(mockBenchmarkService.replaceRecursiveCalls).toHaveBeenCalledWith(expect.stringContaining('function total(xs) { let t = 0;'), 'total', 'Version_2');
+      expect(markdown()).toContain('| **Version_2** 🏆 | 3000 | ±2.0% | – |');
+      expect(result?.metadata?.functionName).toBe('total');
+      expect(listener.mock.calls[0][0].model).toBeUndefined();
+    });
+
+    it('/benchmark should generate the data when none is given', async () => {
+      respondWith(`${fence}json\n{ "entryPointName": "total", "testData": [5, 6] }\n${fence}`);
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce(results);
+      const listener = jest.fn();
+      participant.onDidRecordRun(listener);
+
+      await run('benchmark', twoVersions);
+
+      expect((vscode.LanguageModelChatMessage.User as jest.Mock).mock.calls[0][0]).toContain('Generate test data for benchmarking');
+      expect(mockBenchmarkService.runBenchmark.mock.calls[0][0]).toContain('const testData = [\n  5,\n  6\n];');
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ model: 'mockVendor/mockModel' }));
+    });
+
+    it('/verify should check the versions against the first one', async () => {
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1]]],
+        verdicts: [{ alternative: versions[0], status: 'VERIFIED', inputsTried: 1 }]
+      }));
+
+      const result = await run('verify', twoVersions);
+
+      const [originalArg, versionsArg, , , , , entryPointName] = (verifyAlternatives as jest.Mock).mock.calls[0];
+      expect(originalArg.name).toBe('Original');
+      expect(versionsArg.map((v: FunctionImplementation) => v.name)).toEqual(['Version 2']);
+      expect(entryPointName).toBe('total');
+      expect(markdown()).toContain('| Version 2 | ✅ VERIFIED | 1/1 |  |');
+      expect(result?.metadata?.verdicts).toEqual([{ name: 'Version 2', status: 'VERIFIED' }]);
+      expect(mockBenchmarkService.runBenchmark).not.toHaveBeenCalled();
+    });
+
+    it('/verify should require two versions', async () => {
+      await run('verify', `${fence}js\n${original}\n${fence}`);
+
+      expect(verifyAlternatives).not.toHaveBeenCalled();
+      expect(markdown()).toContain('needs at least 2 versions');
+    });
+
+    it('/explain should explain the function without asking for a rewrite', async () => {
+      respondWith('The reduce call allocates a closure.');
+
+      await run('explain', `${fence}js\n${original}\n${fence}`);
+
+      expect((vscode.LanguageModelChatMessage.User as jest.Mock).mock.calls[0][0]).toContain('Do **not** rewrite the function');
+      expect(mockResponse.markdown).toHaveBeenCalledWith('The reduce call allocates a closure.');
+    });
+
+    it('/testdata should only generate benchmark data', async () => {
+      respondWith(`${fence}json\n{ "entryPointName": "total", "testData": [1, 2] }\n${fence}`);
+
+      await run('testdata', `${fence}js\n${original}\n${fence}`);
+
+      expect(markdown()).toContain('**Benchmark data** for `total`');
+      expect(markdown()).toContain('[\n  1,\n  2\n]');
+      expect(mockBenchmarkService.runBenchmark).not.toHaveBeenCalled();
+    });
+
+    it('/compare should benchmark against the previous run with its data', async () => {
+      mockBenchmarkService.runBenchmark
+        .mockResolvedValueOnce(results)
+        .mockResolvedValueOnce({
+          fastest: 'Version_2',
+          results: [{ name: 'Original', ops: 1100, margin: 0.01 }, { name: 'Version_2', ops: 2900, margin: 0.01 }, { name: 'Current', ops: 1450, margin: 0.01 }]
+        });
+      await run('benchmark', `${twoVersions}\n${fence}json\n[1, 2, 3]\n${fence}`);
+
+      await run('compare', `${fence}js\nfunction total(xs) { return xs.length ? xs[0] + total(xs.slice(1)) : 0; }\n${fence}`);
+
+      const module: string = mockBenchmarkService.runBenchmark.mock.calls[1][0];
+      expect(module).toContain('"Current"');
+      expect(module).toContain('const testData = [\n  1,\n  2,\n  3\n];');
+      expect(markdown()).toContain('| Current | 1450 | ±1.0% | – | – | – |');
+      expect(markdown()).toContain('| Original | 1100 | ±1.0% | – | 1000 | 10.0% faster |');
+      expect(markdown()).toContain('`Current` is 50.0% slower compared to Version_2, the fastest implementation of the previous run.');
+    });
+
+    it('/compare should compare with the latest run in the history of an earlier session', async () => {
+      const historyService = {
+        getRuns: jest.fn().mockResolvedValue([{
+          id: '1-total',
+          entryPointName: 'total',
+          testData: [4, 5],
+          implementations: [{ name: 'Original', code: 'function total(xs: number[]): number { return xs.reduce((a, b) => a + b, 0); }', description: '' }],
+          results: { fastest: 'Original', results: [{ name: 'Original', ops: 900, margin: 0.01 }] },
+          timestamp: 1
+        }])
+      };
+      const historyParticipant = new PerfCopilotParticipant(mockOutputChannel as any, mockBenchmarkService, undefined, historyService as any);
+      const handler = (historyParticipant as any).createRequestHandler().bind(historyParticipant);
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'Original',
+        results: [{ name: 'Original', ops: 1000, margin: 0.01 }, { name: 'Current', ops: 500, margin: 0.01 }]
+      });
+
+      await handler({ prompt: `${fence}js\n${original}\n${fence}`, command: 'compare' } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      const module: string = mockBenchmarkService.runBenchmark.mock.calls[0][0];
+      expect(historyService.getRuns).toHaveBeenCalled();
+      expect(module).toContain('const testData = [\n  4,\n  5\n];');
+      expect(module).not.toContain('xs: number[]');
+      expect(markdown()).toContain('`Current` is 50.0% slower compared to Original, the fastest implementation of the previous run.');
+    });
+
+    it('/compare should report when there is no previous run', async () => {
+      await run('compare', `${fence}js\n${original}\n${fence}`);
+
+      expect(mockBenchmarkService.runBenchmark).not.toHaveBeenCalled();
+      expect(markdown()).toContain('There is no previous run of `total`');
+    });
+  });
+
+  describe('user-written versions', () => {
+    const fence = '```';
+    const prompt = [
+      `${fence}js title="native"`,
+      'function unique(xs) { return xs.filter((x, i) => xs.indexOf(x) === i); }',
+      fence,
+      `${fence}js title="lodash-version"`,
+      'function uniqueSet(xs) { return [...new Set(xs)]; }',
+      fence
+    ].join('\n');
+
+    const respondWith = (...texts: string[]) => {
+      for (const text of texts) {
+        mockLM.sendRequest.mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(text); })() });
+      }
+    };
+    const noAlternatives = `${fence}json\n[]\n${fence}`;
+    const benchmarkConfig = `${fence}json\n{ "entryPointName": "unique", "testData": [1, 2, 2], "implementations": {} }\n${fence}`;
+
+    it('should extract the first labelled block without its label', () => {
+      expect((participant as any).extractFunctionCodeFromPrompt(prompt))
+        .toBe('function unique(xs) { return xs.filter((x, i) => xs.indexOf(x) === i); }');
+    });
+
+    it('should verify and benchmark the labelled versions with the alternatives', async () => {
+      respondWith(noAlternatives, benchmarkConfig, 'Explanation');
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 1]]],
+        verdicts: versions.map((alternative: FunctionImplementation) => ({ alternative, status: 'VERIFIED', inputsTried: 1 }))
+      }));
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'lodash_version',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'lodash_version', ops: 400, margin: 0.01 }]
+      });
+
+      await requestHandler({ prompt } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      expect(mockLM.sendRequest).toHaveBeenCalledTimes(3);
+      const [original, versions] = (verifyAlternatives as jest.Mock).mock.calls[0];
+      expect(original.name).toBe('Original');
+      expect(versions).toEqual([expect.objectContaining({ name: 'lodash-version', userProvided: true, code: 'function unique(xs) { return [...new Set(xs)]; }' })]);
+      expect(mockBenchmarkService.runBenchmark.mock.calls[0][0]).toContain('"lodash_version"');
+      expect(mockResponse.markdown).toHaveBeenCalledWith(expect.stringContaining('Including 1 version(s) from your request: `lodash-version`'));
+    });
+
+    it('should take the first block as the original when it has no language tag', async () => {
+      respondWith(noAlternatives, benchmarkConfig, 'Explanation');
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 1]]],
+        verdicts: versions.map((alternative: FunctionImplementation) => ({ alternative, status: 'VERIFIED', inputsTried: 1 }))
+      }));
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'Set',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Set', ops: 400, margin: 0.01 }]
+      });
+      const mixed = [
+        fence,
+        'function unique(xs) { return xs.filter((x, i) => xs.indexOf(x) === i); }',
+        fence,
+        `${fence}js title="Set"`,
+        'function unique(xs) { return [...new Set(xs)]; }',
+        fence
+      ].join('\n');
+
+      await requestHandler({ prompt: mixed } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      const [original, versions] = (verifyAlternatives as jest.Mock).mock.calls[0];
+      expect(original.code).toBe('function unique(xs) { return xs.filter((x, i) => xs.indexOf(x) === i); }');
+      expect(versions).toEqual([expect.objectContaining({ name: 'Set', code: 'function unique(xs) { return [...new Set(xs)]; }' })]);
+    });
+
+    it('should not send rejected user versions to the repair loop', async () => {
+      respondWith(noAlternatives, benchmarkConfig);
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 1]]],
+        verdicts: [{ alternative: versions[0], status: 'REJECTED', reason: 'Not equivalent', inputsTried: 1 }]
+      }));
+
+      await requestHandler({ prompt } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      expect(mockLM.sendRequest).toHaveBeenCalledTimes(2);
+      expect(mockBenchmarkService.runBenchmark).not.toHaveBeenCalled();
+      expect(mockResponse.markdown).toHaveBeenCalledWith(expect.stringContaining('No alternative implementations passed the functional correctness check'));
+    });
+  });
+
+  describe('applying the winner', () => {
+    const original = { name: 'Original', code: 'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }', description: 'Original implementation' };
+    const location = { uri: 'file:///src/sum.ts', startLine: 4, startCharacter: 0, endLine: 4, endCharacter: 68, languageId: 'typescript' };
+
+    it('should restore the original function name and attach the recorded location', () => {
+      participant.registerSelectionLocation(`${original.code}\n`, location);
+
+      const request = (participant as any).createApplyRequest(
+        original,
+        { name: 'Alternative 1', code: 'function sumFast(xs) { return xs.reduce((a, b) => a + b, 0); }', description: '' },
+        'sum'
+      );
+
+      expect(request).toEqual({
+        implementationName: 'Alternative 1',
+        functionName: 'sum',
+        code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }',
+        originalCode: original.code,
+        languageId: 'typescript',
+        location
+      });
+    });
+
+    it('should keep the code of a winner that already defines the entry point', () => {
+      const code = 'function helper(xs) { return xs.length; }\nfunction sum(xs) { return helper(xs) && xs.reduce((a, b) => a + b, 0); }\nfunction unused() {}';
+
+      const request = (participant as any).createApplyRequest(original, { name: 'Alternative 2', code, description: '' }, 'sum');
+
+      expect(request.code).toBe(code);
+      expect(request.languageId).toBe('javascript');
+      expect(request.location).toBeUndefined();
+    });
+
+    it('should offer a button to apply the fastest verified implementation', async () => {
+      const fence = '```';
+      mockLM.sendRequest
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n[]\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n{ "entryPointName": "sum", "testData": [1, 2], "implementations": {} }\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart('Explanation'); })() });
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 2]]],
+        verdicts: versions.map((alternative: FunctionImplementation) => ({ alternative, status: 'VERIFIED', inputsTried: 1 }))
+      }));
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'reduce',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'reduce', ops: 300, margin: 0.01 }]
+      });
+      const prompt = `${fence}js\n${original.code}\n${fence}\n${fence}js title="reduce"\nfunction sum(xs) { return xs.reduce((a, b) => a + b, 0); }\n${fence}`;
+
+      await requestHandler({ prompt } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      expect(mockResponse.button).toHaveBeenCalledWith({
+        command: 'perfcopilot.applyImplementation',
+        title: 'Review and apply reduce',
+        arguments: [expect.objectContaining({ implementationName: 'reduce', functionName: 'sum' })]
+      });
+    });
+
+    it('should not offer to apply when the original is the fastest', async () => {
+      const fence = '```';
+      mockLM.sendRequest
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n[]\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n{ "entryPointName": "sum", "testData": [1, 2], "implementations": {} }\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart('Explanation'); })() });
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 2]]],
+        verdicts: versions.map((alternative: FunctionImplementation) => ({ alternative, status: 'VERIFIED', inputsTried: 1 }))
+      }));
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'Original',
+        results: [{ name: 'Original', ops: 300, margin: 0.01 }, { name: 'reduce', ops: 100, margin: 0.01 }]
+      });
+      const prompt = `${fence}js\n${original.code}\n${fence}\n${fence}js title="reduce"\nfunction sum(xs) { return xs.reduce((a, b) => a + b, 0); }\n${fence}`;
+
+      await requestHandler({ prompt } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      expect(mockResponse.markdown).toHaveBeenCalledWith('Explanation');
+      expect(mockResponse.button).not.toHaveBeenCalledWith(expect.objectContaining({ command: 'perfcopilot.applyImplementation' }));
+    });
+
+    it('should offer to pin the winner as the baseline', async () => {
+      const fence = '```';
+      mockLM.sendRequest
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n[]\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n{ "entryPointName": "sum", "testData": [1, 2], "implementations": {} }\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart('Explanation'); })() });
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 2]]],
+        verdicts: versions.map((alternative: FunctionImplementation) => ({ alternative, status: 'VERIFIED', inputsTried: 1 }))
+      }));
+      const results = { fastest: 'reduce', results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'reduce', ops: 300, margin: 0.01 }] };
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce(results);
+      const prompt = `${fence}js\n${original.code}\n${fence}\n${fence}js title="reduce"\nfunction sum(xs) { return xs.reduce((a, b) => a + b, 0); }\n${fence}`;
+
+      await requestHandler({ prompt } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      const pinButton = mockResponse.button.mock.calls.map(([button]: any[]) => button).find((button: any) => button.command === 'perfcopilot.pinBaseline');
+      expect(pinButton.title).toBe('Pin reduce as baseline');
+      const [baseline] = pinButton.arguments;
+      expect(baseline).toEqual(expect.objectContaining({
+        entryPointName: 'sum',
+        testData: [1, 2],
+        implementation: expect.objectContaining({ name: 'reduce', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }' }),
+        results,
+        resultName: 'reduce'
+      }));
+      expect(baseline.implementation.executableCode).toBeUndefined();
+      expect(baseline.benchmarkModule).toContain('"Original"');
+      expect(baseline.benchmarkModule).toContain('"reduce"');
+    });
+
+    it('should benchmark the current source against the pinned implementation', async () => {
+      const results = { fastest: 'Baseline', results: [] };
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce(results);
+      const baseline = {
+        entryPointName: 'sum',
+        testData: [1, 2],
+        implementation: { name: 'reduce', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }', description: '' },
+        results: { fastest: 'reduce', results: [] },
+        resultName: 'reduce',
+        benchmarkModule: '',
+        timestamp: 0
+      };
+
+      expect(await participant.benchmarkAgainstBaseline(baseline, original.code)).toBe(results);
+
+      const benchmarkModule = mockBenchmarkService.runBenchmark.mock.calls[0][0];
+      expect(benchmarkModule).toContain('"Current"');
+      expect(benchmarkModule).toContain('"Baseline"');
+      expect(benchmarkModule).toContain('const testData = [\n  1,\n  2\n]');
+    });
+  });
+
+  describe('run listeners', () => {
+    it('should notify listeners of recorded runs until they are disposed', () => {
+      const listener = jest.fn();
+      const results = { fastest: 'Original', results: [{ name: 'Original', ops: 100, margin: 0.01 }] };
+      const disposable = participant.onDidRecordRun(listener);
+
+      (participant as any).recordRun('sum', [1, 2], [], results);
+      disposable.dispose();
+      (participant as any).recordRun('sum', [3], [], results);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ entryPointName: 'sum', testData: [1, 2] }));
+      expect(participant.getPreviousRun('sum')?.testData).toEqual([3]);
+    });
+
+    it('should record the verdicts and the model of a full analysis', async () => {
+      const fence = '```';
+      mockLM.sendRequest
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n[]\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(`${fence}json\n{ "entryPointName": "sum", "testData": [1, 2], "implementations": {} }\n${fence}`); })() })
+        .mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart('Explanation'); })() });
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 2]]],
+        verdicts: [
+          { alternative: versions[0], status: 'VERIFIED', inputsTried: 1 },
+          { alternative: versions[1], status: 'REJECTED', reason: 'Output differs', inputsTried: 1 }
+        ]
+      }));
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'reduce',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'reduce', ops: 300, margin: 0.01 }]
+      });
+      const listener = jest.fn();
+      participant.onDidRecordRun(listener);
+      const prompt = [
+        `${fence}js`, 'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }', fence,
+        `${fence}js title="reduce"`, 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }', fence,
+        `${fence}js title="broken"`, 'function sum(xs) { return 0; }', fence
+      ].join('\n');
+
+      await requestHandler({ prompt } as any, {} as any, mockResponse as any, mockCancellationToken as any);
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        entryPointName: 'sum',
+        model: 'mockVendor/mockModel',
+        verdicts: [{ name: 'reduce', status: 'VERIFIED' }, { name: 'broken', status: 'REJECTED', reason: 'Output differs' }]
+      }));
+    });
+  });
+
+  describe('repaired compile failures', () => {
+    it('should record the verdict of an alternative repaired after failing to compile', async () => {
+      const fence = '```';
+      const answer = (text: string) => mockLM.sendRequest.mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(text); })() });
+      answer(`${fence}json\n[{ "name": "Alternative 1", "code": "function sum(xs) { return xs.reduce((a, b) => a + b, 0);", "explanation": "reduce" }]\n${fence}`);
+      answer(`${fence}json\n{ "entryPointName": "sum", "testData": [1, 2], "implementations": {} }\n${fence}`);
+      answer(`${fence}js\nfunction sum(xs) { return xs.reduce((a, b) => a + b, 0); }\n${fence}`);
+      answer('Explanation');
+      (verifyAlternatives as jest.Mock)
+        .mockImplementationOnce(async () => ({ testInputs: [[[1, 2]]], verdicts: [] }))
+        .mockImplementationOnce(async (_original, fixed) => ({
+          testInputs: [[[1, 2]]],
+          verdicts: fixed.map((alternative: FunctionImplementation) => ({ alternative, status: 'VERIFIED', inputsTried: 1 }))
+        }));
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'Alternative_1',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 300, margin: 0.01 }]
+      });
+      const listener = jest.fn();
+      participant.onDidRecordRun(listener);
+
+      await requestHandler(
+        { prompt: `--count 1 ${fence}js\nfunction sum(xs) { let t = 0; for (const x of xs) t += x; return t; }\n${fence}` } as any,
+        {} as any, mockResponse as any, mockCancellationToken as any
+      );
+
+      expect(mockResponse.markdown).toHaveBeenCalledWith(expect.stringContaining('🔧 Repaired Alternative 1 in round 1'));
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        verdicts: [{ name: 'Alternative 1', status: 'VERIFIED', reason: 'Repaired' }]
+      }));
+    });
+  });
+
+  describe('per-stage models', () => {
+    const fence = '```';
+    const miniLM = { vendor: 'mockVendor', name: 'mini', sendRequest: jest.fn() };
+    const answer = (model: { sendRequest: jest.Mock }, text: string) => {
+      model.sendRequest.mockResolvedValueOnce({ stream: (async function* () { yield new vscode.LanguageModelTextPart(text); })() });
+    };
+
+    it('should send each stage to its model and report the usage per stage', async () => {
+      const stageParticipant = new PerfCopilotParticipant(mockOutputChannel as any, mockBenchmarkService, {
+        selectStageModels: async () => new StageModels({ alternatives: mockLM, benchmarkConfig: miniLM as any, testInputs: miniLM as any, explanation: mockLM })
+      } as any);
+      const handler = (stageParticipant as any).createRequestHandler().bind(stageParticipant);
+      answer(mockLM, `${fence}json\n[{ "name": "Alternative 1", "code": "function sum(xs) { return xs.reduce((a, b) => a + b, 0); }", "explanation": "reduce" }]\n${fence}`);
+      answer(miniLM, `${fence}json\n{ "entryPointName": "sum", "testData": [1, 2], "implementations": {} }\n${fence}`);
+      answer(mockLM, 'Explanation');
+      (verifyAlternatives as jest.Mock).mockImplementationOnce(async (_original, versions) => ({
+        testInputs: [[[1, 2]]],
+        verdicts: versions.map((alternative: FunctionImplementation) => ({ alternative, status: 'VERIFIED', inputsTried: 1 }))
+      }));
+      mockBenchmarkService.runBenchmark.mockResolvedValueOnce({
+        fastest: 'Alternative_1',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 300, margin: 0.01 }]
+      });
+      const listener = jest.fn();
+      stageParticipant.onDidRecordRun(listener);
+
+      const result = await handler(
+        { prompt: `--count 1 ${fence}js\nfunction sum(xs) { let t = 0; for (const x of xs) t += x; return t; }\n${fence}` } as any,
+        {} as any, mockResponse as any, mockCancellationToken as any
+      );
+
+      expect(mockLM.sendRequest).toHaveBeenCalledTimes(2);
+      expect(miniLM.sendRequest).toHaveBeenCalledTimes(1);
+      expect((verifyAlternatives as jest.Mock).mock.calls[0][2].id).toBe('mockVendor/mini');
+      const models = { alternatives: 'mockVendor/mockModel', benchmarkConfig: 'mockVendor/mini', testInputs: 'mockVendor/mini', explanation: 'mockVendor/mockModel' };
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ model: 'mockVendor/mockModel', stageModels: models }));
+      expect(result.metadata.models).toEqual(models);
+      expect(result.metadata.usage.map((usage: any) => [usage.stage, usage.requests])).toEqual([['alternatives', 1], ['benchmarkConfig', 1], ['explanation', 1]]);
+      const usageSection = mockResponse.markdown.mock.calls.map((call: any[]) => call[0]).find((text: string) => text.includes('Model usage per stage'));
+      expect(usageSection).toContain('<details>');
+      expect(usageSection).toContain('| Benchmark configuration | mockVendor/mini | 1 |');
+      expect(usageSection).toContain('| **Total** | | 3 |');
+    });
+
+    it('should send the slash commands to the model of their stage and report the usage', async () => {
+      const stageParticipant = new PerfCopilotParticipant(mockOutputChannel as any, mockBenchmarkService, {
+        selectStageModels: async () => new StageModels({ alternatives: mockLM, benchmarkConfig: miniLM as any, testInputs: mockLM, explanation: mockLM })
+      } as any);
+      const handler = (stageParticipant as any).createRequestHandler().bind(stageParticipant);
+      answer(miniLM, `${fence}json\n{ "entryPointName": "sum", "testData": [1, 2] }\n${fence}`);
+
+      const result = await handler(
+        { prompt: `${fence}js\nfunction sum(xs) { return xs.reduce((a, b) => a + b, 0); }\n${fence}`, command: 'testdata' } as any,
+        {} as any, mockResponse as any, mockCancellationToken as any
+      );
+
+      expect(miniLM.sendRequest).toHaveBeenCalledTimes(1);
+      expect(mockLM.sendRequest).not.toHaveBeenCalled();
+      expect(result.metadata.functionName).toBe('sum');
+      expect(result.metadata.usage.map((usage: any) => [usage.stage, usage.model, usage.requests])).toEqual([['benchmarkConfig', 'mockVendor/mini', 1]]);
+      expect(mockResponse.markdown).toHaveBeenCalledWith(expect.stringContaining('| Benchmark configuration | mockVendor/mini | 1 |'));
+    });
+  });
+
   describe('sendRequestWithRetry', () => {
     let mockLMForRetry: jest.Mocked<vscode.LanguageModelChat>;
     let mockMessages: vscode.LanguageModelChatMessage[];
@@ -0,0 +1,328 @@
+/**
+ * Tests for the analysis pipeline and its language models.
+ *
+ * The `vscode` module is deliberately not mocked: the pipeline must run without it.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisError, runAnalysis } from '../core/pipeline';
+import { createAlternativesPrompt } from '../core/prompts';
+import { parseAlternativeImplementations } from '../core/responses';
+import { OpenAiCompatibleLanguageModel, readFixture, RecordingLanguageModel, ReplayLanguageModel, StubLanguageModel } from '../core/languageModels';
+import { BenchmarkService } from '../services/benchmarkService';
+import { AnalysisOptions, BenchmarkComparison } from '../models/types';
+
+const original = 'function sum(xs) {\n  let t = 0;\n  for (let i = 0; i < xs.length; i++) t += xs[i];\n  return t;\n}';
+
+/**
+ * Answers of the stub, in the order the pipeline sends its prompts.
+ */
+function createAnswers(alternatives: { name: string; code: string }[], explanation = '# Performance Analysis'): string[] {
+  return [
+    '```json\n' + JSON.stringify(alternatives.map(alt => ({ ...alt, explanation: 'Faster.' }))) + '\n```',
+    '```json\n{"entryPointName": "sum", "testData": [1, 2, 3], "implementations": {}}\n```',
+    '```json\n[[[1, 2, 3]], [[]], [[-4, 4]]]\n```',
+    explanation
+  ];
+}
+
+describe('runAnalysis', () => {
+  const logger = { appendLine: jest.fn() };
+  let runBenchmark: jest.SpyInstance;
+  const results: BenchmarkComparison = {
+    fastest: 'Alternative_1',
+    results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 300, margin: 0.01 }]
+  };
+  const options: AnalysisOptions = { functionCode: original, count: 2, strategies: [] };
+
+  beforeEach(() => {
+    runBenchmark = jest.spyOn(BenchmarkService.prototype, 'runBenchmark').mockResolvedValue(results);
+  });
+
+  afterEach(() => {
+    runBenchmark.mockRestore();
+  });
+
+  it('should verify the alternatives, benchmark the correct ones and explain the results', async () => {
+    const model = new StubLanguageModel(createAnswers([
+      { name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }' },
+      { name: 'Alternative 2', code: 'function sum(xs) { return xs.length; }' }
+    ]));
+    const progress = jest.fn();
+
+    const result = await runAnalysis(options, model, logger, undefined, { onProgress: progress });
+
+    expect(model.prompts).toHaveLength(4);
+    expect(result.entryPointName).toBe('sum');
+    expect(result.model).toBe('stub');
+    expect(result.implementations.map(impl => impl.name)).toEqual(['Original', 'Alternative 1']);
+    expect(result.implementations[0].executableCode).toBeDefined();
+    expect(result.stageModels).toEqual({ alternatives: 'stub', benchmarkConfig: 'stub', testInputs: 'stub', explanation: 'stub' });
+    expect(result.verdicts).toEqual([
+      { name: 'Alternative 1', status: 'VERIFIED' },
+      expect.objectContaining({ name: 'Alternative 2', status: 'REJECTED' })
+    ]);
+    expect(result.skipped).toEqual([expect.objectContaining({ name: 'Alternative 2', reason: expect.stringContaining('REJECTED') })]);
+    expect(result.results).toBe(results);
+    expect(result.explanation).toBe('# Performance Analysis');
+    expect(progress).toHaveBeenCalledWith('Running benchmarks...');
+
+    const benchmarkModule: string = runBenchmark.mock.calls[0][0];
+    expect(benchmarkModule).toContain('"Original"');
+    expect(benchmarkModule).toContain('"Alternative_1"');
+    expect(benchmarkModule).not.toContain('Alternative_2');
+  });
+
+  it('should use the given entry point and skip the explanation when disabled', async () => {
+    const model = new StubLanguageModel(createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }' }]).slice(0, 3));
+
+    const result = await runAnalysis({ ...options, entryPointName: 'sum', explain: false }, model, logger);
+
+    expect(model.prompts).toHaveLength(3);
+    expect(result.explanation).toBeUndefined();
+  });
+
+  it('should fail when no alternative is correct', async () => {
+    const model = new StubLanguageModel(createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return 0; }' }]));
+
+    const failure = runAnalysis({ ...options, repairRounds: 0 }, model, logger);
+
+    await expect(failure).rejects.toThrow('No alternative implementations passed the functional correctness check.');
+    await expect(failure).rejects.toMatchObject({ failure: 'verification' });
+    expect(runBenchmark).not.toHaveBeenCalled();
+  });
+
+  it('should reproduce a recorded run offline', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'perfcopilot-fixture-'));
+    const fixture = path.join(dir, 'sum.json');
+    try {
+      const answers = createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }' }]);
+      const recorded = await runAnalysis(options, new RecordingLanguageModel(new StubLanguageModel(answers), fixture), logger);
+
+      const exchanges = readFixture(fixture);
+      expect(exchanges.map(exchange => exchange.response)).toEqual(answers);
+      const replayed = await runAnalysis(options, new ReplayLanguageModel(exchanges), logger);
+
+      expect(replayed.model).toBe('replay/stub');
+      expect({ ...replayed, timestamp: 0, model: '', stageModels: {} }).toEqual({ ...recorded, timestamp: 0, model: '', stageModels: {} });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail without a valid function', async () => {
+    await expect(runAnalysis({ ...options, functionCode: 'const x = 1;' }, new StubLanguageModel([]), logger))
+      .rejects.toThrow(AnalysisError);
+  });
+
+  it('should use the model of each stage', async () => {
+    const answers = createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }' }]);
+    const large = new StubLanguageModel([answers[0], answers[1], answers[3]]);
+    const small = new StubLanguageModel([answers[2]]);
+    const alternatives = { id: 'large', complete: large.complete.bind(large) };
+    const testInputs = { id: 'small', complete: small.complete.bind(small) };
+
+    const result = await runAnalysis(options, { alternatives, benchmarkConfig: alternatives, testInputs, explanation: alternatives }, logger);
+
+    expect(small.prompts).toHaveLength(1);
+    expect(result.model).toBe('large');
+    expect(result.stageModels).toEqual({ alternatives: 'large', benchmarkConfig: 'large', testInputs: 'small', explanation: 'large' });
+  });
+
+  it('should share the workspace context with the alternatives prompt and every alternative', async () => {
+    const model = new StubLanguageModel(createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, ZERO); }' }]));
+
+    const result = await runAnalysis({ ...options, context: 'const ZERO = 0;' }, model, logger);
+
+    expect(model.prompts[0]).toContain('const ZERO = 0;');
+    expect(result.implementations[1].context).toBe('const ZERO = 0;');
+    expect(result.implementations[1].executableCode).toMatch(/^const ZERO = 0;\nfunction sum/);
+  });
+
+  it('should send a rejected alternative back with its counterexample and keep the fix once it passes', async () => {
+    const [alternatives, benchmarkConfig, testInputs, explanation] = createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.slice(1).reduce((a, b) => a + b, 0); }' }]);
+    const model = new StubLanguageModel([
+      alternatives, benchmarkConfig, testInputs,
+      '```javascript\nfunction sum(xs) { let t = 0; for (const x of xs) t += x; return t; }\n```',
+      explanation
+    ]);
+    const onNotice = jest.fn();
+
+    const result = await runAnalysis({ ...options, repairRounds: 2 }, model, logger, undefined, { onNotice });
+
+    expect(model.prompts[3]).toContain('For the call `sum([1,2,3])`');
+    expect(model.prompts[3]).toContain('- Expected (original): `6`');
+    expect(model.prompts[3]).toContain('- Actual (alternative): `5`');
+    expect(result.implementations[1]).toEqual(expect.objectContaining({ name: 'Alternative 1', code: 'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }' }));
+    expect(result.verdicts).toEqual([{ name: 'Alternative 1', status: 'VERIFIED', reason: 'Repaired' }]);
+    expect(result.skipped).toEqual([]);
+    expect(onNotice).toHaveBeenCalledWith({ kind: 'repaired', message: 'Repaired Alternative 1 in round 1; it now passes the correctness check.' });
+  });
+
+  it('should retry a repair with the new failure and give up after the configured rounds', async () => {
+    const [alternatives, benchmarkConfig, testInputs] = createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.slice(1).reduce((a, b) => a + b, 0); }' }]);
+    const model = new StubLanguageModel([
+      alternatives, benchmarkConfig, testInputs,
+      '```js\nfunction sum(xs) { return xs.reduce((a, b) => a + b; }\n```',
+      '```js\nfunction sum(xs) { return 0; }\n```'
+    ]);
+    const onNotice = jest.fn();
+
+    await expect(runAnalysis({ ...options, repairRounds: 2 }, model, logger, undefined, { onNotice })).rejects.toMatchObject({ failure: 'verification' });
+
+    expect(model.prompts).toHaveLength(5);
+    expect(model.prompts[4]).toContain('It does not compile');
+    expect(model.prompts[4]).toContain('xs.reduce((a, b) => a + b; }');
+    expect(onNotice).toHaveBeenCalledWith({ kind: 'info', message: 'Could not repair Alternative 1 after 2 rounds.' });
+  });
+
+  it('should repair alternatives that only failed to compile even when the first check got no test inputs', async () => {
+    const [alternatives, benchmarkConfig, testInputs, explanation] = createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b; }' }]);
+    const model = new StubLanguageModel([
+      alternatives, benchmarkConfig, 'No inputs, sorry.',
+      '```js\nfunction sum(xs) { return xs.reduce((a, b) => a + b, 0); }\n```',
+      testInputs, explanation
+    ]);
+
+    const result = await runAnalysis({ ...options, repairRounds: 1 }, model, logger);
+
+    expect(model.prompts[3]).toContain('It does not compile');
+    expect(model.prompts[4]).toBe(model.prompts[2]);
+    expect(result.implementations.map(impl => impl.name)).toEqual(['Original', 'Alternative 1']);
+    expect(result.verdicts).toEqual([{ name: 'Alternative 1', status: 'VERIFIED', reason: 'Repaired' }]);
+  });
+
+  it('should build each generation on the previous winner until the improvement drops below the threshold', async () => {
+    const [alternatives, benchmarkConfig, testInputs, explanation] = createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { let t = 0; for (const x of xs) t += x; return t; }' }]);
+    const generation = (code: string) => '```json\n' + JSON.stringify([{ name: 'Alternative 1', code, explanation: 'Faster' }]) + '\n```';
+    const model = new StubLanguageModel([
+      alternatives, benchmarkConfig, testInputs,
+      generation('function sum(xs) { let t = 0; for (let i = 0; i < xs.length; i++) t += xs[i]; return t; }'),
+      generation('function sum(xs) { let t = 0, i = xs.length; while (i--) t += xs[i]; return t; }'),
+      explanation
+    ]);
+    runBenchmark
+      .mockResolvedValueOnce({ fastest: 'Alternative_1', results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 200, margin: 0.01 }] })
+      .mockResolvedValueOnce({
+        fastest: 'Generation_2_Alternative_1',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 200, margin: 0.01 }, { name: 'Generation_2_Alternative_1', ops: 300, margin: 0.01 }]
+      })
+      .mockResolvedValueOnce({
+        fastest: 'Generation_3_Alternative_1',
+        results: [{ name: 'Original', ops: 100, margin: 0.01 }, { name: 'Alternative_1', ops: 200, margin: 0.01 }, { name: 'Generation_2_Alternative_1', ops: 300, margin: 0.01 }, { name: 'Generation_3_Alternative_1', ops: 306, margin: 0.01 }]
+      });
+    const onNotice = jest.fn();
+    const onVerification = jest.fn();
+
+    const result = await runAnalysis({ ...options, evolve: { generations: 3, minImprovement: 5 } }, model, logger, undefined, { onNotice, onVerification });
+
+    expect(result.lineage?.map(step => [step.generation, step.implementation.name, step.parent])).toEqual([
+      [0, 'Original', undefined],
+      [1, 'Alternative 1', 'Original'],
+      [2, 'Generation 2 Alternative 1', 'Alternative 1']
+    ]);
+    expect(result.lineage?.[2].improvement).toBeCloseTo(0.5);
+    // The last run (generation 3) is what gets explained
+    expect(result.implementations.map(impl => impl.name)).toEqual(['Original', 'Alternative 1', 'Generation 2 Alternative 1', 'Generation 3 Alternative 1']);
+    expect(result.results.fastest).toBe('Generation_3_Alternative_1');
+    expect(model.prompts[4]).toContain('**Evolution (generation 3):**');
+    expect(model.prompts[4]).toContain('for (let i = 0; i < xs.length; i++)');
+    expect(model.prompts[4]).toContain('- Generation_2_Alternative_1: 300 ops/sec');
+    // Every generation is verified with the first generation's inputs, without asking the model again
+    expect(model.prompts).toHaveLength(6);
+    expect(onVerification).toHaveBeenCalledTimes(3);
+    expect(onNotice).toHaveBeenCalledWith({ kind: 'evolved', message: 'Generation 2: Generation 2 Alternative 1 is 50.0% faster compared to Alternative 1.' });
+    expect(onNotice).toHaveBeenCalledWith(expect.objectContaining({ kind: 'info', message: expect.stringContaining('is 2.0% faster compared to Generation 2 Alternative 1, below the 5% threshold') }));
+  });
+
+  it('should not evolve when no alternative beats the original', async () => {
+    const model = new StubLanguageModel(createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }' }]));
+    runBenchmark.mockResolvedValueOnce({ fastest: 'Original', results: [{ name: 'Original', ops: 300, margin: 0.01 }, { name: 'Alternative_1', ops: 200, margin: 0.01 }] });
+    const onNotice = jest.fn();
+
+    const result = await runAnalysis({ ...options, evolve: { generations: 3, minImprovement: 5 } }, model, logger, undefined, { onNotice });
+
+    expect(result.lineage).toHaveLength(1);
+    expect(model.prompts).toHaveLength(4);
+    expect(onNotice).toHaveBeenCalledWith({ kind: 'info', message: 'No alternative is faster than the original, so there is nothing to evolve.' });
+  });
+
+  it('should benchmark at several input sizes in complexity mode', async () => {
+    const model = new StubLanguageModel(createAnswers([{ name: 'Alternative 1', code: 'function sum(xs) { return xs.reduce((a, b) => a + b, 0); }' }]));
+
+    await runAnalysis({ ...options, complexitySizes: [10, 100] }, model, logger);
+
+    expect(model.prompts[1]).toContain('**Complexity Mode:**');
+    expect(runBenchmark.mock.calls[0][0]).toContain('"sizes":[10,100]');
+  });
+});
+
+describe('alternatives prompt and parser', () => {
+  const response = (count: number) => '```json\n' + JSON.stringify(Array.from({ length: count }, (_, i) => ({
+    name: `Alternative ${i + 1}`, code: `function f() { return ${i}; }`, explanation: `Variant ${i}`
+  }))) + '\n```';
+
+  it('should ask for the requested number of alternatives with the strategy hints', () => {
+    const prompt = createAlternativesPrompt('function f() {}', undefined, { count: 4, strategies: ['no-new-dependencies'] });
+
+    expect(prompt).toContain('Generate exactly 4 distinct alternative implementations');
+    expect(prompt).toContain('one of "Alternative 1", "Alternative 2", "Alternative 3", "Alternative 4"');
+    expect(prompt).toContain('- Do not use any library or module the original does not already use');
+    expect(createAlternativesPrompt('function f() {}')).toContain('Generate exactly 2 distinct alternative implementations');
+  });
+
+  it('should keep at most the requested number of alternatives', () => {
+    const logger = { appendLine: jest.fn() };
+
+    expect(parseAlternativeImplementations('function f() {}', response(5), logger, 4)).toHaveLength(4);
+    expect(parseAlternativeImplementations('function f() {}', response(5), logger)).toHaveLength(2);
+  });
+});
+
+describe('ReplayLanguageModel', () => {
+  it('should answer each recorded prompt once, in the recorded order', async () => {
+    const model = new ReplayLanguageModel([
+      { prompt: 'a', response: '1' },
+      { prompt: 'b', response: '2' },
+      { prompt: 'a', response: '3' }
+    ]);
+
+    expect(model.id).toBe('replay');
+    expect(await model.complete('a')).toBe('1');
+    expect(await model.complete('a')).toBe('3');
+    expect(await model.complete('b')).toBe('2');
+    await expect(model.complete('a')).rejects.toThrow('no recorded answer for this prompt (3 of 3 answers used)');
+  });
+});
+
+describe('OpenAiCompatibleLanguageModel', () => {
+  const originalFetch = global.fetch;
+  const token = { isCancellationRequested: false };
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should post the prompt to /chat/completions and return the first choice', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ choices: [{ message: { content: 'answer' } }] }) });
+    global.fetch = fetchMock as any;
+    const model = new OpenAiCompatibleLanguageModel({ endpoint: 'http://localhost:11434/v1/', model: 'llama3', apiKey: 'secret' });
+
+    expect(model.id).toBe('openai-compatible/llama3');
+    expect(await model.complete('prompt', token)).toBe('answer');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(init.body)).toEqual({ model: 'llama3', messages: [{ role: 'user', content: 'prompt' }] });
+    expect(init.headers).toContainEqual(['Authorization', 'Bearer secret']);
+  });
+
+  it('should report failed requests', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized', text: async () => 'bad key' }) as any;
+    const model = new OpenAiCompatibleLanguageModel({ endpoint: 'http://localhost:8080/v1', model: 'm' });
+
+    await expect(model.complete('prompt', token)).rejects.toThrow('401 Unauthorized: bad key');
+  });
+});
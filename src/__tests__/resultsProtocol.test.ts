@@ -0,0 +1,107 @@
+/**
+ * Tests for the RESULTS_JSON protocol shared by benchmarkRunner and BenchmarkService
+ */
+
+import {
+  RESULTS_JSON_PREFIX,
+  RESULTS_SCHEMA_VERSION,
+  extractResultsPayload,
+  formatResultsLine,
+  validateResultsPayload
+} from '../utils/resultsProtocol';
+import { BenchmarkResultsPayload } from '../models/types';
+
+describe('resultsProtocol', () => {
+  const validPayload: BenchmarkResultsPayload = {
+    version: RESULTS_SCHEMA_VERSION,
+    fastest: 'Alternative_1',
+    results: [
+      { name: 'Original', ops: 1000, margin: 0.012, samples: 3, mean: 0.001, deviation: 0.00002, sampleTimes: [0.00098, 0.001, 0.00102] },
+      { name: 'Alternative_1', ops: 2500, margin: 0.008, samples: 3, mean: 0.0004, deviation: 0.00001, sampleTimes: [0.00039, 0.0004, 0.00041] }
+    ],
+    environment: {
+      node: 'v20.0.0',
+      v8: '11.3',
+      platform: 'linux',
+      arch: 'x64',
+      cpuModel: 'Test CPU',
+      cpuCount: 4,
+      totalMemory: 8589934592,
+      timestamp: '2024-01-01T00:00:00.000Z'
+    }
+  };
+
+  describe('validateResultsPayload', () => {
+    it('should accept a valid payload', () => {
+      expect(validateResultsPayload(validPayload)).toEqual([]);
+    });
+
+    it('should reject a payload with the wrong version', () => {
+      const errors = validateResultsPayload({ ...validPayload, version: 99 });
+      expect(errors).toEqual([expect.stringContaining('payload.version must be')]);
+    });
+
+    it('should report missing and mistyped result fields', () => {
+      const errors = validateResultsPayload({
+        ...validPayload,
+        results: [{ name: 'Original', ops: 'fast', margin: 0.01, samples: 10, mean: 0.1 }]
+      });
+      expect(errors).toContain('payload.results[0].ops must be a finite number');
+      expect(errors).toContain('payload.results[0].deviation is required');
+      expect(errors).toContain('payload.results[0].sampleTimes is required');
+    });
+
+    it('should reject non-numeric sample timings', () => {
+      const errors = validateResultsPayload({
+        ...validPayload,
+        results: [{ ...validPayload.results[0], sampleTimes: [0.001, 'slow'] }]
+      });
+      expect(errors).toEqual(['payload.results[0].sampleTimes must be an array of finite numbers']);
+    });
+
+    it('should reject an empty results array and a missing environment', () => {
+      const errors = validateResultsPayload({ version: RESULTS_SCHEMA_VERSION, fastest: 'x', results: [] });
+      expect(errors).toContain('payload.results must be a non-empty array');
+      expect(errors).toContain('payload.environment must be an object');
+    });
+
+    it('should accept memory pass fields and reject non-numeric ones', () => {
+      const memory = { heapUsedBefore: 1000, heapUsedAfter: 4000, allocatedBytesPerCall: 48, retainedBytes: 0, gcCount: 2, gcTimeMs: 0.7 };
+      expect(validateResultsPayload({ ...validPayload, results: [{ ...validPayload.results[0], ...memory }] })).toEqual([]);
+
+      const errors = validateResultsPayload({ ...validPayload, results: [{ ...validPayload.results[0], gcCount: 'many' }] });
+      expect(errors).toEqual(['payload.results[0].gcCount must be a finite number']);
+    });
+
+    it('should accept a complexity block with skipped sizes', () => {
+      const complexity = { sizes: [10, 100, 1000], series: [{ name: 'Original', times: [0.000001, 0.00001, null] }] };
+      expect(validateResultsPayload({ ...validPayload, complexity })).toEqual([]);
+    });
+
+    it('should reject complexity timings that do not match the sizes', () => {
+      const complexity = { sizes: [10, 100, 1000], series: [{ name: 'Original', times: [0.000001, 0.00001] }] };
+      expect(validateResultsPayload({ ...validPayload, complexity }))
+        .toEqual(['payload.complexity.series[0].times must have one number (or null) per size']);
+    });
+  });
+
+  describe('extractResultsPayload', () => {
+    it('should round-trip a payload written with formatResultsLine', () => {
+      const output = `[BenchmarkRunner] some log\ncycle: Name: Original, Ops: 1000\n${formatResultsLine(validPayload)}\n--- STDERR ---\n`;
+      expect(extractResultsPayload(output)).toEqual(validPayload);
+    });
+
+    it('should return undefined when no RESULTS_JSON line is present', () => {
+      expect(extractResultsPayload('cycle: Name: Original, Ops: 1000\ncomplete: Fastest is Original')).toBeUndefined();
+    });
+
+    it('should throw on malformed JSON', () => {
+      expect(() => extractResultsPayload(`${RESULTS_JSON_PREFIX} {not json`)).toThrow('RESULTS_JSON line is not valid JSON');
+    });
+
+    it('should throw when the payload fails schema validation', () => {
+      const output = `${RESULTS_JSON_PREFIX} ${JSON.stringify({ ...validPayload, fastest: 42 })}`;
+      expect(() => extractResultsPayload(output)).toThrow('payload.fastest must be a string');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for the benchmark statistics utilities
+ */
+
+import {
+  compareToBaseline,
+  mean,
+  sampleVariance,
+  studentTCriticalValue,
+  studentTTwoSidedPValue,
+  welchTTest
+} from '../utils/statistics';
+
+describe('statistics', () => {
+  describe('descriptive statistics', () => {
+    it('should compute mean and unbiased sample variance', () => {
+      expect(mean([1, 2, 3, 4])).toBe(2.5);
+      expect(sampleVariance([1, 2, 3, 4])).toBeCloseTo(1.6667, 4);
+      expect(sampleVariance([5])).toBeNaN();
+    });
+  });
+
+  describe('Student t distribution', () => {
+    it('should match known two-sided p-values', () => {
+      // t = 2.228 with 10 df is the classic 5% critical value
+      expect(studentTTwoSidedPValue(2.228, 10)).toBeCloseTo(0.05, 3);
+      expect(studentTTwoSidedPValue(0, 10)).toBeCloseTo(1, 6);
+    });
+
+    it('should invert the distribution for critical values', () => {
+      expect(studentTCriticalValue(10)).toBeCloseTo(2.228, 2);
+      expect(studentTCriticalValue(1000)).toBeCloseTo(1.962, 2);
+    });
+  });
+
+  describe('welchTTest', () => {
+    it('should report a tiny p-value for clearly different samples', () => {
+      const result = welchTTest([10, 11, 9, 10, 10], [20, 21, 19, 20, 20]);
+      expect(result.t).toBeLessThan(0);
+      expect(result.pValue).toBeLessThan(0.001);
+    });
+
+    it('should handle constant samples', () => {
+      expect(welchTTest([1, 1, 1], [1, 1, 1]).pValue).toBe(1);
+      expect(welchTTest([1, 1, 1], [2, 2, 2]).pValue).toBe(0);
+    });
+
+    it('should throw with fewer than two samples', () => {
+      expect(() => welchTTest([1], [1, 2])).toThrow('at least two samples');
+    });
+  });
+
+  describe('compareToBaseline', () => {
+    const baseline = { name: 'Original', ops: 1000, margin: 0.01, sampleTimes: [0.0010, 0.00102, 0.00098, 0.0010, 0.00101] };
+
+    it('should report a significant speedup with a confidence interval around it', () => {
+      const candidate = { name: 'Alternative_1', ops: 2000, margin: 0.01, sampleTimes: [0.0005, 0.00051, 0.00049, 0.0005, 0.0005] };
+      const comparison = compareToBaseline(baseline, candidate)!;
+
+      expect(comparison.verdict).toBe('faster');
+      expect(comparison.significant).toBe(true);
+      expect(comparison.speedup).toBeCloseTo(2, 1);
+      expect(comparison.ciLow).toBeGreaterThan(1.9);
+      expect(comparison.ciHigh).toBeLessThan(2.1);
+      expect(comparison.confidence).toBe(0.95);
+    });
+
+    it('should report a significant slowdown', () => {
+      const candidate = { name: 'Alternative_1', ops: 500, margin: 0.01, sampleTimes: [0.002, 0.00202, 0.00198, 0.002, 0.002] };
+      expect(compareToBaseline(baseline, candidate)!.verdict).toBe('slower');
+    });
+
+    it('should label differences within noise as no significant difference', () => {
+      const candidate = { name: 'Alternative_1', ops: 1020, margin: 0.01, sampleTimes: [0.00099, 0.00101, 0.00097, 0.00103, 0.00098] };
+      const comparison = compareToBaseline(baseline, candidate)!;
+
+      expect(comparison.significant).toBe(false);
+      expect(comparison.verdict).toBe('no significant difference');
+      expect(comparison.ciLow).toBeLessThan(1);
+      expect(comparison.ciHigh).toBeGreaterThan(1);
+    });
+
+    it('should return undefined without enough raw samples', () => {
+      expect(compareToBaseline(baseline, { name: 'Alternative_1', ops: 1, margin: 0 })).toBeUndefined();
+    });
+  });
+});
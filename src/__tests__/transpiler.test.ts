@@ -0,0 +1,128 @@
+/**
+ * Tests for the TypeScript transpile step used before verification and benchmarking
+ */
+
+import * as vm from 'vm';
+import { decodeLineMap, getExecutableCode, mapErrorLine, prepareImplementation, transpileSnippet } from '../utils/transpiler';
+
+describe('transpiler', () => {
+  const typedSource = [
+    'interface Point { x: number; y: number }',
+    '',
+    'function distance<T extends Point>(a: T, b: T): number {',
+    '    const dx = (a.x - b.x) as number;',
+    '    if (dx > 100) { throw new Error("too far"); }',
+    '    return Math.sqrt(dx * dx + (a.y - b.y) ** 2);',
+    '}'
+  ].join('\n');
+
+  describe('transpileSnippet', () => {
+    it('should erase types so the code runs in a vm context', () => {
+      const { code, diagnostics } = transpileSnippet(typedSource);
+
+      expect(diagnostics).toEqual([]);
+      expect(code).not.toContain('interface');
+      expect(code).not.toContain('sourceMappingURL');
+      const context = vm.createContext({ Math });
+      vm.runInContext(code, context);
+      expect(vm.runInContext('distance({ x: 3, y: 4 }, { x: 0, y: 0 })', context)).toBe(5);
+    });
+
+    it('should map each emitted line back to its source line', () => {
+      const { code, lineMap } = transpileSnippet(typedSource);
+      const emittedLines = code.split('\n');
+
+      const throwLine = emittedLines.findIndex(line => line.includes('too far'));
+      expect(lineMap[throwLine]).toBe(5);
+      expect(lineMap[emittedLines.findIndex(line => line.includes('function distance'))]).toBe(3);
+    });
+
+    it('should keep modern syntax such as async functions', () => {
+      const { code } = transpileSnippet('const load = async (url: string): Promise<string> => url ?? "";');
+      expect(code).toContain('async (url) =>');
+      expect(code).toContain('??');
+    });
+
+    it('should remove export keywords so exported functions run in a vm context', () => {
+      const context = vm.createContext({});
+      vm.runInContext(transpileSnippet('export function double(x: number) { return x * 2; }').code, context);
+      vm.runInContext(transpileSnippet('export default function triple(x: number) { return x * 3; }').code, context);
+      vm.runInContext(transpileSnippet('const half = (x: number) => x / 2;\nexport { half };\nexport default half;').code, context);
+
+      expect(vm.runInContext('double(2) + triple(2) + half(2)', context)).toBe(11);
+      expect(transpileSnippet('export default function (x) { return x; }').diagnostics).toEqual([]);
+    });
+
+    it('should keep the source line of code after removed exports', () => {
+      const { code, lineMap } = transpileSnippet('export {\n  a,\n};\nexport function a() {\n  throw new Error("here");\n}');
+
+      expect(lineMap[code.split('\n').findIndex(line => line.includes('here'))]).toBe(5);
+    });
+
+    it('should report syntax errors with their source line', () => {
+      const { diagnostics } = transpileSnippet('function ok() {}\nfunction broken(a: number { return a; }');
+      expect(diagnostics.length).toBeGreaterThan(0);
+      expect(diagnostics[0]).toMatch(/^Line 2: /);
+    });
+  });
+
+  describe('decodeLineMap', () => {
+    it('should decode VLQ mappings and fill unmapped lines from the line above', () => {
+      // Line 0 -> source line 0, line 1 unmapped, line 2 -> source line 3 (delta +3)
+      expect(decodeLineMap('AAAA;;AAGA', 3)).toEqual([1, 1, 4]);
+    });
+  });
+
+  describe('prepareImplementation', () => {
+    it('should keep the source in code and add the runnable JavaScript', () => {
+      const prepared = prepareImplementation({ name: 'Original', code: typedSource });
+
+      expect(prepared.code).toBe(typedSource);
+      expect(prepared.executableCode).toContain('function distance(a, b)');
+      expect(getExecutableCode(prepared)).toBe(prepared.executableCode);
+      expect(getExecutableCode({ name: 'Raw', code: 'function f() {}' })).toBe('function f() {}');
+    });
+
+    it('should place the context ahead of the function and keep the line map pointing at the source', () => {
+      const prepared = prepareImplementation({
+        name: 'Original',
+        code: 'function scaled(x: number) {\n    return clamp(x * FACTOR);\n}',
+        context: 'const FACTOR: number = 3;\n\nfunction clamp(x: number) { return Math.min(x, 10); }'
+      });
+
+      const context = vm.createContext({ Math });
+      vm.runInContext(prepared.executableCode!, context);
+      expect(vm.runInContext('scaled(2)', context)).toBe(6);
+      const emittedLines = prepared.executableCode!.split('\n');
+      expect(prepared.lineMap![emittedLines.findIndex(line => line.includes('return clamp'))]).toBe(2);
+      expect(prepared.lineMap![emittedLines.findIndex(line => line.includes('const FACTOR'))]).toBe(0);
+    });
+
+    it('should throw with the syntax errors of an implementation that cannot be transpiled', () => {
+      expect(() => prepareImplementation({ name: 'Alternative 1', code: 'function f(a: { return a; }' }))
+        .toThrow(/^Could not transpile Alternative 1: Line 1: /);
+    });
+  });
+
+  describe('mapErrorLine', () => {
+    it('should map the location of a runtime error to the source line', () => {
+      const prepared = prepareImplementation({ name: 'Original', code: typedSource });
+      const context = vm.createContext({ Math });
+      vm.runInContext(prepared.executableCode!, context, { filename: 'impl.js' });
+
+      let stack: string | undefined;
+      try {
+        vm.runInContext('distance({ x: 500, y: 0 }, { x: 0, y: 0 })', context);
+      } catch (error: any) {
+        stack = error.stack;
+      }
+
+      expect(mapErrorLine(stack, 'impl.js', prepared.lineMap)).toBe(5);
+    });
+
+    it('should return undefined when the stack has no location in the file', () => {
+      expect(mapErrorLine('Error: boom\n    at other.js:3:1', 'impl.js', [1, 2, 3])).toBeUndefined();
+      expect(mapErrorLine(undefined, 'impl.js')).toBeUndefined();
+    });
+  });
+});
@@ -52,6 +52,11 @@ const mockLanguageModelChatMessage = {
   Assistant: jest.fn((content) => ({ role: 'assistant', content })),
 };
 
+// Add mock for LanguageModelTextPart (stream chunks are checked with instanceof)
+class MockLanguageModelTextPart {
+  constructor(public value: string) {}
+}
+
 module.exports = {
   // Language Model API Mock
   lm: {
@@ -77,6 +82,13 @@ module.exports = {
     // Add other window properties/methods if needed
   },
 
+  // Workspace API Mock (configuration values fall back to the provided defaults)
+  workspace: {
+    getConfiguration: jest.fn(() => ({
+      get: jest.fn((_key, defaultValue) => defaultValue),
+    })),
+  },
+
   // Commands API Mock
   commands: {
     registerCommand: jest.fn(() => ({ dispose: jest.fn() })),
@@ -100,6 +112,8 @@ module.exports = {
   })),
   // eslint-disable-next-line @typescript-eslint/naming-convention
   LanguageModelChatMessage: mockLanguageModelChatMessage,
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  LanguageModelTextPart: MockLanguageModelTextPart,
 
   // Export mock instances for potential use in tests
   _mockLanguageModel: mockLanguageModel,
@@ -0,0 +1,366 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview PerfCopilot Command Line Interface
+ *
+ * Runs the analysis pipeline of the chat (`core/pipeline.ts`) on a function in a file, so CI jobs and
+ * developers without VS Code can use the same verification and benchmarking engine:
+ *
+ *   perfcopilot analyze src/stats.js --function sum --format json
+ *
+ * The language model is any OpenAI-compatible endpoint (`--endpoint`, `--model`, API key from
+ * `PERFCOPILOT_API_KEY` or `OPENAI_API_KEY`), a stub that returns canned answers from a JSON
+ * file (`--stub answers.json`) for tests, or the answers of a recorded run (`--replay
+ * fixture.json`, recorded with `--record fixture.json`). The report goes to stdout; progress and
+ * errors go to stderr. The exit code is 0 on success, 1 if the analysis failed and 2 for usage errors.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalysisResult, FunctionImplementation, OptimizationStrategy, PipelineLanguageModel, PipelineLogger } from '../models/types';
+import { DEFAULT_EVOLVE_GENERATIONS, DEFAULT_EVOLVE_MIN_IMPROVEMENT, DEFAULT_REPAIR_ROUNDS, formatImprovement, runAnalysis } from '../core/pipeline';
+import { OpenAiCompatibleLanguageModel, readFixture, RecordingLanguageModel, ReplayLanguageModel, StubLanguageModel } from '../core/languageModels';
+import { DEFAULT_ALTERNATIVES_COUNT, STRATEGY_HINTS } from '../core/prompts';
+import { formatHistoryReport } from '../services/historyService';
+import { collectDependencies } from '../utils/dependencyCollector';
+import { parseFunctions } from '../utils/functionParser';
+import { DEFAULT_COMPLEXITY_SIZES } from '../utils/complexity';
+import { DEFAULT_COMPARISON_OPTIONS } from '../utils/deepEqual';
+import { DEFAULT_FUZZ_RUNS } from '../utils/fuzzer';
+
+/**
+ * Endpoint and model used when neither the options nor the environment set one
+ */
+const DEFAULT_ENDPOINT = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Most alternatives a run may ask for
+ */
+const MAX_ALTERNATIVES_COUNT = 10;
+
+/**
+ * Most repair rounds a run may ask for
+ */
+const MAX_REPAIR_ROUNDS = 10;
+
+const USAGE = `Usage: perfcopilot analyze <file> [options]
+
+Generates faster alternatives of a function, verifies them against the original and benchmarks them.
+
+Options:
+  --function <name>     Function to analyze (default: the first named function in the file)
+  --format <format>     Report format: json or markdown (default: markdown)
+  --count <n>           Number of alternatives to generate (default: ${DEFAULT_ALTERNATIVES_COUNT}, at most ${MAX_ALTERNATIVES_COUNT})
+  --strategy <name>     Optimization strategy, repeatable: ${Array.from(STRATEGY_HINTS.keys()).join(', ')}
+  --fuzz                Also check the alternatives against ${DEFAULT_FUZZ_RUNS} generated inputs
+  --repair-rounds <n>   Repair attempts per failing alternative, 0 to turn off (default: ${DEFAULT_REPAIR_ROUNDS})
+  --complexity          Also benchmark at the input sizes ${DEFAULT_COMPLEXITY_SIZES.join(', ')} and estimate the complexity
+  --evolve              Feed the fastest alternative back to the model, for up to ${DEFAULT_EVOLVE_GENERATIONS} generations
+                        while each is at least ${DEFAULT_EVOLVE_MIN_IMPROVEMENT}% faster than the previous one
+  --no-memory           Skip the memory measurements
+  --no-explain          Skip the explanation of the results
+  --endpoint <url>      OpenAI-compatible API base URL (default: $PERFCOPILOT_ENDPOINT or ${DEFAULT_ENDPOINT})
+  --model <name>        Model name (default: $PERFCOPILOT_MODEL or ${DEFAULT_MODEL})
+  --stub <file>         Use canned answers (a JSON array of strings) instead of a model
+  --replay <file>       Use the answers recorded in a fixture instead of a model
+  --record <file>       Append every prompt and answer to a fixture, for --replay
+  --verbose             Log every pipeline step to stderr
+  --help                Show this help
+
+The API key is read from $PERFCOPILOT_API_KEY or $OPENAI_API_KEY.`;
+
+/**
+ * Parsed command line
+ */
+export interface CliOptions {
+    file: string;
+    functionName?: string;
+    format: 'json' | 'markdown';
+    count: number;
+    strategies: OptimizationStrategy[];
+    fuzz: boolean;
+    repairRounds: number;
+    complexity: boolean;
+    evolve: boolean;
+    memory: boolean;
+    explain: boolean;
+    endpoint: string;
+    model: string;
+    apiKey?: string;
+    stub?: string;
+    replay?: string;
+    record?: string;
+    verbose: boolean;
+}
+
+/**
+ * Where the CLI writes its report (`out`) and its progress and errors (`err`)
+ */
+export interface CliOutput {
+    out: (text: string) => void;
+    err: (text: string) => void;
+}
+
+/**
+ * Error in the command line; reported with the usage and exit code 2
+ */
+class UsageError extends Error {}
+
+/**
+ * Parses the arguments of `perfcopilot analyze`.
+ *
+ * @param args - The arguments after `analyze`
+ * @param env - Environment variables with the endpoint, model and API key defaults
+ * @returns The options
+ * @throws UsageError if an argument is missing or invalid
+ */
+export function parseArgs(args: string[], env: NodeJS.ProcessEnv = process.env): CliOptions {
+    const options: CliOptions = {
+        file: '',
+        format: 'markdown',
+        count: DEFAULT_ALTERNATIVES_COUNT,
+        strategies: [],
+        fuzz: false,
+        repairRounds: DEFAULT_REPAIR_ROUNDS,
+        complexity: false,
+        evolve: false,
+        memory: true,
+        explain: true,
+        endpoint: env.PERFCOPILOT_ENDPOINT || DEFAULT_ENDPOINT,
+        model: env.PERFCOPILOT_MODEL || DEFAULT_MODEL,
+        apiKey: env.PERFCOPILOT_API_KEY || env.OPENAI_API_KEY || undefined,
+        verbose: false
+    };
+
+    const value = (index: number): string => {
+        if (index >= args.length || args[index].startsWith('--')) {
+            throw new UsageError(`${args[index - 1]} needs a value.`);
+        }
+        return args[index];
+    };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '--function': options.functionName = value(++i); break;
+            case '--format': {
+                const format = value(++i);
+                if (format !== 'json' && format !== 'markdown') {
+                    throw new UsageError(`Unknown format "${format}". Use json or markdown.`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--count': {
+                const count = Number(value(++i));
+                if (!Number.isInteger(count) || count < 1 || count > MAX_ALTERNATIVES_COUNT) {
+                    throw new UsageError(`--count must be a whole number from 1 to ${MAX_ALTERNATIVES_COUNT}.`);
+                }
+                options.count = count;
+                break;
+            }
+            case '--strategy': {
+                const strategy = value(++i) as OptimizationStrategy;
+                if (!STRATEGY_HINTS.has(strategy)) {
+                    throw new UsageError(`Unknown strategy "${strategy}". Known strategies: ${Array.from(STRATEGY_HINTS.keys()).join(', ')}.`);
+                }
+                if (!options.strategies.includes(strategy)) {
+                    options.strategies.push(strategy);
+                }
+                break;
+            }
+            case '--fuzz': options.fuzz = true; break;
+            case '--repair-rounds': {
+                const rounds = Number(value(++i));
+                if (!Number.isInteger(rounds) || rounds < 0 || rounds > MAX_REPAIR_ROUNDS) {
+                    throw new UsageError(`--repair-rounds must be a whole number from 0 to ${MAX_REPAIR_ROUNDS}.`);
+                }
+                options.repairRounds = rounds;
+                break;
+            }
+            case '--complexity': options.complexity = true; break;
+            case '--evolve': options.evolve = true; break;
+            case '--no-memory': options.memory = false; break;
+            case '--no-explain': options.explain = false; break;
+            case '--endpoint': options.endpoint = value(++i); break;
+            case '--model': options.model = value(++i); break;
+            case '--stub': options.stub = value(++i); break;
+            case '--replay': options.replay = value(++i); break;
+            case '--record': options.record = value(++i); break;
+            case '--verbose': options.verbose = true; break;
+            default:
+                if (arg.startsWith('--') || options.file) {
+                    throw new UsageError(`Unexpected argument "${arg}".`);
+                }
+                options.file = arg;
+        }
+    }
+    if (!options.file) {
+        throw new UsageError('Missing the file to analyze.');
+    }
+    if (options.stub && options.replay) {
+        throw new UsageError('Use either --stub or --replay.');
+    }
+    return options;
+}
+
+/**
+ * Extracts a function from a source file, with the helpers, constants and imports it uses
+ * from the file and its local imports (see `dependencyCollector.ts`).
+ *
+ * @param source - Text of the file
+ * @param filePath - Path of the file, used to resolve relative imports
+ * @param functionName - Name of the function; the first named function if undefined
+ * @returns The function's code (without `export`), its name and its context
+ * @throws If the file has no such function
+ */
+export function extractFunction(source: string, filePath: string, functionName?: string): { code: string; name: string; context?: string } {
+    const fn = parseFunctions(source).functions.find(candidate => functionName ? candidate.name === functionName : candidate.name !== undefined);
+    if (!fn || !fn.name) {
+        throw new Error(functionName ? `Function \`${functionName}\` not found in ${filePath}.` : `No named function found in ${filePath}.`);
+    }
+    // The analysis runs the function on its own, so `export`/`export default` is left out
+    const exportKeywords = /^export\s+(default\s+)?/.exec(source.slice(fn.start, fn.end));
+    const code = source.slice(fn.start + (exportKeywords ? exportKeywords[0].length : 0), fn.end);
+    const dependencies = collectDependencies(code, source, filePath);
+    return { code, name: fn.name, ...(dependencies.code ? { context: dependencies.code } : {}) };
+}
+
+/**
+ * Creates the language model selected on the command line.
+ *
+ * @param options - The options
+ * @returns The stub if `--stub` is set, the replay model if `--replay` is set, else the
+ *   OpenAI-compatible model; recorded if `--record` is set
+ */
+export function createLanguageModel(options: CliOptions): PipelineLanguageModel {
+    let model: PipelineLanguageModel;
+    if (options.stub) {
+        const answers = JSON.parse(fs.readFileSync(options.stub, 'utf8'));
+        if (!Array.isArray(answers) || answers.some(answer => typeof answer !== 'string')) {
+            throw new Error(`${options.stub} must contain a JSON array of strings (the answers, in order).`);
+        }
+        model = new StubLanguageModel(answers);
+    } else if (options.replay) {
+        model = new ReplayLanguageModel(readFixture(options.replay));
+    } else {
+        model = new OpenAiCompatibleLanguageModel({ endpoint: options.endpoint, model: options.model, apiKey: options.apiKey });
+    }
+    return options.record ? new RecordingLanguageModel(model, path.resolve(options.record)) : model;
+}
+
+/**
+ * Formats the result of an analysis.
+ *
+ * @param result - The result
+ * @param format - json (the result without the derived executable code) or markdown (the history
+ *   report with the skipped alternatives, the evolution lineage and the explanation)
+ * @returns The report
+ */
+export function formatResult(result: AnalysisResult, format: 'json' | 'markdown'): string {
+    if (format === 'json') {
+        return JSON.stringify({
+            ...result,
+            implementations: result.implementations.map(toSourceImplementation),
+            ...(result.lineage ? { lineage: result.lineage.map(step => ({ ...step, implementation: toSourceImplementation(step.implementation) })) } : {})
+        }, null, 2);
+    }
+    const lines = [formatHistoryReport({ ...result, id: `${result.timestamp}` }).trimEnd()];
+    if (result.skipped.length > 0) {
+        lines.push('', '## Skipped alternatives', '', ...result.skipped.map(skipped => `- ${skipped.name}: ${skipped.reason}`));
+    }
+    if (result.lineage) {
+        lines.push(
+            '',
+            '## Evolution lineage',
+            '',
+            '| Generation | Implementation | Derived From | ops/sec | Speedup vs Parent |',
+            '|---|---|---|---|---|',
+            ...result.lineage.map(step => `| ${step.generation} | ${step.implementation.name} | ${step.parent ?? '–'} | ${Math.round(step.ops)} | ${step.improvement !== undefined ? formatImprovement(step.improvement) : '–'} |`)
+        );
+    }
+    if (result.explanation) {
+        lines.push('', '## Explanation', '', result.explanation.trim());
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Leaves out the runnable JavaScript and line map of an implementation, which are derived from its code.
+ */
+function toSourceImplementation(implementation: FunctionImplementation): FunctionImplementation {
+    return {
+        name: implementation.name,
+        code: implementation.code,
+        description: implementation.description,
+        ...(implementation.context ? { context: implementation.context } : {})
+    };
+}
+
+/**
+ * Runs the CLI.
+ *
+ * @param argv - The arguments (without `node` and the script)
+ * @param output - Where to write the report, progress and errors
+ * @param env - Environment variables
+ * @returns The exit code
+ */
+export async function main(
+    argv: string[],
+    output: CliOutput = { out: text => process.stdout.write(text), err: text => process.stderr.write(text) },
+    env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+    if (argv.length === 0 || argv.includes('--help') || argv.includes('-h')) {
+        output.out(`${USAGE}\n`);
+        return argv.length === 0 ? 2 : 0;
+    }
+
+    let options: CliOptions;
+    try {
+        if (argv[0] !== 'analyze') {
+            throw new UsageError(`Unknown command "${argv[0]}".`);
+        }
+        options = parseArgs(argv.slice(1), env);
+    } catch (error: any) {
+        output.err(`perfcopilot: ${error.message}\n\n${USAGE}\n`);
+        return 2;
+    }
+
+    const logger: PipelineLogger = { appendLine: line => { if (options.verbose) { output.err(`${line}\n`); } } };
+    try {
+        const filePath = path.resolve(options.file);
+        const fn = extractFunction(fs.readFileSync(filePath, 'utf8'), filePath, options.functionName);
+        output.err(`Analyzing \`${fn.name}\` in ${options.file}...\n`);
+        const result = await runAnalysis(
+            {
+                functionCode: fn.code,
+                entryPointName: fn.name,
+                context: fn.context,
+                count: options.count,
+                strategies: options.strategies,
+                comparisonOptions: DEFAULT_COMPARISON_OPTIONS,
+                fuzzOptions: options.fuzz ? { runs: DEFAULT_FUZZ_RUNS } : undefined,
+                repairRounds: options.repairRounds,
+                complexitySizes: options.complexity ? DEFAULT_COMPLEXITY_SIZES : undefined,
+                evolve: options.evolve ? { generations: DEFAULT_EVOLVE_GENERATIONS, minImprovement: DEFAULT_EVOLVE_MIN_IMPROVEMENT } : undefined,
+                memory: options.memory,
+                explain: options.explain
+            },
+            createLanguageModel(options),
+            logger,
+            undefined,
+            {
+                onProgress: message => output.err(`${message}\n`),
+                onNotice: notice => output.err(`${notice.kind === 'warning' ? 'Warning: ' : ''}${notice.message}\n`)
+            }
+        );
+        output.out(formatResult(result, options.format));
+        return 0;
+    } catch (error: any) {
+        output.err(`perfcopilot: ${error.message ?? error}\n`);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => { process.exitCode = code; });
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Benchmark Module Builder
+ *
+ * Builds the module run by the benchmark runner script (`benchmarkRunner.js`) from the
+ * implementations and the benchmark data. Shared by the chat participant and the headless
+ * pipeline (`pipeline.ts`).
+ *
+ * This module is host-agnostic: it must not import `vscode`.
+ */
+
+import { FunctionImplementation, PipelineLogger } from '../models/types';
+import { BenchmarkService } from '../services/benchmarkService';
+import { getExecutableCode } from '../utils/transpiler';
+
+/**
+ * Renames the entry point of each implementation to its sanitized name, so all of them can be
+ * loaded into one benchmark module.
+ *
+ * @param implementations - The implementations to benchmark (the original first)
+ * @param entryPointName - Name of the function the benchmark calls
+ * @param benchmarkService - Renames the entry point and its recursive calls
+ * @param logger - Logger for the processing steps
+ * @returns The processed code of each implementation, keyed by sanitized name
+ */
+export function processImplementations(
+    implementations: FunctionImplementation[],
+    entryPointName: string,
+    benchmarkService: BenchmarkService,
+    logger: PipelineLogger
+): Record<string, string> {
+    logger.appendLine('Processing implementations for benchmark runner...');
+    const processedImplementations: Record<string, string> = {};
+
+    for (const implementation of implementations) {
+        const sanitizedKey = sanitizeImplementationName(implementation.name);
+        logger.appendLine(`Processing implementation: ${implementation.name} -> ${sanitizedKey}`);
+
+        // CRITICAL: Renames functions and replaces recursive calls for isolated execution
+        // Transpiled JavaScript (see transpiler.ts) is what the runner executes
+        const processedCode = benchmarkService.replaceRecursiveCalls(
+            getExecutableCode(implementation),
+            entryPointName,
+            sanitizedKey
+        );
+        processedImplementations[sanitizedKey] = processedCode;
+        logger.appendLine(` -> Code processed for ${sanitizedKey}. Length: ${processedCode.length}`);
+    }
+    return processedImplementations;
+}
+
+/**
+ * Sanitizes an implementation name to a valid JS identifier (e.g., "Alternative 1" -> "Alternative_1",
+ * "lodash-version" -> "lodash_version"). Benchmark results are reported under this name.
+ */
+export function sanitizeImplementationName(name: string): string {
+    return name.replace(/[\s-]+/g, '_').replace(/[^a-zA-Z0-9_]/g, '');
+}
+
+/**
+ * Constructs the JS module string run by the benchmark runner script (`benchmarkRunner.js`).
+ *
+ * @param entryPointName - Name of the function the benchmark calls (for reference only)
+ * @param testData - The benchmark data passed to every implementation
+ * @param implementations - Processed code of each implementation, keyed by sanitized name
+ * @param complexityConfig - Data factory and input sizes, in complexity mode
+ * @param memoryEnabled - Whether the runner also measures memory
+ * @returns The benchmark module code
+ */
+export function createBenchmarkModule(
+    entryPointName: string,
+    testData: any,
+    implementations: Record<string, string>,
+    complexityConfig?: { factory: string; sizes: number[] },
+    memoryEnabled: boolean = false
+): string {
+    return `
+// Benchmark configuration generated by PerfCopilot
+// Entry Point Name was: ${JSON.stringify(entryPointName)} (used internally)
+const testData = ${JSON.stringify(testData, null, 2)}; // Pretty-print testData
+const implementations = {
+${Object.entries(implementations).map(([key, code]) => 
+    // Key is already sanitized, code is processed
+    `  ${JSON.stringify(key)}: ${JSON.stringify(code)}`).join(',\n')}
+};
+${complexityConfig ? `const complexity = ${JSON.stringify(complexityConfig)};\n` : ''}
+module.exports = {
+    // entryPointName, // Removed - runner uses keys from implementations
+    testData,
+    implementations${complexityConfig ? ',\n    complexity' : ''}${memoryEnabled ? ',\n    memory: true' : ''}
+};
+                    `;
+}
@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Language Models of the Headless Pipeline
+ *
+ * `PipelineLanguageModel` implementations that do not need VS Code:
+ * - `OpenAiCompatibleLanguageModel` talks to any server implementing the OpenAI
+ *   `/chat/completions` API (OpenAI, Azure OpenAI, Ollama, llama.cpp, vLLM, LM Studio, ...).
+ * - `StubLanguageModel` returns canned answers in order, for tests and CI runs without a model.
+ * - `RecordingLanguageModel` wraps another model and appends every prompt and answer to a fixture
+ *   file, which `ReplayLanguageModel` answers from later: the same run, offline and reproducible.
+ *
+ * This module is host-agnostic: it must not import `vscode`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModelStage, PipelineCancellationToken, PipelineLanguageModel, RecordedExchange } from '../models/types';
+
+/**
+ * The stages that ask the language model, in pipeline order, with their display names
+ */
+export const MODEL_STAGES: ModelStage[] = ['alternatives', 'benchmarkConfig', 'testInputs', 'explanation'];
+export const STAGE_LABELS: Record<ModelStage, string> = {
+    alternatives: 'Alternatives',
+    benchmarkConfig: 'Benchmark configuration',
+    testInputs: 'Test inputs',
+    explanation: 'Explanation'
+};
+
+/**
+ * Default time limit (ms) of a chat completion request
+ */
+const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+
+/**
+ * Connection settings of an OpenAI-compatible server
+ */
+export interface OpenAiCompatibleOptions {
+    /**
+     * Base URL of the API, without `/chat/completions` (e.g. "http://localhost:11434/v1")
+     */
+    endpoint: string;
+
+    /**
+     * Name of the model on the server
+     */
+    model: string;
+
+    /**
+     * API key sent as a bearer token, if the server needs one
+     */
+    apiKey?: string;
+
+    /**
+     * Time limit (ms) of a request
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * A model behind an OpenAI-compatible `/chat/completions` endpoint.
+ */
+export class OpenAiCompatibleLanguageModel implements PipelineLanguageModel {
+    /**
+     * The model as "openai-compatible/<model>"
+     */
+    public readonly id: string;
+
+    /**
+     * Connection settings
+     */
+    private options: OpenAiCompatibleOptions;
+
+    /**
+     * Creates a new client.
+     *
+     * @param options - Connection settings
+     */
+    constructor(options: OpenAiCompatibleOptions) {
+        this.options = options;
+        this.id = `openai-compatible/${options.model}`;
+    }
+
+    /**
+     * Sends the prompt as a user message and returns the content of the first choice.
+     *
+     * @param prompt - The prompt
+     * @param token - Cancellation token, checked before the request is sent
+     * @returns The answer
+     * @throws If the request fails, times out or the answer has no content
+     */
+    public async complete(prompt: string, token: PipelineCancellationToken): Promise<string> {
+        if (token.isCancellationRequested) {
+            throw new Error('Operation cancelled');
+        }
+        const url = `${this.options.endpoint.replace(/\/+$/, '')}/chat/completions`;
+        const headers: [string, string][] = [['Content-Type', 'application/json']];
+        if (this.options.apiKey) {
+            headers.push(['Authorization', `Bearer ${this.options.apiKey}`]);
+        }
+        const response = await fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model: this.options.model, messages: [{ role: 'user', content: prompt }] }),
+            signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS)
+        });
+        if (!response.ok) {
+            throw new Error(`${url} returned ${response.status} ${response.statusText}: ${(await response.text()).slice(0, 500)}`);
+        }
+
+        const body: any = await response.json();
+        const content = body?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error(`${url} returned no message content: ${JSON.stringify(body).slice(0, 500)}`);
+        }
+        return content;
+    }
+}
+
+/**
+ * A model that returns canned answers in order, one per prompt. The headless pipeline sends its
+ * prompts in a fixed order: alternatives, benchmark configuration, test inputs, explanation.
+ */
+export class StubLanguageModel implements PipelineLanguageModel {
+    /**
+     * Always "stub"
+     */
+    public readonly id = 'stub';
+
+    /**
+     * The prompts received so far
+     */
+    public readonly prompts: string[] = [];
+
+    /**
+     * The answers, in order
+     */
+    private answers: string[];
+
+    /**
+     * Creates a new stub.
+     *
+     * @param answers - The answers, in the order of the prompts
+     */
+    constructor(answers: string[]) {
+        this.answers = answers;
+    }
+
+    /**
+     * Returns the next answer.
+     *
+     * @param prompt - The prompt (recorded in `prompts`)
+     * @returns The next answer
+     * @throws If every answer was used
+     */
+    public async complete(prompt: string): Promise<string> {
+        this.prompts.push(prompt);
+        if (this.prompts.length > this.answers.length) {
+            throw new Error(`The stub model has no answer for prompt ${this.prompts.length} (it has ${this.answers.length}).`);
+        }
+        return this.answers[this.prompts.length - 1];
+    }
+}
+
+/**
+ * Reads a record/replay fixture.
+ *
+ * @param filePath - Path of the fixture (a JSON array of `RecordedExchange`)
+ * @returns The exchanges, in the order they were recorded
+ * @throws If the file cannot be read or is not a fixture
+ */
+export function readFixture(filePath: string): RecordedExchange[] {
+    const exchanges = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!Array.isArray(exchanges) || exchanges.some(exchange => typeof exchange?.prompt !== 'string' || typeof exchange?.response !== 'string')) {
+        throw new Error(`${filePath} is not a PerfCopilot fixture (a JSON array of { "prompt", "response" } objects).`);
+    }
+    return exchanges;
+}
+
+/**
+ * A model that answers from a record/replay fixture. Each prompt gets the answer of the first
+ * recorded exchange with exactly the same prompt that was not used yet, so a run with the same
+ * inputs as the recorded one gets the same answers, in the same order.
+ */
+export class ReplayLanguageModel implements PipelineLanguageModel {
+    /**
+     * "replay/<model of the recording>", or "replay" if the fixture does not name the model
+     */
+    public readonly id: string;
+
+    /**
+     * The recorded exchanges
+     */
+    private exchanges: RecordedExchange[];
+
+    /**
+     * Indexes of the exchanges already answered
+     */
+    private used = new Set<number>();
+
+    /**
+     * Creates a new replay model.
+     *
+     * @param exchanges - The recorded exchanges
+     */
+    constructor(exchanges: RecordedExchange[]) {
+        this.exchanges = exchanges;
+        const model = exchanges.find(exchange => exchange.model)?.model;
+        this.id = model ? `replay/${model}` : 'replay';
+    }
+
+    /**
+     * Returns the recorded answer of the prompt.
+     *
+     * @param prompt - The prompt
+     * @returns The recorded answer
+     * @throws If the fixture has no unused exchange with this prompt
+     */
+    public async complete(prompt: string): Promise<string> {
+        const index = this.exchanges.findIndex((exchange, candidate) => !this.used.has(candidate) && exchange.prompt === prompt);
+        if (index < 0) {
+            throw new Error(`The fixture has no recorded answer for this prompt (${this.used.size} of ${this.exchanges.length} answers used). Record the fixture again. Prompt: ${prompt.slice(0, 200)}`);
+        }
+        this.used.add(index);
+        return this.exchanges[index].response;
+    }
+}
+
+/**
+ * A model that forwards every prompt to another model and appends the prompt and the answer to a
+ * fixture file for `ReplayLanguageModel`. Exchanges already in the file are kept, and the file is
+ * written after each answer, so an interrupted run keeps what it recorded.
+ */
+export class RecordingLanguageModel implements PipelineLanguageModel {
+    /**
+     * Id of the recorded model
+     */
+    public readonly id: string;
+
+    /**
+     * The recorded model
+     */
+    private model: PipelineLanguageModel;
+
+    /**
+     * Path of the fixture
+     */
+    private filePath: string;
+
+    /**
+     * Creates a new recorder.
+     *
+     * @param model - The model to record
+     * @param filePath - Path of the fixture; created with its folder if missing
+     */
+    constructor(model: PipelineLanguageModel, filePath: string) {
+        this.model = model;
+        this.filePath = filePath;
+        this.id = model.id;
+    }
+
+    /**
+     * Sends the prompt to the recorded model and appends the exchange to the fixture.
+     *
+     * @param prompt - The prompt
+     * @param token - Cancellation token
+     * @returns The answer of the recorded model
+     */
+    public async complete(prompt: string, token: PipelineCancellationToken): Promise<string> {
+        const response = await this.model.complete(prompt, token);
+        const exchanges = fs.existsSync(this.filePath) ? readFixture(this.filePath) : [];
+        exchanges.push({ prompt, response, model: this.model.id });
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(exchanges, null, 2));
+        return response;
+    }
+}
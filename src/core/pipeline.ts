@@ -0,0 +1,708 @@
+/**
+ * @fileoverview Analysis Pipeline
+ *
+ * Runs the PerfCopilot pipeline, for the chat participant (`perfCopilotParticipant.ts`), the
+ * `perfcopilot` CLI (`cli/perfcopilot.ts`) and other hosts:
+ * 1. Asks the language model for alternative implementations and transpiles them.
+ * 2. Asks the model for the benchmark configuration (entry point and benchmark data).
+ * 3. Verifies the alternatives (and the user's own versions) against the original with the
+ *    correctness verifier, and optionally sends the failing ones back to the model for repair.
+ * 4. Benchmarks the original and the verified alternatives with `BenchmarkService`, optionally
+ *    at several input sizes (complexity mode).
+ * 5. Optionally feeds the fastest implementation back to the model as the new baseline (evolve mode).
+ * 6. Optionally asks the model to explain the results.
+ *
+ * Everything host-specific is passed in: the language models, the logger, the cancellation token,
+ * an observer for progress and notices, and the benchmark service. This module is host-agnostic:
+ * it must not import `vscode`.
+ */
+
+import {
+    AnalysisFailure,
+    AnalysisNotice,
+    AnalysisObserver,
+    AnalysisOptions,
+    AnalysisResult,
+    BenchmarkComparison,
+    BenchmarkConfig,
+    EvolutionStep,
+    FunctionImplementation,
+    FuzzCounterexample,
+    PipelineCancellationToken,
+    PipelineLanguageModel,
+    PipelineLogger,
+    PipelineStageModels,
+    RecordedVerdict,
+    RepairCandidate,
+    VerificationReport
+} from '../models/types';
+import { BenchmarkService } from '../services/benchmarkService';
+import { verifyAlternatives } from '../utils/correctnessVerifier';
+import { isValidJavaScriptFunction } from '../utils/functions';
+import { createLocalDataFactory } from '../utils/complexity';
+import { prepareImplementation } from '../utils/transpiler';
+import {
+    createAlternativesPrompt,
+    createBenchmarkPrompt,
+    createEvolutionPrompt,
+    createExplanationPrompt,
+    createInputGenerationPrompt,
+    createRepairPrompt
+} from './prompts';
+import { parseAlternativeImplementations, parseBenchmarkConfig } from './responses';
+import { createBenchmarkModule, processImplementations, sanitizeImplementationName } from './benchmarkModule';
+
+/**
+ * Number of repair attempts per failing alternative when the host does not set one
+ */
+export const DEFAULT_REPAIR_ROUNDS = 2;
+
+/**
+ * Number of generations in evolve mode, and the minimum speedup (%) over the previous winner to
+ * keep evolving, when the host does not set them
+ */
+export const DEFAULT_EVOLVE_GENERATIONS = 3;
+export const DEFAULT_EVOLVE_MIN_IMPROVEMENT = 5;
+
+/**
+ * Token of runs that cannot be cancelled
+ */
+const NEVER_CANCELLED: PipelineCancellationToken = { isCancellationRequested: false };
+
+/**
+ * Error of a step the analysis cannot continue without, or of a cancelled run
+ */
+export class AnalysisError extends Error {
+    /**
+     * @param failure - The step that failed
+     * @param message - What failed
+     * @param cause - The error the step failed with, if any
+     */
+    constructor(
+        public readonly failure: AnalysisFailure,
+        message: string,
+        public readonly cause?: unknown
+    ) {
+        super(message);
+        this.name = 'AnalysisError';
+    }
+}
+
+/**
+ * Reports the progress and notices of a run to its observer.
+ */
+type Reporter = Required<Pick<AnalysisObserver, 'onProgress'>> & {
+    notice(kind: AnalysisNotice['kind'], message: string): void;
+    observer: AnalysisObserver;
+};
+
+/**
+ * Entry point, benchmark data and test inputs of the first generation, reused by evolve mode
+ */
+interface BenchmarkSetup {
+    entryPointName: string;
+    testData: any;
+    testInputs: any[][];
+}
+
+/**
+ * Runs the analysis of a function: alternatives, verification (with repair), benchmark (with
+ * complexity mode), evolve mode and explanation.
+ *
+ * @param options - The function and the analysis options
+ * @param languageModels - The language model of every stage, or one model for all of them
+ * @param logger - Logger for every step
+ * @param token - Cancellation token
+ * @param observer - Notified of the progress, the notices, the correctness checks and the first benchmark results
+ * @param benchmarkService - Runs the benchmarks
+ * @returns The benchmark run (with the prepared implementations), the skipped alternatives, the
+ *          lineage of evolve mode and the explanation
+ * @throws AnalysisError if a step the analysis cannot continue without fails (no valid function,
+ *         no alternatives, no benchmark configuration, none verified, the benchmark failed) or the
+ *         run was cancelled
+ */
+export async function runAnalysis(
+    options: AnalysisOptions,
+    languageModels: PipelineLanguageModel | PipelineStageModels,
+    logger: PipelineLogger,
+    token: PipelineCancellationToken = NEVER_CANCELLED,
+    observer: AnalysisObserver = {},
+    benchmarkService: BenchmarkService = new BenchmarkService(logger)
+): Promise<AnalysisResult> {
+    const models = toStageModels(languageModels);
+    const reporter = createReporter(observer, logger);
+    const { functionCode, context } = options;
+    const userVersions = options.userVersions ?? [];
+    const repairRounds = options.repairRounds ?? 0;
+    logger.appendLine(`Starting analysis with ${models.alternatives.id}.`);
+    if (!isValidJavaScriptFunction(functionCode)) {
+        throw new AnalysisError('invalidFunction', 'The code does not contain a valid JavaScript/TypeScript function.');
+    }
+
+    // Transpile (TypeScript → JavaScript) before anything is executed in a vm context
+    let originalFunction: FunctionImplementation;
+    try {
+        originalFunction = prepareImplementation({ name: 'Original', code: functionCode, description: 'Original implementation', ...(context ? { context } : {}) });
+    } catch (error: any) {
+        logger.appendLine(`Transpile error for original function: ${error.message}`);
+        throw new AnalysisError('transpile', `The function could not be transpiled to JavaScript: ${error.message}`, error);
+    }
+
+    // 1. Alternatives; those that fail to compile are kept aside for the repair loop
+    reporter.onProgress('Generating alternative implementations...');
+    let alternativesText: string;
+    try {
+        alternativesText = await models.alternatives.complete(createAlternativesPrompt(functionCode, context, options), token);
+    } catch (error: any) {
+        throwIfCancelled(token);
+        logger.appendLine(`Error getting alternatives: ${error}`);
+        throw new AnalysisError('alternatives', `Failed to generate alternative implementations: ${error.message ?? error}`, error);
+    }
+    throwIfCancelled(token);
+    const compileFailures: RepairCandidate[] = [];
+    const generated = prepareAlternatives(parseAlternativeImplementations(functionCode, alternativesText, logger, options.count), context, reporter, compileFailures);
+    const alternatives = [...userVersions, ...generated];
+    if (alternatives.length === 0 && (compileFailures.length === 0 || repairRounds === 0)) {
+        throw new AnalysisError('noAlternatives', 'No alternative implementations could be used from the model\'s answer.');
+    }
+    reporter.notice('success', `Generated ${generated.length} alternative implementations.`);
+
+    // 2. Entry point and benchmark data
+    reporter.onProgress('Generating benchmark data...');
+    let benchmarkConfig: BenchmarkConfig;
+    try {
+        const benchmarkPrompt = createBenchmarkPrompt(originalFunction, alternatives, options.complexitySizes !== undefined);
+        benchmarkConfig = parseBenchmarkConfig(await models.benchmarkConfig.complete(benchmarkPrompt, token), logger);
+    } catch (error: any) {
+        throwIfCancelled(token);
+        logger.appendLine(`Error generating the benchmark configuration: ${error}`);
+        throw new AnalysisError('benchmarkConfig', `Failed to generate the benchmark data: ${error.message ?? error}`, error);
+    }
+    throwIfCancelled(token);
+    reporter.notice('success', 'AI identified entry point and generated test data.');
+    const entryPointName = options.entryPointName ?? benchmarkConfig.entryPointName;
+    if (entryPointName !== benchmarkConfig.entryPointName) {
+        logger.appendLine(`Using entry point ${entryPointName} instead of ${benchmarkConfig.entryPointName} suggested by the model.`);
+    }
+
+    // 3. Correctness; without a report (the check failed), every alternative is benchmarked
+    reporter.onProgress('Verifying functional correctness...');
+    let report: VerificationReport | undefined;
+    try {
+        const counterexamples: FuzzCounterexample[] = [];
+        report = await verifyAlternatives(
+            originalFunction,
+            alternatives,
+            models.testInputs,
+            createInputGenerationPrompt,
+            logger,
+            token,
+            entryPointName,
+            options.comparisonOptions,
+            options.fuzzOptions,
+            counterexample => {
+                logger.appendLine(`${counterexample.alternative} rejected by fuzzing (seed ${counterexample.seed}): ${counterexample.divergence}`);
+                counterexamples.push(counterexample);
+            }
+        );
+        throwIfCancelled(token);
+        observer.onVerification?.(report, entryPointName, counterexamples);
+    } catch (error: any) {
+        throwIfCancelled(token);
+        logger.appendLine(`Error during functional verification: ${error.message}`);
+        reporter.notice('warning', `Could not verify functional correctness due to an error: ${error.message}. Proceeding with all generated alternatives.`);
+    }
+
+    let verified = alternatives;
+    let verdicts: RecordedVerdict[] = [];
+    const skipped = compileFailures.map(failure => ({ name: failure.alternative.name, reason: `Does not compile: ${failure.compileError}` }));
+    if (report) {
+        verified = report.verdicts.filter(verdict => verdict.status === 'VERIFIED').map(verdict => verdict.alternative);
+        verdicts = report.verdicts.map(verdict => ({
+            name: verdict.alternative.name,
+            status: verdict.status,
+            ...(verdict.reason ? { reason: verdict.reason } : {})
+        }));
+        const rejected = report.verdicts.filter(verdict => verdict.status === 'REJECTED');
+        if (rejected.length > 0) {
+            reporter.notice('info', `Rejected ${rejected.length} alternatives due to incorrect results.`);
+        }
+
+        // Failing alternatives get bounded repair attempts, re-verified against the same inputs
+        const repairCandidates: RepairCandidate[] = [
+            ...compileFailures,
+            ...rejected
+                .filter(verdict => !verdict.alternative.userProvided)
+                .map(verdict => ({ alternative: verdict.alternative, reason: verdict.reason, mismatch: verdict.mismatch }))
+        ];
+        let repaired: FunctionImplementation[] = [];
+        if (repairCandidates.length > 0 && repairRounds > 0) {
+            try {
+                repaired = await repairAlternatives(repairCandidates, originalFunction, entryPointName, report.testInputs, repairRounds, options, models, logger, token, reporter);
+            } catch (error: any) {
+                throwIfCancelled(token);
+                logger.appendLine(`[Repair] Failed: ${error.message}`);
+                reporter.notice('warning', `Could not repair the failing alternatives: ${error.message}`);
+            }
+        }
+        if (repaired.length > 0) {
+            verified = [...verified, ...repaired];
+            // Alternatives that did not compile were never verified, so they have no verdict to replace yet
+            const repairedVerdict = (name: string): RecordedVerdict => ({ name, status: 'VERIFIED', reason: 'Repaired' });
+            verdicts = [
+                ...verdicts.map(verdict => repaired.some(alt => alt.name === verdict.name) ? repairedVerdict(verdict.name) : verdict),
+                ...repaired
+                    .filter(alt => !verdicts.some(verdict => verdict.name === alt.name))
+                    .map(alt => repairedVerdict(alt.name))
+            ];
+        }
+        const passedCount = verified.length;
+
+        // INDETERMINATE alternatives could not be checked at all; benchmark them only if configured
+        const indeterminate = report.verdicts
+            .filter(verdict => verdict.status === 'INDETERMINATE')
+            .map(verdict => verdict.alternative);
+        if (indeterminate.length > 0 && options.benchmarkIndeterminate) {
+            reporter.notice('warning', `Benchmarking ${indeterminate.length} alternatives whose correctness could not be verified (${indeterminate.map(alt => alt.name).join(', ')}). They may not be equivalent to the original; check their results before using them.`);
+            verified = [...verified, ...indeterminate];
+        }
+        for (const verdict of report.verdicts.filter(candidate => !verified.some(alt => alt.name === candidate.alternative.name))) {
+            skipped.push({ name: verdict.alternative.name, reason: `${verdict.status}${verdict.reason ? `: ${verdict.reason}` : ''}` });
+        }
+        if (verified.length > 0) {
+            reporter.notice('success', `${passedCount} alternatives passed correctness check.`);
+        }
+        skipped.splice(0, skipped.length, ...skipped.filter(entry => !repaired.some(alt => alt.name === entry.name)));
+    }
+    if (verified.length === 0) {
+        throw new AnalysisError('verification', 'No alternative implementations passed the functional correctness check.');
+    }
+    const setup: BenchmarkSetup = { entryPointName, testData: benchmarkConfig.testData, testInputs: report?.testInputs ?? [] };
+
+    // 4. Benchmark; complexity mode prefers the model's size-parameterized factory, else derives one from the data
+    let complexityConfig: { factory: string; sizes: number[] } | undefined;
+    if (options.complexitySizes) {
+        const factory = typeof benchmarkConfig.testDataFactory === 'string' && benchmarkConfig.testDataFactory.trim()
+            ? benchmarkConfig.testDataFactory
+            : createLocalDataFactory(benchmarkConfig.testData);
+        if (factory) {
+            complexityConfig = { factory, sizes: options.complexitySizes };
+            logger.appendLine(`Complexity data factory: ${factory}`);
+        } else {
+            logger.appendLine('Complexity mode: No data factory available for this test data shape.');
+            reporter.notice('warning', 'Could not scale the test data for complexity mode. Running the regular benchmark only.');
+        }
+    }
+    reporter.onProgress('Running benchmarks...');
+    let results: BenchmarkComparison;
+    try {
+        results = await runBenchmark(
+            benchmarkService,
+            createBenchmarkModule(
+                entryPointName,
+                setup.testData,
+                processImplementations([originalFunction, ...verified], entryPointName, benchmarkService, logger),
+                complexityConfig,
+                options.memory !== false
+            )
+        );
+    } catch (error: any) {
+        throwIfCancelled(token);
+        logger.appendLine(`Error running benchmark: ${error}`);
+        throw new AnalysisError('benchmark', `Failed to run the benchmarks: ${error.message ?? error}`, error);
+    }
+    throwIfCancelled(token);
+    observer.onBenchmark?.(results);
+
+    // 5. Evolve mode
+    let lineage: EvolutionStep[] | undefined;
+    if (options.evolve) {
+        const evolution = await evolveImplementations(originalFunction, verified, results, setup, options, models, logger, token, reporter, benchmarkService);
+        throwIfCancelled(token);
+        lineage = evolution.lineage;
+        verified = evolution.alternatives;
+        results = evolution.benchmarkResults;
+    }
+
+    // 6. Explanation
+    let explanation: string | undefined;
+    if (options.explain !== false) {
+        reporter.onProgress('Analyzing benchmark results...');
+        try {
+            explanation = await models.explanation.complete(createExplanationPrompt(originalFunction, verified, results), token);
+        } catch (error: any) {
+            throwIfCancelled(token);
+            logger.appendLine(`Could not get the explanation of the results: ${error.message}`);
+            reporter.notice('warning', `Could not get the explanation of the results: ${error.message}`);
+        }
+        throwIfCancelled(token);
+    }
+
+    return {
+        entryPointName,
+        testData: setup.testData,
+        implementations: [originalFunction, ...verified],
+        results,
+        timestamp: Date.now(),
+        verdicts,
+        model: models.alternatives.id,
+        stageModels: {
+            alternatives: models.alternatives.id,
+            benchmarkConfig: models.benchmarkConfig.id,
+            testInputs: models.testInputs.id,
+            explanation: models.explanation.id
+        },
+        skipped,
+        ...(lineage ? { lineage } : {}),
+        ...(explanation !== undefined ? { explanation } : {})
+    };
+}
+
+/**
+ * Formats a relative speedup, e.g. 0.153 as "15.3% faster".
+ *
+ * @param improvement - The speedup as a fraction (negative if slower)
+ * @returns The formatted speedup
+ */
+export function formatImprovement(improvement: number): string {
+    return improvement >= 0
+        ? `${(improvement * 100).toFixed(1)}% faster`
+        : `${(-improvement * 100).toFixed(1)}% slower`;
+}
+
+/**
+ * Uses a single model for every stage, unless a model is given per stage.
+ */
+function toStageModels(languageModels: PipelineLanguageModel | PipelineStageModels): PipelineStageModels {
+    if ('complete' in languageModels && typeof languageModels.complete === 'function') {
+        const model = languageModels as PipelineLanguageModel;
+        return { alternatives: model, benchmarkConfig: model, testInputs: model, explanation: model };
+    }
+    return languageModels as PipelineStageModels;
+}
+
+/**
+ * Creates the reporter of a run, which also logs every notice.
+ */
+function createReporter(observer: AnalysisObserver, logger: PipelineLogger): Reporter {
+    return {
+        observer,
+        onProgress: message => observer.onProgress?.(message),
+        notice: (kind, message) => {
+            logger.appendLine(`[${kind}] ${message}`);
+            observer.onNotice?.({ kind, message });
+        }
+    };
+}
+
+/**
+ * Transpiles each alternative (see `transpiler.ts`). Alternatives that fail to transpile are
+ * dropped and reported, since they could not be verified or benchmarked.
+ *
+ * @param alternatives - The parsed alternatives
+ * @param context - The original function's workspace context, shared by every alternative
+ * @param reporter - Reports the dropped alternatives
+ * @param failures - Collects the dropped alternatives with their transpile errors, for repair
+ * @returns The alternatives with `executableCode` and `lineMap` set
+ */
+function prepareAlternatives(
+    alternatives: FunctionImplementation[],
+    context: string | undefined,
+    reporter: Reporter,
+    failures: RepairCandidate[] = []
+): FunctionImplementation[] {
+    const prepared: FunctionImplementation[] = [];
+    for (const alternative of alternatives) {
+        const withContext = context ? { ...alternative, context } : alternative;
+        try {
+            prepared.push(prepareImplementation(withContext));
+        } catch (error: any) {
+            reporter.notice('warning', `Skipping ${alternative.name}: ${error.message}`);
+            failures.push({ alternative: withContext, compileError: error.message });
+        }
+    }
+    return prepared;
+}
+
+/**
+ * Repair loop: sends alternatives that failed to compile or were rejected back to the language
+ * model with the failure (error, or counterexample input with expected vs actual output), and
+ * re-verifies each fixed candidate against the same test inputs. Without inputs (e.g. nothing
+ * compiled and the initial check got none), the first re-verification generates them and the
+ * later rounds reuse them. A candidate that still fails is sent again with its new failure, for
+ * up to `maxRounds` rounds.
+ *
+ * @param candidates - The failing alternatives
+ * @param originalFunction - The original function
+ * @param entryPointName - Name of the function the test inputs are passed to
+ * @param testInputs - Test inputs (argument lists) of the initial correctness check, possibly empty
+ * @param maxRounds - Maximum number of repair attempts per alternative
+ * @param options - The comparison and fuzzing options of the correctness check
+ * @param models - The language models
+ * @param logger - Logger
+ * @param token - Cancellation token
+ * @param reporter - Reports the rounds and their outcome
+ * @returns The repaired alternatives that passed the correctness check
+ */
+async function repairAlternatives(
+    candidates: RepairCandidate[],
+    originalFunction: FunctionImplementation,
+    entryPointName: string,
+    testInputs: any[][],
+    maxRounds: number,
+    options: AnalysisOptions,
+    models: PipelineStageModels,
+    logger: PipelineLogger,
+    token: PipelineCancellationToken,
+    reporter: Reporter
+): Promise<FunctionImplementation[]> {
+    const repaired: FunctionImplementation[] = [];
+    let pending = candidates;
+    let inputs = testInputs;
+
+    for (let round = 1; round <= maxRounds && pending.length > 0; round++) {
+        throwIfCancelled(token);
+        reporter.onProgress(`Repairing ${pending.length} alternatives (round ${round} of ${maxRounds})...`);
+        logger.appendLine(`[Repair] Round ${round}: ${pending.map(candidate => candidate.alternative.name).join(', ')}`);
+
+        const stillFailing: RepairCandidate[] = [];
+        const fixed: FunctionImplementation[] = [];
+        for (const candidate of pending) {
+            let code: string;
+            try {
+                code = await requestRepair(candidate, originalFunction, entryPointName, models.alternatives, token);
+            } catch (error: any) {
+                throwIfCancelled(token);
+                logger.appendLine(`[Repair] No fix received for ${candidate.alternative.name}: ${error.message}`);
+                stillFailing.push(candidate);
+                continue;
+            }
+            const attempt = { ...candidate.alternative, code };
+            try {
+                fixed.push(prepareImplementation(attempt));
+            } catch (error: any) {
+                logger.appendLine(`[Repair] Fix for ${candidate.alternative.name} does not compile: ${error.message}`);
+                stillFailing.push({ alternative: attempt, compileError: error.message });
+            }
+        }
+
+        if (fixed.length > 0) {
+            const report = await verifyAlternatives(
+                originalFunction,
+                fixed,
+                models.testInputs,
+                createInputGenerationPrompt,
+                logger,
+                token,
+                entryPointName,
+                options.comparisonOptions,
+                options.fuzzOptions,
+                undefined,
+                inputs.length > 0 ? inputs : undefined
+            );
+            if (inputs.length === 0) {
+                inputs = report.testInputs;
+            }
+            for (const verdict of report.verdicts) {
+                if (verdict.status === 'VERIFIED') {
+                    reporter.notice('repaired', `Repaired ${verdict.alternative.name} in round ${round}; it now passes the correctness check.`);
+                    repaired.push(verdict.alternative);
+                } else if (verdict.status === 'REJECTED') {
+                    stillFailing.push({ alternative: verdict.alternative, reason: verdict.reason, mismatch: verdict.mismatch });
+                } else {
+                    logger.appendLine(`[Repair] ${verdict.alternative.name} could not be verified: ${verdict.reason}`);
+                }
+            }
+        }
+        pending = stillFailing;
+    }
+
+    if (pending.length > 0) {
+        reporter.notice('info', `Could not repair ${pending.map(candidate => candidate.alternative.name).join(', ')} after ${maxRounds} rounds.`);
+    }
+    return repaired;
+}
+
+/**
+ * Asks the language model to fix a failing alternative.
+ *
+ * @param candidate - The failing alternative and its failure
+ * @param originalFunction - The original function
+ * @param entryPointName - Name of the function the test inputs are passed to
+ * @param languageModel - The language model
+ * @param token - Cancellation token
+ * @returns The code of the fixed alternative
+ * @throws If the request fails or the answer contains no code block
+ */
+async function requestRepair(
+    candidate: RepairCandidate,
+    originalFunction: FunctionImplementation,
+    entryPointName: string,
+    languageModel: PipelineLanguageModel,
+    token: PipelineCancellationToken
+): Promise<string> {
+    const responseText = await languageModel.complete(createRepairPrompt(candidate, originalFunction, entryPointName), token);
+    const match = /```(?:javascript|js|typescript|ts)?\s*([\s\S]*?)```/.exec(responseText);
+    const code = match?.[1]?.trim();
+    if (!code) {
+        throw new Error('The response did not contain a code block.');
+    }
+    return code;
+}
+
+/**
+ * Evolve mode: feeds the fastest verified implementation back to the model as the new baseline.
+ * Each generation is verified against the original with the same test inputs and benchmarked
+ * together with the previous winners, so its speedup is measured in the same run. Evolution stops
+ * after `options.evolve.generations` generations, or when the best new alternative is less than
+ * `options.evolve.minImprovement` percent faster than the previous winner.
+ *
+ * @param originalFunction - The original function
+ * @param alternatives - The verified alternatives of the first generation
+ * @param benchmarkResults - Benchmark results of the first generation
+ * @param setup - Entry point, benchmark data and test inputs of the first generation
+ * @param options - The analysis options (evolve limits, number of alternatives and strategies per generation)
+ * @param models - The language models
+ * @param logger - Logger
+ * @param token - Cancellation token
+ * @param reporter - Reports the generations and their outcome
+ * @param benchmarkService - Runs the benchmarks
+ * @returns The lineage of winners, and the alternatives and results of the last benchmark run
+ */
+async function evolveImplementations(
+    originalFunction: FunctionImplementation,
+    alternatives: FunctionImplementation[],
+    benchmarkResults: BenchmarkComparison,
+    setup: BenchmarkSetup,
+    options: AnalysisOptions,
+    models: PipelineStageModels,
+    logger: PipelineLogger,
+    token: PipelineCancellationToken,
+    reporter: Reporter,
+    benchmarkService: BenchmarkService
+): Promise<{ lineage: EvolutionStep[]; alternatives: FunctionImplementation[]; benchmarkResults: BenchmarkComparison }> {
+    const { generations, minImprovement } = options.evolve ?? { generations: DEFAULT_EVOLVE_GENERATIONS, minImprovement: DEFAULT_EVOLVE_MIN_IMPROVEMENT };
+    const opsOf = (results: BenchmarkComparison, implementation: FunctionImplementation) =>
+        results.results.find(result => result.name === sanitizeImplementationName(implementation.name))?.ops ?? 0;
+    const fastestOf = (candidates: FunctionImplementation[], results: BenchmarkComparison) =>
+        [...candidates].sort((a, b) => opsOf(results, b) - opsOf(results, a))[0];
+
+    const lineage: EvolutionStep[] = [{ implementation: originalFunction, generation: 0, ops: opsOf(benchmarkResults, originalFunction) }];
+    let latest = { alternatives, benchmarkResults };
+
+    const firstWinner = fastestOf(alternatives, benchmarkResults);
+    if (!firstWinner || opsOf(benchmarkResults, firstWinner) <= lineage[0].ops) {
+        reporter.notice('info', 'No alternative is faster than the original, so there is nothing to evolve.');
+        return { lineage, ...latest };
+    }
+    lineage.push({
+        implementation: firstWinner,
+        generation: 1,
+        parent: originalFunction.name,
+        ops: opsOf(benchmarkResults, firstWinner),
+        improvement: lineage[0].ops > 0 ? opsOf(benchmarkResults, firstWinner) / lineage[0].ops - 1 : undefined
+    });
+
+    for (let generation = 2; generation <= generations; generation++) {
+        if (token.isCancellationRequested) { break; }
+        const baseline = lineage[lineage.length - 1];
+        reporter.onProgress(`Evolving generation ${generation} of ${generations} from ${baseline.implementation.name}...`);
+        logger.appendLine(`[Evolve] Generation ${generation}: baseline ${baseline.implementation.name} (${Math.round(baseline.ops)} ops/sec)`);
+
+        try {
+            const responseText = await models.alternatives.complete(
+                createEvolutionPrompt(originalFunction, baseline, latest.benchmarkResults, generation, options),
+                token
+            );
+            throwIfCancelled(token);
+
+            // Names carry the generation so they stay unique across the lineage
+            const candidates = prepareAlternatives(
+                parseAlternativeImplementations(baseline.implementation.code, responseText, logger, options.count)
+                    .map(alternative => ({ ...alternative, name: `Generation ${generation} ${alternative.name}` })),
+                originalFunction.context,
+                reporter
+            );
+            if (candidates.length === 0) {
+                reporter.notice('info', `Generation ${generation} produced no usable alternatives. Stopping evolution.`);
+                break;
+            }
+
+            // Every generation is verified against the original, not against its baseline
+            const counterexamples: FuzzCounterexample[] = [];
+            const report = await verifyAlternatives(
+                originalFunction,
+                candidates,
+                models.testInputs,
+                createInputGenerationPrompt,
+                logger,
+                token,
+                setup.entryPointName,
+                options.comparisonOptions,
+                options.fuzzOptions,
+                counterexample => counterexamples.push(counterexample),
+                setup.testInputs.length > 0 ? setup.testInputs : undefined
+            );
+            if (token.isCancellationRequested) { break; }
+            reporter.observer.onVerification?.(report, setup.entryPointName, counterexamples);
+            const verified = report.verdicts
+                .filter(verdict => verdict.status === 'VERIFIED')
+                .map(verdict => verdict.alternative);
+            if (verified.length === 0) {
+                reporter.notice('info', `No alternative of generation ${generation} passed the correctness check. Stopping evolution.`);
+                break;
+            }
+
+            // Previous winners run in the same benchmark, so speedups are not skewed by run-to-run noise
+            const benchmarked = [...lineage.slice(1).map(step => step.implementation), ...verified];
+            const results = await runBenchmark(benchmarkService, createBenchmarkModule(
+                setup.entryPointName,
+                setup.testData,
+                processImplementations([originalFunction, ...benchmarked], setup.entryPointName, benchmarkService, logger),
+                undefined,
+                options.memory !== false
+            ));
+            latest = { alternatives: benchmarked, benchmarkResults: results };
+
+            const best = fastestOf(verified, results);
+            const baselineOps = opsOf(results, baseline.implementation);
+            const improvement = baselineOps > 0 ? opsOf(results, best) / baselineOps - 1 : 0;
+            logger.appendLine(`[Evolve] Generation ${generation}: best ${best.name} at ${Math.round(opsOf(results, best))} ops/sec, ${(improvement * 100).toFixed(1)}% vs ${baseline.implementation.name}`);
+            if (improvement * 100 < minImprovement) {
+                reporter.notice('info', `Generation ${generation}: the best alternative, ${best.name}, is ${formatImprovement(improvement)} compared to ${baseline.implementation.name}, below the ${minImprovement}% threshold. Stopping evolution.`);
+                break;
+            }
+            lineage.push({ implementation: best, generation, parent: baseline.implementation.name, ops: opsOf(results, best), improvement });
+            reporter.notice('evolved', `Generation ${generation}: ${best.name} is ${formatImprovement(improvement)} compared to ${baseline.implementation.name}.`);
+        } catch (error: any) {
+            if (token.isCancellationRequested) { break; }
+            logger.appendLine(`[Evolve] Generation ${generation} failed: ${error.message}`);
+            reporter.notice('warning', `Generation ${generation} failed: ${error.message}. Keeping the results of the previous generation.`);
+            break;
+        }
+    }
+
+    return { lineage, ...latest };
+}
+
+/**
+ * Runs a benchmark module and checks that it produced results.
+ *
+ * @throws If the benchmark fails or produces no results
+ */
+async function runBenchmark(benchmarkService: BenchmarkService, benchmarkModule: string): Promise<BenchmarkComparison> {
+    const results = await benchmarkService.runBenchmark(benchmarkModule);
+    if (!results || !results.results || results.results.length === 0) {
+        throw new Error('Benchmark process did not produce valid results.');
+    }
+    return results;
+}
+
+/**
+ * Throws if the run was cancelled.
+ */
+function throwIfCancelled(token: PipelineCancellationToken): void {
+    if (token.isCancellationRequested) {
+        throw new AnalysisError('cancelled', 'Operation cancelled');
+    }
+}
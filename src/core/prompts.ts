@@ -0,0 +1,308 @@
+/**
+ * @fileoverview Analysis Prompts
+ *
+ * The prompts of the analysis pipeline, shared by the chat participant and the headless
+ * pipeline (`pipeline.ts`): alternative implementations, the benchmark configuration, the
+ * test inputs of the correctness check, the repair of failing alternatives, the generations of
+ * evolve mode and the explanation of the results.
+ *
+ * This module is host-agnostic: it must not import `vscode`.
+ */
+
+import { BenchmarkComparison, EvolutionStep, FunctionImplementation, OptimizationStrategy, RepairCandidate } from '../models/types';
+
+/**
+ * Number of alternatives requested when neither the request nor the settings set one
+ */
+export const DEFAULT_ALTERNATIVES_COUNT = 2;
+
+/**
+ * Instruction added to the alternatives prompt for each optimization strategy
+ */
+export const STRATEGY_HINTS = new Map<OptimizationStrategy, string>([
+    ['algorithmic', 'Prefer algorithmic improvements that lower the time complexity (better data structures, avoiding repeated or nested work).'],
+    ['micro', 'Apply micro-optimizations (plain loops, fewer allocations and closures in hot paths, cached lookups) while keeping the algorithm.'],
+    ['memory', 'Reduce memory usage: avoid intermediate arrays, copies and temporary objects.'],
+    ['readability-preserving', 'Keep the code readable and idiomatic; avoid obscure tricks that make it hard to maintain.'],
+    ['no-new-dependencies', 'Do not use any library or module the original does not already use; only built-in JavaScript features.']
+]);
+
+/**
+ * Creates the prompt asking for alternative implementations.
+ *
+ * @param functionCode - The original function
+ * @param context - Declarations from the function's module that are in scope (see `dependencyCollector.ts`)
+ * @param options - Number of alternatives and optimization strategies to request
+ * @returns The alternatives prompt
+ */
+export function createAlternativesPrompt(
+    functionCode: string,
+    context?: string,
+    options: { count: number; strategies: OptimizationStrategy[] } = { count: DEFAULT_ALTERNATIVES_COUNT, strategies: [] }
+): string {
+    const names = Array.from({ length: options.count }, (_, i) => `"Alternative ${i + 1}"`);
+    const strategies = options.strategies.map(strategy => `- ${STRATEGY_HINTS.get(strategy)}`).join('\n');
+    const exampleEntries = [
+        `  {
+    "name": "Alternative 1",
+    "code": "const example1 = () => { /* ... optimized code ... */ };",
+    "explanation": "Uses technique X for optimization."
+  }`,
+        `  {
+    "name": "Alternative 2",
+    "code": "const example2 = () => { /* ... another optimized code ... */ };",
+    "explanation": "Uses technique Y for optimization."
+  }`
+    ].slice(0, options.count);
+     return `
+Analyze the following JavaScript/TypeScript function for performance optimization opportunities:
+
+\`\`\`javascript
+${functionCode}
+\`\`\`
+${context ? `
+The function uses the following declarations from its module. They are in scope when the alternatives run, so use them as needed but do not redefine them:
+
+\`\`\`javascript
+${context}
+\`\`\`
+` : ''}
+Generate exactly ${options.count === 1 ? 'one alternative implementation' : `${options.count} distinct alternative implementations`} aiming for improved performance.${options.count > 2 ? ' Make them genuinely different approaches rather than small variations of each other.' : ''}
+
+Maintain the original function's signature and core functionality.
+${strategies ? `
+**Optimization strategies:**
+${strategies}
+` : ''}
+**Output Format:**
+Provide your response strictly as a JSON array containing ${options.count} ${options.count === 1 ? 'object' : 'objects'}. Each object must have the following properties:
+- \`name\`: A string, ${options.count === 1 ? names[0] : `one of ${names.join(', ')}`}.
+- \`code\`: A string containing the complete JavaScript code for the alternative implementation.
+- \`explanation\`: A brief (1-2 sentence) string explaining the optimization technique used.
+
+**Example Response:**
+\`\`\`json
+[
+${exampleEntries.join(',\n')}
+]
+\`\`\`
+
+**IMPORTANT:** Output *only* the JSON array within a single \`\`\`json code block. Do not include any introductory text, greetings, or other explanations outside the JSON structure.
+`;
+}
+
+/**
+ * Creates the prompt asking the model for the benchmark configuration: the entry point, the
+ * benchmark data and (in complexity mode) a data factory. See `parseBenchmarkConfig`.
+ *
+ * @param originalFunction - The original function
+ * @param alternatives - The alternatives to benchmark
+ * @param complexityMode - Whether to also ask for a size-parameterized data factory
+ * @returns The benchmark prompt
+ */
+export function createBenchmarkPrompt(
+    originalFunction: FunctionImplementation,
+    alternatives: FunctionImplementation[],
+    complexityMode: boolean = false
+): string {
+    // Complexity mode additionally asks for a size-parameterized test data factory
+    const complexityAddendum = complexityMode ? `
+**Complexity Mode:** Also add a \`testDataFactory\` (string) property to the JSON object. It must contain the source of a JavaScript arrow function \`(n) => ...\` that returns test data of size \`n\` in the same shape as \`testData\` (e.g. \`"(n) => Array.from({ length: n }, (_, i) => n - i)"\`). It must be deterministic, must not use \`require\`, and must stay fast for n up to 100000.
+` : '';
+    // Prompt asking LLM to identify entry point, generate data, and return JSON
+    return `\\\nYou are a JavaScript code generation assistant.\\\nYour task is to generate a simple Node.js module that exports function implementations, suitable test data, and identifies the main entry point for benchmarking.\\\n\\\n**Function Implementations Provided:**\\\n\\\n*These code blocks contain the complete source for the Original function and its Alternatives. Each block might contain multiple helper functions.*\\\n\\\n\\\`\\\`\\\`javascript\\\n// --- Original ---\\\n${originalFunction.code}\\\n\\\`\\\`\\\`\\\n\\\n${alternatives.map(alt => `\\\`\\\`\\\`javascript\\\n// --- ${alt.name} ---\\\n${alt.code}\\\n\\\`\\\`\\\`\\\n`).join('\\\\n')}\\\n\\\n**Requirements:**\\\n\\\n1.  **Identify Entry Point:** Determine the main function that should be called for benchmarking. This is typically the primary function being optimized or the one that orchestrates calls to helpers within the snippet. For example, if \\\`naiveFactorial\\\` and \\\`processNumbers\\\` are provided, the entry point is likely \\\`processNumbers\\\`.\\\n2.  **Define Test Data:** Create test data assigned to a variable named \\\`testData\\\`. This data must be **suitable and sufficiently large/complex** for calling the identified **Entry Point Function** to reveal potential performance differences. \\\n    *   Example: If the entry point is \\\`processNumbers(numbers)\\\`, \\\`testData\\\` should be an array like \\\`[5, 10, 15, 8, 12]\\\`.\\\n    *   Example: If the entry point is \\\`slowSum(n)\\\`, \\\`testData\\\` should be a number like \\\`100\\\` or \\\`500\\\`.\\\n3.  **Format Output as JSON:** Structure your entire response as a single JSON object within a \\\`\\\`\\\`json code block. The JSON object must have the following properties:\\\n    *   \\\`entryPointName\\\` (string): The name of the identified entry point function (e.g., \\\"processNumbers\\\", \\\"slowSum\\\").\\\n    *   \\\`testData\\\` (any): The generated test data suitable for the entry point function.\\\n    *   \\\`implementations\\\` (object): An object where keys are ${['Original', ...alternatives.map(alt => alt.name)].map(name => `'${name}'`).join(', ')} and values are strings containing the complete, unmodified source code for each corresponding implementation (including any helper functions as provided above).\\\n\\\n**Example JSON Output:**\\\n\\\n\\\`\\\`\\\`json\\\n{\\\n  \\\"entryPointName\\\": \\\"processNumbers\\\",\\\n  \\\"testData\\\": [5, 10, 15, 8, 12],\\\n  \\\"implementations\\\": {\\\n    \\\"Original\\\": \\\"function naiveFactorial(n) { /*...*/ }\\\\\\\\nfunction processNumbers(numbers) { /*...*/ }\\\",\\\n    \\\"Alternative 1\\\": \\\"function optimizedFactorial(n) { /*...*/ }\\\\\\\\nfunction processNumbersAlt1(numbers) { /*...*/ }\\\",\\\n    \\\"Alternative 2\\\": \\\"/* ... */\\\"\\\n  }\\\n}\\\n\\\`\\\`\\\`\\\n\\\n**IMPORTANT:** Output *only* the JSON object within the code block. Do not include any other text, explanations, or require statements.\\\nGenerate the JSON output now.\\\n` + complexityAddendum;
+}
+
+/**
+ * Creates a prompt to ask the LLM to generate test inputs for a function.
+ */
+export function createInputGenerationPrompt(functionCode: string): string {
+    return `
+You are a test data generation assistant.
+Analyze the following JavaScript/TypeScript function:
+
+\`\`\`javascript
+${functionCode}
+\`\`\`
+
+**Your Task:**
+
+Generate a small JSON array containing 3-5 diverse test inputs suitable for calling this function. Consider:
+- Typical valid inputs.
+- Edge cases (e.g., empty arrays/strings, zero, null, undefined if applicable).
+- Different data types if the function seems flexible.
+
+**Output Format:**
+Provide your response *strictly* as a JSON array. Each element in the array represents the arguments for one function call. 
+- If the function takes one argument, each element is the argument value (e.g., \`[1, [], \"test\"]\`).
+- If the function takes multiple arguments, each element should be an array containing those arguments in the correct order (e.g., \`[[1, 2], [null, \"a\"], [10, undefined]]\`).
+- If the function takes no arguments, return an empty array \`[]\`
+- **Ensure all object keys within the generated data are enclosed in double quotes (e.g., \`\"key\": value\`) as required by strict JSON format.**
+
+**Example (Single Argument Function like sum(arr)):**
+\`\`\`json
+[
+  [1, 2, 3, 4, 5],
+  [],
+  [-1, 0, 1],
+  [1000000, 2000000]
+]
+\`\`\`
+
+**Example (Multi-Argument Function like add(a, b)):**
+\`\`\`json
+[
+  [1, 2],
+  [0, 0],
+  [-5, 5],
+  [10, null]
+]
+\`\`\`
+
+**IMPORTANT:** Output *only* the JSON array within a single \`\`\`json code block. Do not include any introductory text or explanations outside the JSON structure.
+Generate the JSON array of test inputs now.
+`;
+}
+
+/**
+ * Creates the prompt asking the model to explain the benchmark results.
+ *
+ * @param originalFunction - The original function
+ * @param alternatives - The benchmarked alternatives
+ * @param benchmarkResults - The benchmark results
+ * @returns The explanation prompt
+ */
+export function createExplanationPrompt(
+    originalFunction: FunctionImplementation,
+    alternatives: FunctionImplementation[],
+    benchmarkResults: any
+): string {
+    const implementations = [originalFunction, ...alternatives];
+    const functionsString = implementations.map(impl => `
+### ${impl.name}
+${impl.description ? `> ${impl.description}\\n` : ''}
+\`\`\`javascript
+${impl.code}
+\`\`\`
+`).join('\\n');
+
+    // Raw timings are only needed for the significance tests and the complexity fit; keep them out of the prompt
+    const resultsString = JSON.stringify(
+        benchmarkResults,
+        (key, value) => key === 'sampleTimes' || key === 'complexityMeasurements' ? undefined : value,
+        2
+    );
+
+    return `
+You are a performance analysis assistant. Analyze the following JavaScript/TypeScript function implementations and their benchmark results.
+
+**Implementations Provided:**
+${functionsString}
+
+**Benchmark Results (Benny.js format; \`margin\` is the relative margin of error as a decimal, e.g. 0.012 means ±1.2%):**
+\`\`\`json
+${resultsString}
+\`\`\`
+
+**Your Task:**
+
+1.  **Identify the Fastest:** Determine which implementation ('Original', 'Alternative 1', etc.) was fastest based on the 'ops' (operations per second) field. If a \`comparisons\` array is present, it contains a Welch's t-test of each alternative against 'Original' with a \`speedup\` ratio and its confidence interval (\`ciLow\`..\`ciHigh\`). An alternative whose \`verdict\` is "no significant difference" is a tie with the original: do **not** describe it as an optimization, regardless of its ops value.
+2.  **Explain Performance:** Provide a clear, concise explanation for *why* the fastest implementation performs better than the others (especially the original). Refer *specifically* to code differences (e.g., "uses \`Array.map\` instead of a \`for\` loop", "employs memoization", "reduces object allocations"). If the original is fastest, explain why the alternatives might not have improved performance in this context.
+3.  **Format as Markdown:** Present your analysis clearly. Use headings, lists, and code formatting. Include:
+    *   A main heading (e.g., "# Performance Analysis").
+    *   A **Summary** section stating the fastest implementation and percentage improvement over the original (calculate this: \`((fastestOps - originalOps) / originalOps) * 100\`). When comparisons are available, quote the speedup with its confidence interval (e.g., "2.1x faster, 95% CI 1.9x–2.3x") and label ties as "no significant difference". Handle the case where the original is fastest.
+    *   A **Benchmark Results** section with a simple markdown table summarizing Name, Ops/sec and ± margin (as a percentage). Indicate the fastest with a ⭐. If the results include memory fields (\`allocatedBytesPerCall\`, \`retainedBytes\`, \`gcCount\`, \`gcTimeMs\`), add columns for allocated bytes per call, retained bytes and GC count/time, and call out any implementation that trades memory for speed (or the reverse).
+    *   If a \`complexity\` array is present, a **Complexity** section listing the empirically measured Big-O class (\`bigO\`) of each implementation. Explain how the code structure leads to that growth rate, and point out when an alternative changes the asymptotic class rather than just the constant factor.
+    *   A section titled **Implementations Compared** that includes the *full code* for the ${implementations.map(impl => `'${impl.name}'`).join(', ')} functions, each within its own labeled Javascript code block (\`\`\`javascript ... \`\`\`).
+    *   A detailed **Explanation** section covering point #2 above (why the fastest was fastest).
+    *   A final section **Fastest Implementation** showing the *full code* of the winning implementation again in a Javascript code block.
+
+Provide *only* the markdown analysis. Do not include introductory or concluding remarks outside the markdown structure.
+`;
+}
+
+/**
+ * Creates the prompt asking the language model to fix an alternative, given its failure.
+ *
+ * @param candidate - The failing alternative and its failure
+ * @param originalFunction - The original function
+ * @param entryPointName - Name of the function the test inputs are passed to
+ * @returns The repair prompt
+ */
+export function createRepairPrompt(candidate: RepairCandidate, originalFunction: FunctionImplementation, entryPointName: string): string {
+    const { alternative, compileError, mismatch } = candidate;
+    let failure: string;
+    if (compileError) {
+        failure = `It does not compile:\n\n\`\`\`\n${compileError}\n\`\`\``;
+    } else if (mismatch) {
+        failure = `It is not equivalent to the original (${candidate.reason ?? 'Not equivalent'}). For the call \`${entryPointName}(${mismatch.args.map(arg => JSON.stringify(arg)).join(', ')})\`:
+- Expected (original): \`${mismatch.expected}\`
+- Actual (alternative): \`${mismatch.actual}\`
+- Difference: ${mismatch.difference}`;
+    } else {
+        failure = `It is not equivalent to the original (${candidate.reason ?? 'Not equivalent'}).`;
+    }
+
+    return `
+The following alternative implementation was generated as a faster replacement for a JavaScript/TypeScript function, but it is incorrect.
+
+**Original function:**
+\`\`\`javascript
+${originalFunction.code}
+\`\`\`
+${alternative.context ? `
+The functions use the following declarations from their module. They are in scope, so use them as needed but do not redefine them:
+
+\`\`\`javascript
+${alternative.context}
+\`\`\`
+` : ''}
+**Alternative implementation (${alternative.name}):**
+\`\`\`javascript
+${alternative.code}
+\`\`\`
+
+**Problem:** ${failure}
+
+Fix the alternative so that it behaves exactly like the original for every input: the same results, the same thrown errors and no additional side effects (such as mutating arguments). Keep its performance optimization where possible, and keep the function name \`${entryPointName}\` and its signature.
+
+**IMPORTANT:** Output *only* the corrected function in a single \`\`\`javascript code block, without any explanation.
+`;
+}
+
+/**
+ * Creates the prompt for a generation of evolve mode: the alternatives prompt for the fastest
+ * implementation so far, with the original as the behavior to keep and the latest benchmark numbers.
+ *
+ * @param originalFunction - The original function
+ * @param baseline - The fastest verified implementation so far
+ * @param benchmarkResults - Results of the latest benchmark run
+ * @param generation - Number of the generation to create
+ * @param options - Number of alternatives and optimization strategies to request
+ * @returns The evolution prompt
+ */
+export function createEvolutionPrompt(
+    originalFunction: FunctionImplementation,
+    baseline: EvolutionStep,
+    benchmarkResults: BenchmarkComparison,
+    generation: number,
+    options: { count: number; strategies: OptimizationStrategy[] }
+): string {
+    const results = benchmarkResults.results
+        .map(result => `- ${result.name}: ${Math.round(result.ops)} ops/sec (±${(result.margin * 100).toFixed(1)}%)`)
+        .join('\n');
+
+    return createAlternativesPrompt(baseline.implementation.code, originalFunction.context, options) + `
+**Evolution (generation ${generation}):**
+The function above (${baseline.implementation.name}) is the fastest correct implementation found so far. It was derived from ${baseline.parent ?? originalFunction.name} and is an optimized version of this original function:
+
+\`\`\`javascript
+${originalFunction.code}
+\`\`\`
+
+Latest benchmark results (operations per second, higher is better):
+${results}
+
+Build on ${baseline.implementation.name}: every alternative must be faster than it, not just faster than the original. The alternatives must behave exactly like the original function for every input, including thrown errors and side effects.
+`;
+}
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Model Response Parsing
+ *
+ * Parses the answers of the language model to the prompts in `prompts.ts`. Shared by the chat
+ * participant and the headless pipeline (`pipeline.ts`).
+ *
+ * This module is host-agnostic: it must not import `vscode`.
+ */
+
+import { BenchmarkConfig, FunctionImplementation, PipelineLogger } from '../models/types';
+import { DEFAULT_ALTERNATIVES_COUNT } from './prompts';
+
+/**
+ * Parses the alternatives from the answer to the alternatives prompt: a JSON array of
+ * `{ name, code, explanation }` objects, in a ```json block or as the whole answer.
+ *
+ * @param originalCode - The original function
+ * @param responseText - The model's answer
+ * @param logger - Logger for the parsing steps
+ * @param maxCount - Maximum number of alternatives to keep
+ * @returns The valid alternatives (none if the answer could not be parsed)
+ */
+export function parseAlternativeImplementations(
+    originalCode: string,
+    responseText: string,
+    logger: PipelineLogger,
+    maxCount: number = DEFAULT_ALTERNATIVES_COUNT
+): FunctionImplementation[] {
+    let alternatives: FunctionImplementation[] = [];
+    logger.appendLine(`Attempting to parse alternatives as JSON...`);
+
+    try {
+        // Regex to find JSON code block
+        // CRITICAL: Regex for JSON block is correct for an array no not modify.
+        const jsonBlockRegex = /```(?:json)?\s*([\[][\s\S]*[\]])\s*```/;
+        const match = responseText.match(jsonBlockRegex);
+
+        // CRITICAL: Parses alternative implementations from LLM response (JSON focus)
+        let jsonString: string | undefined;
+
+        if (match && match[1]) {
+            jsonString = match[1].trim();
+            logger.appendLine(`Found JSON block.`);
+        } else {
+            // Fallback: Assume the entire response might be the JSON array if no block found
+            logger.appendLine(`No JSON block found, attempting to parse entire response as JSON array.`);
+            const trimmedResponse = responseText.trim();
+            if (trimmedResponse.startsWith('[') && trimmedResponse.endsWith(']')) {
+                jsonString = trimmedResponse;
+            }
+        }
+
+        if (!jsonString) {
+            logger.appendLine(`Could not extract a JSON array string from the response.`);
+            return [];
+        }
+        
+
+        const parsed = JSON.parse(jsonString);
+
+        if (!Array.isArray(parsed)) {
+            logger.appendLine(`Parsed JSON is not an array.`);
+            return [];
+        }
+
+        // Validate and map the parsed objects
+        for (const item of parsed) {
+            if (item && typeof item.name === 'string' && typeof item.code === 'string' && typeof item.explanation === 'string') {
+                alternatives.push({
+                    name: item.name,
+                    code: item.code,
+                    description: item.explanation // Use 'explanation' field from JSON
+                });
+            } else {
+                logger.appendLine(`Skipping invalid item in JSON array: ${JSON.stringify(item)}`);
+            }
+            if (alternatives.length >= maxCount) { break; } // Stop after the requested number of valid items
+        }
+
+    } catch (error) {
+        logger.appendLine(`Error parsing alternatives JSON: ${error}`);
+        // Optionally log the problematic string:
+        // logger.appendLine(`--- Problematic JSON String ---\n${jsonString || responseText}\n------------------------------`);
+        return []; // Return empty array on parsing error
+    }
+
+    logger.appendLine(`Parsed ${alternatives.length} alternatives from JSON.`);
+    logger.appendLine(`\n--- Parsed Alternatives (${alternatives.length}) ---\n${JSON.stringify(alternatives, null, 2)}\n----------------------------------\n`);
+    return alternatives.slice(0, maxCount); // Ensure at most the requested number
+}
+
+/**
+ * Parses the benchmark configuration from the answer to the benchmark prompt: a JSON object
+ * with the entry point, the benchmark data and the implementations, in a ```json block.
+ *
+ * @param responseText - The model's answer
+ * @param logger - Logger for the parsing steps
+ * @returns The benchmark configuration
+ * @throws If the answer contains no JSON object or the object is not a valid configuration
+ */
+export function parseBenchmarkConfig(responseText: string, logger: PipelineLogger): BenchmarkConfig {
+    let benchmarkConfig: BenchmarkConfig;
+    const jsonBlockRegex = /```(?:json)?\s*({[\s\S]*?})\s*```/s; // Match JSON object
+    const match = jsonBlockRegex.exec(responseText);
+    if (!match || !match[1]) {
+        logger.appendLine(`Could not extract benchmark config JSON from LLM response: ${responseText}`);
+        throw new Error('Failed to extract benchmark configuration JSON from AI response.');
+    }
+
+    const jsonString = match[1].trim();
+    logger.appendLine(`[DEBUG] Extracted benchmark config JSON string:\n${jsonString}`); // Log the raw JSON
+    try {
+        benchmarkConfig = JSON.parse(jsonString);
+        // Log the parsed config structure
+        logger.appendLine(`[DEBUG] Parsed benchmarkConfig object:\n${JSON.stringify(benchmarkConfig, null, 2)}`);
+
+        // Specifically log the parsed testData
+        logger.appendLine(`[DEBUG] Parsed testData type: ${typeof benchmarkConfig.testData}, value: ${JSON.stringify(benchmarkConfig.testData)}`);
+
+        // Basic validation
+        if (!benchmarkConfig.entryPointName || typeof benchmarkConfig.entryPointName !== 'string' ||
+            !benchmarkConfig.implementations || typeof benchmarkConfig.implementations !== 'object' ||
+            benchmarkConfig.testData === undefined) { // Allow null for testData
+            throw new Error('Invalid JSON structure received for benchmark config.');
+        }
+    } catch (parseError) {
+        logger.appendLine(`Failed to parse benchmark config JSON: ${parseError}\nRaw JSON string: ${jsonString}`);
+        throw new Error('Failed to parse benchmark configuration from AI response.');
+    }
+    logger.appendLine(`Parsed benchmark config JSON. Entry Point: ${benchmarkConfig.entryPointName}`);
+    return benchmarkConfig;
+}
@@ -6,8 +6,17 @@
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { PerfCopilotParticipant } from './perfCopilotParticipant';
+import { CODE_LENS_LANGUAGES, OPTIMIZE_FUNCTION_COMMAND, PerfCopilotCodeLensProvider } from './perfCopilotCodeLensProvider';
+import { ApplyService } from './services/applyService';
+import { BaselineService } from './services/baselineService';
 import { BenchmarkService } from './services/benchmarkService';
+import { DEFAULT_MAX_HISTORY_RUNS, HistoryService } from './services/historyService';
+import { LanguageModelService } from './services/languageModelService';
+import { HISTORY_VIEW_ID, HistoryNode, PerfCopilotHistoryProvider } from './perfCopilotHistoryProvider';
+import { collectDependencies } from './utils/dependencyCollector';
+import { ApplyImplementationRequest, PinnedBaseline } from './models/types';
 
 // The extension output channel
 let outputChannel: vscode.OutputChannel;
@@ -23,13 +32,23 @@ export function activate(context: vscode.ExtensionContext) {
     
     // Create services
     const benchmarkService = new BenchmarkService(outputChannel);
+    const applyService = new ApplyService(outputChannel);
+    const historyService = new HistoryService(
+        outputChannel,
+        getHistoryStorageDir(context),
+        vscode.workspace.getConfiguration('perfcopilot').get<number>('history.maxRuns', DEFAULT_MAX_HISTORY_RUNS)
+    );
+    const languageModelService = new LanguageModelService(outputChannel);
     
     // Register the PerfCopilot chat participant
+    let participant: PerfCopilotParticipant | undefined;
     try {
         outputChannel.appendLine('Registering PerfCopilot chat participant...');
-        const participant = new PerfCopilotParticipant(
+        participant = new PerfCopilotParticipant(
             outputChannel,
-            benchmarkService
+            benchmarkService,
+            languageModelService,
+            historyService
         );
         
         // Add participant to disposables
@@ -67,6 +86,34 @@ export function activate(context: vscode.ExtensionContext) {
 
         outputChannel.appendLine(`Selected text: \\n${selectedText}`);
 
+        // Collect the helpers, constants and imports the selection uses from the document and its local imports
+        if (participant) {
+            try {
+                const dependencies = collectDependencies(selectedText, editor.document.getText(), editor.document.uri.fsPath);
+                outputChannel.appendLine(`Collected workspace dependencies: ${dependencies.identifiers.join(', ') || 'none'}`);
+                if (dependencies.unresolved.length > 0) {
+                    outputChannel.appendLine(`Unresolved dependencies: ${dependencies.unresolved.join('; ')}`);
+                }
+                participant.registerSelectionContext(selectedText, dependencies);
+            } catch (error) {
+                outputChannel.appendLine(`Error collecting workspace dependencies: ${error}`);
+            }
+
+            // Remember where the selection is, so the winning implementation can be applied there
+            try {
+                participant.registerSelectionLocation(selectedText, {
+                    uri: editor.document.uri.toString(),
+                    startLine: selection.start.line,
+                    startCharacter: selection.start.character,
+                    endLine: selection.end.line,
+                    endCharacter: selection.end.character,
+                    languageId: editor.document.languageId
+                });
+            } catch (error) {
+                outputChannel.appendLine(`Error recording the selection location: ${error}`);
+            }
+        }
+
         // Format the prompt: @perfcopilot followed by the selected code
         const prompt = `@PerfCopilot ${selectedText}`;
         outputChannel.appendLine(`Formatted prompt for chat: ${prompt}`);
@@ -81,9 +128,116 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
     
+    // Register apply implementation command (invoked from the button under a PerfCopilot report)
+    const applyImplementationDisposable = vscode.commands.registerCommand(
+        'perfcopilot.applyImplementation',
+        (request: ApplyImplementationRequest) => applyService.reviewAndApply(request)
+    );
+    
+    // Register the "Optimize with PerfCopilot" CodeLenses, refreshed whenever a run is recorded
+    const codeLensProvider = new PerfCopilotCodeLensProvider(
+        outputChannel,
+        functionName => participant?.getPreviousRun(functionName)
+    );
+    const codeLensDisposable = vscode.languages.registerCodeLensProvider(
+        CODE_LENS_LANGUAGES.map(language => ({ language })),
+        codeLensProvider
+    );
+    if (participant) {
+        context.subscriptions.push(participant.onDidRecordRun(() => codeLensProvider.refresh()));
+    }
+
+    // Register the history view; every recorded run is saved to the history
+    const historyProvider = new PerfCopilotHistoryProvider(outputChannel, historyService);
+    const historyViewDisposable = vscode.window.registerTreeDataProvider(HISTORY_VIEW_ID, historyProvider);
+    context.subscriptions.push(historyService.onDidChange(() => historyProvider.refresh()));
+    if (participant) {
+        context.subscriptions.push(participant.onDidRecordRun(run => {
+            historyService.saveRun(run).catch(error => outputChannel.appendLine(`Error saving the run to the history: ${error}`));
+        }));
+    }
+    // Register the baseline commands: pin a run's implementation, then check functions against their baselines
+    const baselineDiagnostics = vscode.languages.createDiagnosticCollection('perfcopilot-baselines');
+    const baselineService = new BaselineService(outputChannel, baselineDiagnostics, (baseline, currentCode) => {
+        if (!participant) {
+            throw new Error('The PerfCopilot chat participant is not available.');
+        }
+        return participant.benchmarkAgainstBaseline(baseline, currentCode);
+    });
+    const pinBaselineDisposable = vscode.commands.registerCommand(
+        'perfcopilot.pinBaseline',
+        (baseline: PinnedBaseline) => baselineService.pin(baseline)
+    );
+    const checkBaselinesDisposable = vscode.commands.registerCommand('perfcopilot.checkBaselines', async () => {
+        outputChannel.appendLine('perfcopilot.checkBaselines command triggered.');
+        const results = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'PerfCopilot: Checking baselines...', cancellable: true },
+            (_progress, token) => baselineService.checkBaselines(token)
+        );
+        if (results.length === 0) {
+            vscode.window.showInformationMessage('No PerfCopilot baselines are pinned in this workspace. Use "Pin ... as baseline" under a PerfCopilot report first.');
+            return;
+        }
+        const problems = results.filter(result => result.status !== 'OK');
+        if (problems.length > 0) {
+            vscode.window.showWarningMessage(`PerfCopilot: ${problems.map(result => result.message).join(' ')}`);
+        } else {
+            vscode.window.showInformationMessage(`PerfCopilot: No regressions in ${results.length} pinned function${results.length === 1 ? '' : 's'}.`);
+        }
+    });
+
+    // Register the model picker: choose the language model of each stage of the analysis
+    const selectModelsDisposable = vscode.commands.registerCommand('perfcopilot.selectModels', () => languageModelService.pickStageModel());
+
+    const historyCommandDisposables = [
+        vscode.commands.registerCommand('perfcopilot.history.refresh', () => historyProvider.refresh()),
+        vscode.commands.registerCommand('perfcopilot.history.openReport', (node?: HistoryNode) => historyProvider.openReport(node)),
+        vscode.commands.registerCommand('perfcopilot.history.rerun', (node?: HistoryNode) => historyProvider.rerun(node)),
+        vscode.commands.registerCommand('perfcopilot.history.diff', (node?: HistoryNode) => historyProvider.diff(node))
+    ];
+    const configurationDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('perfcopilot.codeLens.enabled')) {
+            codeLensProvider.refresh();
+        }
+    });
+
+    // Register optimize function command (invoked from the CodeLenses): select the function, then analyze it
+    const optimizeFunctionDisposable = vscode.commands.registerCommand(
+        OPTIMIZE_FUNCTION_COMMAND,
+        async (uri: vscode.Uri, range: vscode.Range) => {
+            outputChannel.appendLine(`${OPTIMIZE_FUNCTION_COMMAND} command triggered for ${uri.toString()}:${range.start.line + 1}.`);
+            const editor = await vscode.window.showTextDocument(uri);
+            editor.selection = new vscode.Selection(range.start, range.end);
+            editor.revealRange(range);
+            await vscode.commands.executeCommand('perfcopilot.analyzeFunction');
+        }
+    );
+    
     // Add to subscriptions
     context.subscriptions.push(showLogsDisposable);
+    context.subscriptions.push(selectModelsDisposable);
     context.subscriptions.push(analyzeFunctionDisposable);
+    context.subscriptions.push(applyImplementationDisposable);
+    context.subscriptions.push(codeLensProvider, codeLensDisposable, configurationDisposable);
+    context.subscriptions.push(optimizeFunctionDisposable);
+    context.subscriptions.push(historyProvider, historyViewDisposable, ...historyCommandDisposables);
+    context.subscriptions.push(baselineDiagnostics, pinBaselineDisposable, checkBaselinesDisposable);
+}
+
+/**
+ * Returns the folder the analysis history is stored in: the extension's global storage, or
+ * `.perfcopilot/history` in the first workspace folder if `perfcopilot.history.location` is
+ * "workspace" (falling back to the global storage when no folder is open).
+ * @param {vscode.ExtensionContext} context - The extension context
+ * @returns {string} The history folder
+ */
+function getHistoryStorageDir(context: vscode.ExtensionContext): string {
+    const location = vscode.workspace.getConfiguration('perfcopilot').get<string>('history.location', 'global');
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (location === 'workspace' && workspaceFolder) {
+        return path.join(workspaceFolder.uri.fsPath, '.perfcopilot', 'history');
+    }
+    return path.join(context.globalStorageUri.fsPath, 'history');
 }
 
 /**
@@ -20,6 +20,990 @@ export interface FunctionImplementation {
      * Optional description of the implementation
      */
     description?: string;
+
+    /**
+     * Runnable JavaScript produced by the transpile step (`code` keeps the user's source)
+     */
+    executableCode?: string;
+
+    /**
+     * For each 0-based line of `executableCode`, the 1-based line of `code` it came from
+     */
+    lineMap?: number[];
+
+    /**
+     * Supporting declarations (helpers, constants, imported utilities) the function depends on,
+     * evaluated before `code` wherever the implementation runs
+     */
+    context?: string;
+
+    /**
+     * Whether the user wrote this implementation (rather than the language model); such
+     * implementations are verified and benchmarked but never rewritten by the repair loop
+     */
+    userProvided?: boolean;
+}
+
+/**
+ * Syntactic form of a function found by the function parser
+ */
+export type ParsedFunctionKind = 'declaration' | 'arrow' | 'expression' | 'method';
+
+/**
+ * A parameter of a parsed function
+ */
+export interface ParsedFunctionParameter {
+    /**
+     * Parameter name, or the source text of the binding pattern for destructured parameters
+     */
+    name: string;
+
+    /**
+     * Whether the parameter is optional (`x?`)
+     */
+    optional: boolean;
+
+    /**
+     * Whether the parameter is a rest parameter (`...args`)
+     */
+    rest: boolean;
+
+    /**
+     * Whether the parameter has a default value
+     */
+    hasDefault: boolean;
+
+    /**
+     * Source text of the type annotation (TypeScript only), e.g. `number[]`
+     */
+    type?: string;
+}
+
+/**
+ * A top-level function found in a code snippet
+ */
+export interface ParsedFunction {
+    /**
+     * Function name (the variable name for assigned arrows/expressions); undefined if anonymous
+     */
+    name?: string;
+
+    /**
+     * Syntactic form of the function
+     */
+    kind: ParsedFunctionKind;
+
+    /**
+     * Name of the enclosing class (methods only)
+     */
+    className?: string;
+
+    /**
+     * Parameters, in order
+     */
+    parameters: ParsedFunctionParameter[];
+
+    /**
+     * Whether the function is `async`
+     */
+    isAsync: boolean;
+
+    /**
+     * Whether the function is a generator (`function*`)
+     */
+    isGenerator: boolean;
+
+    /**
+     * Source range of the whole definition (0-based offsets, end exclusive)
+     */
+    start: number;
+    end: number;
+
+    /**
+     * 1-based line numbers of the first and last line of the definition
+     */
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * Result of parsing a code snippet
+ */
+export interface ParsedSnippet {
+    /**
+     * Top-level functions, in source order
+     */
+    functions: ParsedFunction[];
+
+    /**
+     * Syntax error messages; empty if the snippet parsed cleanly
+     */
+    syntaxErrors: string[];
+}
+
+/**
+ * Declarations collected from the workspace for the free identifiers of a selection
+ */
+export interface CollectedDependencies {
+    /**
+     * The collected declarations, dependencies first, with `export` modifiers removed
+     */
+    code: string;
+
+    /**
+     * Names defined by `code` (including import aliases)
+     */
+    identifiers: string[];
+
+    /**
+     * Imported names that could not be bundled, with the reason (e.g. package imports)
+     */
+    unresolved: string[];
+}
+
+/**
+ * Options for the structural comparison of function outputs
+ */
+export interface ComparisonOptions {
+    /**
+     * Tolerance for numbers, relative to their magnitude (absolute below 1); 0 requires exact equality
+     */
+    epsilon?: number;
+
+    /**
+     * Compare arrays as multisets, ignoring element order (for set-like results)
+     */
+    unorderedArrays?: boolean;
+
+    /**
+     * Ignore the order of object keys and Map entries
+     */
+    ignoreKeyOrder?: boolean;
+
+    /**
+     * Regular expression the error message of an alternative must match when the original throws
+     * for an input; empty to only require the same error constructor (applied by the verifier)
+     */
+    errorMessagePattern?: string;
+}
+
+/**
+ * An exception thrown (or a rejection returned) by the function under test, as opposed to a
+ * failure of the sandbox such as a syntax error or a timeout
+ */
+export interface ThrownError {
+    /**
+     * Name of the thrown value's constructor (e.g. 'RangeError'), or its `typeof` for primitives
+     */
+    constructorName: string;
+
+    /**
+     * The error message, or the thrown value itself if it has no message
+     */
+    message: string;
+}
+
+/**
+ * Result of comparing two values structurally
+ */
+export interface ComparisonResult {
+    /**
+     * Whether the values are equal under the comparison options
+     */
+    equal: boolean;
+
+    /**
+     * Path to the first difference (e.g. `result[3].total`); only set when not equal
+     */
+    path?: string;
+
+    /**
+     * Readable description of the first difference (e.g. `result[3].total: 12 vs 12.000001`)
+     */
+    difference?: string;
+}
+
+/**
+ * Result of executing a function in the verification sandbox, with its observable side effects
+ */
+export interface ExecutionOutcome {
+    /**
+     * The returned value (resolved value for async functions)
+     */
+    value: any;
+
+    /**
+     * State of the arguments after the call; undefined if the sandbox could not report them
+     */
+    argumentsAfter?: any[];
+
+    /**
+     * Names of global properties of the sandbox the call created or reassigned
+     */
+    globalWrites: string[];
+}
+
+/**
+ * Shape of generated values for an argument in fuzzing mode, inferred from example inputs or
+ * TypeScript parameter types. Array `items` is undefined when only empty arrays were seen.
+ */
+export type ValueSchema =
+    | { kind: 'number'; integer: boolean; min?: number; max?: number }
+    | { kind: 'string'; examples?: string[] }
+    | { kind: 'boolean' }
+    | { kind: 'null' }
+    | { kind: 'literal'; value: string | number | boolean }
+    | { kind: 'array'; items?: ValueSchema }
+    | { kind: 'tuple'; items: ValueSchema[] }
+    | { kind: 'object'; properties: Record<string, ValueSchema>; optional: string[] }
+    | { kind: 'union'; options: ValueSchema[] }
+    | { kind: 'any' };
+
+/**
+ * Optimization strategy the alternatives prompt can be steered towards
+ */
+export type OptimizationStrategy = 'algorithmic' | 'micro' | 'memory' | 'readability-preserving' | 'no-new-dependencies';
+
+/**
+ * Options for the property-based fuzzing of alternatives
+ */
+export interface FuzzOptions {
+    /**
+     * Number of generated inputs per alternative
+     */
+    runs: number;
+
+    /**
+     * Seed of the input generator; a random seed is chosen when undefined
+     */
+    seed?: number;
+
+    /**
+     * Time limit (ms) for generating and checking inputs (including shrinking) per alternative
+     */
+    timeBudgetMs?: number;
+}
+
+/**
+ * A minimal fuzzed input on which an alternative diverged from the original
+ */
+export interface FuzzCounterexample {
+    /**
+     * Name of the alternative
+     */
+    alternative: string;
+
+    /**
+     * The shrunk arguments
+     */
+    args: any[];
+
+    /**
+     * Rejection reason (e.g. 'Not equivalent', 'Side effects differ')
+     */
+    reason: string;
+
+    /**
+     * Description of the divergence on the shrunk arguments
+     */
+    divergence: string;
+
+    /**
+     * Seed that reproduces the run
+     */
+    seed: number;
+
+    /**
+     * 1-based index of the failing run, and the number of runs requested
+     */
+    run: number;
+    runs: number;
+
+    /**
+     * Number of successful shrink steps from the generated input to `args`
+     */
+    shrinkSteps: number;
+}
+
+/**
+ * Outcome of the correctness check for one alternative
+ */
+export type VerificationStatus = 'VERIFIED' | 'REJECTED' | 'INDETERMINATE';
+
+/**
+ * The first input on which an alternative diverged from the original
+ */
+export interface VerificationMismatch {
+    /**
+     * The arguments of the call
+     */
+    args: any[];
+
+    /**
+     * 1-based number of the test input; undefined for inputs generated in fuzzing mode
+     */
+    inputNumber?: number;
+
+    /**
+     * The original's result or error, and the alternative's (formatted for display)
+     */
+    expected: string;
+    actual: string;
+
+    /**
+     * Description of the first difference (e.g. `result[3].total: 12 vs 12.000001`)
+     */
+    difference: string;
+}
+
+/**
+ * Verdict of the correctness check for one alternative
+ */
+export interface VerificationVerdict {
+    /**
+     * The alternative
+     */
+    alternative: FunctionImplementation;
+
+    /**
+     * VERIFIED (equivalent on every comparable input), REJECTED (diverged on an input) or
+     * INDETERMINATE (nothing could be compared, e.g. the original failed on all inputs)
+     */
+    status: VerificationStatus;
+
+    /**
+     * Why the alternative was rejected (e.g. 'Side effects differ') or is indeterminate
+     */
+    reason?: string;
+
+    /**
+     * Number of test inputs the alternative was compared on (inputs the original could not run
+     * are skipped)
+     */
+    inputsTried: number;
+
+    /**
+     * The input the alternative was rejected on
+     */
+    mismatch?: VerificationMismatch;
+}
+
+/**
+ * Result of the correctness check: the test inputs and a verdict for each alternative
+ */
+export interface VerificationReport {
+    /**
+     * The generated test inputs, as argument lists
+     */
+    testInputs: any[][];
+
+    /**
+     * One verdict per alternative, in the order of the alternatives
+     */
+    verdicts: VerificationVerdict[];
+}
+
+/**
+ * An alternative sent back to the language model for repair, with why it failed
+ */
+export interface RepairCandidate {
+    /**
+     * The failing alternative
+     */
+    alternative: FunctionImplementation;
+
+    /**
+     * The transpile error, if the alternative could not be compiled
+     */
+    compileError?: string;
+
+    /**
+     * Why the alternative was rejected by the correctness check, and the input it was rejected on
+     */
+    reason?: string;
+    mismatch?: VerificationMismatch;
+}
+
+/**
+ * Where a function was selected in the editor (plain data, so it can be passed as a command argument)
+ */
+export interface SourceLocation {
+    /**
+     * URI of the document, as a string
+     */
+    uri: string;
+
+    /**
+     * Zero-based line the selection starts on
+     */
+    startLine: number;
+
+    /**
+     * Zero-based character the selection starts at
+     */
+    startCharacter: number;
+
+    /**
+     * Zero-based line the selection ends on
+     */
+    endLine: number;
+
+    /**
+     * Zero-based character the selection ends at
+     */
+    endCharacter: number;
+
+    /**
+     * Language of the document (e.g. "typescript")
+     */
+    languageId: string;
+}
+
+/**
+ * Argument of the `perfcopilot.applyImplementation` command
+ */
+export interface ApplyImplementationRequest {
+    /**
+     * Name of the winning implementation (e.g. "Alternative 1")
+     */
+    implementationName: string;
+
+    /**
+     * Name of the function being replaced
+     */
+    functionName: string;
+
+    /**
+     * Code of the winning implementation, with the original function name restored
+     */
+    code: string;
+
+    /**
+     * Code of the original function, as analyzed
+     */
+    originalCode: string;
+
+    /**
+     * Language of the code (e.g. "typescript"), for the diff preview
+     */
+    languageId: string;
+
+    /**
+     * Where the original function was selected, when it was analyzed with `perfcopilot.analyzeFunction`
+     */
+    location?: SourceLocation;
+}
+
+/**
+ * A completed benchmark run, kept so later requests can be compared against it
+ */
+export interface BenchmarkRun {
+    /**
+     * Name of the function the benchmark called
+     */
+    entryPointName: string;
+
+    /**
+     * The benchmark data passed to every implementation
+     */
+    testData: any;
+
+    /**
+     * The implementations that were benchmarked (the original first)
+     */
+    implementations: FunctionImplementation[];
+
+    /**
+     * The benchmark results
+     */
+    results: BenchmarkComparison;
+
+    /**
+     * When the run finished (ms since epoch)
+     */
+    timestamp: number;
+
+    /**
+     * Correctness verdict of each alternative (only for runs that verified alternatives)
+     */
+    verdicts?: RecordedVerdict[];
+
+    /**
+     * The language model used, as "vendor/name" (the model of the alternatives stage)
+     */
+    model?: string;
+
+    /**
+     * The language model of each stage, as "vendor/name"
+     */
+    stageModels?: Partial<Record<ModelStage, string>>;
+}
+
+/**
+ * Correctness verdict of an alternative, as kept with a benchmark run
+ */
+export interface RecordedVerdict {
+    /**
+     * Name of the alternative
+     */
+    name: string;
+
+    /**
+     * Verification status (a repaired alternative is VERIFIED)
+     */
+    status: VerificationStatus;
+
+    /**
+     * Why the alternative was rejected, indeterminate or repaired
+     */
+    reason?: string;
+}
+
+/**
+ * A benchmark run stored in the analysis history
+ */
+export interface HistoryEntry extends BenchmarkRun {
+    /**
+     * Unique id of the entry (also its file name)
+     */
+    id: string;
+}
+
+/**
+ * An implementation pinned as the performance baseline of a function
+ * (`.perfcopilot/baselines/<function>.json` in the workspace)
+ */
+export interface PinnedBaseline {
+    /**
+     * Name of the function
+     */
+    entryPointName: string;
+
+    /**
+     * The benchmark data of the pinned run
+     */
+    testData: any;
+
+    /**
+     * The pinned implementation, with the function's name
+     */
+    implementation: FunctionImplementation;
+
+    /**
+     * Benchmark results of the pinned run
+     */
+    results: BenchmarkComparison;
+
+    /**
+     * Name of the pinned implementation in `results` (sanitized)
+     */
+    resultName: string;
+
+    /**
+     * The benchmark module of the pinned run (see `createBenchmarkModule`)
+     */
+    benchmarkModule: string;
+
+    /**
+     * Where the function was in the editor, if it was analyzed from a selection
+     */
+    location?: SourceLocation;
+
+    /**
+     * When the baseline was pinned (ms since epoch)
+     */
+    timestamp: number;
+}
+
+/**
+ * Outcome of re-benchmarking the current source of a function against its pinned baseline
+ */
+export interface BaselineCheckResult {
+    /**
+     * Name of the function
+     */
+    entryPointName: string;
+
+    /**
+     * OK (within the threshold), REGRESSED (slower than the threshold allows), MISSING (the
+     * function was not found) or FAILED (the benchmark could not run)
+     */
+    status: 'OK' | 'REGRESSED' | 'MISSING' | 'FAILED';
+
+    /**
+     * Relative speed of the current source against the pinned implementation in this run
+     * (e.g. -0.2 for 20% slower)
+     */
+    change?: number;
+
+    /**
+     * Human-readable summary
+     */
+    message: string;
+}
+
+/**
+ * Benchmark configuration returned by the model for the benchmark prompt
+ */
+export interface BenchmarkConfig {
+    /**
+     * Name of the function the benchmark calls
+     */
+    entryPointName: string;
+
+    /**
+     * The benchmark data passed to every implementation
+     */
+    testData: any;
+
+    /**
+     * Source of each implementation, keyed by name
+     */
+    implementations: Record<string, string>;
+
+    /**
+     * Source of a `(n) => data` factory, in complexity mode
+     */
+    testDataFactory?: string;
+}
+
+/**
+ * Destination of the pipeline's log lines (an output channel in VS Code, stderr in the CLI)
+ */
+export interface PipelineLogger {
+    appendLine(value: string): void;
+}
+
+/**
+ * Cancellation signal checked by the pipeline between steps (a `vscode.CancellationToken` in VS Code)
+ */
+export interface PipelineCancellationToken {
+    readonly isCancellationRequested: boolean;
+}
+
+/**
+ * A language model the analysis pipeline can send prompts to, independent of the host
+ * (`vscode.lm` in the extension, an HTTP endpoint or a stub in the CLI)
+ */
+export interface PipelineLanguageModel {
+    /**
+     * Identifies the model in logs and results (e.g. "copilot/GPT-4o")
+     */
+    readonly id: string;
+
+    /**
+     * Sends a single user message and returns the complete text of the answer.
+     *
+     * @param prompt - The prompt
+     * @param token - Cancellation token
+     * @returns The answer
+     */
+    complete(prompt: string, token: PipelineCancellationToken): Promise<string>;
+}
+
+/**
+ * A prompt and the model's answer, as stored in a record/replay fixture
+ */
+export interface RecordedExchange {
+    /**
+     * The prompt
+     */
+    prompt: string;
+
+    /**
+     * The answer
+     */
+    response: string;
+
+    /**
+     * Id of the model that answered
+     */
+    model?: string;
+}
+
+/**
+ * Built-in language model providers of the extension (`perfcopilot.model.provider`)
+ * - vscode: a `vscode.lm` chat model (Copilot or any other installed vendor)
+ * - openai-compatible: a server implementing the OpenAI `/chat/completions` API
+ * - replay: the answers recorded in a fixture file, without any model
+ */
+export type LanguageModelProviderName = 'vscode' | 'openai-compatible' | 'replay';
+
+/**
+ * Language model settings (`perfcopilot.model.*`)
+ */
+export interface LanguageModelSettings {
+    /**
+     * Provider of the model; a built-in one or a name registered with `LanguageModelService.registerProvider`
+     */
+    provider: LanguageModelProviderName | string;
+
+    /**
+     * Vendor of the `vscode.lm` model (empty for any vendor)
+     */
+    vendor: string;
+
+    /**
+     * Family of the `vscode.lm` model (empty for any family)
+     */
+    family: string;
+
+    /**
+     * Base URL of the OpenAI-compatible API
+     */
+    endpoint: string;
+
+    /**
+     * Name of the model on the OpenAI-compatible server
+     */
+    name: string;
+
+    /**
+     * Absolute path of the record/replay fixture
+     */
+    fixture: string;
+
+    /**
+     * Whether every exchange with the model is appended to the fixture
+     */
+    record: boolean;
+}
+
+/**
+ * Stages of the pipeline that ask the language model, each of which can use its own model
+ * - alternatives: alternative implementations, their repairs and the generations of evolve mode
+ * - benchmarkConfig: entry point and benchmark data
+ * - testInputs: inputs of the correctness check
+ * - explanation: explanation of the results (and of `/explain`)
+ */
+export type ModelStage = 'alternatives' | 'benchmarkConfig' | 'testInputs' | 'explanation';
+
+/**
+ * The language model of each stage of the analysis pipeline
+ */
+export type PipelineStageModels = Record<ModelStage, PipelineLanguageModel>;
+
+/**
+ * Model settings of a stage that replace the `perfcopilot.model.*` settings (`perfcopilot.model.stages`)
+ */
+export type StageModelSettings = Partial<Pick<LanguageModelSettings, 'provider' | 'vendor' | 'family' | 'endpoint' | 'name'>>;
+
+/**
+ * Token counts and latency of the requests of a stage
+ */
+export interface StageUsage {
+    /**
+     * The stage
+     */
+    stage: ModelStage;
+
+    /**
+     * The model of the stage, as "vendor/name"
+     */
+    model: string;
+
+    /**
+     * Number of requests
+     */
+    requests: number;
+
+    /**
+     * Tokens of the prompts, as counted by the model (estimated for models without a tokenizer)
+     */
+    inputTokens: number;
+
+    /**
+     * Tokens of the answers
+     */
+    outputTokens: number;
+
+    /**
+     * Time (ms) from sending the requests to the end of their answers, summed
+     */
+    latencyMs: number;
+}
+
+/**
+ * Options of a headless analysis (see `runAnalysis` in `core/pipeline.ts`)
+ */
+export interface AnalysisOptions {
+    /**
+     * Source of the function to optimize (or a snippet containing it)
+     */
+    functionCode: string;
+
+    /**
+     * Name of the function the benchmark calls; asked from the model if undefined
+     */
+    entryPointName?: string;
+
+    /**
+     * Declarations from the function's module that are in scope
+     */
+    context?: string;
+
+    /**
+     * Number of alternatives to generate
+     */
+    count: number;
+
+    /**
+     * Optimization strategies to request
+     */
+    strategies: OptimizationStrategy[];
+
+    /**
+     * Output comparison options of the correctness check
+     */
+    comparisonOptions?: ComparisonOptions;
+
+    /**
+     * Fuzzing options, if the alternatives are also checked against generated inputs
+     */
+    fuzzOptions?: FuzzOptions;
+
+    /**
+     * Whether the benchmark also measures memory
+     */
+    memory?: boolean;
+
+    /**
+     * Whether the model explains the results after the benchmark
+     */
+    explain?: boolean;
+
+    /**
+     * Versions written by the user, verified and benchmarked with the alternatives but never repaired
+     */
+    userVersions?: FunctionImplementation[];
+
+    /**
+     * Maximum number of repair attempts per alternative that failed to compile or was rejected; the
+     * repair loop is off if 0 or undefined
+     */
+    repairRounds?: number;
+
+    /**
+     * Whether alternatives whose correctness could not be verified are benchmarked anyway
+     */
+    benchmarkIndeterminate?: boolean;
+
+    /**
+     * Input sizes of complexity mode; complexity mode is off if undefined
+     */
+    complexitySizes?: number[];
+
+    /**
+     * Limits of evolve mode: the number of generations (including the first) and the minimum
+     * speedup in percent over the previous winner to keep evolving; evolve mode is off if undefined
+     */
+    evolve?: { generations: number; minImprovement: number };
+}
+
+/**
+ * Outcome of a headless analysis: the benchmark run with the model's explanation
+ */
+export interface AnalysisResult extends BenchmarkRun {
+    /**
+     * Alternatives that were dropped before the benchmark (failed to compile or were rejected), with the reason
+     */
+    skipped: { name: string; reason: string }[];
+
+    /**
+     * The model's explanation of the results, if requested
+     */
+    explanation?: string;
+
+    /**
+     * The winner of each generation, starting with the original (evolve mode only)
+     */
+    lineage?: EvolutionStep[];
+}
+
+/**
+ * The step an analysis failed at (see `AnalysisError` in `core/pipeline.ts`)
+ */
+export type AnalysisFailure =
+    | 'invalidFunction'
+    | 'transpile'
+    | 'alternatives'
+    | 'noAlternatives'
+    | 'benchmarkConfig'
+    | 'verification'
+    | 'benchmark'
+    | 'cancelled';
+
+/**
+ * A message of the analysis about the outcome of a step, or a problem it continued after
+ */
+export interface AnalysisNotice {
+    /**
+     * What the message reports: a finished step, information, a problem, a repaired alternative
+     * or a generation of evolve mode
+     */
+    kind: 'success' | 'info' | 'warning' | 'repaired' | 'evolved';
+
+    /**
+     * The message, as plain text
+     */
+    message: string;
+}
+
+/**
+ * Receives what happens during an analysis, so the host can show it while it runs (the chat
+ * renders it as Markdown, the CLI prints it to stderr). Every callback is optional.
+ */
+export interface AnalysisObserver {
+    /**
+     * Called with a short message when a step starts
+     */
+    onProgress?(message: string): void;
+
+    /**
+     * Called with the outcome of a step, or a problem the analysis continues after
+     */
+    onNotice?(notice: AnalysisNotice): void;
+
+    /**
+     * Called with the report of each correctness check (the first one, then one per generation
+     * in evolve mode), the entry point the inputs were passed to and the fuzzing counterexamples
+     */
+    onVerification?(report: VerificationReport, entryPointName: string, counterexamples: FuzzCounterexample[]): void;
+
+    /**
+     * Called with the results of the first benchmark run, before evolve mode
+     */
+    onBenchmark?(results: BenchmarkComparison): void;
+}
+
+/**
+ * A winner in the lineage of evolve mode
+ */
+export interface EvolutionStep {
+    /**
+     * The winning implementation (the original for generation 0)
+     */
+    implementation: FunctionImplementation;
+
+    /**
+     * Generation that produced the implementation (0 for the original)
+     */
+    generation: number;
+
+    /**
+     * Name of the implementation it was derived from
+     */
+    parent?: string;
+
+    /**
+     * Operations per second in the benchmark run it won
+     */
+    ops: number;
+
+    /**
+     * Speedup over its parent in that run, as a fraction (e.g. 0.25 for 25% faster)
+     */
+    improvement?: number;
 }
 
 /**
@@ -40,6 +1024,277 @@ export interface BenchmarkResultItem {
      * Error margin (as a decimal, e.g., 0.01 for 1%)
      */
     margin: number;
+
+    /**
+     * Number of samples collected for this implementation
+     */
+    samples?: number;
+
+    /**
+     * Mean time per operation, in seconds
+     */
+    mean?: number;
+
+    /**
+     * Standard deviation of the sampled times, in seconds
+     */
+    deviation?: number;
+
+    /**
+     * Raw per-sample timings (mean seconds per operation for each sample)
+     */
+    sampleTimes?: number[];
+
+    /**
+     * Heap used (bytes) after a forced GC, before the memory pass loop (memory pass only)
+     */
+    heapUsedBefore?: number;
+
+    /**
+     * Heap used (bytes) at the end of the memory pass loop, without a forced GC (memory pass only)
+     */
+    heapUsedAfter?: number;
+
+    /**
+     * Bytes allocated per call, measured between forced GCs (memory pass only)
+     */
+    allocatedBytesPerCall?: number;
+
+    /**
+     * Bytes still reachable from one call's result after a full GC (memory pass only)
+     */
+    retainedBytes?: number;
+
+    /**
+     * Number of garbage collections triggered during the memory pass loop (memory pass only)
+     */
+    gcCount?: number;
+
+    /**
+     * Total time (ms) spent in those garbage collections (memory pass only)
+     */
+    gcTimeMs?: number;
+
+    /**
+     * Whether the implementation returns a promise (benchmarked as a deferred case, awaiting each call)
+     */
+    isAsync?: boolean;
+
+    /**
+     * Mean time (ms) until an async call returns its promise, i.e. the synchronous part of the call
+     */
+    syncTimeMs?: number;
+
+    /**
+     * Mean time (ms) from an async call returning its promise until the promise settles
+     */
+    resolveTimeMs?: number;
+}
+
+/**
+ * Memory measurements of one implementation, as recorded by the runner's memory pass
+ */
+export type MemoryMeasurement = Required<Pick<BenchmarkResultItem,
+    'heapUsedBefore' | 'heapUsedAfter' | 'allocatedBytesPerCall' | 'retainedBytes' | 'gcCount' | 'gcTimeMs'>>;
+
+/**
+ * Timing of an async implementation, split into the synchronous part and the time to resolve
+ */
+export type AsyncTiming = Required<Pick<BenchmarkResultItem, 'isAsync' | 'syncTimeMs' | 'resolveTimeMs'>>;
+
+/**
+ * Result of a statistical significance test between an implementation and the baseline
+ */
+export interface SignificanceComparison {
+    /**
+     * Name of the compared implementation
+     */
+    name: string;
+
+    /**
+     * Name of the baseline implementation (usually 'Original')
+     */
+    baseline: string;
+
+    /**
+     * Statistical test used
+     */
+    test: 'welch-t';
+
+    /**
+     * Two-sided p-value of the test
+     */
+    pValue: number;
+
+    /**
+     * Speedup ratio (baseline mean time / implementation mean time); > 1 means faster
+     */
+    speedup: number;
+
+    /**
+     * Lower bound of the speedup confidence interval
+     */
+    ciLow: number;
+
+    /**
+     * Upper bound of the speedup confidence interval
+     */
+    ciHigh: number;
+
+    /**
+     * Confidence level of the interval (e.g., 0.95)
+     */
+    confidence: number;
+
+    /**
+     * Whether the difference is statistically significant
+     */
+    significant: boolean;
+
+    /**
+     * Human-readable verdict
+     */
+    verdict: 'faster' | 'slower' | 'no significant difference';
+}
+
+/**
+ * Asymptotic complexity classes recognized by the complexity estimator
+ */
+export type ComplexityClass = 'O(1)' | 'O(log n)' | 'O(n)' | 'O(n log n)' | 'O(n²)';
+
+/**
+ * Timings of one implementation across the complexity input sizes
+ */
+export interface ComplexityMeasurement {
+    /**
+     * Name of the implementation
+     */
+    name: string;
+
+    /**
+     * Mean time per call in seconds for each size (null if the size was skipped)
+     */
+    times: Array<number | null>;
+}
+
+/**
+ * Raw complexity-mode measurements reported by the benchmark runner
+ */
+export interface ComplexityMeasurements {
+    /**
+     * Input sizes passed to the data factory
+     */
+    sizes: number[];
+
+    /**
+     * One timing series per implementation
+     */
+    series: ComplexityMeasurement[];
+}
+
+/**
+ * Best-fitting complexity class for one implementation
+ */
+export interface ComplexityEstimate {
+    /**
+     * Name of the implementation
+     */
+    name: string;
+
+    /**
+     * Best-fitting complexity class
+     */
+    bigO: ComplexityClass;
+
+    /**
+     * Fitted coefficient c in t ≈ c·f(n), in seconds
+     */
+    coefficient: number;
+
+    /**
+     * Normalized RMS error of the fit (lower is better)
+     */
+    rms: number;
+
+    /**
+     * Number of sizes used for the fit
+     */
+    points: number;
+}
+
+/**
+ * Describes the machine and runtime a benchmark was executed on
+ */
+export interface BenchmarkEnvironment {
+    /**
+     * Node.js version (e.g., "v20.11.0")
+     */
+    node: string;
+
+    /**
+     * V8 engine version
+     */
+    v8: string;
+
+    /**
+     * Operating system platform (e.g., "linux", "darwin")
+     */
+    platform: string;
+
+    /**
+     * CPU architecture (e.g., "x64", "arm64")
+     */
+    arch: string;
+
+    /**
+     * Model name of the first CPU core
+     */
+    cpuModel: string;
+
+    /**
+     * Number of logical CPU cores
+     */
+    cpuCount: number;
+
+    /**
+     * Total system memory, in bytes
+     */
+    totalMemory: number;
+
+    /**
+     * ISO timestamp of when the run completed
+     */
+    timestamp: string;
+}
+
+/**
+ * The versioned payload emitted by the benchmark runner on its `RESULTS_JSON:` line
+ */
+export interface BenchmarkResultsPayload {
+    /**
+     * Schema version of the payload
+     */
+    version: number;
+
+    /**
+     * Name of the fastest implementation
+     */
+    fastest: string;
+
+    /**
+     * Result for each implementation
+     */
+    results: BenchmarkResultItem[];
+
+    /**
+     * Environment the run was executed in
+     */
+    environment: BenchmarkEnvironment;
+
+    /**
+     * Timings across input sizes (only present in complexity mode)
+     */
+    complexity?: ComplexityMeasurements;
 }
 
 /**
@@ -55,6 +1310,27 @@ export interface BenchmarkComparison {
      * Array of benchmark result items
      */
     results: BenchmarkResultItem[];
+
+    /**
+     * Environment the benchmark ran in (only available from structured runner output)
+     */
+    environment?: BenchmarkEnvironment;
+
+    /**
+     * Significance test of each alternative against the baseline
+     * (only available when raw sample timings were collected)
+     */
+    comparisons?: SignificanceComparison[];
+
+    /**
+     * Raw timings across input sizes (only present in complexity mode)
+     */
+    complexityMeasurements?: ComplexityMeasurements;
+
+    /**
+     * Empirical complexity class of each implementation (only present in complexity mode)
+     */
+    complexity?: ComplexityEstimate[];
 }
 
 /**
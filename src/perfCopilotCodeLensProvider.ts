@@ -0,0 +1,129 @@
+/**
+ * @fileoverview PerfCopilot CodeLens Provider
+ *
+ * Shows an "Optimize with PerfCopilot" action above every top-level function, arrow function
+ * and class method in JavaScript/TypeScript files, so a function can be analyzed without
+ * selecting it first. Function ranges come from the AST (see `functionParser.ts`).
+ *
+ * Clicking the action runs `perfcopilot.optimizeFunction`, which selects the exact range of the
+ * function and starts the analysis. Once a function was benchmarked in this session, a second
+ * lens summarizes the last run (e.g. "Last run: 3.2x faster available"). Runs are matched by
+ * function name, the same key `/compare` uses.
+ */
+
+import * as vscode from 'vscode';
+import { BenchmarkRun } from './models/types';
+import { parseFunctions } from './utils/functionParser';
+
+/**
+ * Command run by the lenses
+ */
+export const OPTIMIZE_FUNCTION_COMMAND = 'perfcopilot.optimizeFunction';
+
+/**
+ * Languages the lenses are shown for
+ */
+export const CODE_LENS_LANGUAGES = ['javascript', 'typescript', 'javascriptreact', 'typescriptreact'];
+
+/**
+ * Summarizes how a benchmark run went, for lens titles and the history view.
+ *
+ * @param run - The benchmark run
+ * @returns How much faster the fastest implementation was than the original (e.g. "3.2x faster available")
+ */
+export function describeSpeedup(run: BenchmarkRun): string {
+    const original = run.results.results.find(result => result.name === 'Original');
+    const fastest = run.results.results.find(result => result.name === run.results.fastest);
+    if (!original || !fastest || fastest === original || !(original.ops > 0)) {
+        return 'original is fastest';
+    }
+    return `${(fastest.ops / original.ops).toFixed(1)}x faster available`;
+}
+
+/**
+ * CodeLens provider for the "Optimize with PerfCopilot" action.
+ */
+export class PerfCopilotCodeLensProvider implements vscode.CodeLensProvider {
+    /**
+     * Output channel for logging
+     */
+    private outputChannel: vscode.OutputChannel;
+
+    /**
+     * Returns the latest benchmark run of a function, if any
+     */
+    private getLastRun: (functionName: string) => BenchmarkRun | undefined;
+
+    /**
+     * Fires when the lenses need to be recomputed
+     */
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Event VS Code listens to for recomputing the lenses
+     */
+    public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    /**
+     * Creates a new CodeLens provider.
+     *
+     * @param outputChannel - The output channel for logging
+     * @param getLastRun - Returns the latest benchmark run of a function by name
+     */
+    constructor(outputChannel: vscode.OutputChannel, getLastRun: (functionName: string) => BenchmarkRun | undefined) {
+        this.outputChannel = outputChannel;
+        this.getLastRun = getLastRun;
+    }
+
+    /**
+     * Recomputes the lenses, e.g. after a benchmark run or a settings change.
+     */
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Creates the lenses of a document: the optimize action above each function, and the
+     * summary of its last run if it was benchmarked.
+     *
+     * @param document - The document
+     * @returns The lenses, or none if they are disabled with `perfcopilot.codeLens.enabled`
+     */
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (vscode.workspace.getConfiguration('perfcopilot').get<boolean>('codeLens.enabled', true) === false) {
+            return [];
+        }
+
+        const text = document.getText();
+        let functions;
+        try {
+            functions = parseFunctions(text).functions;
+        } catch (error) {
+            this.outputChannel.appendLine(`Could not parse ${document.uri.toString()} for CodeLenses: ${error}`);
+            return [];
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        for (const fn of functions) {
+            // The analysis runs the function on its own, so `export`/`export default` is left out of the range
+            const exportKeywords = /^export\s+(default\s+)?/.exec(text.slice(fn.start, fn.end));
+            const start = fn.start + (exportKeywords ? exportKeywords[0].length : 0);
+            const range = new vscode.Range(document.positionAt(start), document.positionAt(fn.end));
+            const command = { command: OPTIMIZE_FUNCTION_COMMAND, arguments: [document.uri, range] };
+
+            lenses.push(new vscode.CodeLens(range, { ...command, title: '⚡ Optimize with PerfCopilot' }));
+            const lastRun = fn.name ? this.getLastRun(fn.name) : undefined;
+            if (lastRun) {
+                lenses.push(new vscode.CodeLens(range, { ...command, title: `Last run: ${describeSpeedup(lastRun)}` }));
+            }
+        }
+        return lenses;
+    }
+
+    /**
+     * Disposes the change event.
+     */
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview PerfCopilot History Tree View
+ *
+ * Backs the "PerfCopilot History" view: past runs from `HistoryService`, grouped by function
+ * and listed newest first with their date and speedup. A run can be:
+ * - reopened as a Markdown report (clicking it runs `perfcopilot.history.openReport`)
+ * - re-run with the same implementations and benchmark data through `/benchmark` in the chat
+ * - diffed against another run of the same function (or any run, if it has no other)
+ */
+
+import * as vscode from 'vscode';
+import { HistoryEntry } from './models/types';
+import { createRerunPrompt, formatHistoryReport, HistoryService } from './services/historyService';
+import { describeSpeedup } from './perfCopilotCodeLensProvider';
+
+/**
+ * Id of the view in package.json
+ */
+export const HISTORY_VIEW_ID = 'perfcopilot.history';
+
+/**
+ * A node of the history tree: a function, or one run of it
+ */
+export type HistoryNode =
+    | { kind: 'function'; functionName: string; entries: HistoryEntry[] }
+    | { kind: 'run'; entry: HistoryEntry };
+
+/**
+ * Tree data provider and commands of the history view.
+ */
+export class PerfCopilotHistoryProvider implements vscode.TreeDataProvider<HistoryNode> {
+    /**
+     * Output channel for logging
+     */
+    private outputChannel: vscode.OutputChannel;
+
+    /**
+     * Storage of the runs
+     */
+    private historyService: HistoryService;
+
+    /**
+     * Fires when the tree needs to be reloaded
+     */
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Event VS Code listens to for reloading the tree
+     */
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    /**
+     * Creates a new history view provider.
+     *
+     * @param outputChannel - The output channel for logging
+     * @param historyService - Storage of the runs
+     */
+    constructor(outputChannel: vscode.OutputChannel, historyService: HistoryService) {
+        this.outputChannel = outputChannel;
+        this.historyService = historyService;
+    }
+
+    /**
+     * Reloads the tree.
+     */
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Creates the tree item of a node.
+     *
+     * @param node - A function or a run
+     * @returns The tree item
+     */
+    public getTreeItem(node: HistoryNode): vscode.TreeItem {
+        if (node.kind === 'function') {
+            const item = new vscode.TreeItem(node.functionName, vscode.TreeItemCollapsibleState.Collapsed);
+            item.description = `${node.entries.length} run${node.entries.length === 1 ? '' : 's'}`;
+            item.iconPath = new vscode.ThemeIcon('symbol-function');
+            item.contextValue = 'perfcopilotFunction';
+            return item;
+        }
+
+        const { entry } = node;
+        const item = new vscode.TreeItem(new Date(entry.timestamp).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+        item.description = describeSpeedup(entry);
+        item.tooltip = `${entry.entryPointName}: ${entry.implementations.length} implementations, fastest ${entry.results.fastest}${entry.model ? `\nModel: ${entry.model}` : ''}`;
+        item.iconPath = new vscode.ThemeIcon('history');
+        item.contextValue = 'perfcopilotRun';
+        item.command = { command: 'perfcopilot.history.openReport', title: 'Open Report', arguments: [node] };
+        return item;
+    }
+
+    /**
+     * Lists the functions (top level) or the runs of a function, newest first.
+     *
+     * @param node - The parent node, or undefined for the top level
+     * @returns The child nodes
+     */
+    public async getChildren(node?: HistoryNode): Promise<HistoryNode[]> {
+        if (node) {
+            return node.kind === 'function' ? node.entries.map(entry => ({ kind: 'run', entry })) : [];
+        }
+
+        const byFunction = new Map<string, HistoryEntry[]>();
+        for (const entry of await this.historyService.getRuns()) {
+            byFunction.set(entry.entryPointName, [...(byFunction.get(entry.entryPointName) ?? []), entry]);
+        }
+        return [...byFunction].map(([functionName, entries]) => ({ kind: 'function', functionName, entries }));
+    }
+
+    /**
+     * Opens the report of a run in a Markdown editor.
+     *
+     * @param node - The run; asked for if undefined (e.g. when run from the command palette)
+     */
+    public async openReport(node?: HistoryNode): Promise<void> {
+        const entry = await this.resolveEntry(node, 'Select a run to open');
+        if (!entry) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument({ content: formatHistoryReport(entry), language: 'markdown' });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    /**
+     * Re-runs the benchmark of a run with the same implementations and data, via `/benchmark`
+     * in the chat. The new run is recorded in the history like any other.
+     *
+     * @param node - The run; asked for if undefined
+     */
+    public async rerun(node?: HistoryNode): Promise<void> {
+        const entry = await this.resolveEntry(node, 'Select a run to benchmark again');
+        if (!entry) {
+            return;
+        }
+        this.outputChannel.appendLine(`Re-running history entry ${entry.id}.`);
+        await vscode.commands.executeCommand('workbench.action.chat.open', { query: createRerunPrompt(entry) });
+    }
+
+    /**
+     * Opens a diff between the reports of two runs. The second run is picked from the other runs
+     * of the same function, or from all runs if the function has no other.
+     *
+     * @param node - The first run; asked for if undefined
+     */
+    public async diff(node?: HistoryNode): Promise<void> {
+        const entry = await this.resolveEntry(node, 'Select the first run to compare');
+        if (!entry) {
+            return;
+        }
+        const others = (await this.historyService.getRuns()).filter(candidate => candidate.id !== entry.id);
+        const sameFunction = others.filter(candidate => candidate.entryPointName === entry.entryPointName);
+        const other = await this.pickEntry(sameFunction.length > 0 ? sameFunction : others, 'Select the run to compare with');
+        if (!other) {
+            return;
+        }
+
+        // Older run on the left
+        const [before, after] = other.timestamp <= entry.timestamp ? [other, entry] : [entry, other];
+        const [left, right] = await Promise.all([before, after].map(run =>
+            vscode.workspace.openTextDocument({ content: formatHistoryReport(run), language: 'markdown' })));
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            left.uri,
+            right.uri,
+            `${before.entryPointName} (${new Date(before.timestamp).toLocaleString()}) ↔ ${after.entryPointName} (${new Date(after.timestamp).toLocaleString()})`
+        );
+    }
+
+    /**
+     * Disposes the change event.
+     */
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Returns the run of a node, or asks for one if the command was not run on a run node.
+     */
+    private async resolveEntry(node: HistoryNode | undefined, placeHolder: string): Promise<HistoryEntry | undefined> {
+        if (node?.kind === 'run') {
+            return node.entry;
+        }
+        const entries = node?.kind === 'function' ? node.entries : await this.historyService.getRuns();
+        return this.pickEntry(entries, placeHolder);
+    }
+
+    /**
+     * Asks the user to pick one of the given runs.
+     */
+    private async pickEntry(entries: HistoryEntry[], placeHolder: string): Promise<HistoryEntry | undefined> {
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('The PerfCopilot history has no runs to choose from.');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            entries.map(entry => ({
+                label: entry.entryPointName,
+                description: new Date(entry.timestamp).toLocaleString(),
+                detail: describeSpeedup(entry),
+                entry
+            })),
+            { placeHolder }
+        );
+        return picked?.entry;
+    }
+}
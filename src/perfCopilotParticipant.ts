@@ -8,17 +8,14 @@
  * - Registers the chat participant with VS Code.
  * - Receives user prompts containing JavaScript/TypeScript code to analyze.
  * - Extracts and validates the function code from the prompt.
- * - Interacts with the Language Model (LLM) via `vscode.lm` API to:
- *   - Generate alternative function implementations focused on performance.
- *   - Generate suitable test data for benchmarking the identified entry point.
- *   - Analyze benchmark results and provide explanations.
- * - Coordinates with the `CorrectnessVerifier` to check the functional equivalence of 
- *   generated alternatives against the original function using LLM-generated test inputs.
- * - Coordinates with the `BenchmarkService` to:
- *   - Prepare implementations (renaming for isolated execution context).
- *   - Generate the benchmark module code (containing implementations and test data).
- *   - Execute the benchmark runner script (`benchmarkRunner.js`) as a child process.
- *   - Parse the results from the runner script.
+ * - Attaches workspace declarations collected by `perfcopilot.analyzeFunction` (helpers,
+ *   constants, imports) to the original and the alternatives, so they run in the same environment.
+ * - Runs the analysis pipeline of `core/pipeline.ts` (alternatives, correctness check with
+ *   repair, benchmark with complexity mode, evolve mode, explanation), the same one the
+ *   `perfcopilot` CLI runs, with the models of each stage from `vscode.lm`.
+ * - Runs single stages of the pipeline for the slash commands (`/benchmark`, `/verify`, ...),
+ *   with the same per-stage models.
+ * - Coordinates with the `BenchmarkService` to run baselines and single-stage benchmarks.
  * - Streams progress updates and final results back to the user in the chat view.
  * - Handles errors gracefully throughout the process, reporting issues to the user and logs.
  * - Implements retry logic for LLM requests to improve reliability.
@@ -33,13 +30,92 @@
 
 import * as vscode from 'vscode';
 import { BenchmarkService } from './services/benchmarkService';
-import { FunctionImplementation } from './models/types';
+import { HistoryService } from './services/historyService';
+import { LanguageModelService, StageModels } from './services/languageModelService';
+import {
+    AnalysisNotice,
+    AnalysisObserver,
+    AnalysisResult,
+    ApplyImplementationRequest,
+    BenchmarkComparison,
+    BenchmarkRun,
+    CollectedDependencies,
+    ComparisonOptions,
+    EvolutionStep,
+    FunctionImplementation,
+    FuzzCounterexample,
+    FuzzOptions,
+    ModelStage,
+    OptimizationStrategy,
+    PinnedBaseline,
+    PipelineLanguageModel,
+    PipelineStageModels,
+    RecordedVerdict,
+    SourceLocation,
+    StageUsage,
+    VerificationReport,
+    VerificationVerdict
+} from './models/types';
 import { isValidJavaScriptFunction, extractFunctionName } from './utils/functions';
-import { verifyFunctionalEquivalence } from './utils/correctnessVerifier';
+import { verifyAlternatives } from './utils/correctnessVerifier';
+import { DEFAULT_COMPARISON_OPTIONS } from './utils/deepEqual';
+import { createLocalDataFactory, DEFAULT_COMPLEXITY_SIZES, formatComplexitySummary } from './utils/complexity';
+import { getExecutableCode, prepareImplementation } from './utils/transpiler';
+import { DEFAULT_FUZZ_RUNS } from './utils/fuzzer';
+import { parseFunctions, renameFunction } from './utils/functionParser';
+import { createInputGenerationPrompt, DEFAULT_ALTERNATIVES_COUNT, STRATEGY_HINTS } from './core/prompts';
+import { STAGE_LABELS } from './core/languageModels';
+import { createBenchmarkModule, processImplementations, sanitizeImplementationName } from './core/benchmarkModule';
+import {
+    AnalysisError,
+    DEFAULT_EVOLVE_GENERATIONS,
+    DEFAULT_EVOLVE_MIN_IMPROVEMENT,
+    DEFAULT_REPAIR_ROUNDS,
+    formatImprovement,
+    runAnalysis
+} from './core/pipeline';
 
 // Define the participant ID
 const PERF_COPILOT_PARTICIPANT_ID = 'perfcopilot';
 
+// Prompt flag that enables complexity mode for a single request
+const COMPLEXITY_FLAG = '--complexity';
+
+// Prompt flag that enables fuzzing mode for a single request
+const FUZZ_FLAG = '--fuzz';
+
+// Longest text shown in a cell of the verification table
+const MAX_TABLE_CELL_LENGTH = 200;
+
+// Prompt options that set the number of alternatives and the optimization strategies for a single request
+const COUNT_FLAG = '--count';
+const STRATEGY_FLAG = '--strategy';
+
+// Most alternatives a request may ask for (the default is `DEFAULT_ALTERNATIVES_COUNT` in `core/prompts.ts`)
+const MAX_ALTERNATIVES_COUNT = 10;
+
+// Slash command that runs the full pipeline, like a request without a command (e.g. `/optimize --count 5`)
+const OPTIMIZE_COMMAND = 'optimize';
+
+// Slash command that repeats generation, verification and benchmarking with the fastest implementation as the new baseline
+const EVOLVE_COMMAND = 'evolve';
+
+// Slash commands that run a single stage of the pipeline
+const BENCHMARK_COMMAND = 'benchmark';
+const VERIFY_COMMAND = 'verify';
+const EXPLAIN_COMMAND = 'explain';
+const TESTDATA_COMMAND = 'testdata';
+const COMPARE_COMMAND = 'compare';
+
+// Command behind the chat button that reviews and applies the winning implementation (see `applyService.ts`)
+const APPLY_COMMAND = 'perfcopilot.applyImplementation';
+
+// Command behind the chat button that pins an implementation as the baseline of a function (see `baselineService.ts`)
+const PIN_BASELINE_COMMAND = 'perfcopilot.pinBaseline';
+
+// Code block languages accepted as implementations by the stage commands
+const CODE_BLOCK_LANGUAGES = ['', 'js', 'javascript', 'jsx', 'ts', 'typescript', 'tsx'];
+
 /**
  * PerfCopilotParticipant handles chat requests to optimize functions for performance.
  * Users can mention @perfcopilot in a VS Code Chat to analyze JavaScript functions.
@@ -54,19 +130,55 @@ export class PerfCopilotParticipant {
      * Benchmark Service for running performance tests
      */
     private benchmarkService: BenchmarkService;
+
+    /**
+     * Language Model Service selecting the model of each request
+     */
+    private languageModelService: LanguageModelService;
+
+    /**
+     * History of the recorded runs, read by `/compare`
+     */
+    private historyService?: HistoryService;
+
+    /**
+     * Workspace dependencies collected by `perfcopilot.analyzeFunction`, keyed by the trimmed selection
+     */
+    private selectionContexts = new Map<string, CollectedDependencies>();
+
+    /**
+     * Editor locations of selections analyzed with `perfcopilot.analyzeFunction`, keyed by the trimmed selection
+     */
+    private selectionLocations = new Map<string, SourceLocation>();
+
+    /**
+     * Latest benchmark run of each function in this session, keyed by entry point name (see `/compare`)
+     */
+    private previousRuns = new Map<string, BenchmarkRun>();
+
+    /**
+     * Callbacks notified whenever a benchmark run is recorded (e.g. to refresh the CodeLenses)
+     */
+    private runListeners: ((run: BenchmarkRun) => void)[] = [];
     
     /**
      * Creates a new PerfCopilot chat participant
      * 
      * @param outputChannel - The output channel for logging
      * @param benchmarkService - The benchmark service
+     * @param languageModelService - The service selecting the language model of each request
+     * @param historyService - The history `/compare` reads earlier runs from (only runs of this session without it)
      */
     constructor(
         outputChannel: vscode.OutputChannel,
-        benchmarkService: BenchmarkService
+        benchmarkService: BenchmarkService,
+        languageModelService: LanguageModelService = new LanguageModelService(outputChannel),
+        historyService?: HistoryService
     ) {
         this.outputChannel = outputChannel;
         this.benchmarkService = benchmarkService;
+        this.languageModelService = languageModelService;
+        this.historyService = historyService;
         this.outputChannel.appendLine('PerfCopilotParticipant initialized.');
     }
     
@@ -100,6 +212,76 @@ export class PerfCopilotParticipant {
         }
     }
     
+    /**
+     * Records the workspace declarations a selection depends on (see `dependencyCollector.ts`).
+     * When a later request analyzes the same code, they become the `context` of the original
+     * and every alternative.
+     * 
+     * @param selection - The selected function code, as sent to the chat
+     * @param dependencies - The declarations collected for the selection
+     */
+    public registerSelectionContext(selection: string, dependencies: CollectedDependencies): void {
+        this.selectionContexts.set(selection.trim(), dependencies);
+        this.outputChannel.appendLine(`Registered selection context: ${dependencies.identifiers.length} declarations, ${dependencies.unresolved.length} unresolved.`);
+    }
+
+    /**
+     * Returns the latest benchmark run of a function in this session.
+     * 
+     * @param entryPointName - Name of the function
+     * @returns The latest run, or undefined if the function was not benchmarked yet
+     */
+    public getPreviousRun(entryPointName: string): BenchmarkRun | undefined {
+        return this.previousRuns.get(entryPointName);
+    }
+
+    /**
+     * Registers a callback that is notified whenever a benchmark run is recorded.
+     * 
+     * @param listener - Called with the recorded run
+     * @returns A disposable that unregisters the callback
+     */
+    public onDidRecordRun(listener: (run: BenchmarkRun) => void): vscode.Disposable {
+        this.runListeners.push(listener);
+        return { dispose: () => { this.runListeners = this.runListeners.filter(registered => registered !== listener); } };
+    }
+
+    /**
+     * Benchmarks the current source of a function against its pinned implementation, with the
+     * pinned benchmark data. Results are reported as "Current" and "Baseline".
+     * 
+     * @param baseline - The pinned baseline
+     * @param currentCode - The current source of the function
+     * @returns The benchmark results
+     * @throws Error if either implementation cannot be transpiled or the benchmark fails
+     */
+    public async benchmarkAgainstBaseline(baseline: PinnedBaseline, currentCode: string): Promise<BenchmarkComparison> {
+        const context = baseline.implementation.context;
+        const implementations = [
+            { name: 'Current', code: currentCode, description: 'Current source', ...(context ? { context } : {}) },
+            { name: 'Baseline', code: baseline.implementation.code, description: `Pinned ${baseline.implementation.name}`, ...(context ? { context } : {}) }
+        ].map(implementation => prepareImplementation(implementation));
+        this.outputChannel.appendLine(`Benchmarking the current source of ${baseline.entryPointName} against its pinned baseline...`);
+
+        return this.benchmarkService.runBenchmark(createBenchmarkModule(
+            baseline.entryPointName,
+            baseline.testData,
+            this.processImplementations(implementations, baseline.entryPointName)
+        ));
+    }
+
+    /**
+     * Records where a selection is in the editor, so the winning implementation of a later
+     * request that analyzes the same code can be applied there.
+     * 
+     * @param selection - The selected function code, as sent to the chat
+     * @param location - The document and range of the selection
+     */
+    public registerSelectionLocation(selection: string, location: SourceLocation): void {
+        this.selectionLocations.set(selection.trim(), location);
+        this.outputChannel.appendLine(`Registered selection location: ${location.uri}:${location.startLine + 1}`);
+    }
+    
     /**
      * Helper function to send request to LLM with retry logic.
      */
@@ -155,26 +337,14 @@ export class PerfCopilotParticipant {
             token: vscode.CancellationToken
         ): Promise<vscode.ChatResult> => {
             this.outputChannel.appendLine(`Received request: ${request.prompt.substring(0, 100)}...`);
-            let languageModel: vscode.LanguageModelChat | undefined;
+            let models: StageModels;
 
             try {
                 try {
-                    const models = await vscode.lm.selectChatModels({ vendor: 'copilot', family: 'gpt-4' });
-                    if (models.length > 0) {
-                        languageModel = models[0];
-                        this.outputChannel.appendLine(`Selected language model: ${languageModel.vendor}/${languageModel.name}`);
-                    } else {
-                        const fallbackModels = await vscode.lm.selectChatModels({ family: 'gpt-4' });
-                         if (fallbackModels.length > 0) {
-                            languageModel = fallbackModels[0];
-                            this.outputChannel.appendLine(`Selected fallback language model: ${languageModel.vendor}/${languageModel.name}`);
-                        } else {
-                            throw new Error('No suitable language model found (tried Copilot and GPT-4 family).');
-                        }
-                    }
+                    models = await this.languageModelService.selectStageModels(token);
                 } catch (lmError) {
                     this.outputChannel.appendLine(`Language model selection error: ${lmError}`);
-                    response.markdown(`🔴 **Error:** Could not access a suitable language model. Please ensure Copilot Chat or a compatible AI provider is active. \n\`\`\`\n${lmError}\n\`\`\``);
+                    response.markdown(`🔴 **Error:** Could not access a suitable language model. Please ensure Copilot Chat or a compatible AI provider is active, or check the \`perfcopilot.model\` settings. \n\`\`\`\n${lmError}\n\`\`\``);
                     return { metadata: { error: `Language model selection error: ${lmError}` } };
                 }
 
@@ -183,8 +353,53 @@ export class PerfCopilotParticipant {
                     return {};
                 }
 
+                // Complexity mode: enabled per request (--complexity) or by setting
+                const complexityOptions = this.getComplexityOptions(request.prompt);
+                if (complexityOptions.enabled) {
+                    this.outputChannel.appendLine(`Complexity mode enabled. Sizes: ${complexityOptions.sizes.join(', ')}`);
+                }
+
+                // Fuzzing mode: enabled per request (--fuzz) or by setting
+                const fuzzOptions = this.getFuzzOptions(complexityOptions.prompt);
+                if (fuzzOptions.enabled) {
+                    this.outputChannel.appendLine(`Fuzzing mode enabled. Runs: ${fuzzOptions.options.runs}${fuzzOptions.options.seed !== undefined ? `, seed: ${fuzzOptions.options.seed}` : ''}`);
+                }
+
+                // Number of alternatives and optimization strategies: per request (--count, --strategy) or by setting
+                const alternativesOptions = this.getAlternativesOptions(fuzzOptions.prompt);
+                this.outputChannel.appendLine(`Requesting ${alternativesOptions.count} alternatives. Strategies: ${alternativesOptions.strategies.join(', ') || '(none)'}`);
+                for (const unknown of alternativesOptions.unknownStrategies) {
+                    response.markdown(`⚠️ **Warning:** Ignoring unknown optimization strategy \`${unknown}\`. Known strategies: ${Array.from(STRATEGY_HINTS.keys()).join(', ')}.`);
+                }
+
+                // Slash commands run a single stage of the pipeline instead of all of it
+                if (request.command && request.command !== OPTIMIZE_COMMAND && request.command !== EVOLVE_COMMAND) {
+                    return await this.handleStageCommand(
+                        request.command,
+                        alternativesOptions.prompt,
+                        models,
+                        token,
+                        response,
+                        complexityOptions,
+                        fuzzOptions.enabled ? fuzzOptions.options : undefined
+                    );
+                }
+
                 response.progress('Extracting function...');
-                const functionCode = this.extractFunctionCodeFromPrompt(request.prompt);
+                // With several code blocks, the first is the original and the others are versions written by the user,
+                // verified and benchmarked like the alternatives
+                let userVersions: FunctionImplementation[] = [];
+                let functionCode: string | undefined;
+                if (this.extractCodeBlocks(alternativesOptions.prompt).filter(block => CODE_BLOCK_LANGUAGES.includes(block.language)).length > 1) {
+                    const parsed = this.parseUserImplementations(alternativesOptions.prompt, 2, response);
+                    if (!parsed) {
+                        return { metadata: { error: 'Invalid user-provided versions.' } };
+                    }
+                    functionCode = parsed.implementations[0].code;
+                    userVersions = parsed.implementations.slice(1);
+                } else {
+                    functionCode = this.extractFunctionCodeFromPrompt(alternativesOptions.prompt);
+                }
 
                 if (!functionCode) {
                     response.markdown(`🔴 **Error:** No JavaScript/TypeScript function found in your request. 
@@ -217,299 +432,97 @@ ${functionCode.substring(0, 500)}${functionCode.length > 500 ? '...' : ''}\n\`\`
                 }
 
                  const functionName = extractFunctionName(functionCode) || 'anonymous function';
-                 const originalFunction: FunctionImplementation = { name: 'Original', code: functionCode, description: 'Original implementation' };
                  response.markdown(`✅ Function \`${functionName}\` identified. Analyzing...`);
 
+                // Helpers, constants and imports collected from the workspace by analyzeFunction
+                const dependencies = this.selectionContexts.get(functionCode.trim());
+                const workspaceContext = dependencies && dependencies.code ? dependencies.code : undefined;
+                if (dependencies && workspaceContext) {
+                    this.outputChannel.appendLine(`Using workspace context for ${functionName}: ${dependencies.identifiers.join(', ')}`);
+                    response.markdown(`\nℹ️ Including ${dependencies.identifiers.length} workspace declaration(s) used by the function: ${dependencies.identifiers.map(name => `\`${name}\``).join(', ')}.`);
+                }
+                if (dependencies && dependencies.unresolved.length > 0) {
+                    response.markdown(`\n⚠️ **Warning:** Could not include: ${dependencies.unresolved.join('; ')}. Verification may fail with a ReferenceError.`);
+                }
+
                 if (token.isCancellationRequested) {
                     response.markdown("Operation cancelled by user.");
                     return {};
                 }
 
-                response.progress('Generating alternative implementations...');
-                const alternativesPrompt = this.createAlternativesPrompt(functionCode);
-                this.outputChannel.appendLine(`\n--- Alternatives Prompt ---\n${alternativesPrompt}\n--------------------------\n`);
-                const alternativesMessages = [vscode.LanguageModelChatMessage.User(alternativesPrompt)];
-                let alternativesResponseText = '';
-                try {
-                    // FIX: Use retry helper
-                    const alternativesRequest = await this.sendRequestWithRetry(languageModel, alternativesMessages, {}, token);
-                    
-                    // CRITICAL: Correctly accumulates stream chunks for alternatives
-                    for await (const chunk of alternativesRequest.stream) { 
-                        if (token.isCancellationRequested) {
-                            response.markdown("Operation cancelled by user.");
-                            break;
-                        }
-                        
-                        // --- Correct Handling based on Docs ---
-                        if (chunk instanceof vscode.LanguageModelTextPart) {
-                            alternativesResponseText += chunk.value; // Access the 'value' property
-                        } 
-                        // --- End Correct Handling ---
-                         
-                    }
-                    if (token.isCancellationRequested) {
-                        response.markdown("Operation cancelled by user.");
-                        return {};
-                    }
-                    this.outputChannel.appendLine(`Received alternatives response length: ${alternativesResponseText.length}`);
-                    this.outputChannel.appendLine(`\n--- Alternatives Raw Response ---\n${alternativesResponseText}\n-------------------------------\n`);
-
-                } catch (error) {
-                     this.outputChannel.appendLine(`Error getting alternatives: ${error}`);
-                     response.markdown(`🔴 **Error:** Failed to generate alternative implementations. \n\`\`\`\n${error}\n\`\`\``);
-                     return { metadata: { error: `LLM error getting alternatives: ${error}` } };
+                if (userVersions.length > 0) {
+                    response.markdown(`\nℹ️ Including ${userVersions.length} version(s) from your request: ${userVersions.map(version => `\`${version.name}\``).join(', ')}.`);
                 }
 
-                const alternatives = this.parseAlternativeImplementations(functionCode, alternativesResponseText);
-                if (alternatives.length === 0) {
-                    this.outputChannel.appendLine('Parsing alternatives resulted in an empty array. Check raw response and parsing logic.');
-                    response.markdown(`ℹ️ No alternative implementations were successfully parsed from the AI response. Please check the PerfCopilot logs for details.`);
-                    return { metadata: { message: 'No alternatives parsed.' } };
-                }
-                 response.markdown(`✅ Generated ${alternatives.length} alternative implementations.`);
-
-                 // Initialize verifiedAlternatives with all alternatives as a fallback
-                 let verifiedAlternatives: FunctionImplementation[] = alternatives;
-
-                 // --- MOVED: Correctness Check (Moved after benchmark config generation) ---
-                 // response.progress('Verifying functional correctness...');
-                 // let verifiedAlternatives: FunctionImplementation[] = [];
-                 // try {
-                 //     verifiedAlternatives = await verifyFunctionalEquivalence(...)
-                 // } ...
-                 // --- End Moved Block ---
-
-                 if (token.isCancellationRequested) {
-                    response.markdown("Operation cancelled by user.");
-                    return {};
-                 }
-
-                response.progress('Generating benchmark code via AI...');
-                let benchmarkCode: string | undefined;
+                // The pipeline itself runs in core (see `core/pipeline.ts`); this handler only renders it
+                let result: AnalysisResult;
                 try {
-                    // Use only verified alternatives for benchmarking
-                    const benchmarkPrompt = this.createBenchmarkPrompt(originalFunction, alternatives);
-                    const benchmarkMessages = [vscode.LanguageModelChatMessage.User(benchmarkPrompt)];
-                    
-                    // FIX: Use retry helper
-                    const benchmarkRequest = await this.sendRequestWithRetry(languageModel, benchmarkMessages, {}, token);
-                    
-                    // FIX: Use the same stream handling as for alternatives
-                    // CRITICAL: Correctly accumulates stream chunks for benchmark config
-                    let benchmarkResponseText = '';
-                    for await (const chunk of benchmarkRequest.stream) { 
-                        if (token.isCancellationRequested) {
-                            response.markdown("Operation cancelled by user.");
-                            break;
-                        }
-                        
-                        if (chunk instanceof vscode.LanguageModelTextPart) {
-                            benchmarkResponseText += chunk.value; // Access the 'value' property
-                        } else {
-                            // Log unexpected chunk types for diagnostics
-                            this.outputChannel.appendLine(`[Benchmark Config Stream] Received unexpected chunk type: ${typeof chunk} - ${JSON.stringify(chunk)}`);
-                        }
-                    }
-                    if (token.isCancellationRequested) { return {}; }
-
-                    // Parse the JSON response containing entry point, test data, and implementations
-                    let benchmarkConfig: { entryPointName: string; testData: any; implementations: Record<string, string> };
-                    const jsonBlockRegex = /```(?:json)?\s*({[\s\S]*?})\s*```/s; // Match JSON object
-                    const match = jsonBlockRegex.exec(benchmarkResponseText);
-                    if (match && match[1]) {
-                        const jsonString = match[1].trim();
-                        this.outputChannel.appendLine(`[DEBUG] Extracted benchmark config JSON string:\n${jsonString}`); // Log the raw JSON
-                        try {
-                            benchmarkConfig = JSON.parse(jsonString);
-                            // Log the parsed config structure
-                            this.outputChannel.appendLine(`[DEBUG] Parsed benchmarkConfig object:\n${JSON.stringify(benchmarkConfig, null, 2)}`);
-
-                            // Specifically log the parsed testData
-                            this.outputChannel.appendLine(`[DEBUG] Parsed testData type: ${typeof benchmarkConfig.testData}, value: ${JSON.stringify(benchmarkConfig.testData)}`);
-
-                            // Basic validation
-                            if (!benchmarkConfig.entryPointName || typeof benchmarkConfig.entryPointName !== 'string' ||
-                                !benchmarkConfig.implementations || typeof benchmarkConfig.implementations !== 'object' ||
-                                benchmarkConfig.testData === undefined) { // Allow null for testData
-                                throw new Error('Invalid JSON structure received for benchmark config.');
-                            }
-                            this.outputChannel.appendLine(`Parsed benchmark config JSON. Entry Point: ${benchmarkConfig.entryPointName}`);
-                            response.markdown(`✅ AI identified entry point and generated test data.`);
-                        } catch (parseError) {
-                             this.outputChannel.appendLine(`Failed to parse benchmark config JSON: ${parseError}\nRaw JSON string: ${jsonString}`);
-                             throw new Error('Failed to parse benchmark configuration from AI response.');
-                        }
-                    } else {
-                        this.outputChannel.appendLine(`Could not extract benchmark config JSON from LLM response: ${benchmarkResponseText}`);
-                        throw new Error('Failed to extract benchmark configuration JSON from AI response.');
-                    }
-
-                    // --- NEW: Correctness Check (Run AFTER getting entryPointName) ---
-                    response.progress('Verifying functional correctness...');
-                    try {
-                        // CRITICAL: Uses CorrectnessVerifier with LLM-identified entry point name
-                        // Use the entryPointName identified by the LLM for verification
-                        const checkResults = await verifyFunctionalEquivalence(
-                            originalFunction, 
-                            alternatives, 
-                            languageModel, 
-                            this.createInputGenerationPrompt.bind(this), 
-                            this.outputChannel,
-                            token,
-                            benchmarkConfig.entryPointName // Use LLM-identified entry point
-                        );
-
-                        // If successful, update verifiedAlternatives
-                        verifiedAlternatives = checkResults;
-
-                        if (token.isCancellationRequested) { throw new Error('Operation cancelled'); }
-
-                        if (verifiedAlternatives.length < alternatives.length) {
-                            response.markdown(`ℹ️ Rejected ${alternatives.length - verifiedAlternatives.length} alternatives due to incorrect results.`);
-                        }
-                        if (verifiedAlternatives.length === 0) {
-                            response.markdown('🔴 **Error:** No alternative implementations passed the functional correctness check. Cannot proceed with benchmarking.');
-                            return { metadata: { error: 'All alternatives failed correctness check.' } };
-                        }
-                        response.markdown(`✅ ${verifiedAlternatives.length} alternatives passed correctness check.`);
-
-                    } catch (error: any) {
-                        if (token.isCancellationRequested) { 
-                            response.markdown("Operation cancelled by user.");
-                            return {}; 
-                        }
-                        this.outputChannel.appendLine(`Error during functional verification: ${error.message}`);
-                        response.markdown(`⚠️ **Warning:** Could not verify functional correctness due to an error: ${error.message}. Proceeding with all generated alternatives.`);
-                        // Fallback: verifiedAlternatives already contains the original 'alternatives' 
-                    }
-                    // --- End Correctness Check ---
-
-                    if (token.isCancellationRequested) {
-                        response.markdown("Operation cancelled by user.");
-                        return {};
-                    }
-
-                    // --- Process Implementations for Runner ---
-                    this.outputChannel.appendLine('Processing implementations for benchmark runner...');
-                    const processedImplementations: Record<string, string> = {};
-                    const originalEntryPoint = benchmarkConfig.entryPointName;
-                    
-                    // CRITICAL: Uses ONLY verified alternatives for benchmarking
-                    // Use ONLY verified alternatives from now on
-                    const implementationsToProcess = {
-                        [originalFunction.name]: originalFunction.code,
-                        ...Object.fromEntries(verifiedAlternatives.map(alt => [alt.name, alt.code]))
-                    };
-
-                    for (const [rawKey, code] of Object.entries(implementationsToProcess)) {
-                        // Sanitize the key to be a valid JS identifier (e.g., "Alternative 1" -> "Alternative_1")
-                        const sanitizedKey = rawKey.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_]/g, '');
-                        this.outputChannel.appendLine(`Processing implementation: ${rawKey} -> ${sanitizedKey}`);
-                        
-                        // CRITICAL: Renames functions and replaces recursive calls for isolated execution
-                        // Replace original function name and recursive calls with the sanitized key
-                        const processedCode = this.benchmarkService.replaceRecursiveCalls(
-                            code,
-                            originalEntryPoint,
-                            sanitizedKey
-                        );
-                        processedImplementations[sanitizedKey] = processedCode;
-                        this.outputChannel.appendLine(` -> Code processed for ${sanitizedKey}. Length: ${processedCode.length}`);
-                    }
-                    // --- End Processing ---
-
-                    // Log the final testData and implementations just before module creation
-                    this.outputChannel.appendLine(`[DEBUG] Final testData for benchmark module: ${JSON.stringify(benchmarkConfig.testData)}`);
-                    this.outputChannel.appendLine(`[DEBUG] Final implementations for benchmark module keys: ${Object.keys(processedImplementations).join(', ')}`);
-
-                    // CRITICAL: Constructs the JS module string for the benchmark runner script
-                    // Construct the actual code module to be run by benchmarkRunner.js
-                    benchmarkCode = `
-// Benchmark configuration generated by PerfCopilot
-// Entry Point Name was: ${JSON.stringify(benchmarkConfig.entryPointName)} (used internally)
-const testData = ${JSON.stringify(benchmarkConfig.testData, null, 2)}; // Pretty-print testData
-const implementations = {
-${Object.entries(processedImplementations).map(([key, code]) => 
-    // Key is already sanitized, code is processed
-    `  ${JSON.stringify(key)}: ${JSON.stringify(code)}`).join(',\n')}
-};
-
-module.exports = {
-    // entryPointName, // Removed - runner uses keys from implementations
-    testData,
-    implementations
-};
-                    `;
-                    // Log the generated benchmark code
-                    this.outputChannel.appendLine(`[DEBUG] Generated benchmark module code:\n---\n${benchmarkCode}\n---`);
-
-                    this.outputChannel.appendLine(`Generated benchmark module code. Length: ${benchmarkCode.length}`);
-
+                    result = await runAnalysis(
+                        {
+                            functionCode,
+                            ...(workspaceContext ? { context: workspaceContext } : {}),
+                            count: alternativesOptions.count,
+                            strategies: alternativesOptions.strategies,
+                            userVersions,
+                            comparisonOptions: this.getComparisonOptions(),
+                            ...(fuzzOptions.enabled ? { fuzzOptions: fuzzOptions.options } : {}),
+                            repairRounds: this.getMaxRepairRounds(),
+                            benchmarkIndeterminate: this.shouldBenchmarkIndeterminate(),
+                            ...(complexityOptions.enabled ? { complexitySizes: complexityOptions.sizes } : {}),
+                            ...(request.command === EVOLVE_COMMAND ? { evolve: this.getEvolutionOptions() } : {}),
+                            // Memory pass (heap, allocation and GC measurements) is on unless disabled in settings
+                            memory: vscode.workspace.getConfiguration('perfcopilot').get<boolean>('memory.enabled', true) !== false,
+                            explain: true
+                        },
+                        this.createPipelineModels(models),
+                        this.outputChannel,
+                        token,
+                        this.createChatObserver(response),
+                        this.benchmarkService
+                    );
                 } catch (error) {
-                    this.outputChannel.appendLine(`Error generating benchmark code via AI: ${error}`);
-                    response.markdown(`🔴 **Error:** Failed to generate benchmark code using AI. \n\`\`\`\n${error}\n\`\`\``);
-                    return { metadata: { error: `Benchmark generation error (LLM): ${error}` } };
+                    if (error instanceof AnalysisError) {
+                        return this.renderAnalysisError(error, response);
+                    }
+                    throw error;
                 }
 
-                response.progress('Running benchmarks...');
-                if (!benchmarkCode) {
-                    this.outputChannel.appendLine('Benchmark code is undefined. Aborting run.');
-                    response.markdown(`🔴 **Error:** Benchmark code was not successfully generated or extracted. Cannot run benchmarks.`);
-                    return { metadata: { error: 'Missing benchmark code before execution.' } };
+                if (result.lineage) {
+                    response.markdown(this.formatLineage(result.lineage));
                 }
-                let benchmarkResults: any;
-                try {
-                    // CRITICAL: Executes the benchmark via BenchmarkService
-                    benchmarkResults = await this.benchmarkService.runBenchmark(benchmarkCode);
-                    this.outputChannel.appendLine(`Benchmark results received: ${JSON.stringify(benchmarkResults)}`);
-                    if (!benchmarkResults || !benchmarkResults.results || benchmarkResults.results.length === 0) {
-                        throw new Error('Benchmark process did not produce valid results.');
-                    }
-                    response.markdown(`✅ Benchmarks completed.`);
-                } catch (error) {
-                    this.outputChannel.appendLine(`Error running benchmark: ${error}`);
-                    response.markdown(`🔴 **Error:** Failed to run benchmarks. This might be due to errors in the generated code or resource limits. \n\`\`\`\n${error}\n\`\`\``);
-                    return { metadata: { error: `Benchmark execution error: ${error}` } };
+                const [originalFunction, ...verifiedAlternatives] = result.implementations;
+                const benchmarkResults = result.results;
+                this.recordRun(result.entryPointName, result.testData, result.implementations, benchmarkResults, {
+                    verdicts: result.verdicts,
+                    model: result.model,
+                    stageModels: result.stageModels
+                });
+                if (result.explanation !== undefined) {
+                    response.markdown(result.explanation);
                 }
 
-                if (token.isCancellationRequested) {
-                    response.markdown("Operation cancelled by user.");
-                    return {};
+                // Tokens and latency of each stage, collapsed under the report
+                const usage = models.getUsage();
+                if (usage.length > 0) {
+                    response.markdown(this.formatStageUsage(usage));
                 }
 
-                response.progress('Analyzing benchmark results with AI...');
-                // Use only verified alternatives for the final explanation
-                const explanationPrompt = this.createExplanationPrompt(originalFunction, verifiedAlternatives, benchmarkResults);
-                const explanationMessages = [vscode.LanguageModelChatMessage.User(explanationPrompt)];
-                
-                try {
-                    // FIX: Use retry helper
-                    const explanationRequest = await this.sendRequestWithRetry(languageModel, explanationMessages, {}, token);
-                    
-                    // CRITICAL: Streams final explanation from LLM
-                    for await (const chunk of explanationRequest.stream) { // Use stream property
-                         if (token.isCancellationRequested) {
-                            response.markdown("Operation cancelled by user.");
-                            break;
-                         }
-                         // --- Correct Handling based on Docs ---
-                         if (chunk instanceof vscode.LanguageModelTextPart) {
-                             response.markdown(chunk.value); // Display text part value
-                         } else {
-                            // Log unexpected chunk types for diagnostics 
-                            this.outputChannel.appendLine(`[Explanation Stream] Received unexpected chunk type: ${typeof chunk} - ${JSON.stringify(chunk)}`);
-                         }
-                         // --- End Correct Handling ---
-                    }
-                     if (token.isCancellationRequested) {return {};}
-                    this.outputChannel.appendLine(`Finished streaming explanation.`);
-
-                } catch (error) {
-                    this.outputChannel.appendLine(`Error getting explanation: ${error}`);
-                    response.markdown(`🔴 **Error:** Failed to get AI analysis of results. \n\`\`\`\n${error}\n\`\`\`\n\n**Raw Benchmark Results:**\n\`\`\`json\n${JSON.stringify(benchmarkResults, null, 2)}\n\`\`\``);
-                    return { metadata: { error: `LLM error getting explanation: ${error}`, benchmarkResults } };
+                // Offer to adopt the winner, unless the original is still the fastest
+                const winner = verifiedAlternatives.find(alt => sanitizeImplementationName(alt.name) === benchmarkResults.fastest);
+                if (winner) {
+                    response.button({
+                        command: APPLY_COMMAND,
+                        title: `Review and apply ${winner.name}`,
+                        arguments: [this.createApplyRequest(originalFunction, winner, result.entryPointName)]
+                    });
                 }
+                // Pin what the function will be from now on (the winner once applied, else the original) to guard against regressions
+                const pinned = winner ?? originalFunction;
+                response.button({
+                    command: PIN_BASELINE_COMMAND,
+                    title: `Pin ${pinned.name} as baseline`,
+                    arguments: [this.createPinnedBaseline(originalFunction, verifiedAlternatives, pinned, result, benchmarkResults)]
+                });
 
                 this.outputChannel.appendLine('Request processed successfully.');
                 return { 
@@ -518,7 +531,10 @@ module.exports = {
                         benchmarkResults: {
                              fastest: benchmarkResults.fastest,
                              resultCount: benchmarkResults.results.length
-                        }
+                        },
+                        models: models.getModelIds(),
+                        usage,
+                        ...(result.lineage ? { lineage: result.lineage.map(step => step.implementation.name) } : {})
                      } 
                 };
 
@@ -530,157 +546,1019 @@ module.exports = {
         };
     }
     
-    private createAlternativesPrompt(functionCode: string): string {
-         return `
-Analyze the following JavaScript/TypeScript function for performance optimization opportunities:
+    /**
+     * Wraps the models of each stage for the pipeline (see `core/pipeline.ts`). Requests are sent
+     * with `sendRequestWithRetry` and the streamed text parts are accumulated.
+     * 
+     * @param models - The metered model of each stage
+     * @returns The pipeline model of each stage
+     */
+    private createPipelineModels(models: StageModels): PipelineStageModels {
+        const ids = models.getModelIds();
+        const toPipelineModel = (stage: ModelStage): PipelineLanguageModel => ({
+            id: ids[stage],
+            complete: async (prompt, token) => {
+                const chatToken = token as vscode.CancellationToken;
+                const request = await this.sendRequestWithRetry(models.get(stage), [vscode.LanguageModelChatMessage.User(prompt)], {}, chatToken);
+                let text = '';
+                for await (const chunk of request.stream) {
+                    if (chatToken.isCancellationRequested) {
+                        throw new Error('Operation cancelled');
+                    }
+                    if (chunk instanceof vscode.LanguageModelTextPart) {
+                        text += chunk.value;
+                    } else {
+                        // Log unexpected chunk types for diagnostics
+                        this.outputChannel.appendLine(`[${STAGE_LABELS[stage]} Stream] Received unexpected chunk type: ${typeof chunk} - ${JSON.stringify(chunk)}`);
+                    }
+                }
+                this.outputChannel.appendLine(`Received ${STAGE_LABELS[stage]} response length: ${text.length}`);
+                return text;
+            }
+        });
+        return {
+            alternatives: toPipelineModel('alternatives'),
+            benchmarkConfig: toPipelineModel('benchmarkConfig'),
+            testInputs: toPipelineModel('testInputs'),
+            explanation: toPipelineModel('explanation')
+        };
+    }
+
+    /**
+     * Renders the progress, notices, correctness checks and benchmark results of a pipeline run
+     * in the chat response.
+     * 
+     * @param response - The chat response stream
+     * @returns The observer of the run
+     */
+    private createChatObserver(response: vscode.ChatResponseStream): AnalysisObserver {
+        const icons: Record<AnalysisNotice['kind'], string> = {
+            success: '✅',
+            info: 'ℹ️',
+            warning: '⚠️ **Warning:**',
+            repaired: '🔧',
+            evolved: '🧬'
+        };
+        return {
+            onProgress: message => response.progress(message),
+            onNotice: notice => response.markdown(`${icons[notice.kind]} ${notice.message}`),
+            onVerification: (report, entryPointName, counterexamples) => {
+                response.markdown(this.formatVerificationReport(report, entryPointName));
+                for (const counterexample of counterexamples) {
+                    response.markdown(this.formatCounterexample(counterexample, entryPointName));
+                }
+            },
+            onBenchmark: results => {
+                response.markdown(`✅ Benchmarks completed.`);
+                if (results.complexity && results.complexity.length > 0) {
+                    response.markdown(`\n📈 **Empirical complexity:** ${formatComplexitySummary(results.complexity)}\n`);
+                }
+            }
+        };
+    }
+
+    /**
+     * Renders a step of the pipeline the analysis could not continue without.
+     * 
+     * @param error - The error of the failed step
+     * @param response - The chat response stream
+     * @returns The chat result, with the error in its metadata
+     */
+    private renderAnalysisError(error: AnalysisError, response: vscode.ChatResponseStream): vscode.ChatResult {
+        const cause = error.cause instanceof Error ? error.cause.message : String(error.cause ?? error.message);
+        switch (error.failure) {
+            case 'cancelled':
+                response.markdown("Operation cancelled by user.");
+                return {};
+            case 'transpile':
+                response.markdown(`🔴 **Error:** The function could not be transpiled to JavaScript. \n\`\`\`\n${cause}\n\`\`\``);
+                return { metadata: { error: `Transpile error: ${cause}` } };
+            case 'alternatives':
+                response.markdown(`🔴 **Error:** Failed to generate alternative implementations. \n\`\`\`\n${error.cause}\n\`\`\``);
+                return { metadata: { error: `LLM error getting alternatives: ${error.cause}` } };
+            case 'noAlternatives':
+                response.markdown(`ℹ️ No alternative implementations were successfully parsed from the AI response. Please check the PerfCopilot logs for details.`);
+                return { metadata: { message: 'No alternatives parsed.' } };
+            case 'benchmarkConfig':
+                response.markdown(`🔴 **Error:** Failed to generate benchmark code using AI. \n\`\`\`\n${error.cause}\n\`\`\``);
+                return { metadata: { error: `Benchmark generation error (LLM): ${error.cause}` } };
+            case 'verification':
+                response.markdown('🔴 **Error:** No alternative implementations passed the functional correctness check. Cannot proceed with benchmarking.');
+                return { metadata: { error: 'All alternatives failed correctness check.' } };
+            case 'benchmark':
+                response.markdown(`🔴 **Error:** Failed to run benchmarks. This might be due to errors in the generated code or resource limits. \n\`\`\`\n${error.cause}\n\`\`\``);
+                return { metadata: { error: `Benchmark execution error: ${error.cause}` } };
+            default:
+                response.markdown(`🔴 **Error:** ${error.message}`);
+                return { metadata: { error: error.message } };
+        }
+    }
+
+    /**
+     * Creates the prompt of `/explain`, asking why a function is slow without rewriting it.
+     * 
+     * @param functionCode - The function to explain
+     * @param context - Declarations from the function's module that are in scope
+     * @returns The explanation prompt
+     */
+    private createSlownessPrompt(functionCode: string, context?: string): string {
+        return `
+You are a performance analysis assistant. Explain why the following JavaScript/TypeScript function is slow.
 
 \`\`\`javascript
 ${functionCode}
 \`\`\`
+${context ? `
+The function uses the following declarations from its module:
 
-Generate exactly two distinct alternative implementations aiming for improved performance.
-
-Maintain the original function's signature and core functionality.
-
-**Output Format:**
-Provide your response strictly as a JSON array containing two objects. Each object must have the following properties:
-- \`name\`: A string, either "Alternative 1" or "Alternative 2".
-- \`code\`: A string containing the complete JavaScript code for the alternative implementation.
-- \`explanation\`: A brief (1-2 sentence) string explaining the optimization technique used.
-
-**Example Response:**
-\`\`\`json
-[
-  {
-    "name": "Alternative 1",
-    "code": "const example1 = () => { /* ... optimized code ... */ };",
-    "explanation": "Uses technique X for optimization."
-  },
-  {
-    "name": "Alternative 2",
-    "code": "const example2 = () => { /* ... another optimized code ... */ };",
-    "explanation": "Uses technique Y for optimization."
-  }
-]
+\`\`\`javascript
+${context}
 \`\`\`
-
-**IMPORTANT:** Output *only* the JSON array within a single \`\`\`json code block. Do not include any introductory text, greetings, or other explanations outside the JSON structure.
+` : ''}
+**Instructions:**
+1.  State the time complexity of the function (and its memory complexity if relevant), naming the input sizes it depends on.
+2.  Identify the performance bottlenecks, quoting the lines of code responsible, from the most to the least costly. Consider repeated or nested work, allocations, copies, closures in hot paths and slow built-in operations.
+3.  For each bottleneck, describe in words which technique would remove it.
+4.  Do **not** rewrite the function and do not output code blocks other than short quotes of the original.
+
+Format your response using Markdown.
 `;
     }
 
-     private createExplanationPrompt(
-        originalFunction: FunctionImplementation,
-        alternatives: FunctionImplementation[],
-        benchmarkResults: any
-    ): string {
-         const implementations = [originalFunction, ...alternatives];
-         const functionsString = implementations.map(impl => `
-### ${impl.name}
-${impl.description ? `> ${impl.description}\\n` : ''}
+    /**
+     * Creates the prompt of `/testdata`, asking only for benchmark data.
+     * 
+     * @param functionCode - The function to generate data for
+     * @param context - Declarations from the function's module that are in scope
+     * @returns The test data prompt
+     */
+    private createTestDataPrompt(functionCode: string, context?: string): string {
+        return `
+You are a JavaScript benchmarking assistant. Generate test data for benchmarking the following code.
+
 \`\`\`javascript
-${impl.code}
+${functionCode}
 \`\`\`
-`).join('\\n');
+${context ? `
+The code uses the following declarations from its module:
 
-         const resultsString = JSON.stringify(benchmarkResults, null, 2);
+\`\`\`javascript
+${context}
+\`\`\`
+` : ''}
+**Requirements:**
+1.  **Identify Entry Point:** Determine the main function that should be called for benchmarking (usually the one that calls the others).
+2.  **Define Test Data:** Create the value passed as the single argument of the entry point. It must be **suitable and sufficiently large/complex** to reveal performance differences, and representative of realistic inputs.
+3.  **Format Output as JSON:** Output a single JSON object within a \`\`\`json code block, with the properties \`entryPointName\` (string) and \`testData\` (any JSON value).
 
-         return `
-You are a performance analysis assistant. Analyze the following JavaScript/TypeScript function implementations and their benchmark results.
+**IMPORTANT:** Output *only* the JSON object within the code block.
+`;
+    }
 
-**Implementations Provided:**
-${functionsString}
+    /**
+     * Renames the entry point of each implementation to its sanitized name (see `core/benchmarkModule.ts`).
+     * 
+     * @param implementations - The implementations to benchmark (the original first)
+     * @param entryPointName - Name of the function the benchmark calls
+     * @returns The processed code of each implementation, keyed by sanitized name
+     */
+    private processImplementations(implementations: FunctionImplementation[], entryPointName: string): Record<string, string> {
+        return processImplementations(implementations, entryPointName, this.benchmarkService, this.outputChannel);
+    }
 
-**Benchmark Results (Benny.js format):**
-\`\`\`json
-${resultsString}
-\`\`\`
+    /**
+     * Runs a single stage of the pipeline for a slash command. The stage asks its model through
+     * the pipeline models (see `createPipelineModels`), like the full analysis, and the usage of
+     * the stage is reported under the answer.
+     * 
+     * @param command - The slash command (without the slash)
+     * @param prompt - The chat prompt, without the PerfCopilot options
+     * @param models - The models of the stages
+     * @param token - Cancellation token
+     * @param response - The chat response stream
+     * @param complexityOptions - Complexity mode options, used by `/benchmark`
+     * @param fuzzOptions - Fuzzing options, if fuzzing mode is enabled (used by `/verify`)
+     * @returns The chat result
+     */
+    private async handleStageCommand(
+        command: string,
+        prompt: string,
+        models: StageModels,
+        token: vscode.CancellationToken,
+        response: vscode.ChatResponseStream,
+        complexityOptions: { enabled: boolean; sizes: number[] },
+        fuzzOptions: FuzzOptions | undefined
+    ): Promise<vscode.ChatResult> {
+        this.outputChannel.appendLine(`Running stage command /${command}`);
+        const pipelineModels = this.createPipelineModels(models);
+        let result: vscode.ChatResult;
+        switch (command) {
+            case BENCHMARK_COMMAND:
+                result = await this.runBenchmarkCommand(prompt, pipelineModels.benchmarkConfig, token, response, complexityOptions);
+                break;
+            case VERIFY_COMMAND:
+                result = await this.runVerifyCommand(prompt, pipelineModels.testInputs, token, response, fuzzOptions);
+                break;
+            case EXPLAIN_COMMAND:
+                result = await this.runExplainCommand(prompt, pipelineModels.explanation, token, response);
+                break;
+            case TESTDATA_COMMAND:
+                result = await this.runTestDataCommand(prompt, pipelineModels.benchmarkConfig, token, response);
+                break;
+            case COMPARE_COMMAND:
+                result = await this.runCompareCommand(prompt, token, response);
+                break;
+            default:
+                response.markdown(`🔴 **Error:** Unknown command \`/${command}\`.`);
+                return { metadata: { error: `Unknown command: ${command}` } };
+        }
 
-**Your Task:**
+        const usage = models.getUsage();
+        if (usage.length === 0) {
+            return result;
+        }
+        response.markdown(this.formatStageUsage(usage));
+        return { ...result, metadata: { ...result.metadata, usage } };
+    }
 
-1.  **Identify the Fastest:** Determine which implementation ('Original', 'Alternative 1', etc.) was fastest based on the 'ops' (operations per second) field.
-2.  **Explain Performance:** Provide a clear, concise explanation for *why* the fastest implementation performs better than the others (especially the original). Refer *specifically* to code differences (e.g., "uses \`Array.map\` instead of a \`for\` loop", "employs memoization", "reduces object allocations"). If the original is fastest, explain why the alternatives might not have improved performance in this context.
-3.  **Format as Markdown:** Present your analysis clearly. Use headings, lists, and code formatting. Include:
-    *   A main heading (e.g., "# Performance Analysis").
-    *   A **Summary** section stating the fastest implementation and percentage improvement over the original (calculate this: \`((fastestOps - originalOps) / originalOps) * 100\`). Handle the case where the original is fastest.
-    *   A **Benchmark Results** section with a simple markdown table summarizing Name and Ops/sec. Indicate the fastest with a ⭐.
-    *   A section titled **Implementations Compared** that includes the *full code* for the 'Original', 'Alternative 1', and 'Alternative 2' functions, each within its own labeled Javascript code block (\`\`\`javascript ... \`\`\`).
-    *   A detailed **Explanation** section covering point #2 above (why the fastest was fastest).
-    *   A final section **Fastest Implementation** showing the *full code* of the winning implementation again in a Javascript code block.
+    /**
+     * `/benchmark`: benchmarks the implementations given in the prompt, without generating alternatives.
+     * The first code block is the original. Benchmark data is read from a \`\`\`json block, or else generated.
+     */
+    private async runBenchmarkCommand(
+        prompt: string,
+        languageModel: PipelineLanguageModel,
+        token: vscode.CancellationToken,
+        response: vscode.ChatResponseStream,
+        complexityOptions: { enabled: boolean; sizes: number[] }
+    ): Promise<vscode.ChatResult> {
+        const parsed = this.parseUserImplementations(prompt, 1, response);
+        if (!parsed) {
+            return { metadata: { error: 'No implementations to benchmark.' } };
+        }
+        const { implementations, entryPointName } = parsed;
 
-Provide *only* the markdown analysis. Do not include introductory or concluding remarks outside the markdown structure.
-`;
-    }
+        let testData: any;
+        // Only kept with the run when the model generated the data
+        let model: string | undefined;
+        const dataBlock = this.extractCodeBlocks(prompt).find(block => block.language === 'json');
+        if (dataBlock) {
+            try {
+                testData = JSON.parse(dataBlock.code);
+            } catch (error: any) {
+                response.markdown(`🔴 **Error:** The \`json\` block is not valid JSON: ${error.message}`);
+                return { metadata: { error: `Invalid test data: ${error.message}` } };
+            }
+        } else {
+            response.progress('Generating benchmark data via AI...');
+            try {
+                testData = (await this.requestTestData(implementations[0], languageModel, token)).testData;
+                model = languageModel.id;
+            } catch (error: any) {
+                if (token.isCancellationRequested) { return {}; }
+                response.markdown(`🔴 **Error:** Failed to generate benchmark data. Add it to the request in a \`\`\`json code block instead.\n\`\`\`\n${error.message}\n\`\`\``);
+                return { metadata: { error: `Test data generation error: ${error.message}` } };
+            }
+            response.markdown('ℹ️ No benchmark data was given (in a `json` code block), so it was generated by AI.');
+        }
 
-    private createBenchmarkPrompt(
-        originalFunction: FunctionImplementation,
-        alternatives: FunctionImplementation[]
-    ): string {
-        // Prompt asking LLM to identify entry point, generate data, and return JSON
-        return `\\\nYou are a JavaScript code generation assistant.\\\nYour task is to generate a simple Node.js module that exports function implementations, suitable test data, and identifies the main entry point for benchmarking.\\\n\\\n**Function Implementations Provided:**\\\n\\\n*These code blocks contain the complete source for the Original function and its Alternatives. Each block might contain multiple helper functions.*\\\n\\\n\\\`\\\`\\\`javascript\\\n// --- Original ---\\\n${originalFunction.code}\\\n\\\`\\\`\\\`\\\n\\\n${alternatives.map(alt => `\\\`\\\`\\\`javascript\\\n// --- ${alt.name} ---\\\n${alt.code}\\\n\\\`\\\`\\\`\\\n`).join('\\\\n')}\\\n\\\n**Requirements:**\\\n\\\n1.  **Identify Entry Point:** Determine the main function that should be called for benchmarking. This is typically the primary function being optimized or the one that orchestrates calls to helpers within the snippet. For example, if \\\`naiveFactorial\\\` and \\\`processNumbers\\\` are provided, the entry point is likely \\\`processNumbers\\\`.\\\n2.  **Define Test Data:** Create test data assigned to a variable named \\\`testData\\\`. This data must be **suitable and sufficiently large/complex** for calling the identified **Entry Point Function** to reveal potential performance differences. \\\n    *   Example: If the entry point is \\\`processNumbers(numbers)\\\`, \\\`testData\\\` should be an array like \\\`[5, 10, 15, 8, 12]\\\`.\\\n    *   Example: If the entry point is \\\`slowSum(n)\\\`, \\\`testData\\\` should be a number like \\\`100\\\` or \\\`500\\\`.\\\n3.  **Format Output as JSON:** Structure your entire response as a single JSON object within a \\\`\\\`\\\`json code block. The JSON object must have the following properties:\\\n    *   \\\`entryPointName\\\` (string): The name of the identified entry point function (e.g., \\\"processNumbers\\\", \\\"slowSum\\\").\\\n    *   \\\`testData\\\` (any): The generated test data suitable for the entry point function.\\\n    *   \\\`implementations\\\` (object): An object where keys are 'Original', 'Alternative 1', 'Alternative 2' and values are strings containing the complete, unmodified source code for each corresponding implementation (including any helper functions as provided above).\\\n\\\n**Example JSON Output:**\\\n\\\n\\\`\\\`\\\`json\\\n{\\\n  \\\"entryPointName\\\": \\\"processNumbers\\\",\\\n  \\\"testData\\\": [5, 10, 15, 8, 12],\\\n  \\\"implementations\\\": {\\\n    \\\"Original\\\": \\\"function naiveFactorial(n) { /*...*/ }\\\\\\\\nfunction processNumbers(numbers) { /*...*/ }\\\",\\\n    \\\"Alternative 1\\\": \\\"function optimizedFactorial(n) { /*...*/ }\\\\\\\\nfunction processNumbersAlt1(numbers) { /*...*/ }\\\",\\\n    \\\"Alternative 2\\\": \\\"/* ... */\\\"\\\n  }\\\n}\\\n\\\`\\\`\\\`\\\n\\\n**IMPORTANT:** Output *only* the JSON object within the code block. Do not include any other text, explanations, or require statements.\\\nGenerate the JSON output now.\\\n`;
+        if (token.isCancellationRequested) {
+            response.markdown("Operation cancelled by user.");
+            return {};
+        }
+
+        const factory = complexityOptions.enabled ? createLocalDataFactory(testData) : undefined;
+        if (complexityOptions.enabled && !factory) {
+            response.markdown('⚠️ **Warning:** Could not scale the test data for complexity mode. Running the regular benchmark only.');
+        }
+
+        response.progress('Running benchmarks...');
+        let results: BenchmarkComparison;
+        try {
+            results = await this.benchmarkService.runBenchmark(createBenchmarkModule(
+                entryPointName,
+                testData,
+                this.processImplementations(implementations, entryPointName),
+                factory ? { factory, sizes: complexityOptions.sizes } : undefined,
+                vscode.workspace.getConfiguration('perfcopilot').get<boolean>('memory.enabled', true) !== false
+            ));
+            if (!results || !results.results || results.results.length === 0) {
+                throw new Error('Benchmark process did not produce valid results.');
+            }
+        } catch (error) {
+            this.outputChannel.appendLine(`Error running benchmark: ${error}`);
+            response.markdown(`🔴 **Error:** Failed to run benchmarks. \n\`\`\`\n${error}\n\`\`\``);
+            return { metadata: { error: `Benchmark execution error: ${error}` } };
+        }
+
+        response.markdown(this.formatBenchmarkTable(results));
+        if (results.complexity && results.complexity.length > 0) {
+            response.markdown(`\n📈 **Empirical complexity:** ${formatComplexitySummary(results.complexity)}\n`);
+        }
+        this.recordRun(entryPointName, testData, implementations, results, model ? { model } : {});
+        return { metadata: { functionName: entryPointName, benchmarkResults: { fastest: results.fastest, resultCount: results.results.length } } };
     }
 
-    private parseAlternativeImplementations(originalCode: string, responseText: string): FunctionImplementation[] {
-        let alternatives: FunctionImplementation[] = [];
-        this.outputChannel.appendLine(`Attempting to parse alternatives as JSON...`);
+    /**
+     * `/verify`: checks that the versions given in the prompt are equivalent to the first one (the original).
+     */
+    private async runVerifyCommand(
+        prompt: string,
+        languageModel: PipelineLanguageModel,
+        token: vscode.CancellationToken,
+        response: vscode.ChatResponseStream,
+        fuzzOptions: FuzzOptions | undefined
+    ): Promise<vscode.ChatResult> {
+        const parsed = this.parseUserImplementations(prompt, 2, response);
+        if (!parsed) {
+            return { metadata: { error: 'Not enough implementations to verify.' } };
+        }
+        const [originalFunction, ...versions] = parsed.implementations;
 
+        response.progress('Verifying functional correctness...');
+        const counterexamples: FuzzCounterexample[] = [];
+        let report: VerificationReport;
         try {
-            // Regex to find JSON code block
-            // CRITICAL: Regex for JSON block is correct for an array no not modify.
-            const jsonBlockRegex = /```(?:json)?\s*([\[][\s\S]*[\]])\s*```/;
-            const match = responseText.match(jsonBlockRegex);
+            report = await verifyAlternatives(
+                originalFunction,
+                versions,
+                languageModel,
+                createInputGenerationPrompt,
+                this.outputChannel,
+                token,
+                parsed.entryPointName,
+                this.getComparisonOptions(),
+                fuzzOptions,
+                counterexample => counterexamples.push(counterexample)
+            );
+        } catch (error: any) {
+            if (token.isCancellationRequested) { return {}; }
+            this.outputChannel.appendLine(`Error during functional verification: ${error.message}`);
+            response.markdown(`🔴 **Error:** Could not verify functional correctness: ${error.message}`);
+            return { metadata: { error: `Verification error: ${error.message}` } };
+        }
+        if (token.isCancellationRequested) {
+            response.markdown("Operation cancelled by user.");
+            return {};
+        }
 
-            // CRITICAL: Parses alternative implementations from LLM response (JSON focus)
-            let jsonString: string | undefined;
+        response.markdown(this.formatVerificationReport(report, parsed.entryPointName));
+        for (const counterexample of counterexamples) {
+            response.markdown(this.formatCounterexample(counterexample, parsed.entryPointName));
+        }
+        return {
+            metadata: {
+                functionName: parsed.entryPointName,
+                verdicts: report.verdicts.map(verdict => ({ name: verdict.alternative.name, status: verdict.status }))
+            }
+        };
+    }
 
-            if (match && match[1]) {
-                jsonString = match[1].trim();
-                this.outputChannel.appendLine(`Found JSON block.`);
-            } else {
-                // Fallback: Assume the entire response might be the JSON array if no block found
-                this.outputChannel.appendLine(`No JSON block found, attempting to parse entire response as JSON array.`);
-                const trimmedResponse = responseText.trim();
-                if (trimmedResponse.startsWith('[') && trimmedResponse.endsWith(']')) {
-                    jsonString = trimmedResponse;
-                }
+    /**
+     * `/explain`: explains why the function in the prompt is slow, without rewriting it.
+     */
+    private async runExplainCommand(
+        prompt: string,
+        languageModel: PipelineLanguageModel,
+        token: vscode.CancellationToken,
+        response: vscode.ChatResponseStream
+    ): Promise<vscode.ChatResult> {
+        const functionCode = this.extractFunctionCodeFromPrompt(prompt);
+        if (!functionCode || !isValidJavaScriptFunction(functionCode)) {
+            response.markdown('🔴 **Error:** No JavaScript/TypeScript function found in your request.');
+            return { metadata: { error: 'No function code extracted from prompt.' } };
+        }
+
+        response.progress('Analyzing the function with AI...');
+        const slownessPrompt = this.createSlownessPrompt(functionCode, this.selectionContexts.get(functionCode.trim())?.code || undefined);
+        try {
+            const explanation = await languageModel.complete(slownessPrompt, token);
+            if (token.isCancellationRequested) {
+                response.markdown("Operation cancelled by user.");
+                return {};
             }
+            response.markdown(explanation);
+        } catch (error) {
+            this.outputChannel.appendLine(`Error getting explanation: ${error}`);
+            response.markdown(`🔴 **Error:** Failed to get AI analysis of the function. \n\`\`\`\n${error}\n\`\`\``);
+            return { metadata: { error: `LLM error getting explanation: ${error}` } };
+        }
+        return { metadata: { functionName: extractFunctionName(functionCode) } };
+    }
+
+    /**
+     * `/testdata`: generates benchmark data for the function in the prompt.
+     */
+    private async runTestDataCommand(
+        prompt: string,
+        languageModel: PipelineLanguageModel,
+        token: vscode.CancellationToken,
+        response: vscode.ChatResponseStream
+    ): Promise<vscode.ChatResult> {
+        const functionCode = this.extractFunctionCodeFromPrompt(prompt);
+        if (!functionCode || !isValidJavaScriptFunction(functionCode)) {
+            response.markdown('🔴 **Error:** No JavaScript/TypeScript function found in your request.');
+            return { metadata: { error: 'No function code extracted from prompt.' } };
+        }
+
+        response.progress('Generating benchmark data via AI...');
+        try {
+            const { entryPointName, testData } = await this.requestTestData(
+                { name: 'Original', code: functionCode, description: '', context: this.selectionContexts.get(functionCode.trim())?.code || undefined },
+                languageModel,
+                token
+            );
+            response.markdown(`**Benchmark data** for \`${entryPointName}\` (passed as its single argument):\n\n` +
+                `\`\`\`json\n${JSON.stringify(testData, null, 2)}\n\`\`\`\n\n` +
+                '_Add this block to a `/benchmark` request to benchmark with the same data._\n');
+            return { metadata: { functionName: entryPointName } };
+        } catch (error: any) {
+            if (token.isCancellationRequested) { return {}; }
+            this.outputChannel.appendLine(`Error generating test data: ${error.message}`);
+            response.markdown(`🔴 **Error:** Failed to generate benchmark data. \n\`\`\`\n${error.message}\n\`\`\``);
+            return { metadata: { error: `Test data generation error: ${error.message}` } };
+        }
+    }
+
+    /**
+     * `/compare`: benchmarks the function in the prompt against the implementations of the latest
+     * run of the same function in the history, in one run with the previous benchmark data.
+     */
+    private async runCompareCommand(
+        prompt: string,
+        token: vscode.CancellationToken,
+        response: vscode.ChatResponseStream
+    ): Promise<vscode.ChatResult> {
+        const parsed = this.parseUserImplementations(prompt, 1, response);
+        if (!parsed) {
+            return { metadata: { error: 'No implementation to compare.' } };
+        }
+        const previous = await this.findLatestRun(parsed.entryPointName);
+        if (!previous) {
+            response.markdown(`ℹ️ There is no previous run of \`${parsed.entryPointName}\` in the history. Analyze it with \`@PerfCopilot\` or \`/benchmark\` first.`);
+            return { metadata: { error: `No previous run of ${parsed.entryPointName}.` } };
+        }
+        const current: FunctionImplementation = { ...parsed.implementations[0], name: 'Current' };
+        response.markdown(`Comparing \`${parsed.entryPointName}\` with the run from ${new Date(previous.timestamp).toLocaleString()} (${previous.implementations.map(impl => impl.name).join(', ')}).`);
 
-            if (!jsonString) {
-                this.outputChannel.appendLine(`Could not extract a JSON array string from the response.`);
-                return [];
+        response.progress('Running benchmarks...');
+        let results: BenchmarkComparison;
+        try {
+            // Runs read from the history have no transpiled code, so the implementations are prepared again
+            const previousImplementations = previous.implementations.map(implementation => prepareImplementation(implementation));
+            results = await this.benchmarkService.runBenchmark(createBenchmarkModule(
+                previous.entryPointName,
+                previous.testData,
+                this.processImplementations([...previousImplementations, current], previous.entryPointName)
+            ));
+            if (!results || !results.results || results.results.length === 0) {
+                throw new Error('Benchmark process did not produce valid results.');
             }
-            
+        } catch (error) {
+            if (token.isCancellationRequested) { return {}; }
+            this.outputChannel.appendLine(`Error running benchmark: ${error}`);
+            response.markdown(`🔴 **Error:** Failed to run benchmarks. \n\`\`\`\n${error}\n\`\`\``);
+            return { metadata: { error: `Benchmark execution error: ${error}` } };
+        }
 
-            const parsed = JSON.parse(jsonString);
+        response.markdown(this.formatBenchmarkTable(results, previous.results));
+        const currentOps = results.results.find(result => result.name === current.name)?.ops ?? 0;
+        const previousFastest = results.results.find(result => result.name === previous.results.fastest);
+        if (previousFastest && previousFastest.name !== current.name && previousFastest.ops > 0) {
+            response.markdown(`\n\`Current\` is ${formatImprovement(currentOps / previousFastest.ops - 1)} compared to ${previousFastest.name}, the fastest implementation of the previous run.`);
+        }
+        return { metadata: { functionName: parsed.entryPointName, benchmarkResults: { fastest: results.fastest, resultCount: results.results.length } } };
+    }
+
+    /**
+     * Finds the latest run of a function: the newest of the history and the runs of this session
+     * (a run is saved to the history in the background, so it may not be there yet).
+     * 
+     * @param entryPointName - Name of the function
+     * @returns The latest run, or undefined if the function was never benchmarked
+     */
+    private async findLatestRun(entryPointName: string): Promise<BenchmarkRun | undefined> {
+        let storedRun: BenchmarkRun | undefined;
+        try {
+            storedRun = (await this.historyService?.getRuns())?.find(run => run.entryPointName === entryPointName);
+        } catch (error) {
+            this.outputChannel.appendLine(`Could not read the history for /compare: ${error}`);
+        }
+        const sessionRun = this.previousRuns.get(entryPointName);
+        if (!storedRun || !sessionRun) {
+            return storedRun ?? sessionRun;
+        }
+        return sessionRun.timestamp >= storedRun.timestamp ? sessionRun : storedRun;
+    }
 
-            if (!Array.isArray(parsed)) {
-                this.outputChannel.appendLine(`Parsed JSON is not an array.`);
-                return [];
+    /**
+     * Reads the implementations written by the user: every JavaScript/TypeScript code block, or the
+     * function in the prompt when there are none. The first one is the baseline, named `Original`.
+     * The others are named after their block's title (\`\`\`js title="lodash-version"), or else
+     * `Version 2`, `Version 3`, ... Their entry point (the last top-level function of the original)
+     * is renamed to the same name in every version, and each version is transpiled.
+     * 
+     * @param prompt - The chat prompt
+     * @param minCount - How many implementations the command needs
+     * @param response - The chat response stream, for reporting problems
+     * @returns The prepared implementations and the entry point name, or undefined after reporting a problem
+     */
+    private parseUserImplementations(
+        prompt: string,
+        minCount: number,
+        response: vscode.ChatResponseStream
+    ): { implementations: FunctionImplementation[]; entryPointName: string } | undefined {
+        const blocks = this.extractCodeBlocks(prompt).filter(block => CODE_BLOCK_LANGUAGES.includes(block.language));
+        const fallback = blocks.length === 0 ? this.extractFunctionCodeFromPrompt(prompt) : undefined;
+        const sources: { code: string; title?: string }[] = blocks.length > 0 ? blocks : (fallback ? [{ code: fallback }] : []);
+        if (sources.length < minCount) {
+            response.markdown(minCount === 1
+                ? '🔴 **Error:** No JavaScript/TypeScript function found in your request.'
+                : `🔴 **Error:** This command needs at least ${minCount} versions of the function, each in its own code block (\`\`\`js ... \`\`\`). The first one is the original.`);
+            return undefined;
+        }
+
+        const entryPointName = this.findEntryPoint(sources[0].code);
+        if (!entryPointName) {
+            response.markdown('🔴 **Error:** The first code block does not define a named function.');
+            return undefined;
+        }
+        const context = this.selectionContexts.get(sources[0].code.trim())?.code || undefined;
+
+        const implementations: FunctionImplementation[] = [];
+        for (const [index, source] of sources.entries()) {
+            // Benchmark results are keyed by the sanitized name, which must be a unique identifier
+            const sanitizedTitle = source.title ? sanitizeImplementationName(source.title) : '';
+            const titleIsUsable = /^[A-Za-z_]/.test(sanitizedTitle) && sanitizedTitle !== 'Original' &&
+                !implementations.some(implementation => sanitizeImplementationName(implementation.name) === sanitizedTitle);
+            const name = index === 0 ? 'Original' : (titleIsUsable ? (source.title as string) : `Version ${index + 1}`);
+            const functionName = this.findEntryPoint(source.code);
+            const code = functionName && functionName !== entryPointName ? renameFunction(source.code, functionName, entryPointName) : source.code;
+            if (!code || !isValidJavaScriptFunction(code)) {
+                response.markdown(`🔴 **Error:** ${name} does not define a valid function to call as \`${entryPointName}\`.`);
+                return undefined;
+            }
+            const description = index === 0
+                ? (source.title ? `Original implementation (${source.title})` : 'Original implementation')
+                : 'User-provided version';
+            try {
+                implementations.push(prepareImplementation({ name, code, description, context, userProvided: true }));
+            } catch (error: any) {
+                response.markdown(`🔴 **Error:** ${name} could not be transpiled to JavaScript. \n\`\`\`\n${error.message}\n\`\`\``);
+                return undefined;
             }
+        }
+        this.outputChannel.appendLine(`Parsed ${implementations.length} user implementations of ${entryPointName}.`);
+        return { implementations, entryPointName };
+    }
 
-            // Validate and map the parsed objects
-            for (const item of parsed) {
-                if (item && typeof item.name === 'string' && typeof item.code === 'string' && typeof item.explanation === 'string') {
-                    alternatives.push({
-                        name: item.name,
-                        code: item.code,
-                        description: item.explanation // Use 'explanation' field from JSON
-                    });
-                } else {
-                    this.outputChannel.appendLine(`Skipping invalid item in JSON array: ${JSON.stringify(item)}`);
-                }
-                if (alternatives.length >= 2) { break; } // Stop after two valid items
+    /**
+     * Finds the entry point of a snippet: its last named top-level function (helpers usually come first).
+     */
+    private findEntryPoint(code: string): string | undefined {
+        const functions = parseFunctions(code).functions.filter(fn => fn.kind !== 'method' && fn.name !== undefined);
+        return functions[functions.length - 1]?.name;
+    }
+
+    /**
+     * Lists the fenced code blocks of a prompt with their (lower-case) language and optional
+     * title from the info string (e.g. \`\`\`js title="lodash-version").
+     */
+    private extractCodeBlocks(prompt: string): { language: string; title?: string; code: string }[] {
+        const blocks: { language: string; title?: string; code: string }[] = [];
+        const blockRegex = /```([\w-]*)([^\n]*)\n([\s\S]*?)```/g;
+        let match: RegExpExecArray | null;
+        while ((match = blockRegex.exec(prompt)) !== null) {
+            const titleMatch = /\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/.exec(match[2]);
+            const title = titleMatch ? (titleMatch[1] ?? titleMatch[2] ?? titleMatch[3]).trim() : '';
+            blocks.push({ language: match[1].toLowerCase(), ...(title ? { title } : {}), code: match[3].trim() });
+        }
+        return blocks;
+    }
+
+    /**
+     * Asks the language model for benchmark data for an implementation.
+     * 
+     * @param implementation - The implementation (with its workspace context, if any)
+     * @param languageModel - The language model
+     * @param token - Cancellation token
+     * @returns The entry point identified by the model and the benchmark data
+     * @throws If the request fails or the response contains no valid JSON object
+     */
+    private async requestTestData(
+        implementation: FunctionImplementation,
+        languageModel: PipelineLanguageModel,
+        token: vscode.CancellationToken
+    ): Promise<{ entryPointName: string; testData: any }> {
+        const responseText = await languageModel.complete(this.createTestDataPrompt(implementation.code, implementation.context), token);
+        const match = /```(?:json)?\s*({[\s\S]*?})\s*```/.exec(responseText);
+        if (!match) {
+            throw new Error('The response did not contain a JSON object.');
+        }
+        const parsed = JSON.parse(match[1]);
+        if (!parsed || typeof parsed.entryPointName !== 'string' || parsed.testData === undefined) {
+            throw new Error('Invalid JSON structure received for test data.');
+        }
+        this.outputChannel.appendLine(`Generated test data for ${parsed.entryPointName}: ${JSON.stringify(parsed.testData)}`);
+        return { entryPointName: parsed.entryPointName, testData: parsed.testData };
+    }
+
+    /**
+     * Creates the argument of the apply command for a winning implementation. Alternatives may
+     * name the entry point differently; the original name is restored so callers keep working.
+     * 
+     * @param originalFunction - The original function
+     * @param winner - The fastest implementation
+     * @param entryPointName - Name of the original function's entry point
+     * @returns The apply request, with the editor location if the function was analyzed from a selection
+     */
+    private createApplyRequest(
+        originalFunction: FunctionImplementation,
+        winner: FunctionImplementation,
+        entryPointName: string
+    ): ApplyImplementationRequest {
+        const location = this.selectionLocations.get(originalFunction.code.trim());
+        this.outputChannel.appendLine(`Offering to apply ${winner.name}.`);
+
+        return {
+            implementationName: winner.name,
+            functionName: entryPointName,
+            code: this.restoreEntryPointName(winner.code, entryPointName),
+            originalCode: originalFunction.code,
+            languageId: location?.languageId ?? 'javascript',
+            ...(location ? { location } : {})
+        };
+    }
+
+    /**
+     * Creates the argument of the pin command: the pinned implementation, the benchmark module of
+     * the run and its results.
+     * 
+     * @param originalFunction - The original function
+     * @param verifiedAlternatives - The benchmarked alternatives
+     * @param pinned - The implementation to pin (the winner, or the original if it was the fastest)
+     * @param benchmarkSetup - Entry point and benchmark data of the run
+     * @param benchmarkResults - The benchmark results
+     * @returns The baseline to pin
+     */
+    private createPinnedBaseline(
+        originalFunction: FunctionImplementation,
+        verifiedAlternatives: FunctionImplementation[],
+        pinned: FunctionImplementation,
+        benchmarkSetup: { entryPointName: string; testData: any },
+        benchmarkResults: BenchmarkComparison
+    ): PinnedBaseline {
+        const { entryPointName, testData } = benchmarkSetup;
+        const location = this.selectionLocations.get(originalFunction.code.trim());
+        return {
+            entryPointName,
+            testData,
+            implementation: {
+                name: pinned.name,
+                code: this.restoreEntryPointName(pinned.code, entryPointName),
+                description: pinned.description,
+                ...(pinned.context ? { context: pinned.context } : {})
+            },
+            results: benchmarkResults,
+            resultName: sanitizeImplementationName(pinned.name),
+            benchmarkModule: createBenchmarkModule(
+                entryPointName,
+                testData,
+                this.processImplementations([originalFunction, ...verifiedAlternatives], entryPointName)
+            ),
+            ...(location ? { location } : {}),
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Renames the entry point of an implementation back to the original function's name, unless it
+     * already defines a function with that name. Alternatives may name the entry point differently.
+     * 
+     * @param code - The implementation code
+     * @param entryPointName - Name of the original function
+     * @returns The code, defining `entryPointName`
+     */
+    private restoreEntryPointName(code: string, entryPointName: string): string {
+        const defined = parseFunctions(code).functions.map(fn => fn.name);
+        const name = this.findEntryPoint(code);
+        if (!name || name === entryPointName || defined.includes(entryPointName)) {
+            return code;
+        }
+        this.outputChannel.appendLine(`Restoring the function name: ${name} -> ${entryPointName}`);
+        return renameFunction(code, name, entryPointName) ?? code;
+    }
+
+    /**
+     * Keeps a finished benchmark run as the previous run of its function, for `/compare`.
+     * 
+     * @param entryPointName - Name of the function the benchmark called
+     * @param testData - The benchmark data
+     * @param implementations - The benchmarked implementations (the original first)
+     * @param results - The benchmark results
+     * @param details - Correctness verdicts and the language model used, kept in the history
+     */
+    private recordRun(
+        entryPointName: string,
+        testData: any,
+        implementations: FunctionImplementation[],
+        results: BenchmarkComparison,
+        details: { verdicts?: RecordedVerdict[]; model?: string; stageModels?: Partial<Record<ModelStage, string>> } = {}
+    ): void {
+        const run: BenchmarkRun = { entryPointName, testData, implementations, results, timestamp: Date.now(), ...details };
+        this.previousRuns.set(entryPointName, run);
+        this.outputChannel.appendLine(`Recorded benchmark run of ${entryPointName} (${implementations.length} implementations).`);
+        for (const listener of this.runListeners) {
+            listener(run);
+        }
+    }
+
+    /**
+     * Resolves complexity mode for a request from the prompt flag and the extension settings.
+     * The `--complexity` flag is stripped so it does not interfere with function extraction.
+     * 
+     * @param prompt - The raw chat prompt
+     * @returns Whether complexity mode is enabled, the input sizes and the prompt without the flag
+     */
+    private getComplexityOptions(prompt: string): { enabled: boolean; sizes: number[]; prompt: string } {
+        const flagRegex = new RegExp(`(^|\\s)${COMPLEXITY_FLAG}(?=\\s|$)`, 'g');
+        const flagged = flagRegex.test(prompt);
+        const config = vscode.workspace.getConfiguration('perfcopilot');
+        const configuredSizes = config.get<number[]>('complexity.sizes', DEFAULT_COMPLEXITY_SIZES);
+        const sizes = Array.isArray(configuredSizes) && configuredSizes.length > 0 &&
+            configuredSizes.every(size => Number.isInteger(size) && size > 0)
+            ? [...configuredSizes].sort((a, b) => a - b)
+            : DEFAULT_COMPLEXITY_SIZES;
+
+        return {
+            enabled: flagged || config.get<boolean>('complexity.enabled', false) === true,
+            sizes,
+            prompt: flagged ? prompt.replace(flagRegex, ' ').trim() : prompt
+        };
+    }
+
+    /**
+     * Resolves fuzzing mode for a request from the prompt flag and the extension settings.
+     * The `--fuzz` flag is stripped so it does not interfere with function extraction.
+     * 
+     * @param prompt - The chat prompt
+     * @returns Whether fuzzing mode is enabled, the fuzzing options and the prompt without the flag
+     */
+    private getFuzzOptions(prompt: string): { enabled: boolean; options: FuzzOptions; prompt: string } {
+        const flagRegex = new RegExp(`(^|\\s)${FUZZ_FLAG}(?=\\s|$)`, 'g');
+        const flagged = flagRegex.test(prompt);
+        const config = vscode.workspace.getConfiguration('perfcopilot');
+        const runs = config.get<number>('fuzz.runs', DEFAULT_FUZZ_RUNS);
+        const seed = config.get<number | null>('fuzz.seed', null);
+
+        return {
+            enabled: flagged || config.get<boolean>('fuzz.enabled', false) === true,
+            options: {
+                runs: Number.isInteger(runs) && runs > 0 ? runs : DEFAULT_FUZZ_RUNS,
+                seed: Number.isInteger(seed) ? seed as number : undefined
+            },
+            prompt: flagged ? prompt.replace(flagRegex, ' ').trim() : prompt
+        };
+    }
+
+    /**
+     * Resolves how many alternatives to request and which optimization strategies to ask for,
+     * from the `--count N` and `--strategy a,b` prompt options and the extension settings.
+     * The options are stripped so they do not interfere with function extraction.
+     * 
+     * @param prompt - The chat prompt
+     * @returns The number of alternatives, the known and unknown strategies and the prompt without the options
+     */
+    private getAlternativesOptions(prompt: string): { count: number; strategies: OptimizationStrategy[]; unknownStrategies: string[]; prompt: string } {
+        const countRegex = new RegExp(`(^|\\s)${COUNT_FLAG}(?:=|\\s+)(\\d+)(?=\\s|$)`);
+        const strategyRegex = new RegExp(`(^|\\s)${STRATEGY_FLAG}(?:=|\\s+)([\\w,-]+)(?=\\s|$)`);
+        const config = vscode.workspace.getConfiguration('perfcopilot');
+
+        const countMatch = countRegex.exec(prompt);
+        const requestedCount = countMatch ? Number(countMatch[2]) : config.get<number>('alternatives.count', DEFAULT_ALTERNATIVES_COUNT);
+        // Clamped to the range of the `perfcopilot.alternatives.count` setting
+        const count = Number.isInteger(requestedCount)
+            ? Math.min(Math.max(requestedCount, 1), MAX_ALTERNATIVES_COUNT)
+            : DEFAULT_ALTERNATIVES_COUNT;
+        let remainingPrompt = countMatch ? prompt.replace(countRegex, ' ') : prompt;
+
+        const strategyMatch = strategyRegex.exec(remainingPrompt);
+        const configuredStrategies = config.get<string[]>('alternatives.strategies', []);
+        const requestedStrategies = strategyMatch
+            ? strategyMatch[2].split(',').map(strategy => strategy.trim()).filter(Boolean)
+            : (Array.isArray(configuredStrategies) ? configuredStrategies : []);
+        remainingPrompt = strategyMatch ? remainingPrompt.replace(strategyRegex, ' ') : remainingPrompt;
+
+        const strategies = Array.from(new Set(requestedStrategies.filter(strategy => STRATEGY_HINTS.has(strategy as OptimizationStrategy)))) as OptimizationStrategy[];
+
+        return {
+            count,
+            strategies,
+            unknownStrategies: requestedStrategies.filter(strategy => !STRATEGY_HINTS.has(strategy as OptimizationStrategy)),
+            prompt: countMatch || strategyMatch ? remainingPrompt.trim() : prompt
+        };
+    }
+
+    /**
+     * Formats the verdicts of the correctness check as a table with one row per alternative.
+     * 
+     * @param report - The report of the correctness check
+     * @param entryPointName - Name of the function the test inputs are passed to
+     * @returns Markdown table with each alternative's verdict, inputs tried and first mismatch
+     */
+    private formatVerificationReport(report: VerificationReport, entryPointName: string): string {
+        const rows = report.verdicts.map(verdict => {
+            const details = verdict.mismatch
+                ? `${verdict.reason} on ${verdict.mismatch.inputNumber !== undefined ? `input ${verdict.mismatch.inputNumber}` : 'a fuzzed input'}: ` +
+                  `\`${entryPointName}(${verdict.mismatch.args.map(arg => JSON.stringify(arg)).join(', ')})\` ` +
+                  `expected \`${verdict.mismatch.expected}\`, got \`${verdict.mismatch.actual}\` (${verdict.mismatch.difference})`
+                : verdict.reason ?? '';
+            const cells = [
+                verdict.alternative.name,
+                `${this.verdictIcon(verdict)} ${verdict.status}`,
+                `${verdict.inputsTried}/${report.testInputs.length}`,
+                details
+            ];
+            return `| ${cells.map(cell => this.escapeTableCell(cell)).join(' | ')} |`;
+        });
+        return `**Correctness check** (${report.testInputs.length} test inputs)\n\n` +
+            '| Alternative | Verdict | Inputs | Details |\n' +
+            '|---|---|---|---|\n' +
+            `${rows.join('\n')}\n`;
+    }
+
+    /**
+     * Formats the lineage of evolve mode as a table with one row per winning generation.
+     * 
+     * @param lineage - The winners, starting with the original
+     * @returns Markdown table of each winner, its parent and its speedup
+     */
+    private formatLineage(lineage: EvolutionStep[]): string {
+        const rows = lineage.map(step => {
+            const cells = [
+                String(step.generation),
+                step.implementation.name,
+                step.parent ?? '–',
+                String(Math.round(step.ops)),
+                step.improvement !== undefined ? formatImprovement(step.improvement) : '–'
+            ];
+            return `| ${cells.map(cell => this.escapeTableCell(cell)).join(' | ')} |`;
+        });
+        return `\n**🧬 Evolution lineage** (winner: ${lineage[lineage.length - 1].implementation.name})\n\n` +
+            '| Generation | Implementation | Derived From | ops/sec | Speedup vs Parent |\n' +
+            '|---|---|---|---|---|\n' +
+            `${rows.join('\n')}\n\n` +
+            '_ops/sec are from the benchmark run in which each implementation won; speedups are measured against the parent in that same run._\n';
+    }
+
+    /**
+     * Formats the model, token counts and latency of each stage as a table in a collapsed section.
+     * 
+     * @param usage - Usage of the stages that sent requests
+     * @returns Markdown `<details>` section with one row per stage and a total
+     */
+    private formatStageUsage(usage: StageUsage[]): string {
+        const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+        const rows = usage.map(stage => {
+            const cells = [
+                STAGE_LABELS[stage.stage],
+                stage.model,
+                String(stage.requests),
+                String(stage.inputTokens),
+                String(stage.outputTokens),
+                seconds(stage.latencyMs)
+            ];
+            return `| ${cells.map(cell => this.escapeTableCell(cell)).join(' | ')} |`;
+        });
+        const total = (key: 'requests' | 'inputTokens' | 'outputTokens' | 'latencyMs') => usage.reduce((sum, stage) => sum + stage[key], 0);
+        rows.push(`| **Total** | | ${total('requests')} | ${total('inputTokens')} | ${total('outputTokens')} | ${seconds(total('latencyMs'))} |`);
+        return '\n<details>\n<summary>Model usage per stage</summary>\n\n' +
+            '| Stage | Model | Requests | Input Tokens | Output Tokens | Latency |\n' +
+            '|---|---|---|---|---|---|\n' +
+            `${rows.join('\n')}\n\n` +
+            '_Tokens are counted by each model (estimated for models without a tokenizer). Latency is from sending each request to the end of its answer._\n\n' +
+            '</details>\n';
+    }
+
+    /**
+     * Formats benchmark results as a table, with the significance test against the original and,
+     * when given, the ops/sec of the same implementations in a previous run.
+     * 
+     * @param results - The benchmark results
+     * @param previous - Results of a previous run to show next to them
+     * @returns Markdown table with one row per implementation
+     */
+    private formatBenchmarkTable(results: BenchmarkComparison, previous?: BenchmarkComparison): string {
+        const rows = results.results.map(result => {
+            const comparison = results.comparisons?.find(candidate => candidate.name === result.name);
+            const cells = [
+                result.name === results.fastest ? `**${result.name}** 🏆` : result.name,
+                String(Math.round(result.ops)),
+                `±${(result.margin * 100).toFixed(1)}%`,
+                comparison ? `${comparison.speedup.toFixed(2)}x, ${comparison.verdict} (p=${comparison.pValue.toPrecision(2)})` : '–'
+            ];
+            if (previous) {
+                const before = previous.results.find(candidate => candidate.name === result.name);
+                cells.push(before ? String(Math.round(before.ops)) : '–');
+                cells.push(before && before.ops > 0 ? formatImprovement(result.ops / before.ops - 1) : '–');
             }
+            return `| ${cells.map(cell => this.escapeTableCell(cell)).join(' | ')} |`;
+        });
+        const header = previous
+            ? '| Implementation | ops/sec | Margin | vs Original | Previous ops/sec | Change |\n|---|---|---|---|---|---|\n'
+            : '| Implementation | ops/sec | Margin | vs Original |\n|---|---|---|---|\n';
+        return `\n**Benchmark results** (fastest: ${results.fastest})\n\n${header}${rows.join('\n')}\n`;
+    }
 
-        } catch (error) {
-            this.outputChannel.appendLine(`Error parsing alternatives JSON: ${error}`);
-            // Optionally log the problematic string:
-            // this.outputChannel.appendLine(`--- Problematic JSON String ---\n${jsonString || responseText}\n------------------------------`);
-            return []; // Return empty array on parsing error
+    /**
+     * Icon shown next to a verification verdict.
+     */
+    private verdictIcon(verdict: VerificationVerdict): string {
+        switch (verdict.status) {
+            case 'VERIFIED':
+                return '✅';
+            case 'REJECTED':
+                return '❌';
+            default:
+                return '⚠️';
         }
+    }
+
+    /**
+     * Makes text safe for a markdown table cell: escapes pipes, flattens newlines and truncates long values.
+     * 
+     * @param text - The cell text
+     * @returns The escaped text
+     */
+    private escapeTableCell(text: string): string {
+        const flattened = text.replace(/\s*\n\s*/g, ' ');
+        const truncated = flattened.length > MAX_TABLE_CELL_LENGTH ? `${flattened.slice(0, MAX_TABLE_CELL_LENGTH - 1)}…` : flattened;
+        return truncated.replace(/\|/g, '\\|');
+    }
+
+    /**
+     * Reads the maximum number of repair rounds per failing alternative from the extension settings.
+     * 
+     * @returns The `perfcopilot.repair.maxRounds` setting; 0 disables the repair loop
+     */
+    private getMaxRepairRounds(): number {
+        const rounds = vscode.workspace.getConfiguration('perfcopilot').get<number>('repair.maxRounds', DEFAULT_REPAIR_ROUNDS);
+        return Number.isInteger(rounds) && rounds >= 0 ? rounds : DEFAULT_REPAIR_ROUNDS;
+    }
 
-        this.outputChannel.appendLine(`Parsed ${alternatives.length} alternatives from JSON.`);
-        this.outputChannel.appendLine(`\n--- Parsed Alternatives (${alternatives.length}) ---\n${JSON.stringify(alternatives, null, 2)}\n----------------------------------\n`);
-        return alternatives.slice(0, 2); // Ensure max 2
+    /**
+     * Whether alternatives whose correctness could not be verified are benchmarked anyway.
+     * 
+     * @returns The `perfcopilot.verification.benchmarkIndeterminate` setting
+     */
+    private shouldBenchmarkIndeterminate(): boolean {
+        return vscode.workspace.getConfiguration('perfcopilot').get<boolean>('verification.benchmarkIndeterminate', false) === true;
+    }
+
+    /**
+     * Reads the evolve mode limits from the extension settings.
+     * 
+     * @returns The maximum number of generations (including the first) and the minimum speedup in percent to keep evolving
+     */
+    private getEvolutionOptions(): { generations: number; minImprovement: number } {
+        const config = vscode.workspace.getConfiguration('perfcopilot');
+        const generations = config.get<number>('evolve.generations', DEFAULT_EVOLVE_GENERATIONS);
+        const minImprovement = config.get<number>('evolve.minImprovement', DEFAULT_EVOLVE_MIN_IMPROVEMENT);
+        return {
+            generations: Number.isInteger(generations) && generations > 0 ? generations : DEFAULT_EVOLVE_GENERATIONS,
+            minImprovement: typeof minImprovement === 'number' && minImprovement >= 0 ? minImprovement : DEFAULT_EVOLVE_MIN_IMPROVEMENT
+        };
+    }
+
+    /**
+     * Formats a fuzzing counterexample for the chat response, with the seed to replay it.
+     * 
+     * @param counterexample - The counterexample reported by the correctness check
+     * @param entryPointName - Name of the function the arguments are passed to
+     * @returns Markdown describing the failing call
+     */
+    private formatCounterexample(counterexample: FuzzCounterexample, entryPointName: string): string {
+        const call = `${entryPointName}(${counterexample.args.map(arg => JSON.stringify(arg)).join(', ')})`;
+        return `🐞 **${counterexample.alternative}** rejected by fuzzing (${counterexample.reason}) on run ${counterexample.run} of ${counterexample.runs}, seed \`${counterexample.seed}\`, shrunk in ${counterexample.shrinkSteps} steps:\n` +
+            `\`\`\`js\n${call}\n\`\`\`\n` +
+            `${counterexample.divergence}\n\n` +
+            `_Set \`perfcopilot.fuzz.seed\` to \`${counterexample.seed}\` to replay this run._\n`;
+    }
+
+    /**
+     * Reads the output comparison options used by the correctness check from the extension settings.
+     * 
+     * @returns The comparison options (float epsilon, unordered arrays, key order, error message pattern)
+     */
+    private getComparisonOptions(): ComparisonOptions {
+        const config = vscode.workspace.getConfiguration('perfcopilot');
+        const epsilon = config.get<number>('verification.epsilon', DEFAULT_COMPARISON_OPTIONS.epsilon);
+        return {
+            epsilon: typeof epsilon === 'number' && epsilon >= 0 ? epsilon : DEFAULT_COMPARISON_OPTIONS.epsilon,
+            unorderedArrays: config.get<boolean>('verification.unorderedArrays', DEFAULT_COMPARISON_OPTIONS.unorderedArrays) === true,
+            ignoreKeyOrder: config.get<boolean>('verification.ignoreKeyOrder', DEFAULT_COMPARISON_OPTIONS.ignoreKeyOrder) !== false,
+            errorMessagePattern: config.get<string>('verification.errorMessagePattern', DEFAULT_COMPARISON_OPTIONS.errorMessagePattern) || ''
+        };
     }
 
     /**
@@ -692,8 +1570,8 @@ Provide *only* the markdown analysis. Do not include introductory or concluding
         const cleanPrompt = prompt.replace(/^@perfcopilot\s*/i, '').trim();
         this.outputChannel.appendLine(`[extractFunctionCodeFromPrompt] Cleaned prompt (first 100 chars): ${cleanPrompt.substring(0, 100)}`);
 
-        // Regex to find all code blocks (captures language tag and content)
-        const codeBlockRegex = /```(?:(javascript|js|typescript|ts)\s*)?([\s\S]*?)```/g;
+        // Regex to find all code blocks (captures language tag and content, skipping an optional title="..." label)
+        const codeBlockRegex = /```(javascript|js|typescript|ts)?(?:[ \t]+title=(?:"[^"\n]*"|'[^'\n]*'|\S+))?\s*([\s\S]*?)```/g;
         let match;
         const jsTsBlocks: string[] = [];
         const genericBlocks: string[] = [];
@@ -738,55 +1616,4 @@ Provide *only* the markdown analysis. Do not include introductory or concluding
         this.outputChannel.appendLine('[extractFunctionCodeFromPrompt] Path 4: No function found in blocks or raw prompt. Returning undefined.');
         return undefined;
     }
-
-    /**
-     * Creates a prompt to ask the LLM to generate test inputs for a function.
-     */
-    private createInputGenerationPrompt(functionCode: string): string {
-        return `
-You are a test data generation assistant.
-Analyze the following JavaScript/TypeScript function:
-
-\`\`\`javascript
-${functionCode}
-\`\`\`
-
-**Your Task:**
-
-Generate a small JSON array containing 3-5 diverse test inputs suitable for calling this function. Consider:
-- Typical valid inputs.
-- Edge cases (e.g., empty arrays/strings, zero, null, undefined if applicable).
-- Different data types if the function seems flexible.
-
-**Output Format:**
-Provide your response *strictly* as a JSON array. Each element in the array represents the arguments for one function call. 
-- If the function takes one argument, each element is the argument value (e.g., \`[1, [], \"test\"]\`).
-- If the function takes multiple arguments, each element should be an array containing those arguments in the correct order (e.g., \`[[1, 2], [null, \"a\"], [10, undefined]]\`).
-- If the function takes no arguments, return an empty array \`[]\`
-- **Ensure all object keys within the generated data are enclosed in double quotes (e.g., \`\"key\": value\`) as required by strict JSON format.**
-
-**Example (Single Argument Function like sum(arr)):**
-\`\`\`json
-[
-  [1, 2, 3, 4, 5],
-  [],
-  [-1, 0, 1],
-  [1000000, 2000000]
-]
-\`\`\`
-
-**Example (Multi-Argument Function like add(a, b)):**
-\`\`\`json
-[
-  [1, 2],
-  [0, 0],
-  [-5, 5],
-  [10, null]
-]
-\`\`\`
-
-**IMPORTANT:** Output *only* the JSON array within a single \`\`\`json code block. Do not include any introductory text or explanations outside the JSON structure.
-Generate the JSON array of test inputs now.
-`;
-    }
 }
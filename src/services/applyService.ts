@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Apply Service Implementation
+ * 
+ * This service adopts a winning implementation from a PerfCopilot report into the user's code.
+ * It backs the `perfcopilot.applyImplementation` command, which the chat participant attaches
+ * to its report as a button.
+ * 
+ * Responsibilities:
+ * - Locates the original function: at the range recorded by `perfcopilot.analyzeFunction`, or
+ *   else by searching open editors for the exact code that was analyzed. A recorded range whose
+ *   text changed since the analysis is relocated the same way.
+ * - Opens a diff editor between the file and a preview of the file with the function replaced.
+ * - Applies the replacement with a `WorkspaceEdit` once the user confirms it.
+ * - When the original function cannot be found, opens a diff of the two functions instead so
+ *   the code can still be copied.
+ */
+
+import * as vscode from 'vscode';
+import { ApplyImplementationRequest } from '../models/types';
+
+/**
+ * Label of the confirmation button
+ */
+const APPLY_ACTION = 'Apply';
+
+/**
+ * Service for reviewing and applying a winning implementation in the editor.
+ */
+export class ApplyService {
+    /**
+     * Output channel for logging
+     */
+    private outputChannel: vscode.OutputChannel;
+
+    /**
+     * Creates a new ApplyService.
+     * 
+     * @param outputChannel - The output channel for logging
+     */
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Shows a diff between the original function and the winning implementation, then replaces
+     * the original with it if the user confirms.
+     * 
+     * @param request - The winning implementation and where the original function is
+     * @returns Whether the implementation was applied
+     */
+    public async reviewAndApply(request: ApplyImplementationRequest): Promise<boolean> {
+        this.outputChannel.appendLine(`Reviewing ${request.implementationName} for ${request.functionName}...`);
+        const target = await this.findOriginal(request);
+
+        if (!target) {
+            this.outputChannel.appendLine('Original function not found in the workspace. Showing a diff of the functions only.');
+            const [original, winner] = await Promise.all([
+                vscode.workspace.openTextDocument({ content: request.originalCode, language: request.languageId }),
+                vscode.workspace.openTextDocument({ content: request.code, language: request.languageId })
+            ]);
+            await vscode.commands.executeCommand('vscode.diff', original.uri, winner.uri, `${request.functionName}: Original ↔ ${request.implementationName}`);
+            vscode.window.showWarningMessage(`Could not find \`${request.functionName}\` in an open editor. Copy ${request.implementationName} from the diff, or select the function and run "PerfCopilot: Analyze Function" to apply it next time.`);
+            return false;
+        }
+
+        const { document, range } = target;
+        const code = this.indentLike(request.code, document, range);
+        const text = document.getText();
+        const preview = await vscode.workspace.openTextDocument({
+            content: text.slice(0, document.offsetAt(range.start)) + code + text.slice(document.offsetAt(range.end)),
+            language: document.languageId
+        });
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            document.uri,
+            preview.uri,
+            `${vscode.workspace.asRelativePath(document.uri)} ↔ ${request.implementationName} (PerfCopilot)`
+        );
+
+        const choice = await vscode.window.showInformationMessage(
+            `Replace \`${request.functionName}\` with ${request.implementationName}?`,
+            APPLY_ACTION,
+            'Cancel'
+        );
+        if (choice !== APPLY_ACTION) {
+            this.outputChannel.appendLine('Apply cancelled by user.');
+            return false;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, range, code);
+        const applied = await vscode.workspace.applyEdit(edit);
+        if (applied) {
+            this.outputChannel.appendLine(`Applied ${request.implementationName} to ${document.uri.toString()} at line ${range.start.line + 1}.`);
+            vscode.window.showInformationMessage(`Applied ${request.implementationName} to \`${request.functionName}\`.`);
+        } else {
+            this.outputChannel.appendLine(`Failed to apply ${request.implementationName} to ${document.uri.toString()}.`);
+            vscode.window.showErrorMessage(`Failed to apply ${request.implementationName}.`);
+        }
+        return applied;
+    }
+
+    /**
+     * Finds the original function: at its recorded location if the text there is unchanged, else by
+     * searching the recorded document and then the open editors for the analyzed code.
+     * 
+     * @param request - The apply request
+     * @returns The document and range of the original function, or undefined if it was not found
+     */
+    private async findOriginal(request: ApplyImplementationRequest): Promise<{ document: vscode.TextDocument; range: vscode.Range } | undefined> {
+        // The analyzed code is the trimmed selection, so surrounding whitespace is left in place
+        const searched = request.originalCode.trim();
+        const candidates: vscode.TextDocument[] = [];
+        if (request.location) {
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(request.location.uri));
+                const { startLine, startCharacter, endLine, endCharacter } = request.location;
+                const range = new vscode.Range(startLine, startCharacter, endLine, endCharacter);
+                const selected = document.getText(range);
+                if (selected.trim() === searched) {
+                    const start = document.offsetAt(range.start) + selected.indexOf(searched);
+                    return { document, range: new vscode.Range(document.positionAt(start), document.positionAt(start + searched.length)) };
+                }
+                this.outputChannel.appendLine('The recorded selection changed since the analysis. Searching the document for the original code.');
+                candidates.push(document);
+            } catch (error) {
+                this.outputChannel.appendLine(`Could not open ${request.location.uri}: ${error}`);
+            }
+        }
+        candidates.push(...vscode.window.visibleTextEditors.map(editor => editor.document));
+
+        for (const document of candidates) {
+            const offset = document.getText().indexOf(searched);
+            if (offset !== -1) {
+                return { document, range: new vscode.Range(document.positionAt(offset), document.positionAt(offset + searched.length)) };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Indents every line after the first like the line the original function starts on, so that
+     * e.g. a method inside a class keeps its indentation.
+     * 
+     * @param code - The winning implementation
+     * @param document - The document of the original function
+     * @param range - The range of the original function
+     * @returns The code to insert at the range
+     */
+    private indentLike(code: string, document: vscode.TextDocument, range: vscode.Range): string {
+        const prefix = document.getText(new vscode.Range(range.start.line, 0, range.start.line, range.start.character));
+        if (!/^\s+$/.test(prefix)) {
+            return code;
+        }
+        return code.split('\n').map((line, index) => (index > 0 && line.trim() ? prefix + line : line)).join('\n');
+    }
+}
@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Baseline Service Implementation
+ *
+ * This service guards optimized functions against performance regressions. It backs two commands:
+ * - `perfcopilot.pinBaseline` (a button under a PerfCopilot report) saves the run's benchmark
+ *   module, benchmark data, results and the pinned implementation to
+ *   `.perfcopilot/baselines/<function>.json` in the workspace.
+ * - `perfcopilot.checkBaselines` re-extracts the current source of every pinned function,
+ *   benchmarks it against the pinned implementation with the pinned data, and reports
+ *   regressions beyond `perfcopilot.baseline.regressionThreshold` as diagnostics on the function.
+ *
+ * The current source is compared with the pinned implementation re-run in the same process, not
+ * with the pinned numbers alone, so machine load does not show up as a regression. The pinned
+ * numbers are included in the messages for reference.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaselineCheckResult, BenchmarkComparison, PinnedBaseline } from '../models/types';
+import { parseFunctions } from '../utils/functionParser';
+
+/**
+ * Default slowdown (percent) below the baseline that counts as a regression
+ */
+export const DEFAULT_REGRESSION_THRESHOLD = 10;
+
+/**
+ * Source of the diagnostics
+ */
+const DIAGNOSTIC_SOURCE = 'PerfCopilot';
+
+/**
+ * Compares the benchmark of the current source ("Current") with the re-run pinned
+ * implementation ("Baseline").
+ *
+ * @param baseline - The pinned baseline
+ * @param results - Results of `benchmarkAgainstBaseline`
+ * @param threshold - Slowdown (percent) that counts as a regression
+ * @returns The outcome of the check
+ */
+export function compareWithBaseline(baseline: PinnedBaseline, results: BenchmarkComparison, threshold: number): BaselineCheckResult {
+    const { entryPointName } = baseline;
+    const current = results.results.find(result => result.name === 'Current');
+    const rerun = results.results.find(result => result.name === 'Baseline');
+    if (!current || !rerun || !(rerun.ops > 0)) {
+        return { entryPointName, status: 'FAILED', message: `The benchmark of \`${entryPointName}\` did not report both the current source and the baseline.` };
+    }
+
+    const change = current.ops / rerun.ops - 1;
+    const pinned = baseline.results.results.find(result => result.name === baseline.resultName);
+    const numbers = `${Math.round(current.ops)} vs ${Math.round(rerun.ops)} ops/sec${pinned ? `; ${Math.round(pinned.ops)} ops/sec when pinned` : ''}`;
+    const relative = change >= 0 ? `${(change * 100).toFixed(1)}% faster` : `${(-change * 100).toFixed(1)}% slower`;
+    if (change < -threshold / 100) {
+        return {
+            entryPointName,
+            status: 'REGRESSED',
+            change,
+            message: `Performance regression: \`${entryPointName}\` is ${relative} than its pinned baseline (${baseline.implementation.name}; ${numbers}).`
+        };
+    }
+    return { entryPointName, status: 'OK', change, message: `\`${entryPointName}\` is ${relative} than its pinned baseline (${numbers}).` };
+}
+
+/**
+ * Service for pinning baselines and checking functions against them.
+ */
+export class BaselineService {
+    /**
+     * Output channel for logging
+     */
+    private outputChannel: vscode.OutputChannel;
+
+    /**
+     * Diagnostics reported for regressed functions
+     */
+    private diagnostics: vscode.DiagnosticCollection;
+
+    /**
+     * Benchmarks the current source of a function against its pinned implementation
+     */
+    private benchmark: (baseline: PinnedBaseline, currentCode: string) => Promise<BenchmarkComparison>;
+
+    /**
+     * Creates a new BaselineService.
+     *
+     * @param outputChannel - The output channel for logging
+     * @param diagnostics - Diagnostics reported for regressed functions
+     * @param benchmark - Benchmarks the current source against the pinned implementation
+     *   (see `PerfCopilotParticipant.benchmarkAgainstBaseline`)
+     */
+    constructor(
+        outputChannel: vscode.OutputChannel,
+        diagnostics: vscode.DiagnosticCollection,
+        benchmark: (baseline: PinnedBaseline, currentCode: string) => Promise<BenchmarkComparison>
+    ) {
+        this.outputChannel = outputChannel;
+        this.diagnostics = diagnostics;
+        this.benchmark = benchmark;
+    }
+
+    /**
+     * Saves a baseline to the workspace, replacing the function's previous baseline.
+     *
+     * @param baseline - The baseline to pin
+     * @returns Whether the baseline was saved (it is not without an open workspace folder)
+     */
+    public async pin(baseline: PinnedBaseline): Promise<boolean> {
+        const storageDir = this.getStorageDir();
+        if (!storageDir) {
+            vscode.window.showErrorMessage('Open a workspace folder to pin PerfCopilot baselines.');
+            return false;
+        }
+
+        const file = path.join(storageDir, `${baseline.entryPointName.replace(/[^A-Za-z0-9_$]/g, '_')}.json`);
+        await fs.promises.mkdir(storageDir, { recursive: true });
+        await fs.promises.writeFile(file, JSON.stringify(baseline, null, 2));
+        this.outputChannel.appendLine(`Pinned ${baseline.implementation.name} as the baseline of ${baseline.entryPointName} in ${file}.`);
+        vscode.window.showInformationMessage(`Pinned ${baseline.implementation.name} as the baseline of \`${baseline.entryPointName}\`. Run "PerfCopilot: Check Baselines" to check for regressions.`);
+        return true;
+    }
+
+    /**
+     * Lists the pinned baselines of the workspace. Files that cannot be read are skipped.
+     *
+     * @returns The baselines
+     */
+    public async getBaselines(): Promise<PinnedBaseline[]> {
+        const storageDir = this.getStorageDir();
+        if (!storageDir) {
+            return [];
+        }
+        let files: string[];
+        try {
+            files = (await fs.promises.readdir(storageDir)).filter(file => file.endsWith('.json'));
+        } catch {
+            return [];
+        }
+
+        const baselines: PinnedBaseline[] = [];
+        for (const file of files) {
+            try {
+                baselines.push(JSON.parse(await fs.promises.readFile(path.join(storageDir, file), 'utf8')));
+            } catch (error) {
+                this.outputChannel.appendLine(`Skipping unreadable baseline ${file}: ${error}`);
+            }
+        }
+        return baselines;
+    }
+
+    /**
+     * Benchmarks the current source of every pinned function against its baseline and replaces
+     * the regression diagnostics with the outcome.
+     *
+     * @param token - Cancellation token
+     * @returns One result per baseline
+     */
+    public async checkBaselines(token?: vscode.CancellationToken): Promise<BaselineCheckResult[]> {
+        const threshold = vscode.workspace.getConfiguration('perfcopilot').get<number>('baseline.regressionThreshold', DEFAULT_REGRESSION_THRESHOLD);
+        const results: BaselineCheckResult[] = [];
+        const diagnosticsByUri = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+
+        for (const baseline of await this.getBaselines()) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+            const source = await this.findCurrentSource(baseline);
+            if (!source) {
+                this.outputChannel.appendLine(`Baseline check: ${baseline.entryPointName} not found.`);
+                results.push({ entryPointName: baseline.entryPointName, status: 'MISSING', message: `Could not find \`${baseline.entryPointName}\` in its file or the open editors.` });
+                continue;
+            }
+
+            let result: BaselineCheckResult;
+            try {
+                result = compareWithBaseline(baseline, await this.benchmark(baseline, source.code), threshold);
+            } catch (error: any) {
+                result = { entryPointName: baseline.entryPointName, status: 'FAILED', message: `Could not benchmark \`${baseline.entryPointName}\`: ${error.message ?? error}` };
+            }
+            this.outputChannel.appendLine(`Baseline check: ${result.status} - ${result.message}`);
+            results.push(result);
+
+            if (result.status === 'REGRESSED') {
+                const { document, range } = source;
+                const firstLine = new vscode.Range(range.start, document.lineAt(range.start.line).range.end);
+                const diagnostic = new vscode.Diagnostic(firstLine, result.message, vscode.DiagnosticSeverity.Warning);
+                diagnostic.source = DIAGNOSTIC_SOURCE;
+                const key = document.uri.toString();
+                const entry = diagnosticsByUri.get(key) ?? { uri: document.uri, diagnostics: [] };
+                entry.diagnostics.push(diagnostic);
+                diagnosticsByUri.set(key, entry);
+            }
+        }
+
+        this.diagnostics.clear();
+        for (const { uri, diagnostics } of diagnosticsByUri.values()) {
+            this.diagnostics.set(uri, diagnostics);
+        }
+        return results;
+    }
+
+    /**
+     * Returns the folder baselines are stored in, or undefined without a workspace folder.
+     */
+    private getStorageDir(): string | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, '.perfcopilot', 'baselines') : undefined;
+    }
+
+    /**
+     * Finds the current source of a pinned function: in the file it was analyzed from, else in
+     * the open editors. If a file defines it more than once, the definition closest to the
+     * recorded line is used.
+     *
+     * @param baseline - The pinned baseline
+     * @returns The document, range and code of the function, or undefined if it was not found
+     */
+    private async findCurrentSource(baseline: PinnedBaseline): Promise<{ document: vscode.TextDocument; range: vscode.Range; code: string } | undefined> {
+        const candidates: vscode.TextDocument[] = [];
+        if (baseline.location) {
+            try {
+                candidates.push(await vscode.workspace.openTextDocument(vscode.Uri.parse(baseline.location.uri)));
+            } catch (error) {
+                this.outputChannel.appendLine(`Could not open ${baseline.location.uri}: ${error}`);
+            }
+        }
+        candidates.push(...vscode.window.visibleTextEditors.map(editor => editor.document));
+
+        const recordedLine = (baseline.location?.startLine ?? 0) + 1;
+        for (const document of candidates) {
+            const text = document.getText();
+            const matches = parseFunctions(text).functions
+                .filter(fn => fn.name === baseline.entryPointName)
+                .sort((a, b) => Math.abs(a.startLine - recordedLine) - Math.abs(b.startLine - recordedLine));
+            if (matches.length === 0) {
+                continue;
+            }
+            // The benchmark runs the function on its own, so `export`/`export default` is left out
+            const { start: fnStart, end } = matches[0];
+            const exportKeywords = /^export\s+(default\s+)?/.exec(text.slice(fnStart, end));
+            const start = fnStart + (exportKeywords ? exportKeywords[0].length : 0);
+            return {
+                document,
+                range: new vscode.Range(document.positionAt(start), document.positionAt(end)),
+                code: text.slice(start, end)
+            };
+        }
+        return undefined;
+    }
+}
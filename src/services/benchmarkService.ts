@@ -13,8 +13,13 @@
  *   as a Node.js child process, passing the path to the temporary file.
  * - Captures the stdout and stderr output from the runner script.
  * - Parses the output from the runner script to extract the benchmark results.
- *   - Prioritizes parsing a specific `RESULTS_JSON:` line for structured data.
- *   - Falls back to text-based parsing of Benny's standard output if JSON is missing/invalid.
+ *   - Prioritizes parsing a specific `RESULTS_JSON:` line for structured data, validated
+ *     against the versioned schema in `resultsProtocol.ts`.
+ *   - Falls back to text-based parsing of the legacy `cycle:`/`complete:` lines if JSON is
+ *     missing/invalid (margins are unknown and reported as 0 in that case).
+ *   - Tests each alternative against 'Original' for statistical significance (Welch's t-test
+ *     on the raw sample timings) and reports the speedup ratio with a confidence interval.
+ *   - Fits complexity-mode timings (if present) to a Big-O class (see `complexity.ts`).
  *   - Handles errors reported by the benchmark script (e.g., `BENCHMARK_ERROR`).
  * - Includes logic (`replaceRecursiveCalls`) to prepare function code strings before 
  *   generating the benchmark module, ensuring functions run in isolation and recursive 
@@ -29,11 +34,19 @@
  * different implementations of a function.
  */
 
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { BenchmarkComparison } from '../models/types';
+import { BenchmarkComparison, BenchmarkResultItem, ComplexityEstimate, ComplexityMeasurements, PipelineLogger, SignificanceComparison } from '../models/types';
 import { createTempFile, runNodeScript } from '../utils/functions';
+import { extractResultsPayload } from '../utils/resultsProtocol';
+import { compareToBaseline } from '../utils/statistics';
+import { fitComplexity } from '../utils/complexity';
+import { renameFunction } from '../utils/functionParser';
+
+/**
+ * Name of the implementation every alternative is compared against.
+ */
+const BASELINE_IMPLEMENTATION = 'Original';
 
 /**
  * Service for running benchmarks to compare function implementations.
@@ -42,14 +55,14 @@ export class BenchmarkService {
     /**
      * Output channel for logging
      */
-    private outputChannel: vscode.OutputChannel;
+    private outputChannel: PipelineLogger;
 
     /**
      * Creates a new BenchmarkService.
      * 
-     * @param outputChannel - The output channel for logging
+     * @param outputChannel - The output channel for logging (or any other logger, e.g. in the CLI)
      */
-    constructor(outputChannel: vscode.OutputChannel) {
+    constructor(outputChannel: PipelineLogger) {
         this.outputChannel = outputChannel;
     }
 
@@ -77,7 +90,8 @@ export class BenchmarkService {
             // CRITICAL: Executes the benchmark runner node script using the utility function.
             // Run the permanent runner script, passing the temp functions file path as an argument
             this.outputChannel.appendLine(`Executing benchmark runner: ${runnerScriptPath} with ${tempFuncFilePath}`);
-            const output = await runNodeScript(runnerScriptPath, [tempFuncFilePath]); // Pass file path as arg
+            // --expose-gc lets the runner's memory pass force garbage collections
+            const output = await runNodeScript(runnerScriptPath, [tempFuncFilePath], ['--expose-gc'], this.outputChannel); // Pass file path as arg
             
             // Log the raw output before parsing
             this.outputChannel.appendLine(`\n--- Raw Benchmark Script Output ---\n${output}\n----------------------------------\n`);
@@ -107,7 +121,13 @@ export class BenchmarkService {
             throw new Error(`Benchmark script reported error: ${errorMessage}`);
         }
 
-        // Prioritize parsing the text output format we now expect
+        // Prioritize the structured RESULTS_JSON payload emitted by the runner
+        const jsonResults = this.parseJsonBenchmarkOutput(output);
+        if (jsonResults) {
+            return jsonResults;
+        }
+
+        // Legacy fallback: scrape the cycle:/complete: text lines (no margin information)
         this.outputChannel.appendLine('Attempting to parse benchmark results using text format (cycle:/complete:)...');
         try {
             // !!! CRITICAL PARSING LOGIC !!!
@@ -134,6 +154,90 @@ export class BenchmarkService {
         return { fastest: 'Unknown', results: [] };
     }
     
+    /**
+     * Parses benchmark results from the structured `RESULTS_JSON:` line (see `resultsProtocol.ts`).
+     * 
+     * @param output - The output from the benchmark script
+     * @returns The parsed benchmark comparison results, or undefined if the line is
+     *          missing or fails schema validation (callers then fall back to text parsing)
+     */
+    private parseJsonBenchmarkOutput(output: string): BenchmarkComparison | undefined {
+        this.outputChannel.appendLine('Attempting to parse benchmark results from RESULTS_JSON line...');
+        try {
+            const payload = extractResultsPayload(output);
+            if (!payload) {
+                this.outputChannel.appendLine('No RESULTS_JSON line found in benchmark output.');
+                return undefined;
+            }
+            this.outputChannel.appendLine(`Successfully parsed RESULTS_JSON payload (schema v${payload.version}).`);
+            const comparison: BenchmarkComparison = {
+                fastest: payload.fastest,
+                results: payload.results,
+                environment: payload.environment,
+                comparisons: this.compareAgainstBaseline(payload.results)
+            };
+            if (payload.complexity) {
+                comparison.complexityMeasurements = payload.complexity;
+                comparison.complexity = this.estimateComplexity(payload.complexity);
+            }
+            return comparison;
+        } catch (error) {
+            this.outputChannel.appendLine(`Warning: Invalid RESULTS_JSON payload: ${error instanceof Error ? error.message : error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Fits each implementation's complexity-mode timings to a Big-O class.
+     * 
+     * @param measurements - The `complexity` block of the results payload
+     * @returns One estimate per implementation that was measured at enough sizes
+     */
+    private estimateComplexity(measurements: ComplexityMeasurements): ComplexityEstimate[] {
+        const estimates: ComplexityEstimate[] = [];
+        for (const series of measurements.series) {
+            const estimate = fitComplexity(measurements.sizes, series);
+            if (estimate) {
+                this.outputChannel.appendLine(`Complexity: ${estimate.name} fits ${estimate.bigO} (normalized RMS ${estimate.rms.toFixed(3)}, ${estimate.points} sizes).`);
+                estimates.push(estimate);
+            } else {
+                this.outputChannel.appendLine(`Complexity: Not enough measured sizes to estimate ${series.name}.`);
+            }
+        }
+        return estimates;
+    }
+
+    /**
+     * Runs a significance test (Welch's t-test) of every alternative against the baseline
+     * using the raw per-sample timings reported by the runner.
+     * 
+     * @param results - The parsed result items (must include `sampleTimes`)
+     * @returns One comparison per alternative that had enough samples to be tested
+     */
+    private compareAgainstBaseline(results: BenchmarkResultItem[]): SignificanceComparison[] {
+        const baseline = results.find(result => result.name === BASELINE_IMPLEMENTATION);
+        if (!baseline) {
+            this.outputChannel.appendLine(`Warning: No '${BASELINE_IMPLEMENTATION}' result found. Skipping significance tests.`);
+            return [];
+        }
+
+        const comparisons: SignificanceComparison[] = [];
+        for (const candidate of results) {
+            if (candidate === baseline) {
+                continue;
+            }
+            const comparison = compareToBaseline(baseline, candidate);
+            if (!comparison) {
+                this.outputChannel.appendLine(`  Not enough samples to test ${candidate.name} against ${baseline.name}.`);
+                continue;
+            }
+            this.outputChannel.appendLine(`  ${comparison.name} vs ${comparison.baseline}: ${comparison.speedup.toFixed(3)}x ` +
+                `[${comparison.ciLow.toFixed(3)}, ${comparison.ciHigh.toFixed(3)}], p=${comparison.pValue.toPrecision(3)} -> ${comparison.verdict}`);
+            comparisons.push(comparison);
+        }
+        return comparisons;
+    }
+
     /**
      * Parses benchmark results from plain text output based on "cycle:" and "complete:" lines.
      * 
@@ -170,21 +274,11 @@ export class BenchmarkService {
         // \s*$          - Optional trailing whitespace and end-of-line anchor
         const completeRegex = /^complete:\s*Fastest is\s*(.+?)\s*$/m;
 
-        // +++ TEST DEBUG LOG +++
-        console.log('\n[parseTextBenchmarkOutput TEST DEBUG] Input string:\n---\n', output, '\n---');
-        // +++ END TEST DEBUG LOG +++
-
         const results = [];
         let match;
         
         this.outputChannel.appendLine('--- Parsing cycle lines ---');
-        // +++ TEST DEBUG LOG +++
-        console.log('[parseTextBenchmarkOutput TEST DEBUG] Entering cycleRegex loop...');
-        // +++ END TEST DEBUG LOG +++
         while ((match = cycleRegex.exec(output)) !== null) {
-            // +++ TEST DEBUG LOG +++
-            console.log('[parseTextBenchmarkOutput TEST DEBUG] cycleRegex match:', match);
-            // +++ END TEST DEBUG LOG +++
             const name = match[1].trim();
             const ops = parseFloat(match[2]);
             this.outputChannel.appendLine(`  Matched cycle: Name='${name}', Ops=${ops}`);
@@ -202,9 +296,6 @@ export class BenchmarkService {
         // Parse the completion line
         this.outputChannel.appendLine('--- Parsing complete line ---');
         const completeMatch = output.match(completeRegex);
-        // +++ TEST DEBUG LOG +++
-        console.log('[parseTextBenchmarkOutput TEST DEBUG] completeRegex match:', completeMatch);
-        // +++ END TEST DEBUG LOG +++
         let fastest = 'Unknown';
         if (completeMatch && completeMatch[1]) {
             fastest = completeMatch[1].trim();
@@ -222,9 +313,6 @@ export class BenchmarkService {
              this.outputChannel.appendLine(`  Fastest determined as: ${fastest}`);
         }
         
-        // +++ TEST DEBUG LOG +++
-        console.log(`[parseTextBenchmarkOutput TEST DEBUG] Returning: { fastest: "${fastest}", results: ${JSON.stringify(results)} }`);
-        // +++ END TEST DEBUG LOG +++
         return {
             fastest,
             results
@@ -241,7 +329,8 @@ export class BenchmarkService {
      *         2. Renames internal recursive calls within the function's body to use 
      *            the new name (e.g., `myFunc()` becomes `Alternative_1()`). This ensures 
      *            recursive alternatives call themselves correctly, not the original function.
-     *         3. Handles different function declaration styles (const arrow func, standard function).
+     *         3. Handles different function declaration styles (declarations, arrow functions and
+     *            function expressions, with any parameter syntax) via the TypeScript parser.
      * DO NOT MODIFY this logic without careful consideration of how functions are 
      * executed and potentially recurse within the `vm` sandbox environment.
      * Failure here can lead to `ReferenceError`s in the runner or incorrect benchmark results
@@ -261,55 +350,16 @@ export class BenchmarkService {
         // calls to `originalName` are also replaced with `newName`.
 
         try {
-            // 1. Find the main function definition (const/function originalName ...)
-            //    Use a regex that captures the declaration type (const/function) and the rest (signature/body)
-            //    Regex breakdown:
-            //    - `(const\\s+|function\\s+)`: Capture group 1: "const " or "function "
-            //    - `(${originalName})`: Capture group 2: The original function name
-            //    - `(\\s*=|\\s*\\()`: Capture group 3: Start of assignment/params (" =" or " (")
-            const definitionRegex = new RegExp(`(const\\s+|function\\s+)(${originalName})(\\s*=|\\s*\\()`);
-            const match = code.match(definitionRegex);
-
-            if (!match || match.index === undefined) {
-                // Try to handle anonymous arrow functions assigned to a const
-                const arrowAssignRegex = new RegExp(`(const\\s+)(${originalName})(\\s*=\\s*\\()`);
-                const arrowMatch = code.match(arrowAssignRegex);
-                if(arrowMatch && arrowMatch.index !== undefined){
-                     // If it's `const originalName = (params) => ...`
-                     // Rename the const declaration
-                    let definitionReplacedCode = code.substring(0, arrowMatch.index) +
-                                            `const ${newName}` +
-                                            code.substring(arrowMatch.index + `const ${originalName}`.length);
-
-                    // Replace recursive calls within the body using a careful regex
-                    // Look for `originalName(` not preceded by `.` or alphanumeric chars (avoid obj.method)
-                    const recursiveCallRegex = new RegExp(`(?<![.\\w])\\b${originalName}\\s*\\(`, 'g');
-                    const finalCode = definitionReplacedCode.replace(recursiveCallRegex, `${newName}(`);
-                    return finalCode;
-
-                } else {
-                    this.outputChannel.appendLine(`Warning: Could not find standard function definition for "${originalName}" in provided code. Recursive calls may not be correctly handled for "${newName}". Returning code mostly unmodified.`);
-                    // Fallback: Attempt to wrap or assign, but this is risky.
-                    // Let's just return it assigned to the new name, hoping it's an expression.
-                    return `const ${newName} = ${code};`;
-                }
+            // AST-based rename (see functionParser.ts): the definition and every reference to
+            // `originalName` are renamed; strings, comments and `obj.originalName` are left alone.
+            const renamedCode = renameFunction(code, originalName, newName);
+            if (renamedCode === undefined) {
+                this.outputChannel.appendLine(`Warning: Could not find standard function definition for "${originalName}" in provided code. Recursive calls may not be correctly handled for "${newName}". Returning code mostly unmodified.`);
+                // Fallback: Attempt to wrap or assign, but this is risky.
+                // Let's just return it assigned to the new name, hoping it's an expression.
+                return `const ${newName} = ${code};`;
             }
-
-            // 2. Rename the function in the definition line
-            // Reconstruct the start of the code with the new name
-            let definitionReplacedCode = code.substring(0, match.index) + // Code before definition
-                                         match[1] +                     // "const " or "function "
-                                         newName +                      // The new function name
-                                         code.substring(match.index + match[1].length + match[2].length); // Rest of the code
-
-            // 3. Replace recursive calls *within* the function body
-            // Use a regex that finds `originalName(` but avoids matching inside strings or comments (best effort without AST)
-            // Look for `originalName(` not preceded by `.` or alphanumeric chars (avoid obj.method)
-            const recursiveCallRegex = new RegExp(`(?<![.\\w])\\b${originalName}\\s*\\(`, 'g');
-            // Apply replacement to the code *after* definition rename
-            const finalCode = definitionReplacedCode.replace(recursiveCallRegex, `${newName}(`);
-
-            return finalCode;
+            return renamedCode;
         } catch (error: any) {
             this.outputChannel.appendLine(`Error during recursive call replacement for ${newName}: ${error.message}`);
             // Return a placeholder function to avoid crashing the runner
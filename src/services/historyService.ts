@@ -0,0 +1,236 @@
+/**
+ * @fileoverview History Service Implementation
+ *
+ * This service keeps every recorded benchmark run so results survive the chat scrolling away
+ * and VS Code restarting. Each run is one JSON file in the history folder: the extension's
+ * global storage, or `.perfcopilot/history` in the workspace (`perfcopilot.history.location`).
+ *
+ * Responsibilities:
+ * - Saving runs (original code, alternatives, verification verdicts, benchmark results with the
+ *   environment, test data and the model used) and pruning the oldest beyond
+ *   `perfcopilot.history.maxRuns`
+ * - Listing and loading runs, newest first
+ * - Formatting a stored run as a Markdown report, and as a `/benchmark` request that re-runs it
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BenchmarkRun, HistoryEntry } from '../models/types';
+import { MODEL_STAGES, STAGE_LABELS } from '../core/languageModels';
+
+/**
+ * Default number of runs kept
+ */
+export const DEFAULT_MAX_HISTORY_RUNS = 200;
+
+/**
+ * Maximum length of the benchmark data shown in a report
+ */
+const MAX_REPORT_DATA_LENGTH = 2000;
+
+/**
+ * Service for storing and reading the analysis history.
+ */
+export class HistoryService {
+    /**
+     * Output channel for logging
+     */
+    private outputChannel: vscode.OutputChannel;
+
+    /**
+     * Folder the history files are written to
+     */
+    private storageDir: string;
+
+    /**
+     * Number of runs kept; older runs are deleted when a run is saved
+     */
+    private maxRuns: number;
+
+    /**
+     * Callbacks notified whenever the history changes
+     */
+    private listeners: (() => void)[] = [];
+
+    /**
+     * Creates a new HistoryService.
+     *
+     * @param outputChannel - The output channel for logging
+     * @param storageDir - Folder the history files are written to (created on the first save)
+     * @param maxRuns - Number of runs kept
+     */
+    constructor(outputChannel: vscode.OutputChannel, storageDir: string, maxRuns: number = DEFAULT_MAX_HISTORY_RUNS) {
+        this.outputChannel = outputChannel;
+        this.storageDir = storageDir;
+        this.maxRuns = maxRuns;
+    }
+
+    /**
+     * Registers a callback that is notified whenever the history changes.
+     *
+     * @param listener - Called after a run was saved
+     * @returns A disposable that unregisters the callback
+     */
+    public onDidChange(listener: () => void): vscode.Disposable {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(registered => registered !== listener); } };
+    }
+
+    /**
+     * Saves a benchmark run to the history.
+     *
+     * @param run - The recorded run
+     * @returns The stored entry
+     */
+    public async saveRun(run: BenchmarkRun): Promise<HistoryEntry> {
+        const entry: HistoryEntry = {
+            ...run,
+            id: `${run.timestamp}-${run.entryPointName.replace(/[^A-Za-z0-9_$]/g, '_')}`,
+            // The runnable JavaScript and line maps are derived from the code, so they are not stored
+            implementations: run.implementations.map(implementation => ({
+                name: implementation.name,
+                code: implementation.code,
+                description: implementation.description,
+                ...(implementation.context ? { context: implementation.context } : {}),
+                ...(implementation.userProvided ? { userProvided: true } : {})
+            }))
+        };
+
+        await fs.promises.mkdir(this.storageDir, { recursive: true });
+        await fs.promises.writeFile(path.join(this.storageDir, `${entry.id}.json`), JSON.stringify(entry, null, 2));
+        this.outputChannel.appendLine(`Saved run ${entry.id} to the history in ${this.storageDir}.`);
+
+        await this.prune();
+        for (const listener of this.listeners) {
+            listener();
+        }
+        return entry;
+    }
+
+    /**
+     * Lists the stored runs. Files that cannot be read are skipped.
+     *
+     * @returns The runs, newest first
+     */
+    public async getRuns(): Promise<HistoryEntry[]> {
+        const entries: HistoryEntry[] = [];
+        for (const file of await this.listFiles()) {
+            try {
+                entries.push(JSON.parse(await fs.promises.readFile(path.join(this.storageDir, file), 'utf8')));
+            } catch (error) {
+                this.outputChannel.appendLine(`Skipping unreadable history file ${file}: ${error}`);
+            }
+        }
+        return entries.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Loads one stored run.
+     *
+     * @param id - Id of the run
+     * @returns The run, or undefined if it does not exist or cannot be read
+     */
+    public async getRun(id: string): Promise<HistoryEntry | undefined> {
+        try {
+            return JSON.parse(await fs.promises.readFile(path.join(this.storageDir, `${id}.json`), 'utf8'));
+        } catch (error) {
+            this.outputChannel.appendLine(`Could not read history entry ${id}: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Lists the history files, or none if the folder does not exist yet.
+     */
+    private async listFiles(): Promise<string[]> {
+        try {
+            return (await fs.promises.readdir(this.storageDir)).filter(file => file.endsWith('.json'));
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Deletes the oldest runs beyond `maxRuns`. File names start with the timestamp, so
+     * they sort oldest first.
+     */
+    private async prune(): Promise<void> {
+        const files = (await this.listFiles()).sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+        for (const file of files.slice(0, Math.max(0, files.length - this.maxRuns))) {
+            try {
+                await fs.promises.unlink(path.join(this.storageDir, file));
+                this.outputChannel.appendLine(`Removed old history entry ${file}.`);
+            } catch (error) {
+                this.outputChannel.appendLine(`Could not remove old history entry ${file}: ${error}`);
+            }
+        }
+    }
+}
+
+/**
+ * Formats a stored run as a Markdown report: results, environment, verification verdicts,
+ * implementations and benchmark data.
+ *
+ * @param entry - The stored run
+ * @returns The report
+ */
+export function formatHistoryReport(entry: HistoryEntry): string {
+    const { results } = entry;
+    const lines = [
+        `# PerfCopilot run: \`${entry.entryPointName}\``,
+        '',
+        `- **Date:** ${new Date(entry.timestamp).toLocaleString()}`,
+        // Runs that did not ask a model (e.g. `/benchmark` with its own data) have none
+        ...(entry.model ? [`- **Model:** ${entry.model}`] : []),
+        `- **Fastest:** ${results.fastest}`
+    ];
+    const stageModels = MODEL_STAGES.filter(stage => entry.stageModels?.[stage]);
+    if (stageModels.some(stage => entry.stageModels![stage] !== entry.model)) {
+        lines.splice(lines.length - 1, 0, `- **Models per stage:** ${stageModels.map(stage => `${STAGE_LABELS[stage]}: ${entry.stageModels![stage]}`).join(', ')}`);
+    }
+    if (results.environment) {
+        const { node, v8, platform, arch, cpuModel, cpuCount } = results.environment;
+        lines.push(`- **Environment:** Node ${node} (V8 ${v8}), ${platform}/${arch}, ${cpuModel} × ${cpuCount}`);
+    }
+
+    lines.push('', '## Benchmark results', '', '| Implementation | ops/sec | Margin | vs Original |', '|---|---|---|---|');
+    for (const result of results.results) {
+        const comparison = results.comparisons?.find(candidate => candidate.name === result.name);
+        lines.push(`| ${result.name === results.fastest ? `**${result.name}**` : result.name} | ${Math.round(result.ops)} | ±${(result.margin * 100).toFixed(1)}% | ${comparison ? `${comparison.speedup.toFixed(2)}x, ${comparison.verdict}` : '–'} |`);
+    }
+
+    if (entry.verdicts && entry.verdicts.length > 0) {
+        lines.push('', '## Correctness verification', '');
+        for (const verdict of entry.verdicts) {
+            lines.push(`- ${verdict.name}: ${verdict.status}${verdict.reason ? ` (${verdict.reason})` : ''}`);
+        }
+    }
+
+    lines.push('', '## Implementations');
+    for (const implementation of entry.implementations) {
+        lines.push('', `### ${implementation.name}`, '', '```js', implementation.code, '```');
+    }
+
+    const data = JSON.stringify(entry.testData, null, 2) ?? 'undefined';
+    lines.push('', '## Benchmark data', '', '```json',
+        data.length > MAX_REPORT_DATA_LENGTH ? `${data.slice(0, MAX_REPORT_DATA_LENGTH)}\n... (truncated)` : data,
+        '```', '');
+    return lines.join('\n');
+}
+
+/**
+ * Creates the chat request that re-runs a stored benchmark with `/benchmark`: the original and
+ * the alternatives as labelled code blocks, and the same benchmark data.
+ *
+ * @param entry - The stored run
+ * @returns The chat request
+ */
+export function createRerunPrompt(entry: HistoryEntry): string {
+    const blocks = entry.implementations.map((implementation, index) =>
+        `\`\`\`js${index === 0 ? '' : ` title="${implementation.name}"`}\n${implementation.code}\n\`\`\``);
+    if (entry.testData !== undefined) {
+        blocks.push(`\`\`\`json\n${JSON.stringify(entry.testData)}\n\`\`\``);
+    }
+    return `@PerfCopilot /benchmark\n${blocks.join('\n')}`;
+}
@@ -0,0 +1,386 @@
+/**
+ * @fileoverview Language Model Service Implementation
+ *
+ * This service selects the language model of a chat request from the `perfcopilot.model.*`
+ * settings. Each provider returns a `vscode.LanguageModelChat`:
+ * - `vscode`: a `vscode.lm` model of the configured vendor and family (Copilot GPT-4 by default).
+ * - `openai-compatible`: a model behind an OpenAI-compatible `/chat/completions` endpoint, such as
+ *   a local Ollama or llama.cpp server. The API key is read from `PERFCOPILOT_API_KEY` or
+ *   `OPENAI_API_KEY`.
+ * - `replay`: the answers recorded in the fixture file, so a run can be reproduced offline.
+ *
+ * With `perfcopilot.model.record`, every exchange with the selected model is appended to the
+ * fixture. Other providers can be added with `registerProvider`.
+ *
+ * Each stage of the pipeline (see `ModelStage`) can use its own model: `perfcopilot.model.stages`
+ * replaces some of the settings for a stage, and the "Select Models per Stage" quick pick sets them
+ * to a `vscode.lm` model. `selectStageModels` returns the models of a request as `StageModels`,
+ * which measures the tokens and latency of each stage.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LanguageModelSettings, ModelStage, StageModelSettings, StageUsage } from '../models/types';
+import { MODEL_STAGES, OpenAiCompatibleLanguageModel, readFixture, RecordingLanguageModel, ReplayLanguageModel, STAGE_LABELS } from '../core/languageModels';
+import { MeteredChatModel, PipelineChatModel, VsCodeLanguageModel } from '../utils/vscodeLanguageModel';
+
+/**
+ * Default vendor and family of the `vscode.lm` model
+ */
+export const DEFAULT_MODEL_VENDOR = 'copilot';
+export const DEFAULT_MODEL_FAMILY = 'gpt-4';
+
+/**
+ * Default OpenAI-compatible endpoint (a local Ollama server)
+ */
+export const DEFAULT_MODEL_ENDPOINT = 'http://localhost:11434/v1';
+
+/**
+ * Default record/replay fixture, relative to the workspace folder
+ */
+export const DEFAULT_MODEL_FIXTURE = '.perfcopilot/fixtures/model.json';
+
+/**
+ * The models of the stages of a request, measuring the requests of each stage
+ */
+export class StageModels {
+    /**
+     * Metered model of each stage
+     */
+    private models: Record<ModelStage, vscode.LanguageModelChat>;
+
+    /**
+     * Usage of each stage that sent requests
+     */
+    private usage = new Map<ModelStage, StageUsage>();
+
+    /**
+     * Creates the stage models.
+     *
+     * @param models - The model of each stage
+     */
+    constructor(models: Record<ModelStage, vscode.LanguageModelChat>) {
+        const metered: Partial<Record<ModelStage, vscode.LanguageModelChat>> = {};
+        for (const stage of MODEL_STAGES) {
+            const model = models[stage];
+            metered[stage] = new MeteredChatModel(model, measurement => {
+                const usage = this.usage.get(stage) ?? { stage, model: `${model.vendor}/${model.name}`, requests: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 };
+                usage.requests++;
+                usage.inputTokens += measurement.inputTokens;
+                usage.outputTokens += measurement.outputTokens;
+                usage.latencyMs += measurement.latencyMs;
+                this.usage.set(stage, usage);
+            });
+        }
+        this.models = metered as Record<ModelStage, vscode.LanguageModelChat>;
+    }
+
+    /**
+     * Returns the model of a stage.
+     *
+     * @param stage - The stage
+     * @returns The (metered) model
+     */
+    public get(stage: ModelStage): vscode.LanguageModelChat {
+        return this.models[stage];
+    }
+
+    /**
+     * Returns the model of each stage as "vendor/name".
+     */
+    public getModelIds(): Record<ModelStage, string> {
+        const ids: Partial<Record<ModelStage, string>> = {};
+        for (const stage of MODEL_STAGES) {
+            ids[stage] = `${this.models[stage].vendor}/${this.models[stage].name}`;
+        }
+        return ids as Record<ModelStage, string>;
+    }
+
+    /**
+     * Returns the usage of the stages that sent requests so far, in pipeline order.
+     */
+    public getUsage(): StageUsage[] {
+        return MODEL_STAGES.filter(stage => this.usage.has(stage)).map(stage => ({ ...this.usage.get(stage)! }));
+    }
+}
+
+/**
+ * A source of language models
+ */
+export interface LanguageModelProvider {
+    /**
+     * Returns the model to use for a request.
+     *
+     * @param settings - The language model settings
+     * @param token - Cancellation token
+     * @returns The model
+     * @throws If no model is available
+     */
+    selectModel(settings: LanguageModelSettings, token: vscode.CancellationToken): Promise<vscode.LanguageModelChat>;
+}
+
+/**
+ * Service for selecting the language model of a request
+ */
+export class LanguageModelService {
+    /**
+     * Output channel for logging
+     */
+    private outputChannel: vscode.OutputChannel;
+
+    /**
+     * Providers by name
+     */
+    private providers = new Map<string, LanguageModelProvider>();
+
+    /**
+     * Creates a new language model service with the built-in providers
+     *
+     * @param outputChannel - The output channel for logging
+     */
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        this.providers.set('vscode', { selectModel: settings => this.selectVsCodeModel(settings) });
+        this.providers.set('openai-compatible', { selectModel: async settings => this.createOpenAiCompatibleModel(settings) });
+        this.providers.set('replay', { selectModel: async settings => this.createReplayModel(settings) });
+    }
+
+    /**
+     * Adds a provider, selected with `perfcopilot.model.provider` set to its name.
+     *
+     * @param name - Name of the provider; replaces a provider with the same name
+     * @param provider - The provider
+     * @returns A disposable that removes the provider
+     */
+    public registerProvider(name: string, provider: LanguageModelProvider): vscode.Disposable {
+        this.providers.set(name, provider);
+        return {
+            dispose: () => {
+                if (this.providers.get(name) === provider) {
+                    this.providers.delete(name);
+                }
+            }
+        };
+    }
+
+    /**
+     * Reads the `perfcopilot.model.*` settings.
+     *
+     * @returns The settings, with the fixture path resolved against the first workspace folder
+     */
+    public getSettings(): LanguageModelSettings {
+        const config = vscode.workspace.getConfiguration('perfcopilot');
+        const fixture = config.get<string>('model.fixture', DEFAULT_MODEL_FIXTURE) || DEFAULT_MODEL_FIXTURE;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return {
+            provider: config.get<string>('model.provider', 'vscode') || 'vscode',
+            vendor: config.get<string>('model.vendor', DEFAULT_MODEL_VENDOR) ?? '',
+            family: config.get<string>('model.family', DEFAULT_MODEL_FAMILY) ?? '',
+            endpoint: config.get<string>('model.endpoint', DEFAULT_MODEL_ENDPOINT) || DEFAULT_MODEL_ENDPOINT,
+            name: config.get<string>('model.name', '') ?? '',
+            fixture: path.isAbsolute(fixture) || !workspaceFolder ? fixture : path.join(workspaceFolder.uri.fsPath, fixture),
+            record: config.get<boolean>('model.record', false) === true
+        };
+    }
+
+    /**
+     * Returns the settings of a stage: the `perfcopilot.model.*` settings with those of the stage in
+     * `perfcopilot.model.stages`. With the replay provider every stage answers from the fixture, so
+     * the stage settings are ignored.
+     *
+     * @param stage - The stage
+     * @returns The settings of the stage
+     */
+    public getStageSettings(stage: ModelStage): LanguageModelSettings {
+        const settings = this.getSettings();
+        if (settings.provider === 'replay') {
+            return settings;
+        }
+        const override = this.getStageOverrides()[stage] ?? {};
+        const merged = { ...settings };
+        for (const key of ['provider', 'vendor', 'family', 'endpoint', 'name'] as const) {
+            if (typeof override[key] === 'string') {
+                merged[key] = override[key]!;
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Selects the model of the configured provider, recording it if `perfcopilot.model.record` is set.
+     *
+     * @param token - Cancellation token
+     * @returns The model
+     * @throws If the provider is unknown or has no model
+     */
+    public async selectModel(token: vscode.CancellationToken): Promise<vscode.LanguageModelChat> {
+        return this.selectModelWith(this.getSettings(), token);
+    }
+
+    /**
+     * Selects the model of each stage. Stages with the same settings share the model.
+     *
+     * @param token - Cancellation token
+     * @returns The models of the stages
+     * @throws If the model of a stage cannot be selected
+     */
+    public async selectStageModels(token: vscode.CancellationToken): Promise<StageModels> {
+        const selected = new Map<string, vscode.LanguageModelChat>();
+        const models: Partial<Record<ModelStage, vscode.LanguageModelChat>> = {};
+        for (const stage of MODEL_STAGES) {
+            const settings = this.getStageSettings(stage);
+            const key = JSON.stringify([settings.provider, settings.vendor, settings.family, settings.endpoint, settings.name]);
+            let model = selected.get(key);
+            if (!model) {
+                model = await this.selectModelWith(settings, token);
+                selected.set(key, model);
+            }
+            models[stage] = model;
+        }
+        if (selected.size > 1) {
+            this.outputChannel.appendLine(`Stage models: ${MODEL_STAGES.map(stage => `${stage}=${models[stage]!.vendor}/${models[stage]!.name}`).join(', ')}`);
+        }
+        return new StageModels(models as Record<ModelStage, vscode.LanguageModelChat>);
+    }
+
+    /**
+     * Lets the user choose the `vscode.lm` model of a stage, or of all stages, with quick picks and
+     * saves the choice in `perfcopilot.model.stages` (user settings).
+     *
+     * @returns Whether a model was chosen
+     */
+    public async pickStageModel(): Promise<boolean> {
+        const overrides = this.getStageOverrides();
+        const describe = (stage: ModelStage) => {
+            const override = overrides[stage];
+            return override ? Object.values(override).filter(Boolean).join(' / ') : 'Default';
+        };
+        const stageItem = await vscode.window.showQuickPick(
+            [
+                { label: 'All stages', stages: MODEL_STAGES },
+                ...MODEL_STAGES.map(stage => ({ label: STAGE_LABELS[stage], description: describe(stage), stages: [stage] }))
+            ],
+            { placeHolder: 'Select the stage to choose a model for' }
+        );
+        if (!stageItem) {
+            return false;
+        }
+
+        const available = await vscode.lm.selectChatModels();
+        const modelItem = await vscode.window.showQuickPick(
+            [
+                { label: 'Default', description: 'Use the perfcopilot.model settings' },
+                ...available.map(model => ({ label: model.name, description: `${model.vendor} / ${model.family}`, model }))
+            ],
+            { placeHolder: `Select the model of ${stageItem.label.toLowerCase()}` }
+        );
+        if (!modelItem) {
+            return false;
+        }
+
+        const updated = { ...overrides };
+        for (const stage of stageItem.stages) {
+            if ('model' in modelItem && modelItem.model) {
+                updated[stage] = { provider: 'vscode', vendor: modelItem.model.vendor, family: modelItem.model.family };
+            } else {
+                delete updated[stage];
+            }
+        }
+        await vscode.workspace.getConfiguration('perfcopilot').update('model.stages', updated, vscode.ConfigurationTarget.Global);
+        this.outputChannel.appendLine(`Stage models set to ${JSON.stringify(updated)}`);
+        vscode.window.showInformationMessage(`PerfCopilot will use ${'model' in modelItem && modelItem.model ? modelItem.model.name : 'the default model'} for ${stageItem.label.toLowerCase()}.`);
+        return true;
+    }
+
+    /**
+     * Reads `perfcopilot.model.stages`, ignoring entries that are not stages.
+     */
+    private getStageOverrides(): Partial<Record<ModelStage, StageModelSettings>> {
+        const configured = vscode.workspace.getConfiguration('perfcopilot').get<Record<string, StageModelSettings>>('model.stages', {});
+        const overrides: Partial<Record<ModelStage, StageModelSettings>> = {};
+        for (const stage of MODEL_STAGES) {
+            const override = configured?.[stage];
+            if (override && typeof override === 'object') {
+                overrides[stage] = override;
+            }
+        }
+        return overrides;
+    }
+
+    /**
+     * Selects the model of the given settings' provider, recording it if the settings say so.
+     */
+    private async selectModelWith(settings: LanguageModelSettings, token: vscode.CancellationToken): Promise<vscode.LanguageModelChat> {
+        const provider = this.providers.get(settings.provider);
+        if (!provider) {
+            throw new Error(`Unknown language model provider "${settings.provider}". Known providers: ${Array.from(this.providers.keys()).join(', ')}.`);
+        }
+
+        const model = await provider.selectModel(settings, token);
+        this.outputChannel.appendLine(`Selected language model: ${model.vendor}/${model.name} (provider ${settings.provider})`);
+        if (!settings.record || settings.provider === 'replay') {
+            return model;
+        }
+        this.outputChannel.appendLine(`Recording the exchanges with the model to ${settings.fixture}`);
+        return new PipelineChatModel(new RecordingLanguageModel(new VsCodeLanguageModel(model, this.outputChannel), this.requireAbsolute(settings.fixture)));
+    }
+
+    /**
+     * Selects a `vscode.lm` model of the configured vendor and family, falling back to any vendor
+     * of the family.
+     */
+    private async selectVsCodeModel(settings: LanguageModelSettings): Promise<vscode.LanguageModelChat> {
+        const selector: vscode.LanguageModelChatSelector = {
+            ...(settings.vendor ? { vendor: settings.vendor } : {}),
+            ...(settings.family ? { family: settings.family } : {})
+        };
+        const models = await vscode.lm.selectChatModels(selector);
+        if (models.length > 0) {
+            return models[0];
+        }
+        if (settings.vendor && settings.family) {
+            const fallbackModels = await vscode.lm.selectChatModels({ family: settings.family });
+            if (fallbackModels.length > 0) {
+                this.outputChannel.appendLine(`No ${settings.vendor} model of family ${settings.family}; falling back to another vendor.`);
+                return fallbackModels[0];
+            }
+        }
+        throw new Error(`No suitable language model found (vendor "${settings.vendor || 'any'}", family "${settings.family || 'any'}"). Check the perfcopilot.model.vendor and perfcopilot.model.family settings.`);
+    }
+
+    /**
+     * Creates the client of the configured OpenAI-compatible endpoint.
+     */
+    private createOpenAiCompatibleModel(settings: LanguageModelSettings): vscode.LanguageModelChat {
+        if (!settings.name) {
+            throw new Error('Set perfcopilot.model.name to the name of the model on the OpenAI-compatible server.');
+        }
+        return new PipelineChatModel(new OpenAiCompatibleLanguageModel({
+            endpoint: settings.endpoint,
+            model: settings.name,
+            apiKey: process.env.PERFCOPILOT_API_KEY || process.env.OPENAI_API_KEY || undefined
+        }));
+    }
+
+    /**
+     * Creates a model that answers from the configured fixture.
+     */
+    private createReplayModel(settings: LanguageModelSettings): vscode.LanguageModelChat {
+        const fixture = this.requireAbsolute(settings.fixture);
+        const exchanges = readFixture(fixture);
+        this.outputChannel.appendLine(`Replaying ${exchanges.length} recorded exchanges from ${fixture}`);
+        return new PipelineChatModel(new ReplayLanguageModel(exchanges));
+    }
+
+    /**
+     * Returns the fixture path if it is absolute.
+     *
+     * @throws If the path is relative and no workspace folder is open to resolve it against
+     */
+    private requireAbsolute(fixture: string): string {
+        if (!path.isAbsolute(fixture)) {
+            throw new Error(`Cannot resolve the fixture ${fixture} without an open workspace folder. Set perfcopilot.model.fixture to an absolute path.`);
+        }
+        return fixture;
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Async Execution Helpers for vm Sandboxes
+ *
+ * Implementations are executed in `vm` contexts by the correctness verifier and the benchmark
+ * runner. Async implementations need two things the bare contexts do not provide:
+ * - Timer globals (`setTimeout`, `setImmediate`, ...), which are not part of a new context.
+ *   `createSandboxTimers` provides them and tracks pending timers, so a call that timed out
+ *   does not leave its timers running.
+ * - A way to wait for the returned promise with a time limit, since `vm` timeouts only cover
+ *   synchronous execution. Promises created in another context fail `instanceof Promise`,
+ *   so results are recognized with `isThenable`.
+ */
+
+/**
+ * Timer globals for a vm context, plus a way to cancel everything they scheduled.
+ */
+export interface SandboxTimers {
+    /**
+     * Globals to spread into the context object
+     */
+    globals: Record<string, (...args: any[]) => any>;
+
+    /**
+     * Cancels every timer, interval and immediate that is still pending
+     */
+    clearAll(): void;
+}
+
+/**
+ * Creates tracked timer globals for a vm context.
+ *
+ * @returns The globals and a function cancelling all pending timers
+ */
+export function createSandboxTimers(): SandboxTimers {
+    const timeouts = new Set<NodeJS.Timeout>();
+    const immediates = new Set<NodeJS.Immediate>();
+
+    return {
+        globals: {
+            setTimeout: (callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
+                const handle = setTimeout((...callbackArgs: any[]) => {
+                    timeouts.delete(handle);
+                    callback(...callbackArgs);
+                }, ms, ...args);
+                timeouts.add(handle);
+                return handle;
+            },
+            clearTimeout: (handle: NodeJS.Timeout) => {
+                timeouts.delete(handle);
+                clearTimeout(handle);
+            },
+            setInterval: (callback: (...args: any[]) => void, ms?: number, ...args: any[]) => {
+                const handle = setInterval(callback, ms, ...args);
+                timeouts.add(handle);
+                return handle;
+            },
+            clearInterval: (handle: NodeJS.Timeout) => {
+                timeouts.delete(handle);
+                clearInterval(handle);
+            },
+            setImmediate: (callback: (...args: any[]) => void, ...args: any[]) => {
+                const handle = setImmediate((...callbackArgs: any[]) => {
+                    immediates.delete(handle);
+                    callback(...callbackArgs);
+                }, ...args);
+                immediates.add(handle);
+                return handle;
+            },
+            clearImmediate: (handle: NodeJS.Immediate) => {
+                immediates.delete(handle);
+                clearImmediate(handle);
+            },
+            queueMicrotask: (callback: () => void) => queueMicrotask(callback),
+        },
+        clearAll: () => {
+            timeouts.forEach(handle => clearTimeout(handle));
+            immediates.forEach(handle => clearImmediate(handle));
+            timeouts.clear();
+            immediates.clear();
+        },
+    };
+}
+
+/**
+ * Whether a value is a promise-like object (works for promises from any vm context).
+ *
+ * @param value - The value to check
+ * @returns True if the value has a callable `then`
+ */
+export function isThenable(value: any): value is PromiseLike<any> {
+    return value !== null && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function';
+}
+
+/**
+ * Waits for a promise to settle, failing if it takes longer than `timeoutMs`.
+ *
+ * @param value - The promise to wait for
+ * @param timeoutMs - Time limit in milliseconds
+ * @param label - Name used in the timeout error message
+ * @returns The resolved value
+ * @throws The rejection reason, or an Error if the time limit is exceeded
+ */
+export function settleWithin<T>(value: PromiseLike<T>, timeoutMs: number, label: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            reject(new Error(`${label} did not settle within ${timeoutMs}ms`));
+        }, timeoutMs);
+        Promise.resolve(value).then(
+            result => {
+                clearTimeout(timer);
+                resolve(result);
+            },
+            error => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
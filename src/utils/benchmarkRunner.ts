@@ -42,6 +42,30 @@
  *    - This ensures the timed portion *only* contains the function call itself, leading to 
  *      accurate and high ops/sec measurements.
  * 
+ * Complexity Mode (optional):
+ *    - If the module also exports `complexity = { factory, sizes }`, every implementation is timed
+ *      at each size produced by the data factory before the Benny suite runs. The timings are
+ *      reported in the `complexity` block of the results payload.
+ * 
+ * Async Implementations:
+ *    - Each implementation is called once after pre-compilation; those returning a promise are
+ *      benchmarked as deferred Benny cases (every call is awaited), so ops/sec covers the time
+ *      until the promise settles. A promise that rejects or does not settle fails the run.
+ *    - A separate pass splits their time per call into the synchronous part (until the promise is
+ *      returned) and the time to resolve. The complexity and memory passes skip async implementations.
+ * 
+ * Memory Pass (optional):
+ *    - If the module exports `memory = true` and the runner was started with `--expose-gc`, heap
+ *      usage, bytes allocated per call, retained size and GC count/time (`perf_hooks`) are measured
+ *      for each implementation before the Benny suite runs, and merged into its result item.
+ * 
+ * Structured Results (`RESULTS_JSON:`):
+ *    - When the suite completes, the runner prints one `RESULTS_JSON:` line containing a versioned
+ *      payload (ops/sec, margin, samples, mean, deviation and raw sample timings per implementation,
+ *      plus environment).
+ *      The contract is defined in `resultsProtocol.ts`. The `cycle:`/`complete:` lines are still
+ *      printed for the legacy text parser in BenchmarkService.
+ * 
  * IMPORTANCE:
  * ----------- 
  * Modifying or removing the argument determination or function pre-compilation logic 
@@ -58,6 +82,12 @@ const benny = require('benny');
 const path = require('path');
 const fs = require('fs');
 const vm = require('vm');
+const os = require('os');
+const perfHooks = require('perf_hooks');
+
+import { AsyncTiming, BenchmarkEnvironment, BenchmarkResultsPayload, ComplexityMeasurements, MemoryMeasurement } from '../models/types';
+import { formatResultsLine, RESULTS_SCHEMA_VERSION } from './resultsProtocol';
+import { createSandboxTimers, isThenable, settleWithin } from './asyncExecution';
 
 // !!! CRITICAL SECTION START: BENCHMARK ACCURACY SETUP !!!
 // The following sections (Argument Determination, Function Pre-compilation) 
@@ -131,6 +161,8 @@ export function compileImplementations(
                  // Basic safe globals
                  console: { log: () => {}, warn: () => {}, error: () => {} }, // Prevent benchmarked code logging
                  math: Math,
+                 // Timer globals so async implementations can schedule work
+                 ...createSandboxTimers().globals,
                  // Add other safe globals if needed, but avoid anything complex/stateful
             };
             vm.createContext(context);
@@ -159,6 +191,416 @@ export function compileImplementations(
 }
 // +++ END REFACTOR HELPER FUNCTION +++
 
+// +++ START HELPER FUNCTION: Complexity Mode +++
+/**
+ * Time budget (ms) spent measuring one implementation at one input size.
+ */
+const COMPLEXITY_BUDGET_MS = 100;
+
+/**
+ * Sizes whose predicted time per call exceeds this cap (ms) are skipped.
+ */
+const COMPLEXITY_MAX_CALL_MS = 1000;
+
+/**
+ * Measures the mean wall-clock time of a single call, repeating the call until
+ * the time budget is spent. One untimed warm-up call is made first.
+ * @param funcToRun - The pre-compiled function.
+ * @param args - The pre-determined arguments.
+ * @param budgetMs - The time budget in milliseconds.
+ * @returns Mean seconds per call.
+ */
+export function measureTimePerCall(funcToRun: (...args: any[]) => any, args: any[], budgetMs: number = COMPLEXITY_BUDGET_MS): number {
+    funcToRun(...args);
+    const budgetNs = BigInt(Math.round(budgetMs * 1e6));
+    const start = process.hrtime.bigint();
+    let iterations = 0;
+    let elapsed = BigInt(0);
+    do {
+        funcToRun(...args);
+        iterations++;
+        elapsed = process.hrtime.bigint() - start;
+    } while (elapsed < budgetNs);
+    return Number(elapsed) / 1e9 / iterations;
+}
+
+/**
+ * Runs the complexity pass: every implementation is timed at each input size produced
+ * by the size-parameterized data factory. Data generation and argument determination happen
+ * OUTSIDE the timed calls. Once an implementation becomes too slow, larger sizes are skipped
+ * for it (recorded as null) using a pessimistic quadratic extrapolation.
+ * @param complexityConfig - `{ factory, sizes }` exported by the benchmark module.
+ * @param preparedFunctions - The pre-compiled implementations.
+ * @returns The measurements for the results payload.
+ * @throws Error if the factory cannot be evaluated.
+ */
+export function runComplexityPass(
+    complexityConfig: { factory: string; sizes: number[] },
+    preparedFunctions: Map<string, (...args: any[]) => any>
+): ComplexityMeasurements {
+    const sizes = complexityConfig.sizes;
+    const factory = vm.runInNewContext(`(${complexityConfig.factory})`, {}, { timeout: 1000 });
+    if (typeof factory !== 'function') {
+        throw new Error('Complexity data factory did not evaluate to a function.');
+    }
+
+    const series = Array.from(preparedFunctions.keys()).map(name => ({ name, times: [] as Array<number | null> }));
+    const previous = new Map<string, { size: number; time: number }>();
+
+    for (const size of sizes) {
+        const args = determineArguments(factory(size));
+        for (const entry of series) {
+            const last = previous.get(entry.name);
+            const predictedMs = last ? last.time * Math.pow(size / last.size, 2) * 1000 : 0;
+            if (entry.times.includes(null) || predictedMs > COMPLEXITY_MAX_CALL_MS) {
+                console.log(`[BenchmarkRunner Complexity] Skipping ${entry.name} at n=${size} (predicted ${predictedMs.toFixed(0)}ms per call).`);
+                entry.times.push(null);
+                continue;
+            }
+            const time = measureTimePerCall(preparedFunctions.get(entry.name)!, args);
+            console.log(`[BenchmarkRunner Complexity] ${entry.name} n=${size}: ${time}s per call`);
+            entry.times.push(time);
+            previous.set(entry.name, { size, time });
+        }
+    }
+    return { sizes, series };
+}
+// +++ END HELPER FUNCTION: Complexity Mode +++
+
+// +++ START HELPER FUNCTION: Memory Pass +++
+/**
+ * Number of calls in the GC-observed loop of the memory pass (also serves as warm-up).
+ */
+const MEMORY_LOOP_CALLS = 1000;
+
+/**
+ * Number of batches (each right after a forced GC) used to estimate allocation per call.
+ */
+const MEMORY_ALLOCATION_BATCHES = 10;
+
+/**
+ * Smallest and largest number of calls per allocation batch.
+ */
+const MEMORY_MIN_BATCH_SIZE = 100;
+const MEMORY_MAX_BATCH_SIZE = 25600;
+
+/**
+ * Heap growth a batch should reach. `heapUsed` moves in allocation-buffer sized steps, so small
+ * batches are dominated by rounding; much larger ones would trigger a scavenge mid-batch.
+ */
+const MEMORY_TARGET_BATCH_BYTES = 512 * 1024;
+
+/**
+ * Heap growth of one allocation batch and the time window it ran in.
+ */
+interface AllocationBatch {
+    start: number;
+    end: number;
+    delta: number;
+}
+
+/**
+ * Runs one allocation batch: a forced GC followed by `size` calls, recording the heap growth
+ * and the `performance.now()` window of the calls.
+ */
+function runAllocationBatch(funcToRun: (...args: any[]) => any, args: any[], gc: () => void, size: number): AllocationBatch {
+    gc();
+    const start = perfHooks.performance.now();
+    const heapStart = process.memoryUsage().heapUsed;
+    for (let i = 0; i < size; i++) {
+        funcToRun(...args);
+    }
+    const delta = process.memoryUsage().heapUsed - heapStart;
+    return { start, end: perfHooks.performance.now(), delta };
+}
+
+/**
+ * Picks the batch size: grows it until a batch reaches `MEMORY_TARGET_BATCH_BYTES`
+ * (or `MEMORY_MAX_BATCH_SIZE` calls for functions that barely allocate).
+ */
+function chooseAllocationBatchSize(funcToRun: (...args: any[]) => any, args: any[], gc: () => void): number {
+    let size = MEMORY_MIN_BATCH_SIZE;
+    while (size < MEMORY_MAX_BATCH_SIZE && runAllocationBatch(funcToRun, args, gc, size).delta < MEMORY_TARGET_BATCH_BYTES) {
+        size *= 4;
+    }
+    return Math.min(size, MEMORY_MAX_BATCH_SIZE);
+}
+
+/**
+ * Median heap growth of the batches during which V8 did not collect garbage on its own.
+ */
+function medianCleanBatch(batches: AllocationBatch[], gcEntries: any[]): number {
+    const deltas = batches
+        .filter(batch => !gcEntries.some(entry => entry.startTime >= batch.start && entry.startTime <= batch.end))
+        .map(batch => batch.delta)
+        .sort((a, b) => a - b);
+    return deltas.length > 0 ? deltas[Math.floor(deltas.length / 2)] : 0;
+}
+
+/**
+ * Waits for pending `gc` performance entries, which are delivered asynchronously.
+ */
+function flushGcEntries(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+/**
+ * Measures the memory behaviour of one implementation. Requires `global.gc` (`--expose-gc`).
+ * - Heap before/after and GC count/time: an unforced loop of calls, observing `gc` performance
+ *   entries (`perf_hooks`). This loop also warms the function up.
+ * - Allocation per call: median heap growth of a batch of calls made right after a forced GC,
+ *   minus the growth of an empty batch (measurement overhead), divided by the batch size.
+ *   Batches overlapping a GC are discarded.
+ * - Retained size: heap growth across a full GC while one call's result is kept alive.
+ * @param funcToRun - The pre-compiled function.
+ * @param args - The pre-determined arguments.
+ * @param gc - The exposed garbage collector.
+ * @returns The memory measurement.
+ */
+export async function measureMemory(funcToRun: (...args: any[]) => any, args: any[], gc: () => void): Promise<MemoryMeasurement> {
+    const gcEntries: any[] = [];
+    const observer = new perfHooks.PerformanceObserver((list: any) => gcEntries.push(...list.getEntries()));
+    observer.observe({ entryTypes: ['gc'] });
+
+    try {
+        gc();
+        await flushGcEntries();
+        const loopStart = perfHooks.performance.now();
+        const heapUsedBefore = process.memoryUsage().heapUsed;
+        for (let i = 0; i < MEMORY_LOOP_CALLS; i++) {
+            funcToRun(...args);
+        }
+        const heapUsedAfter = process.memoryUsage().heapUsed;
+        const loopEnd = perfHooks.performance.now();
+
+        const batchSize = chooseAllocationBatchSize(funcToRun, args, gc);
+        const overheadBatches: AllocationBatch[] = [];
+        const callBatches: AllocationBatch[] = [];
+        for (let batch = 0; batch < MEMORY_ALLOCATION_BATCHES; batch++) {
+            overheadBatches.push(runAllocationBatch(() => undefined, [], gc, batchSize));
+            callBatches.push(runAllocationBatch(funcToRun, args, gc, batchSize));
+        }
+        await flushGcEntries();
+
+        const loopEntries = gcEntries.filter(entry => entry.startTime >= loopStart && entry.startTime <= loopEnd);
+        const overhead = medianCleanBatch(overheadBatches, gcEntries);
+        const allocatedBytesPerCall = Math.max(0, medianCleanBatch(callBatches, gcEntries) - overhead) / batchSize;
+
+        gc();
+        const baseline = process.memoryUsage().heapUsed;
+        const kept = funcToRun(...args);
+        gc();
+        const retainedBytes = Math.max(0, process.memoryUsage().heapUsed - baseline);
+        // Keep the result reachable until after the second collection
+        void kept;
+
+        return {
+            heapUsedBefore,
+            heapUsedAfter,
+            allocatedBytesPerCall,
+            retainedBytes,
+            gcCount: loopEntries.length,
+            gcTimeMs: loopEntries.reduce((sum, entry) => sum + entry.duration, 0),
+        };
+    } finally {
+        observer.disconnect();
+    }
+}
+
+/**
+ * Runs the memory pass for every implementation.
+ * @param preparedFunctions - The pre-compiled implementations.
+ * @param args - The pre-determined arguments.
+ * @returns Measurements keyed by implementation name, or undefined if `global.gc` is not exposed.
+ */
+export async function runMemoryPass(
+    preparedFunctions: Map<string, (...args: any[]) => any>,
+    args: any[]
+): Promise<Record<string, MemoryMeasurement> | undefined> {
+    const gc = (global as any).gc;
+    if (typeof gc !== 'function') {
+        console.error('[BenchmarkRunner Memory] global.gc is not available (run node with --expose-gc). Skipping memory pass.');
+        return undefined;
+    }
+    const measurements: Record<string, MemoryMeasurement> = {};
+    for (const [name, funcToRun] of preparedFunctions) {
+        measurements[name] = await measureMemory(funcToRun, args, gc);
+        console.log(`[BenchmarkRunner Memory] ${name}: ${JSON.stringify(measurements[name])}`);
+    }
+    return measurements;
+}
+// +++ END HELPER FUNCTION: Memory Pass +++
+
+// +++ START HELPER FUNCTION: Async Implementations +++
+/**
+ * Time limit (ms) for the promise of the probe call to settle.
+ */
+const ASYNC_SETTLE_TIMEOUT_MS = 2000;
+
+/**
+ * Time budget (ms) spent measuring the sync/resolve split of one async implementation.
+ */
+const ASYNC_TIMING_BUDGET_MS = 200;
+
+/**
+ * Finds the implementations that return a promise by calling each one once. The promise of
+ * that probe call is awaited, so an implementation that rejects or never settles is reported
+ * before the Benny suite (whose deferred cases would otherwise wait forever).
+ * Synchronous errors are ignored here and surface in the suite as before.
+ * @param preparedFunctions - The pre-compiled implementations.
+ * @param args - The pre-determined arguments.
+ * @returns The names of the async implementations.
+ * @throws Error if an async implementation rejects or does not settle in time.
+ */
+export async function detectAsyncImplementations(
+    preparedFunctions: Map<string, (...args: any[]) => any>,
+    args: any[]
+): Promise<Set<string>> {
+    const asyncKeys = new Set<string>();
+    for (const [name, funcToRun] of preparedFunctions) {
+        let result: any;
+        try {
+            result = funcToRun(...args);
+        } catch {
+            continue;
+        }
+        if (!isThenable(result)) {
+            continue;
+        }
+        try {
+            await settleWithin(result, ASYNC_SETTLE_TIMEOUT_MS, 'Its promise');
+        } catch (error) {
+            throw new Error(`Async implementation '${name}' failed: ${error instanceof Error ? error.message : error}`);
+        }
+        asyncKeys.add(name);
+    }
+    return asyncKeys;
+}
+
+/**
+ * Measures how long an async implementation spends before returning its promise (sync part)
+ * and how long the promise then takes to settle, awaiting calls one at a time until the time
+ * budget is spent. One untimed warm-up call is awaited first.
+ * @param funcToRun - The pre-compiled async function.
+ * @param args - The pre-determined arguments.
+ * @param budgetMs - The time budget in milliseconds.
+ * @returns Mean sync and resolve time per call, in milliseconds.
+ */
+export async function measureAsyncTiming(
+    funcToRun: (...args: any[]) => any,
+    args: any[],
+    budgetMs: number = ASYNC_TIMING_BUDGET_MS
+): Promise<AsyncTiming> {
+    await funcToRun(...args);
+    const budgetNs = BigInt(Math.round(budgetMs * 1e6));
+    const start = process.hrtime.bigint();
+    let calls = 0;
+    let syncNs = BigInt(0);
+    let totalNs = BigInt(0);
+    do {
+        const callStart = process.hrtime.bigint();
+        const pending = funcToRun(...args);
+        const returned = process.hrtime.bigint();
+        await pending;
+        const settled = process.hrtime.bigint();
+        syncNs += returned - callStart;
+        totalNs += settled - callStart;
+        calls++;
+    } while (process.hrtime.bigint() - start < budgetNs);
+
+    return {
+        isAsync: true,
+        syncTimeMs: Number(syncNs) / 1e6 / calls,
+        resolveTimeMs: Number(totalNs - syncNs) / 1e6 / calls,
+    };
+}
+
+/**
+ * Runs the sync/resolve timing pass for every async implementation.
+ * @param preparedFunctions - The pre-compiled implementations.
+ * @param asyncKeys - Names of the async implementations.
+ * @param args - The pre-determined arguments.
+ * @returns Timings keyed by implementation name.
+ */
+export async function runAsyncTimingPass(
+    preparedFunctions: Map<string, (...args: any[]) => any>,
+    asyncKeys: Set<string>,
+    args: any[]
+): Promise<Record<string, AsyncTiming>> {
+    const timings: Record<string, AsyncTiming> = {};
+    for (const name of asyncKeys) {
+        timings[name] = await measureAsyncTiming(preparedFunctions.get(name)!, args);
+        console.log(`[BenchmarkRunner Async] ${name}: ${JSON.stringify(timings[name])}`);
+    }
+    return timings;
+}
+// +++ END HELPER FUNCTION: Async Implementations +++
+
+// +++ START HELPER FUNCTION: Structured Results +++
+/**
+ * Collects details about the runtime and machine the benchmark is executing on.
+ * @returns The environment block for the results payload.
+ */
+export function collectEnvironment(): BenchmarkEnvironment {
+    const cpus = os.cpus() || [];
+    return {
+        node: process.version,
+        v8: process.versions.v8,
+        platform: process.platform,
+        arch: process.arch,
+        cpuModel: cpus.length > 0 ? cpus[0].model : 'unknown',
+        cpuCount: cpus.length,
+        totalMemory: os.totalmem(),
+        timestamp: new Date().toISOString(),
+    };
+}
+
+/**
+ * Converts Benny's completion summary into the versioned results payload
+ * emitted on the `RESULTS_JSON:` line (see `resultsProtocol.ts`).
+ * Benny reports `margin` as a percentage; the payload uses a decimal (0.01 for 1%).
+ * @param summary - The summary object passed to the `benny.complete` handler.
+ * @param environment - The environment block (defaults to the current process).
+ * @param complexity - Complexity-mode measurements, if that pass was run.
+ * @param memory - Memory pass measurements keyed by implementation name, if that pass was run.
+ * @param asyncTiming - Sync/resolve timings of the async implementations, keyed by name.
+ * @returns The results payload.
+ */
+export function buildResultsPayload(
+    summary: any,
+    environment: BenchmarkEnvironment = collectEnvironment(),
+    complexity?: ComplexityMeasurements,
+    memory?: Record<string, MemoryMeasurement>,
+    asyncTiming?: Record<string, AsyncTiming>
+): BenchmarkResultsPayload {
+    const results = (summary?.results || []).map((result: any) => ({
+        name: String(result.name),
+        ops: Number(result.ops) || 0,
+        margin: (Number(result.margin) || 0) / 100,
+        samples: Number(result.samples) || 0,
+        mean: Number(result.details?.mean) || 0,
+        deviation: Number(result.details?.standardDeviation) || 0,
+        sampleTimes: Array.isArray(result.details?.sampleResults)
+            ? result.details.sampleResults.filter((time: any) => typeof time === 'number' && Number.isFinite(time))
+            : [],
+        ...(memory && memory[result.name] ? memory[result.name] : {}),
+        ...(asyncTiming && asyncTiming[result.name] ? asyncTiming[result.name] : {}),
+    }));
+
+    const fastest = results.reduce((best: any, current: any) => {
+        return (!best || current.ops > best.ops) ? current : best;
+    }, null);
+
+    return {
+        version: RESULTS_SCHEMA_VERSION,
+        fastest: fastest ? fastest.name : 'Unknown',
+        results,
+        environment,
+        ...(complexity ? { complexity } : {}),
+    };
+}
+// +++ END HELPER FUNCTION: Structured Results +++
+
 // Wrap the main logic in an async function to allow awaiting Benny's completion
 // Export for testing
 export async function runBenchmarks(functionsFilePath: string, _mockModule?: Record<string, any>) {
@@ -270,7 +712,8 @@ export async function runBenchmarks(functionsFilePath: string, _mockModule?: Rec
             const context = {
                 // Include necessary globals if functions depend on them, but NOT testData here
                  console: { log: () => {}, warn: () => {}, error: () => {} },
-                 math: Math
+                 math: Math,
+                 ...createSandboxTimers().globals
             };
             vm.createContext(context);
             // Run the code to define the function in the context
@@ -288,8 +731,59 @@ export async function runBenchmarks(functionsFilePath: string, _mockModule?: Rec
         }
     }
     console.log('[BenchmarkRunner] All functions pre-compiled.');
+
+    // Promise-returning implementations are benchmarked as deferred cases (see benny.add below)
+    let asyncKeys: Set<string>;
+    try {
+        asyncKeys = await detectAsyncImplementations(preparedFunctions, argsForRun);
+    } catch (asyncError) {
+        console.error(`BENCHMARK_ERROR: ${asyncError instanceof Error ? asyncError.message : asyncError}`);
+        process.exit(1);
+    }
+    if (asyncKeys.size > 0) {
+        console.log(`[BenchmarkRunner] Async implementations: ${Array.from(asyncKeys).join(', ')}`);
+    }
     // --- END: Prepare functions and arguments outside the loop ---
 
+    // The complexity and memory passes call implementations synchronously, so they only cover sync ones
+    const syncFunctions = new Map(Array.from(preparedFunctions).filter(([implKey]) => !asyncKeys.has(implKey)));
+
+    // Optional complexity pass (runs before the Benny suite, results are reported with it)
+    let complexityMeasurements: ComplexityMeasurements | undefined;
+    if (loadedModule.complexity && syncFunctions.size > 0) {
+        try {
+            console.log('[BenchmarkRunner] Running complexity pass...');
+            complexityMeasurements = runComplexityPass(loadedModule.complexity, syncFunctions);
+        } catch (complexityError) {
+            // Not fatal: the regular benchmark still runs without complexity data
+            console.error(`[BenchmarkRunner] Complexity pass failed: ${complexityError instanceof Error ? complexityError.message : complexityError}`);
+        }
+    }
+
+    // Optional memory pass (needs --expose-gc; results are merged into the result items)
+    let memoryMeasurements: Record<string, MemoryMeasurement> | undefined;
+    if (loadedModule.memory && syncFunctions.size > 0) {
+        try {
+            console.log('[BenchmarkRunner] Running memory pass...');
+            memoryMeasurements = await runMemoryPass(syncFunctions, argsForRun);
+        } catch (memoryError) {
+            // Not fatal: the regular benchmark still runs without memory data
+            console.error(`[BenchmarkRunner] Memory pass failed: ${memoryError instanceof Error ? memoryError.message : memoryError}`);
+        }
+    }
+
+    // Sync/resolve split of the async implementations (merged into the result items)
+    let asyncTimings: Record<string, AsyncTiming> | undefined;
+    if (asyncKeys.size > 0) {
+        try {
+            console.log('[BenchmarkRunner] Running async timing pass...');
+            asyncTimings = await runAsyncTimingPass(preparedFunctions, asyncKeys, argsForRun);
+        } catch (asyncError) {
+            // Not fatal: ops/sec from the suite still covers the awaited calls
+            console.error(`[BenchmarkRunner] Async timing pass failed: ${asyncError instanceof Error ? asyncError.message : asyncError}`);
+        }
+    }
+
     // Revert to passing handlers as arguments to benny.suite
     try {
         console.log('[BenchmarkRunner] Setting up Benny suite using argument handlers...');
@@ -299,9 +793,19 @@ export async function runBenchmarks(functionsFilePath: string, _mockModule?: Rec
         benny.suite( 
             'Function Performance Benchmark',
             // Map over implementation keys ('Original', 'Alternative 1', ...)
-            ...implementationKeys.map(implKey =>
+            ...implementationKeys.map(implKey => asyncKeys.has(implKey)
+                 // Async: returning a promise-returning function makes Benny run a deferred case,
+                 // which waits for each call's promise before starting the next one
+                 ? benny.add(implKey, () => () => {
+                    const funcToRun = preparedFunctions.get(implKey)!;
+                    return Promise.resolve(funcToRun(...argsForRun)).catch((execError: any) => {
+                        // A rejected deferred case never completes; fail the run instead of hanging
+                        console.error(`BENCHMARK_ITERATION_ERROR: ${implKey} rejected: ${execError instanceof Error ? execError.message : execError}`);
+                        process.exit(1);
+                    });
+                 })
                  // Return the benny.add() call from the map function
-                 benny.add(implKey, () => {
+                 : benny.add(implKey, () => {
                     // --- START: benny.add callback --- 
                     // !!! CRITICAL LOGIC: Timed Execution !!!
                     // This callback is run repeatedly by Benny for timing.
@@ -356,6 +860,14 @@ export async function runBenchmarks(functionsFilePath: string, _mockModule?: Rec
                     console.error('[BenchmarkRunner COMPLETE] Could not determine fastest implementation from summary.');
                     console.log('complete: Fastest is Unknown'); 
                 }
+
+                // Structured results (primary contract, see resultsProtocol.ts).
+                // The cycle:/complete: lines above are kept for the legacy text parser.
+                try {
+                    console.log(formatResultsLine(buildResultsPayload(summary, undefined, complexityMeasurements, memoryMeasurements, asyncTimings)));
+                } catch (payloadError) {
+                    console.error(`[BenchmarkRunner COMPLETE] Failed to build RESULTS_JSON payload: ${payloadError}`);
+                }
             })
             // !!! END CRITICAL SECTION: BENCHMARK EXECUTION AND OUTPUT FORMAT !!!
         ); // End of benny.suite() call
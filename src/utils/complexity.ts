@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Empirical Complexity Estimation
+ *
+ * A single ops/sec figure only tells how fast an implementation is for one arbitrary input
+ * size. In complexity mode the benchmark runner times every implementation at several input
+ * sizes (produced by a size-parameterized data factory) and this file turns those timings into
+ * an asymptotic class:
+ * - `createLocalDataFactory` derives a data factory from a sample `testData` value when the
+ *   LLM did not provide one (arrays, strings and numbers are scaled to size `n`).
+ * - `fitComplexity` fits the timings to O(1), O(log n), O(n), O(n log n) and O(n²) with a
+ *   least-squares fit through the origin (t ≈ c·f(n)) and picks the model with the lowest
+ *   normalized RMS error.
+ */
+
+import { ComplexityClass, ComplexityEstimate, ComplexityMeasurement } from '../models/types';
+
+/**
+ * Input sizes used when none are configured.
+ */
+export const DEFAULT_COMPLEXITY_SIZES = [10, 100, 1000, 10000, 100000];
+
+/**
+ * Minimum number of measured sizes required to attempt a fit.
+ */
+export const MIN_COMPLEXITY_POINTS = 3;
+
+/**
+ * Candidate models, in order of increasing growth.
+ */
+const COMPLEXITY_MODELS: Array<{ bigO: ComplexityClass; f: (n: number) => number }> = [
+    { bigO: 'O(1)', f: () => 1 },
+    { bigO: 'O(log n)', f: n => Math.log2(Math.max(n, 2)) },
+    { bigO: 'O(n)', f: n => n },
+    { bigO: 'O(n log n)', f: n => n * Math.log2(Math.max(n, 2)) },
+    { bigO: 'O(n²)', f: n => n * n },
+];
+
+/**
+ * Fits the measured timings of one implementation to the candidate complexity models.
+ *
+ * @param sizes - Input sizes the implementation was measured at
+ * @param measurement - Time per call (seconds) at each size; `null` for sizes that were skipped
+ * @returns The best-fitting model, or undefined if fewer than `MIN_COMPLEXITY_POINTS` sizes were measured
+ */
+export function fitComplexity(sizes: number[], measurement: ComplexityMeasurement): ComplexityEstimate | undefined {
+    const points = sizes
+        .map((n, index) => ({ n, t: measurement.times[index] }))
+        .filter((point): point is { n: number; t: number } => typeof point.t === 'number' && Number.isFinite(point.t) && point.t >= 0);
+
+    if (points.length < MIN_COMPLEXITY_POINTS) {
+        return undefined;
+    }
+
+    const meanTime = points.reduce((sum, point) => sum + point.t, 0) / points.length;
+    let best: ComplexityEstimate | undefined;
+
+    for (const model of COMPLEXITY_MODELS) {
+        const sumTF = points.reduce((sum, point) => sum + point.t * model.f(point.n), 0);
+        const sumFF = points.reduce((sum, point) => sum + model.f(point.n) * model.f(point.n), 0);
+        const coefficient = sumFF > 0 ? sumTF / sumFF : 0;
+        const squaredError = points.reduce((sum, point) => {
+            const residual = point.t - coefficient * model.f(point.n);
+            return sum + residual * residual;
+        }, 0);
+        const rms = meanTime > 0 ? Math.sqrt(squaredError / points.length) / meanTime : 0;
+
+        if (!best || rms < best.rms) {
+            best = { name: measurement.name, bigO: model.bigO, coefficient, rms, points: points.length };
+        }
+    }
+    return best;
+}
+
+/**
+ * Derives a size-parameterized data factory from a sample test data value.
+ * The returned code is a JavaScript arrow function `(n) => data` evaluated by the runner.
+ *
+ * @param testData - The sample test data (as generated for the regular benchmark)
+ * @returns The factory source code, or undefined if the data shape cannot be scaled
+ */
+export function createLocalDataFactory(testData: any): string | undefined {
+    if (Array.isArray(testData)) {
+        if (testData.length === 0) {
+            return '(n) => Array.from({ length: n }, (_, i) => i)';
+        }
+        // Cycle through the sample elements so the element types stay realistic
+        return `(n) => { const sample = ${JSON.stringify(testData)}; return Array.from({ length: n }, (_, i) => sample[i % sample.length]); }`;
+    }
+    if (typeof testData === 'string') {
+        const sample = testData.length > 0 ? testData : 'a';
+        return `(n) => ${JSON.stringify(sample)}.repeat(Math.ceil(n / ${sample.length})).slice(0, n)`;
+    }
+    if (typeof testData === 'number') {
+        return '(n) => n';
+    }
+    return undefined;
+}
+
+/**
+ * Formats the estimates as a one-line summary, e.g. "Original is O(n²), Alternative_1 is O(n)".
+ *
+ * @param estimates - Complexity estimates per implementation
+ * @returns The summary sentence
+ */
+export function formatComplexitySummary(estimates: ComplexityEstimate[]): string {
+    return estimates.map(estimate => `${estimate.name} is ${estimate.bigO}`).join(', ');
+}
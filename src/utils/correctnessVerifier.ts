@@ -10,140 +10,236 @@
  * 2.  Executes the *original* function safely within a `vm` sandbox for each generated input 
  *     to establish the expected outputs (or expected errors).
  * 3.  Executes each *alternative* function safely within a `vm` sandbox for each input where 
- *     the original function succeeded.
- * 4.  Compares the output of the alternative (JSON stringified) against the expected output.
+ *     the original function succeeded or threw an exception.
+ * 4.  Compares the output of the alternative against the expected output with the structural
+ *     deep-equality engine (`deepEqual.ts`), logging the path of the first difference.
  * 5.  Handles errors during execution (e.g., timeouts, exceptions) and marks the alternative 
  *     as non-equivalent if it fails where the original succeeded.
- * 6.  Returns an array containing only the alternatives that produced functionally equivalent 
- *     results across all applicable test inputs.
+ * 6.  Treats exceptions as part of the contract: where the original throws (or rejects), the
+ *     alternative must throw an error with the same constructor and, if configured, a message
+ *     matching `errorMessagePattern`. Mismatches are rejected as "Error behavior differs".
+ *     Inputs where the sandbox itself failed for the original (syntax error, timeout) are skipped.
+ * 7.  Compares side effects: arguments are inspected after each call and must be left in the
+ *     same state as by the original (e.g. an in-place `sort()` where the original copies is
+ *     rejected), and the alternative must not create or reassign globals the original does not.
+ *     Mismatches are rejected as "Side effects differ".
+ * 8.  Optionally fuzzes the alternatives that passed: the same checks run on hundreds of seeded
+ *     inputs generated from the argument types or the LLM inputs (`fuzzer.ts`). The first failing
+ *     input is shrunk to a minimal counterexample, reported through `onCounterexample`.
+ * 9.  Returns a verdict (VERIFIED / REJECTED / INDETERMINATE) for each alternative with the reason,
+ *     the number of inputs tried and the first mismatching input (`verifyAlternatives`), or only
+ *     the alternatives that produced functionally equivalent results across all applicable test
+ *     inputs (`verifyFunctionalEquivalence`).
+ * 
+ * Implementations prepared by `transpiler.ts` are executed through their transpiled JavaScript
+ * (`executableCode`); errors report the line of the original (TypeScript) source.
  * 
  * Safety Mechanisms:
  * - Uses Node.js `vm` module to run function code in an isolated context, preventing 
  *   interference with the main extension process.
  * - Implements timeouts (`vm.runInContext` options and potentially async waits) to prevent 
  *   runaway code execution (e.g., infinite loops) within the verified functions.
- * - Compares outputs using JSON stringification for robustness against subtle differences 
- *   (e.g., `undefined` vs. `null` in certain JS contexts, although `undefined` is sanitized 
- *   during input parsing).
+ * - Async implementations are awaited: the sandbox provides tracked timer globals and the
+ *   returned promise must settle within `ASYNC_EXECUTION_TIMEOUT_MS` (see `asyncExecution.ts`).
+ * - Compares outputs type-aware (NaN, -0, undefined, Map/Set/Date/RegExp/TypedArray/BigInt,
+ *   cycles) instead of via JSON stringification, which conflates or drops such values. The float
+ *   tolerance, order-insensitive arrays and key order handling are configurable.
  */
 
-import * as vscode from 'vscode';
 import * as vm from 'vm';
 import * as util from 'util';
-import { FunctionImplementation } from '../models/types';
+import {
+    ComparisonOptions,
+    ExecutionOutcome,
+    FunctionImplementation,
+    FuzzCounterexample,
+    FuzzOptions,
+    PipelineCancellationToken,
+    PipelineLanguageModel,
+    PipelineLogger,
+    ThrownError,
+    VerificationMismatch,
+    VerificationReport,
+    VerificationVerdict
+} from '../models/types';
+import { getExecutableCode, mapErrorLine } from './transpiler';
+import { createSandboxTimers, isThenable, settleWithin } from './asyncExecution';
+import { compareValues, formatValue } from './deepEqual';
+import { createSeed, describeSchema, fuzzProperty, inferArgumentSchemas } from './fuzzer';
+
+/**
+ * Filename the implementation code is evaluated under, so stack traces can be mapped back
+ * to the user's source lines.
+ */
+const IMPLEMENTATION_FILENAME = 'perfcopilot-implementation.js';
+
+/**
+ * Time limit (ms) for the promise returned by an async implementation to settle.
+ */
+const ASYNC_EXECUTION_TIMEOUT_MS = 2000;
+
+/**
+ * Error thrown by `executeFunctionSafely`. `thrown` is set when the function under test threw
+ * (or rejected), and is absent for sandbox failures such as syntax errors or timeouts.
+ */
+export type ExecutionError = Error & { thrown?: ThrownError };
+
+/**
+ * Context properties used by the sandbox itself, excluded from global write detection.
+ */
+const SANDBOX_GLOBALS = new Set(['__args', '__result', '__callArgs']);
+
+/**
+ * Outcome of calling an implementation: its result and side effects, or the error it failed with.
+ */
+interface ObservedCall {
+    outcome?: ExecutionOutcome;
+    error?: ExecutionError;
+}
+
+/**
+ * First way in which an alternative's call differs from the original's call
+ */
+interface Divergence {
+    kind: 'value' | 'execution' | 'errorBehavior' | 'sideEffects';
+    message: string;
+}
+
+/**
+ * Rejection reason logged (and reported for fuzzing counterexamples) for each kind of divergence.
+ */
+const REJECTION_REASONS: Record<Divergence['kind'], string> = {
+    value: 'Not equivalent',
+    execution: 'Not equivalent',
+    errorBehavior: 'Error behavior differs',
+    sideEffects: 'Side effects differ'
+};
 
 /**
  * Verifies the functional equivalence of alternative function implementations 
  * against the original function using LLM-generated test cases.
  * 
+ * Takes the same parameters as `verifyAlternatives`.
+ * 
+ * @returns A promise that resolves to an array of functionally equivalent alternatives.
+ * @throws If verification cannot be completed due to errors.
+ */
+export async function verifyFunctionalEquivalence(
+    ...args: Parameters<typeof verifyAlternatives>
+): Promise<FunctionImplementation[]> {
+    const report = await verifyAlternatives(...args);
+    return report.verdicts
+        .filter(verdict => verdict.status === 'VERIFIED')
+        .map(verdict => verdict.alternative);
+}
+
+/**
+ * Verifies alternative function implementations against the original function using
+ * LLM-generated test cases, and reports a verdict for each alternative.
+ * 
  * @param originalFunction - The original function implementation.
  * @param alternatives - An array of alternative implementations to verify.
- * @param languageModel - The VS Code Language Model chat instance.
+ * @param languageModel - The language model asked for test inputs (see `VsCodeLanguageModel` for `vscode.lm` models).
  * @param createInputGenerationPrompt - Function to generate the LLM prompt for inputs.
  * @param outputChannel - The output channel for logging.
  * @param token - Cancellation token.
  * @param originalFunctionName - The name of the original function.
- * @returns A promise that resolves to an array of functionally equivalent alternatives.
+ * @param comparisonOptions - Options for comparing outputs (float epsilon, unordered arrays, key order)
+ *                            and thrown errors (message pattern).
+ * @param fuzzOptions - When set, alternatives that pass the LLM inputs are also checked against
+ *                      generated inputs (see `fuzzer.ts`).
+ * @param onCounterexample - Called with the shrunk input for each alternative rejected while fuzzing.
+ * @param reusedTestInputs - Test inputs (argument lists) from an earlier report to verify against
+ *                           instead of generating new ones, e.g. when re-verifying a repaired alternative.
+ * @returns A promise that resolves to the test inputs and a verdict for each alternative. If no
+ *          test inputs could be generated, every alternative is INDETERMINATE.
  * @throws If verification cannot be completed due to errors.
  */
-export async function verifyFunctionalEquivalence(
+export async function verifyAlternatives(
     originalFunction: FunctionImplementation,
     alternatives: FunctionImplementation[],
-    languageModel: vscode.LanguageModelChat,
+    languageModel: PipelineLanguageModel,
     createInputGenerationPrompt: (code: string) => string,
-    outputChannel: vscode.OutputChannel,
-    token: vscode.CancellationToken,
-    originalFunctionName: string
-): Promise<FunctionImplementation[]> {
+    outputChannel: PipelineLogger,
+    token: PipelineCancellationToken,
+    originalFunctionName: string,
+    comparisonOptions: ComparisonOptions = {},
+    fuzzOptions?: FuzzOptions,
+    onCounterexample?: (counterexample: FuzzCounterexample) => void,
+    reusedTestInputs?: any[][]
+): Promise<VerificationReport> {
 
     outputChannel.appendLine('[CorrectnessVerifier] Starting functional equivalence check...');
+    const errorMessagePattern = compileErrorMessagePattern(comparisonOptions.errorMessagePattern, outputChannel);
 
     // Add initial cancellation check
     if (token.isCancellationRequested) {
         outputChannel.appendLine("[CorrectnessVerifier] Cancellation requested before verification could start.");
-        return [];
+        return indeterminateReport(alternatives, 'Verification was cancelled');
     }
 
-    let testInputs: any[] = [];
+    let testInputs: any[] = reusedTestInputs ?? [];
 
-    // 1. Generate Test Inputs using LLM
-    try {
-        outputChannel.appendLine('[CorrectnessVerifier] Generating test inputs via LLM...');
-        const prompt = createInputGenerationPrompt(originalFunction.code);
-        const messages = [vscode.LanguageModelChatMessage.User(prompt)];
-        let responseText = '';
-        // CRITICAL: Interaction with LLM to get diverse test inputs
-        const request = await languageModel.sendRequest(messages, {}, token);
-
-        // --- Fix 1: Correct Stream Handling for Input Generation ---
-        try { // Add try block around stream processing
-            outputChannel.appendLine('[CorrectnessVerifier DEBUG] Starting stream processing...');
-            for await (const chunk of request.stream) { 
-                if (token.isCancellationRequested) { 
-                    outputChannel.appendLine('[CorrectnessVerifier:InputGen] Operation cancelled during stream.');
-                    throw new Error('Operation cancelled'); 
-                }
-                // Add more robust check for expected chunk structure
-                 if (typeof chunk === 'object' && chunk !== null && 'value' in chunk && typeof chunk.value === 'string') {
-                     responseText += chunk.value;
-                 } else {
-                     outputChannel.appendLine(`[CorrectnessVerifier:InputGen] Received unexpected chunk structure: ${JSON.stringify(chunk)}`);
-                     // Optionally throw an error if the structure is wrong
-                     // throw new Error('Received unexpected chunk structure during stream processing.');
-                 }
+    if (reusedTestInputs) {
+        outputChannel.appendLine(`[CorrectnessVerifier] Reusing ${reusedTestInputs.length} test inputs.`);
+    } else {
+        // 1. Generate Test Inputs using LLM
+        try {
+            outputChannel.appendLine('[CorrectnessVerifier] Generating test inputs via LLM...');
+            const prompt = createInputGenerationPrompt(originalFunction.code);
+            // CRITICAL: Interaction with LLM to get diverse test inputs
+            const responseText = await languageModel.complete(prompt, token);
+            if (token.isCancellationRequested) {
+                outputChannel.appendLine('[CorrectnessVerifier:InputGen] Operation cancelled while waiting for the test inputs.');
+                throw new Error('Operation cancelled');
             }
-            outputChannel.appendLine('[CorrectnessVerifier DEBUG] Finished stream processing.');
-        } catch (streamError: any) {
-             outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Error DURING stream processing: ${streamError.message}`);
-             throw streamError; // Re-throw to be caught by the outer try/catch
-        }
-        // --- End Fix 1 ---
-
-        // CRITICAL: Parses JSON test inputs from LLM response
-        outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Attempting to parse JSON from responseText: ${responseText}`); // Log text before parsing
-        const jsonBlockRegex = /```(?:json)?\s*([\s\S]*?)\s*```/;
-        const match = responseText.match(jsonBlockRegex);
-        if (match && match[1]) {
-            const potentialJson = match[1].trim();
-            // Further validation: ensure it looks like an array
-            if (potentialJson.startsWith('[') && potentialJson.endsWith(']')) {
-                try {
-                    // Sanitize: Replace standalone 'undefined' with 'null' as undefined is not valid JSON
-                    const sanitizedJson = potentialJson.replace(/\bundefined\b/g, 'null');
-                    outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Attempting JSON.parse on: ${sanitizedJson}`); // Log before parse
-                    testInputs = JSON.parse(sanitizedJson);
-                    outputChannel.appendLine(`[CorrectnessVerifier] Successfully parsed ${testInputs.length} test inputs.`);
-                    // --- DIAGNOSTIC LOG: Parsed Inputs ---
-                    outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Parsed testInputs: ${JSON.stringify(testInputs, null, 2)}`);
-                    // --- END DIAGNOSTIC LOG ---
-                } catch (parseError: any) {
-                    outputChannel.appendLine(`[CorrectnessVerifier] Error parsing extracted JSON: ${parseError.message}. Content: ${potentialJson}`);
-                    outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Caught JSON parse error. Stack: ${parseError.stack}`); // Log stack
-                    return []; // Skip verification on parse error
+
+            // CRITICAL: Parses JSON test inputs from LLM response
+            outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Attempting to parse JSON from responseText: ${responseText}`); // Log text before parsing
+            const jsonBlockRegex = /```(?:json)?\s*([\s\S]*?)\s*```/;
+            const match = responseText.match(jsonBlockRegex);
+            if (match && match[1]) {
+                const potentialJson = match[1].trim();
+                // Further validation: ensure it looks like an array
+                if (potentialJson.startsWith('[') && potentialJson.endsWith(']')) {
+                    try {
+                        // Sanitize: Replace standalone 'undefined' with 'null' as undefined is not valid JSON
+                        const sanitizedJson = potentialJson.replace(/\bundefined\b/g, 'null');
+                        outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Attempting JSON.parse on: ${sanitizedJson}`); // Log before parse
+                        testInputs = JSON.parse(sanitizedJson);
+                        outputChannel.appendLine(`[CorrectnessVerifier] Successfully parsed ${testInputs.length} test inputs.`);
+                        // --- DIAGNOSTIC LOG: Parsed Inputs ---
+                        outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Parsed testInputs: ${JSON.stringify(testInputs, null, 2)}`);
+                        // --- END DIAGNOSTIC LOG ---
+                    } catch (parseError: any) {
+                        outputChannel.appendLine(`[CorrectnessVerifier] Error parsing extracted JSON: ${parseError.message}. Content: ${potentialJson}`);
+                        outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Caught JSON parse error. Stack: ${parseError.stack}`); // Log stack
+                        return indeterminateReport(alternatives, 'Test inputs could not be parsed'); // Skip verification on parse error
+                    }
+                } else {
+                    outputChannel.appendLine(`[CorrectnessVerifier] Extracted block doesn\'t look like a JSON array. Content: ${potentialJson}`);
+                    return indeterminateReport(alternatives, 'Test inputs were not a JSON array'); // Skip verification if content isn\'t an array
                 }
             } else {
-                outputChannel.appendLine(`[CorrectnessVerifier] Extracted block doesn\'t look like a JSON array. Content: ${potentialJson}`);
-                return []; // Skip verification if content isn\'t an array
+                outputChannel.appendLine('[CorrectnessVerifier] Could not extract JSON test inputs from LLM response. Skipping correctness check.');
+                return indeterminateReport(alternatives, 'No test inputs were generated'); // Skip verification if inputs aren't generated
             }
-        } else {
-            outputChannel.appendLine('[CorrectnessVerifier] Could not extract JSON test inputs from LLM response. Skipping correctness check.');
-            return []; // Skip verification if inputs aren't generated
+        } catch (error: any) {
+            outputChannel.appendLine(`[CorrectnessVerifier] Error generating/parsing test inputs: ${error.message}. Skipping correctness check.`);
+            outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Caught OUTER error during input gen. Stack: ${error.stack}`); // Log stack
+            return indeterminateReport(alternatives, `Test input generation failed: ${error.message}`); // Skip verification on error
         }
-    } catch (error: any) {
-        outputChannel.appendLine(`[CorrectnessVerifier] Error generating/parsing test inputs: ${error.message}. Skipping correctness check.`);
-        outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Caught OUTER error during input gen. Stack: ${error.stack}`); // Log stack
-        return []; // Skip verification on error
     }
 
     if (token.isCancellationRequested) { throw new Error('Operation cancelled'); }
 
     if (testInputs.length === 0) {
         outputChannel.appendLine('[CorrectnessVerifier] No test inputs generated. Skipping correctness check.');
-        return [];
+        return indeterminateReport(alternatives, 'No test inputs were generated');
     }
 
     // 2. Execute Original Function to get Expected Outputs
-    const expectedOutputs: { input: any; output?: any; error?: string }[] = [];
+    const expectedOutputs: { input: any; observed: ObservedCall }[] = [];
     outputChannel.appendLine('[CorrectnessVerifier] Executing original function...');
     // CRITICAL: Loop executing original function for each input via vm
     for (const input of testInputs) {
@@ -152,103 +248,210 @@ export async function verifyFunctionalEquivalence(
         // --- DIAGNOSTIC LOG: Original Execution Args ---
         outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Executing Original with args: ${JSON.stringify(args)}`);
         // --- END DIAGNOSTIC LOG ---
-        try {
-            // CRITICAL: Safe execution using vm context and timeout
-            const output = await executeFunctionSafely(originalFunction.code, originalFunctionName, args);
-            // --- DIAGNOSTIC LOG: Original Execution Output ---
-            outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Original output: ${JSON.stringify(output)}`);
-            // --- END DIAGNOSTIC LOG ---
-            expectedOutputs.push({ input, output });
-        } catch (error: any) {
+        // CRITICAL: Safe execution using vm context and timeout
+        const observed = await observeCall(originalFunction, originalFunctionName, args, outputChannel);
+        if (observed.error) {
             // --- DIAGNOSTIC LOG: Original Execution Error ---
-            outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Original error: ${error.message}`);
+            outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Original error: ${observed.error.message}`);
+            // --- END DIAGNOSTIC LOG ---
+            outputChannel.appendLine(`[CorrectnessVerifier] Original function ('${originalFunctionName}') failed for input ${JSON.stringify(input)}: ${observed.error.message}`);
+            // An exception thrown by the function is expected behavior the alternatives must reproduce;
+            // if the sandbox failed instead, we can't verify alternatives against it for this input
+        } else {
+            // --- DIAGNOSTIC LOG: Original Execution Output ---
+            outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Original output: ${formatValue(observed.outcome?.value)}`);
             // --- END DIAGNOSTIC LOG ---
-            outputChannel.appendLine(`[CorrectnessVerifier] Original function ('${originalFunctionName}') failed for input ${JSON.stringify(input)}: ${error.message}`);
-            expectedOutputs.push({ input, error: error.message });
-            // If the original fails, we can't verify alternatives against it for this input
         }
+        expectedOutputs.push({ input, observed });
     }
 
     // 3. Execute Alternatives and Compare Outputs
-    const resultsWithStatus: Array<{ alternative: FunctionImplementation, status: 'VERIFIED' | 'REJECTED' | 'INDETERMINATE' }> = [];
+    const verdicts: VerificationVerdict[] = [];
     outputChannel.appendLine('[CorrectnessVerifier] Verifying alternatives...');
 
     // CRITICAL: Loop verifying each alternative
     for (const alt of alternatives) {
         if (token.isCancellationRequested) { throw new Error('Operation cancelled'); }
         let isEquivalent = true;
-        let comparisonPerformed = false; 
+        let inputsTried = 0;
+        let rejectionReason = REJECTION_REASONS.value;
+        let mismatch: VerificationMismatch | undefined;
         outputChannel.appendLine(`--- Verifying ${alt.name} ---`);
         for (let i = 0; i < testInputs.length; i++) {
             if (token.isCancellationRequested) { throw new Error('Operation cancelled'); }
             const input = testInputs[i];
-            const expected = expectedOutputs[i];
+            const expected = expectedOutputs[i].observed;
             const args = Array.isArray(input) ? input : [input];
 
             // --- DIAGNOSTIC LOG: Alt Verification Input ---
             outputChannel.appendLine(`[CorrectnessVerifier DEBUG] Verifying ${alt.name} - Input ${i + 1}`);
             outputChannel.appendLine(`  - Args: ${JSON.stringify(args)}`);
-            outputChannel.appendLine(`  - Expected Result/Error: ${expected.error ? `Error(${expected.error})` : JSON.stringify(expected.output)}`);
+            outputChannel.appendLine(`  - Expected Result/Error: ${expected.error ? `Error(${expected.error.message})` : formatValue(expected.outcome?.value)}`);
             // --- END DIAGNOSTIC LOG ---
 
-            if (expected.error) {
+            if (expected.error && !expected.error.thrown) {
                 outputChannel.appendLine(` - Input ${i + 1}: SKIPPED (original function failed)`);
                 continue; // Cannot compare if original failed
             }
 
-            comparisonPerformed = true; 
-
-            try {
-                // CRITICAL: Safe execution of alternative via vm context and timeout
-                const altOutput = await executeFunctionSafely(alt.code, originalFunctionName, args); 
-                // --- DIAGNOSTIC LOG: Alt Execution Output ---
-                outputChannel.appendLine(`[CorrectnessVerifier DEBUG] ${alt.name} raw output: ${JSON.stringify(altOutput)}`);
-                // --- END DIAGNOSTIC LOG ---
-                
-                // CRITICAL: Compares alternative output (JSON) against original output
-                // Compare using JSON stringification for robustness
-                const expectedJson = JSON.stringify(expected.output);
-                const altJson = JSON.stringify(altOutput);
-
-                if (altJson !== expectedJson) {
-                    outputChannel.appendLine(` - Input ${i + 1}: FAILED. Expected JSON: ${expectedJson}, Got JSON: ${altJson}`);
-                    isEquivalent = false;
-                    break; // No need to check further inputs for this alternative
-                } else {
-                    outputChannel.appendLine(` - Input ${i + 1}: PASSED`);
-                }
-            } catch (error: any) {
-                 // --- DIAGNOSTIC LOG: Alt Execution Error ---
-                 outputChannel.appendLine(`[CorrectnessVerifier DEBUG] ${alt.name} execution error: ${error.message}`);
-                 // --- END DIAGNOSTIC LOG ---
-                 // FIX: Log the specific error format expected by the test
-                outputChannel.appendLine(` - Input ${i + 1}: FAILED (Execution Error).`); 
-                outputChannel.appendLine(`   Error: ${error.message}`); // Log the actual error message separately
+            inputsTried++;
+
+            // CRITICAL: Safe execution of alternative via vm context and timeout
+            const actual = await observeCall(alt, originalFunctionName, args, outputChannel);
+            // --- DIAGNOSTIC LOG: Alt Execution Output ---
+            outputChannel.appendLine(actual.error
+                ? `[CorrectnessVerifier DEBUG] ${alt.name} execution error: ${actual.error.message}`
+                : `[CorrectnessVerifier DEBUG] ${alt.name} raw output: ${formatValue(actual.outcome?.value)}`);
+            // --- END DIAGNOSTIC LOG ---
+
+            // CRITICAL: Compares result, thrown error and side effects against the original's call
+            const divergence = findDivergence(args, expected, actual, originalFunction.name, comparisonOptions, errorMessagePattern);
+            if (divergence) {
+                logDivergence(outputChannel, i + 1, divergence);
+                rejectionReason = REJECTION_REASONS[divergence.kind];
+                mismatch = describeMismatch(args, expected, actual, divergence, i + 1);
                 isEquivalent = false;
-                break; // <<< Ensure break happens
+                break; // No need to check further inputs for this alternative
             }
+            outputChannel.appendLine(actual.error?.thrown
+                ? ` - Input ${i + 1}: PASSED (threw ${actual.error.thrown.constructorName} as expected)`
+                : ` - Input ${i + 1}: PASSED`);
         }
 
         // Store results with status
-        if (isEquivalent && comparisonPerformed) { 
+        if (isEquivalent && inputsTried > 0) { 
              outputChannel.appendLine(` => ${alt.name}: VERIFIED`);
-             resultsWithStatus.push({ alternative: alt, status: 'VERIFIED' }); // Store with status
-         } else if (!comparisonPerformed) {
-              outputChannel.appendLine(` => ${alt.name}: INDETERMINATE (Original function failed on all inputs)`);
-              resultsWithStatus.push({ alternative: alt, status: 'INDETERMINATE' }); // Store with status
+             verdicts.push({ alternative: alt, status: 'VERIFIED', inputsTried }); // Store with status
+         } else if (inputsTried === 0) {
+              const reason = 'Original function failed on all inputs';
+              outputChannel.appendLine(` => ${alt.name}: INDETERMINATE (${reason})`);
+              verdicts.push({ alternative: alt, status: 'INDETERMINATE', reason, inputsTried }); // Store with status
          } else {
-             outputChannel.appendLine(` => ${alt.name}: REJECTED (Not equivalent)`); // Log rejection reason
-             resultsWithStatus.push({ alternative: alt, status: 'REJECTED' }); // Store with status
+             outputChannel.appendLine(` => ${alt.name}: REJECTED (${rejectionReason})`); // Log rejection reason
+             verdicts.push({ alternative: alt, status: 'REJECTED', reason: rejectionReason, inputsTried, mismatch }); // Store with status
          }
     }
 
-    // Filter results before returning
-    const finalVerifiedAlternatives = resultsWithStatus
-        .filter(result => result.status === 'VERIFIED')
-        .map(result => result.alternative);
+    // 4. Fuzzing: check the verified alternatives against generated inputs as well
+    const argumentLists = testInputs.map(input => (Array.isArray(input) ? input : [input]));
+    if (fuzzOptions && verdicts.some(verdict => verdict.status === 'VERIFIED')) {
+        const schemas = inferArgumentSchemas(argumentLists, originalFunction.code, originalFunctionName);
+        const seed = fuzzOptions.seed ?? createSeed();
+        outputChannel.appendLine(`[CorrectnessVerifier] Fuzzing verified alternatives with ${fuzzOptions.runs} inputs (seed ${seed}). Argument schemas: ${schemas.map(describeSchema).join(', ') || '(none)'}`);
+
+        // The original is called once per generated input, however many alternatives are fuzzed
+        const originalCalls = new Map<string, Promise<ObservedCall>>();
+        const observeOriginal = (args: any[]): Promise<ObservedCall> => {
+            const key = JSON.stringify(args);
+            let call = originalCalls.get(key);
+            if (!call) {
+                call = observeCall(originalFunction, originalFunctionName, args, outputChannel);
+                originalCalls.set(key, call);
+            }
+            return call;
+        };
+
+        for (const verdict of verdicts) {
+            if (verdict.status !== 'VERIFIED') {
+                continue;
+            }
+            if (token.isCancellationRequested) { throw new Error('Operation cancelled'); }
+            const alt = verdict.alternative;
+
+            // CRITICAL: The property is the same check as for the LLM inputs; inputs the original
+            // cannot run (sandbox failures, e.g. timeouts) are skipped
+            const report = await fuzzProperty(schemas, async args => {
+                const expected = await observeOriginal(args);
+                if (expected.error && !expected.error.thrown) {
+                    return undefined;
+                }
+                const actual = await observeCall(alt, originalFunctionName, args, outputChannel);
+                const divergence = findDivergence(args, expected, actual, originalFunction.name, comparisonOptions, errorMessagePattern);
+                return divergence && { divergence, expected, actual };
+            }, { runs: fuzzOptions.runs, seed, timeBudgetMs: fuzzOptions.timeBudgetMs }, () => token.isCancellationRequested);
+
+            if (token.isCancellationRequested) { throw new Error('Operation cancelled'); }
+            if (!report.failure) {
+                outputChannel.appendLine(` => ${alt.name}: passed ${report.runsCompleted} fuzzed inputs`);
+                continue;
+            }
+
+            const { args, detail, generatedArgs, run, shrinkSteps } = report.failure;
+            const { divergence } = detail;
+            outputChannel.appendLine(`--- Fuzzing ${alt.name}: run ${run} failed for ${JSON.stringify(generatedArgs)}, shrunk in ${shrinkSteps} steps to ${JSON.stringify(args)} ---`);
+            logDivergence(outputChannel, run, divergence);
+            outputChannel.appendLine(` => ${alt.name}: REJECTED (${REJECTION_REASONS[divergence.kind]} on fuzzed input)`);
+            verdict.status = 'REJECTED';
+            verdict.reason = `${REJECTION_REASONS[divergence.kind]} on fuzzed input`;
+            verdict.mismatch = describeMismatch(args, detail.expected, detail.actual, divergence);
+            onCounterexample?.({
+                alternative: alt.name,
+                args,
+                reason: REJECTION_REASONS[divergence.kind],
+                divergence: divergence.message,
+                seed,
+                run,
+                runs: fuzzOptions.runs,
+                shrinkSteps
+            });
+        }
+    }
+
+    const verifiedCount = verdicts.filter(verdict => verdict.status === 'VERIFIED').length;
+    outputChannel.appendLine(`[CorrectnessVerifier] Verification complete. ${verifiedCount} of ${alternatives.length} alternatives passed.`);
+    return { testInputs: argumentLists, verdicts };
+}
+
+/**
+ * Builds the report for a check that could not compare anything: every alternative is INDETERMINATE.
+ * 
+ * @param alternatives - The alternatives
+ * @param reason - Why nothing could be compared
+ * @returns A report without test inputs
+ */
+function indeterminateReport(alternatives: FunctionImplementation[], reason: string): VerificationReport {
+    return {
+        testInputs: [],
+        verdicts: alternatives.map(alternative => ({ alternative, status: 'INDETERMINATE', reason, inputsTried: 0 }))
+    };
+}
+
+/**
+ * Describes the input an alternative was rejected on, for the report.
+ * 
+ * @param args - The arguments of both calls
+ * @param expected - The original's call
+ * @param actual - The alternative's call
+ * @param divergence - The divergence found for the input
+ * @param inputNumber - 1-based number of the test input; undefined for fuzzed inputs
+ * @returns The mismatch, with the results or errors formatted for display
+ */
+function describeMismatch(
+    args: any[],
+    expected: ObservedCall,
+    actual: ObservedCall,
+    divergence: Divergence,
+    inputNumber?: number
+): VerificationMismatch {
+    return {
+        args,
+        inputNumber,
+        expected: describeObservedCall(expected),
+        actual: describeObservedCall(actual),
+        difference: divergence.message
+    };
+}
 
-    outputChannel.appendLine(`[CorrectnessVerifier] Verification complete. ${finalVerifiedAlternatives.length} of ${alternatives.length} alternatives passed.`);
-    return finalVerifiedAlternatives; // Return only the strictly verified alternatives
+/**
+ * Formats the result of a call, or the error it threw or failed with.
+ */
+function describeObservedCall(call: ObservedCall): string {
+    if (call.error) {
+        return call.error.thrown
+            ? `throws ${call.error.thrown.constructorName}: ${call.error.thrown.message}`
+            : `fails: ${call.error.message}`;
+    }
+    return formatValue(call.outcome?.value);
 }
 
 /**
@@ -257,10 +460,96 @@ export async function verifyFunctionalEquivalence(
  * @param functionCode - The string representation of the function.
  * @param functionName - The name of the function.
  * @param args - An array of arguments to pass to the function.
+ * @param lineMap - Optional line map of transpiled code (see `transpiler.ts`), used to report
+ *                  the source line of an error.
+ * @param logger - Optional logger for the call and its outcome.
  * @returns The result of the function execution.
- * @throws If the code cannot be compiled or execution fails.
+ * @throws An `ExecutionError` if the code cannot be compiled or execution fails; its `thrown`
+ *         describes the exception when the function itself threw or rejected.
+ */
+export async function executeFunctionSafely(functionCode: string, functionName: string, args: any[], lineMap?: number[], logger?: PipelineLogger): Promise<any> {
+    const outcome = await executeWithSideEffects(functionCode, functionName, args, lineMap, logger);
+    return outcome.value;
+}
+
+/**
+ * Writes a value as JavaScript source that rebuilds it, so the arguments of a call can be
+ * created inside the sandbox with the sandbox's own built-ins. Unlike JSON this keeps the values
+ * the comparison distinguishes: `undefined`, `NaN`, `-0`, infinities, BigInt, Date, RegExp, Map,
+ * Set and typed arrays. Other objects are written as plain objects of their own enumerable
+ * properties, as JSON would.
+ *
+ * @param value - The value
+ * @param inProgress - The objects being written further up, to detect cycles
+ * @returns A JavaScript expression evaluating to a copy of `value`
+ * @throws If the value contains a function, a symbol or a circular reference
+ */
+function toSourceLiteral(value: any, inProgress: Set<object> = new Set()): string {
+    if (value === undefined) {
+        return 'undefined';
+    }
+    if (typeof value === 'number') {
+        return Object.is(value, -0) ? '-0' : String(value);
+    }
+    if (typeof value === 'bigint') {
+        return `${value}n`;
+    }
+    if (typeof value === 'function' || typeof value === 'symbol') {
+        throw new Error(`Cannot pass a ${typeof value} to the sandbox`);
+    }
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value);
+    }
+    if (inProgress.has(value)) {
+        throw new Error('Cannot pass a circular structure to the sandbox');
+    }
+
+    inProgress.add(value);
+    try {
+        const write = (item: any) => toSourceLiteral(item, inProgress);
+        if (value instanceof Date) {
+            return `new Date(${value.getTime()})`;
+        }
+        if (value instanceof RegExp) {
+            return `new RegExp(${JSON.stringify(value.source)}, ${JSON.stringify(value.flags)})`;
+        }
+        if (value instanceof Map) {
+            return `new Map([${Array.from(value, ([key, item]) => `[${write(key)}, ${write(item)}]`).join(', ')}])`;
+        }
+        if (value instanceof Set) {
+            return `new Set([${Array.from(value, write).join(', ')}])`;
+        }
+        if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+            return `new ${value.constructor.name}([${Array.from(value as unknown as ArrayLike<number | bigint>, write).join(', ')}])`;
+        }
+        if (Array.isArray(value)) {
+            return `[${Array.from(value, write).join(', ')}]`;
+        }
+        return `{${Object.keys(value).map(key => `${JSON.stringify(key)}: ${write(value[key])}`).join(', ')}}`;
+    } finally {
+        inProgress.delete(value);
+    }
+}
+
+/**
+ * Safely executes function code like `executeFunctionSafely`, and also reports the side effects
+ * of the call: the state of the arguments afterwards and the globals it created or reassigned.
+ * The function receives copies of `args` built inside the context (see `toSourceLiteral`), so
+ * `args` itself keeps the state from before the call.
+ * 
+ * @param functionCode - The string representation of the function.
+ * @param functionName - The name of the function.
+ * @param args - An array of arguments to pass to the function.
+ * @param lineMap - Optional line map of transpiled code (see `transpiler.ts`), used to report
+ *                  the source line of an error.
+ * @param logger - Optional logger for the call and its outcome.
+ * @returns The result of the function execution and its side effects.
+ * @throws An `ExecutionError` if the code cannot be compiled or execution fails; its `thrown`
+ *         describes the exception when the function itself threw or rejected.
  */
-export async function executeFunctionSafely(functionCode: string, functionName: string, args: any[]): Promise<any> {
+export async function executeWithSideEffects(functionCode: string, functionName: string, args: any[], lineMap?: number[], logger?: PipelineLogger): Promise<ExecutionOutcome> {
+    // Timer globals for async implementations; anything still pending is cancelled when the call ends
+    const timers = createSandboxTimers();
     // Revert to context that includes __result
     // CRITICAL: Setup of isolated vm context
     const context = {
@@ -270,20 +559,21 @@ export async function executeFunctionSafely(functionCode: string, functionName:
         // eslint-disable-next-line @typescript-eslint/naming-convention
         Math: Math,
         // eslint-disable-next-line @typescript-eslint/naming-convention
-        __result: undefined as any
+        __result: undefined as any,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        __callArgs: undefined as any,
+        ...timers.globals
     };
     vm.createContext(context);
 
-    let isAsync = false;
     let functionRef: any; // Revert to less specific type
+    // Set once the function itself throws or rejects (as opposed to a sandbox failure)
+    let thrownByFunction = false;
 
     try {
-        // Revert async check if needed, or keep simple one
-        isAsync = functionCode.includes('async'); // Simple check
-
         // CRITICAL: Runs the function code within the vm context with timeout
         // Step 1: Run the entire user code in the context to define functions (timeout 1000)
-        vm.runInContext(functionCode, context, { timeout: 1000 });
+        vm.runInContext(functionCode, context, { timeout: 1000, filename: IMPLEMENTATION_FILENAME });
 
         // CRITICAL: Retrieves the function reference from the context
         // Step 2: Get the function reference by evaluating its name in the context (timeout 50)
@@ -297,58 +587,279 @@ export async function executeFunctionSafely(functionCode: string, functionName:
         }
 
         // +++ Add Log: Before Call +++
-        console.error(`[executeFunctionSafely DEBUG] About to call ${functionName} for verification. Args: ${JSON.stringify(context.__args)}`);
+        logger?.appendLine(`[executeFunctionSafely DEBUG] About to call ${functionName} for verification. Args: ${formatValue(context.__args)}`);
         // +++ End Log +++
 
+        // Globals after the definitions ran; anything the call adds or reassigns is a side effect
+        const globalsBefore = snapshotGlobals(context);
+
         // CRITICAL: Executes the actual function call within the vm context with timeout
         // Step 4: Call the function reference within a timed context
         const executionOptions = { timeout: 2000 }; // Timeout for the actual function call (e.g., 2 seconds)
-        const callArgsString = JSON.stringify(context.__args); // Serialize args for the script
+        const callArgsString = toSourceLiteral(context.__args); // Rebuild args in the context (keeps Map, Date, NaN, ...)
 
         const script = `
             const fn = ${functionName};
             const args = ${callArgsString};
+            // Keep the arguments the function received, to detect mutations after the call
+            __callArgs = args;
             // Assign directly to context.__result, not global.__result
             __result = fn(...args); 
-            if (__result instanceof Promise) {
-                 (async () => {
-                    try {
-                        // Await and assign back to context.__result
-                        __result = await __result; 
-                    } catch (asyncError) {
-                        throw asyncError;
-                    }
-                 })(); // Immediately invoked async function expression
-            }
         `;
 
-        vm.runInContext(script, context, executionOptions);
+        // The vm timeout only covers the synchronous part of the call
+        try {
+            vm.runInContext(script, context, executionOptions);
+        } catch (callError: any) {
+            thrownByFunction = callError?.code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+            throw callError;
+        }
 
-        // If the result was a promise, we need to wait for the IIAFE above to potentially update __result
-        // Note: This simplistic wait might not be perfect for all async scenarios,
-        // but avoids complex promise handling within the limited context.
-        // If the promise resolved or the function was sync, __result is set.
-        // If the promise rejected inside the IIAFE, the error should propagate.
-        // If the execution timed out, vm.runInContext would throw.
+        // CRITICAL: Async implementations are awaited (with their own timeout), so the resolved
+        // value is compared instead of a pending Promise (which serializes to `{}`)
+        let result = context.__result;
+        if (isThenable(result)) {
+            const settled = Promise.resolve(result).then(undefined, (reason: any) => {
+                thrownByFunction = true;
+                throw reason;
+            });
+            result = await settleWithin(settled, ASYNC_EXECUTION_TIMEOUT_MS, `Promise returned by ${functionName}`);
+        }
 
-         // +++ Add Log: After Call (use console.error) +++
+         // +++ Add Log: After Call +++
          // Log the result potentially captured by the script execution
-         console.error(`[executeFunctionSafely DEBUG] Call to ${functionName} completed. Raw Result: ${JSON.stringify(context.__result)}`);
+         logger?.appendLine(`[executeFunctionSafely DEBUG] Call to ${functionName} completed. Raw Result: ${formatValue(result)}`);
          // +++ End Log +++
 
-        return context.__result; // Return the stored result
+        // CRITICAL: Side effects are read after the promise settled, so async mutations are included
+        const globalsAfter = snapshotGlobals(context);
+        const globalWrites = Array.from(globalsAfter.keys())
+            .filter(name => !globalsBefore.has(name) || !Object.is(globalsBefore.get(name), globalsAfter.get(name)));
+        const argumentsAfter = Array.isArray(context.__callArgs) ? context.__callArgs : undefined;
+
+        return { value: result, argumentsAfter, globalWrites }; // Return the stored (or resolved) result
 
     } catch (error: any) {
          // +++ Add Log: On Error +++
-         console.error(`[executeFunctionSafely DEBUG] Error during execution for ${functionName}. Args: ${JSON.stringify(args)}. Error: ${error.message}`, error.stack);
+         logger?.appendLine(`[executeFunctionSafely DEBUG] Error during execution for ${functionName}. Args: ${formatValue(args)}. Error: ${error?.message}`);
          // +++ End Log +++
         // FIX: Ensure thrown error message matches test expectation
         // The specific error (like SyntaxError) caught by the mock might be more detailed,
         // but the message thrown *from* executeFunctionSafely should be consistent.
-        const errorMessage = `Execution failed for ${functionName}: ${error.message}`;
-        console.error(`[executeFunctionSafely] Error: ${errorMessage}`, error.stack);
-        const executionError = new Error(errorMessage);
-        executionError.stack = error.stack || executionError.stack;
+        // Point back at the user's source line when the stack has a location in the implementation
+        // Non-Error values can be thrown too (`throw 'invalid'`), so describe those by value
+        const thrown = describeThrownValue(error);
+        const sourceLine = mapErrorLine(error?.stack, IMPLEMENTATION_FILENAME, lineMap);
+        const location = sourceLine !== undefined ? ` (source line ${sourceLine})` : '';
+        const errorMessage = `Execution failed for ${functionName}${location}: ${thrown.message}`;
+        logger?.appendLine(`[executeFunctionSafely] Error: ${errorMessage}`);
+        const executionError: ExecutionError = new Error(errorMessage);
+        executionError.stack = error?.stack || executionError.stack;
+        if (thrownByFunction) {
+            executionError.thrown = thrown;
+        }
         throw executionError; // Re-throw the combined error
+    } finally {
+        timers.clearAll();
+    }
+}
+
+/**
+ * Calls an implementation in the sandbox, capturing its outcome or the error it failed with.
+ * 
+ * @param implementation - The implementation to call
+ * @param functionName - The name of the function to call
+ * @param args - The arguments (left unchanged, see `executeWithSideEffects`)
+ * @param outputChannel - The output channel for logging
+ * @returns The outcome of the call, or its `ExecutionError`
+ */
+async function observeCall(implementation: FunctionImplementation, functionName: string, args: any[], outputChannel: PipelineLogger): Promise<ObservedCall> {
+    try {
+        return { outcome: await executeWithSideEffects(getExecutableCode(implementation), functionName, args, implementation.lineMap, outputChannel) };
+    } catch (error: any) {
+        return { error: error as ExecutionError };
+    }
+}
+
+/**
+ * Compares an alternative's call with the original's call on the same arguments: the error
+ * thrown (if any), then the result, then the side effects.
+ * 
+ * @param args - The arguments of both calls
+ * @param expected - The original's call; must not be a sandbox failure
+ * @param actual - The alternative's call
+ * @param originalName - Name of the original implementation, for messages
+ * @param comparisonOptions - Options for comparing results and argument states
+ * @param errorMessagePattern - Pattern the alternative's error message must match, if configured
+ * @returns The first divergence, or undefined if the calls are equivalent
+ */
+function findDivergence(
+    args: any[],
+    expected: ObservedCall,
+    actual: ObservedCall,
+    originalName: string,
+    comparisonOptions: ComparisonOptions,
+    errorMessagePattern: RegExp | undefined
+): Divergence | undefined {
+    const expectedThrown = expected.error?.thrown;
+    if (actual.error) {
+        if (expectedThrown && actual.error.thrown) {
+            // CRITICAL: Exception equivalence - both threw, so the errors must be of the same kind
+            const mismatch = describeThrownMismatch(expectedThrown, actual.error.thrown, errorMessagePattern);
+            return mismatch ? { kind: 'errorBehavior', message: mismatch } : undefined;
+        }
+        return { kind: 'execution', message: actual.error.message };
+    }
+    const actualOutcome = actual.outcome as ExecutionOutcome;
+    if (expectedThrown) {
+        // CRITICAL: The original threw for this input; returning a value instead is not equivalent
+        return {
+            kind: 'errorBehavior',
+            message: `Expected ${expectedThrown.constructorName}: ${expectedThrown.message} to be thrown, but it returned ${formatValue(actualOutcome.value)}`
+        };
+    }
+    const expectedOutcome = expected.outcome as ExecutionOutcome;
+    // CRITICAL: Compares alternative output against original output structurally
+    const comparison = compareValues(expectedOutcome.value, actualOutcome.value, comparisonOptions);
+    if (!comparison.equal) {
+        return { kind: 'value', message: comparison.difference as string };
+    }
+    // CRITICAL: Same result is not enough - callers also observe argument mutations and global writes
+    const sideEffectMismatch = describeSideEffectMismatch(args, expectedOutcome, actualOutcome, originalName, comparisonOptions);
+    return sideEffectMismatch ? { kind: 'sideEffects', message: sideEffectMismatch } : undefined;
+}
+
+/**
+ * Logs why an input failed, in the format of its kind of divergence.
+ * 
+ * @param outputChannel - The output channel for logging.
+ * @param inputNumber - 1-based number of the input
+ * @param divergence - The divergence found for the input
+ */
+function logDivergence(outputChannel: PipelineLogger, inputNumber: number, divergence: Divergence): void {
+    switch (divergence.kind) {
+        case 'execution':
+            outputChannel.appendLine(` - Input ${inputNumber}: FAILED (Execution Error).`);
+            outputChannel.appendLine(`   Error: ${divergence.message}`);
+            break;
+        case 'errorBehavior':
+            outputChannel.appendLine(` - Input ${inputNumber}: FAILED (Error behavior). ${divergence.message}`);
+            break;
+        case 'sideEffects':
+            outputChannel.appendLine(` - Input ${inputNumber}: FAILED (Side effects). ${divergence.message}`);
+            break;
+        default:
+            outputChannel.appendLine(` - Input ${inputNumber}: FAILED. ${divergence.message}`);
+    }
+}
+
+/**
+ * Describes a thrown value by its constructor name and message. Errors thrown inside a `vm`
+ * context come from another realm, so the constructor is identified by name.
+ * 
+ * @param value - The thrown value or rejection reason
+ * @returns The constructor name (or `typeof` for primitives) and the message
+ */
+function describeThrownValue(value: any): ThrownError {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+        return { constructorName: value === null ? 'null' : typeof value, message: String(value) };
+    }
+    const constructor = Object.getPrototypeOf(value)?.constructor;
+    return {
+        constructorName: typeof constructor === 'function' && constructor.name ? constructor.name : 'Object',
+        message: typeof value.message === 'string' ? value.message : formatValue(value)
+    };
+}
+
+/**
+ * Compares the error thrown by an alternative with the error thrown by the original.
+ * 
+ * @param expected - The error thrown by the original function
+ * @param actual - The error thrown by the alternative
+ * @param messagePattern - Pattern the alternative's message must match, if configured
+ * @returns A description of the mismatch, or undefined if the errors are equivalent
+ */
+function describeThrownMismatch(expected: ThrownError, actual: ThrownError, messagePattern?: RegExp): string | undefined {
+    if (expected.constructorName !== actual.constructorName) {
+        return `Expected ${expected.constructorName}: ${expected.message}, but it threw ${actual.constructorName}: ${actual.message}`;
+    }
+    if (messagePattern && !messagePattern.test(actual.message)) {
+        return `Error message '${actual.message}' does not match ${messagePattern}`;
+    }
+    return undefined;
+}
+
+/**
+ * Compares the side effects of an alternative's call with those of the original's call.
+ * 
+ * @param args - The arguments as passed (state before the call)
+ * @param expected - Outcome of the original's call
+ * @param actual - Outcome of the alternative's call
+ * @param originalName - Name of the original implementation, for the message
+ * @param comparisonOptions - Options for comparing argument states
+ * @returns A description of the first difference (e.g. "mutates argument 0 while Original does not"),
+ *          or undefined if the side effects match
+ */
+function describeSideEffectMismatch(
+    args: any[],
+    expected: ExecutionOutcome,
+    actual: ExecutionOutcome,
+    originalName: string,
+    comparisonOptions: ComparisonOptions
+): string | undefined {
+    if (expected.argumentsAfter && actual.argumentsAfter) {
+        for (let i = 0; i < args.length; i++) {
+            const argumentPath = `arguments[${i}]`;
+            const expectedChange = compareValues(args[i], expected.argumentsAfter[i], comparisonOptions, argumentPath);
+            const actualChange = compareValues(args[i], actual.argumentsAfter[i], comparisonOptions, argumentPath);
+            if (!actualChange.equal && expectedChange.equal) {
+                return `mutates argument ${i} while ${originalName} does not (${actualChange.difference})`;
+            }
+            if (actualChange.equal && !expectedChange.equal) {
+                return `does not mutate argument ${i} while ${originalName} does (${expectedChange.difference})`;
+            }
+            if (!actualChange.equal) {
+                const stateComparison = compareValues(expected.argumentsAfter[i], actual.argumentsAfter[i], comparisonOptions, argumentPath);
+                if (!stateComparison.equal) {
+                    return `leaves argument ${i} in a different state than ${originalName} (${stateComparison.difference})`;
+                }
+            }
+        }
+    }
+    const extraWrite = actual.globalWrites.find(name => !expected.globalWrites.includes(name));
+    if (extraWrite !== undefined) {
+        return `writes global '${extraWrite}' while ${originalName} does not`;
+    }
+    return undefined;
+}
+
+/**
+ * Compiles the configured error message pattern, ignoring (and logging) invalid expressions.
+ * 
+ * @param pattern - The configured regular expression source; empty to not check messages
+ * @param outputChannel - The output channel for logging.
+ * @returns The compiled pattern, or undefined if messages are not checked
+ */
+function compileErrorMessagePattern(pattern: string | undefined, outputChannel: PipelineLogger): RegExp | undefined {
+    if (!pattern) {
+        return undefined;
+    }
+    try {
+        return new RegExp(pattern);
+    } catch (error: any) {
+        outputChannel.appendLine(`[CorrectnessVerifier] Ignoring invalid error message pattern '${pattern}': ${error.message}`);
+        return undefined;
     }
-} 
+}
+
+/**
+ * Captures the global properties of a sandbox context (excluding the sandbox's own ones).
+ * 
+ * @param context - The contextified sandbox object
+ * @returns The current value of each global property
+ */
+function snapshotGlobals(context: object): Map<string, any> {
+    return new Map(Object.getOwnPropertyNames(context)
+        .filter(name => !SANDBOX_GLOBALS.has(name))
+        .map(name => [name, (context as any)[name]]));
+}
@@ -0,0 +1,369 @@
+/**
+ * @fileoverview Structural Deep Equality
+ *
+ * Compares the output of an alternative against the output of the original function during
+ * correctness verification. Unlike comparing `JSON.stringify` output, the comparison is
+ * type-aware:
+ * - `NaN` equals `NaN`, `-0` differs from `0`, `null` differs from `undefined`, and properties
+ *   holding `undefined` are not dropped.
+ * - Map, Set, Date, RegExp, Error, boxed primitives, typed arrays, ArrayBuffer, DataView and
+ *   BigInt values are compared by content; objects must also be instances of the same class.
+ * - Circular structures are supported: two cycles are equal when they have the same shape.
+ * - Functions, promises and weak collections cannot be compared by content and only need to
+ *   be of the same type.
+ *
+ * Outputs are created inside `vm` contexts, so their prototypes come from another realm.
+ * Types are therefore detected with `Object.prototype.toString` and constructor names
+ * instead of `instanceof`.
+ *
+ * Options allow a float tolerance, order-insensitive arrays (for set-like results) and key
+ * order insensitivity. The first difference is reported with its path, e.g.
+ * `result[3].total: 12 vs 12.000001`.
+ */
+
+import * as util from 'util';
+import { ComparisonOptions, ComparisonResult } from '../models/types';
+
+/**
+ * Options used when a comparison option is not specified
+ */
+export const DEFAULT_COMPARISON_OPTIONS: Required<ComparisonOptions> = {
+    epsilon: 0,
+    unorderedArrays: false,
+    ignoreKeyOrder: true,
+    errorMessagePattern: '',
+};
+
+/**
+ * Name of the root value in difference paths
+ */
+const ROOT_PATH = 'result';
+
+/**
+ * The first difference found, before formatting
+ */
+interface Difference {
+    path: string;
+    message: string;
+}
+
+/**
+ * State threaded through a comparison
+ */
+interface ComparisonState {
+    options: Required<ComparisonOptions>;
+
+    /**
+     * Objects currently being compared (expected -> actual and actual -> expected), used to
+     * detect cycles
+     */
+    expectedInProgress: Map<object, object>;
+    actualInProgress: Map<object, object>;
+}
+
+/**
+ * Compares two values structurally.
+ *
+ * @param expected - The expected value (output of the original function)
+ * @param actual - The actual value (output of the alternative)
+ * @param options - Comparison options; missing options use `DEFAULT_COMPARISON_OPTIONS`
+ * @param rootPath - Name of the compared value in difference paths (e.g. `arguments[0]`)
+ * @returns Whether the values are equal, and the first difference if they are not
+ */
+export function compareValues(expected: any, actual: any, options: ComparisonOptions = {}, rootPath: string = ROOT_PATH): ComparisonResult {
+    const state: ComparisonState = {
+        options: { ...DEFAULT_COMPARISON_OPTIONS, ...options },
+        expectedInProgress: new Map(),
+        actualInProgress: new Map(),
+    };
+    const difference = compareAt(expected, actual, rootPath, state);
+    if (!difference) {
+        return { equal: true };
+    }
+    return { equal: false, path: difference.path, difference: `${difference.path}: ${difference.message}` };
+}
+
+/**
+ * Formats a value for difference messages and logs. Unlike `JSON.stringify` this never throws
+ * (BigInt, cycles) and shows values JSON cannot represent (`undefined`, `NaN`, `-0`, Map, ...).
+ *
+ * @param value - The value to format
+ * @returns A single-line, size-limited representation
+ */
+export function formatValue(value: any): string {
+    return util.inspect(value, { depth: 2, breakLength: Infinity, maxArrayLength: 10, maxStringLength: 100 });
+}
+
+/**
+ * Compares two values at a path, returning the first difference.
+ */
+function compareAt(expected: any, actual: any, path: string, state: ComparisonState): Difference | undefined {
+    if (Object.is(expected, actual)) {
+        return undefined;
+    }
+
+    const mismatch = (): Difference => ({ path, message: `${formatValue(expected)} vs ${formatValue(actual)}` });
+
+    if (!isObject(expected) || !isObject(actual)) {
+        if (typeof expected === 'number' && typeof actual === 'number') {
+            return numbersMatch(expected, actual, state.options.epsilon) ? undefined : mismatch();
+        }
+        // Functions cannot be compared by behavior here; only their type must match
+        return typeof expected === 'function' && typeof actual === 'function' ? undefined : mismatch();
+    }
+
+    // A pair already being compared further up is a cycle: equal only if it is the same pair
+    const pairedActual = state.expectedInProgress.get(expected);
+    const pairedExpected = state.actualInProgress.get(actual);
+    if (pairedActual !== undefined || pairedExpected !== undefined) {
+        return pairedActual === actual ? undefined : { path, message: 'circular references differ' };
+    }
+
+    if (tagOf(expected) !== tagOf(actual)) {
+        return mismatch();
+    }
+    const expectedClass = className(expected);
+    const actualClass = className(actual);
+    if (expectedClass !== actualClass) {
+        return { path, message: `instance of ${expectedClass} vs instance of ${actualClass}` };
+    }
+
+    state.expectedInProgress.set(expected, actual);
+    state.actualInProgress.set(actual, expected);
+    try {
+        return compareObjects(expected, actual, path, state, mismatch);
+    } finally {
+        state.expectedInProgress.delete(expected);
+        state.actualInProgress.delete(actual);
+    }
+}
+
+/**
+ * Compares two objects with the same type tag and class.
+ */
+function compareObjects(expected: any, actual: any, path: string, state: ComparisonState, mismatch: () => Difference): Difference | undefined {
+    if (ArrayBuffer.isView(expected)) {
+        return compareBinary(expected, actual, path, state);
+    }
+
+    switch (tagOf(expected)) {
+        case 'Array':
+            return state.options.unorderedArrays
+                ? compareUnorderedArrays(expected, actual, path, state)
+                : compareArrays(expected, actual, path, state);
+        case 'Map':
+            return compareMaps(expected, actual, path, state);
+        case 'Set':
+            return compareSets(expected, actual, path, state);
+        case 'Date':
+            return Object.is(expected.getTime(), actual.getTime()) ? undefined : mismatch();
+        case 'RegExp':
+            return String(expected) === String(actual) ? undefined : mismatch();
+        case 'Number':
+        case 'String':
+        case 'Boolean':
+        case 'BigInt':
+        case 'Symbol':
+            return compareAt(expected.valueOf(), actual.valueOf(), path, state);
+        case 'ArrayBuffer':
+        case 'SharedArrayBuffer':
+            return compareBinary(new Uint8Array(expected), new Uint8Array(actual), path, state);
+        case 'Error':
+            if (expected.name !== actual.name || expected.message !== actual.message) {
+                return { path, message: `${expected.name}: ${expected.message} vs ${actual.name}: ${actual.message}` };
+            }
+            return compareProperties(expected, actual, path, state);
+        default:
+            return compareProperties(expected, actual, path, state);
+    }
+}
+
+/**
+ * Compares arrays element by element.
+ */
+function compareArrays(expected: any[], actual: any[], path: string, state: ComparisonState): Difference | undefined {
+    if (expected.length !== actual.length) {
+        return { path, message: `array length ${expected.length} vs ${actual.length}` };
+    }
+    for (let i = 0; i < expected.length; i++) {
+        const difference = compareAt(expected[i], actual[i], `${path}[${i}]`, state);
+        if (difference) {
+            return difference;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Compares arrays as multisets: every expected element must match a distinct actual element.
+ */
+function compareUnorderedArrays(expected: any[], actual: any[], path: string, state: ComparisonState): Difference | undefined {
+    if (expected.length !== actual.length) {
+        return { path, message: `array length ${expected.length} vs ${actual.length}` };
+    }
+    const unmatched = actual.map((_, index) => index);
+    for (let i = 0; i < expected.length; i++) {
+        const match = unmatched.findIndex(index => !compareAt(expected[i], actual[index], path, state));
+        if (match === -1) {
+            return { path: `${path}[${i}]`, message: `${formatValue(expected[i])} has no matching element in the actual array` };
+        }
+        unmatched.splice(match, 1);
+    }
+    return undefined;
+}
+
+/**
+ * Compares Map entries, matching object keys structurally.
+ */
+function compareMaps(expected: Map<any, any>, actual: Map<any, any>, path: string, state: ComparisonState): Difference | undefined {
+    if (expected.size !== actual.size) {
+        return { path, message: `Map size ${expected.size} vs ${actual.size}` };
+    }
+    const expectedKeys = Array.from(expected.keys());
+    const actualKeys = findMatchingKeys(expectedKeys, actual, state);
+    for (let i = 0; i < expectedKeys.length; i++) {
+        const entryPath = `${path}.get(${formatValue(expectedKeys[i])})`;
+        if (actualKeys[i] === MISSING) {
+            return { path: entryPath, message: `${formatValue(expected.get(expectedKeys[i]))} vs (missing)` };
+        }
+        const difference = compareAt(expected.get(expectedKeys[i]), actual.get(actualKeys[i]), entryPath, state);
+        if (difference) {
+            return difference;
+        }
+    }
+    const actualOrder = Array.from(actual.keys());
+    if (!state.options.ignoreKeyOrder && actualKeys.some((key, index) => key !== actualOrder[index])) {
+        return { path, message: `key order ${formatValue(expectedKeys)} vs ${formatValue(actualOrder)}` };
+    }
+    return undefined;
+}
+
+/**
+ * Compares Set elements, matching object elements structurally.
+ */
+function compareSets(expected: Set<any>, actual: Set<any>, path: string, state: ComparisonState): Difference | undefined {
+    if (expected.size !== actual.size) {
+        return { path, message: `Set size ${expected.size} vs ${actual.size}` };
+    }
+    const expectedValues = Array.from(expected);
+    const matched = findMatchingKeys(expectedValues, actual, state);
+    const missing = matched.indexOf(MISSING);
+    if (missing !== -1) {
+        return { path, message: `${formatValue(expectedValues[missing])} is missing from the actual Set` };
+    }
+    return undefined;
+}
+
+/**
+ * Marker for an expected key without a match
+ */
+const MISSING = Symbol('missing');
+
+/**
+ * Finds, for each expected key, the actual Map key or Set element it corresponds to:
+ * the same primitive, or a distinct structurally equal object.
+ */
+function findMatchingKeys(expectedKeys: any[], actual: Map<any, any> | Set<any>, state: ComparisonState): any[] {
+    const unmatchedObjects = Array.from(actual.keys()).filter(isObject);
+    return expectedKeys.map(key => {
+        if (!isObject(key)) {
+            return actual.has(key) ? key : MISSING;
+        }
+        const match = unmatchedObjects.findIndex(candidate => !compareAt(key, candidate, ROOT_PATH, state));
+        return match === -1 ? MISSING : unmatchedObjects.splice(match, 1)[0];
+    });
+}
+
+/**
+ * Compares typed arrays and DataViews by element (DataViews and buffers by byte).
+ */
+function compareBinary(expected: ArrayBufferView, actual: ArrayBufferView, path: string, state: ComparisonState): Difference | undefined {
+    const toElements = (view: ArrayBufferView): ArrayLike<number | bigint> =>
+        tagOf(view) === 'DataView' ? new Uint8Array(view.buffer, view.byteOffset, view.byteLength) : view as any;
+    const expectedElements = toElements(expected);
+    const actualElements = toElements(actual);
+    if (expectedElements.length !== actualElements.length) {
+        return { path, message: `length ${expectedElements.length} vs ${actualElements.length}` };
+    }
+    for (let i = 0; i < expectedElements.length; i++) {
+        const difference = compareAt(expectedElements[i], actualElements[i], `${path}[${i}]`, state);
+        if (difference) {
+            return difference;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Compares own enumerable string-keyed properties.
+ */
+function compareProperties(expected: any, actual: any, path: string, state: ComparisonState): Difference | undefined {
+    const expectedKeys = Object.keys(expected);
+    const actualKeys = Object.keys(actual);
+    for (const key of expectedKeys) {
+        if (!Object.prototype.hasOwnProperty.call(actual, key)) {
+            return { path: propertyPath(path, key), message: `${formatValue(expected[key])} vs (missing)` };
+        }
+    }
+    for (const key of actualKeys) {
+        if (!Object.prototype.hasOwnProperty.call(expected, key)) {
+            return { path: propertyPath(path, key), message: `(missing) vs ${formatValue(actual[key])}` };
+        }
+    }
+    if (!state.options.ignoreKeyOrder && expectedKeys.some((key, index) => key !== actualKeys[index])) {
+        return { path, message: `key order ${formatValue(expectedKeys)} vs ${formatValue(actualKeys)}` };
+    }
+    for (const key of expectedKeys) {
+        const difference = compareAt(expected[key], actual[key], propertyPath(path, key), state);
+        if (difference) {
+            return difference;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Whether two numbers are equal, or within `epsilon` relative to their magnitude.
+ */
+function numbersMatch(expected: number, actual: number, epsilon: number): boolean {
+    if (Object.is(expected, actual)) {
+        return true;
+    }
+    if (epsilon <= 0 || !Number.isFinite(expected) || !Number.isFinite(actual)) {
+        return false;
+    }
+    return Math.abs(expected - actual) <= epsilon * Math.max(1, Math.abs(expected), Math.abs(actual));
+}
+
+/**
+ * Appends a property access to a path (`.name` for identifiers, `["key"]` otherwise).
+ */
+function propertyPath(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Whether a value is a non-null object (functions are handled as primitives).
+ */
+function isObject(value: any): value is object {
+    return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Built-in type tag of an object (e.g. 'Map'), valid across realms.
+ */
+function tagOf(value: object): string {
+    return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+/**
+ * Name of an object's class, valid across realms.
+ */
+function className(value: object): string {
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === null) {
+        return 'null prototype';
+    }
+    const constructor = prototype.constructor;
+    return typeof constructor === 'function' && constructor.name ? constructor.name : 'anonymous class';
+}
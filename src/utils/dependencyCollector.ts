@@ -0,0 +1,418 @@
+/**
+ * @fileoverview Dependency Closure for Editor Selections
+ *
+ * `perfcopilot.analyzeFunction` sends only the selected text, so helpers, module-level
+ * constants and imported utilities the selection uses are missing when it is verified and
+ * benchmarked in a `vm` context (every run fails with a ReferenceError). This file collects
+ * those declarations from the active document and its local imports:
+ * 1. The free identifiers of the selection are found with `findFreeIdentifiers`.
+ * 2. Each one is looked up among the top-level declarations and imports of the document.
+ * 3. Relative imports (`import`, `export ... from` and `require`) are followed into the
+ *    workspace; the declarations they resolve to are collected the same way, recursively.
+ * 4. The declarations are emitted dependencies-first, with `export` modifiers removed, and
+ *    import aliases/namespaces are rebuilt as `const` bindings.
+ *
+ * The result is stored as `FunctionImplementation.context` for the original and the
+ * alternatives, so they all run with the same environment. Package imports cannot be bundled
+ * into a `vm` context and are reported as unresolved.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CollectedDependencies } from '../models/types';
+import { findFreeIdentifiers, parseFunctions } from './functionParser';
+
+/**
+ * Extensions tried, in order, when resolving a relative import specifier.
+ */
+const RESOLVABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Owner recorded for the names the selection itself declares.
+ */
+const SELECTION_OWNER = 'selection';
+
+/**
+ * A name bound by an import (or a CommonJS `require`).
+ */
+interface ImportBinding {
+    specifier: string;
+    /** Exported name in the target module; `'*'` for namespace imports */
+    importedName: string;
+}
+
+/**
+ * A top-level statement that declares one or more runtime names.
+ */
+interface TopLevelDeclaration {
+    key: string;
+    text: string;
+    names: string[];
+}
+
+/**
+ * The top-level bindings of one module.
+ */
+interface ModuleScope {
+    filePath: string;
+    declarations: Map<string, TopLevelDeclaration>;
+    imports: Map<string, ImportBinding>;
+    /** Exported name → local name */
+    exports: Map<string, string>;
+    /** `export { a as b } from './x'`, keyed by exported name */
+    reExports: Map<string, ImportBinding>;
+    /** Specifiers of `export * from './x'` */
+    starExports: string[];
+}
+
+/**
+ * Reads a file, returning undefined if it does not exist or cannot be read.
+ */
+function readFileIfExists(filePath: string): string | undefined {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Returns the text of a statement without its `export` / `default` modifiers.
+ */
+function stripExportModifiers(statement: ts.Statement, sourceFile: ts.SourceFile): string {
+    const start = statement.getStart(sourceFile);
+    let text = sourceFile.text.slice(start, statement.getEnd());
+    const modifiers = (ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined) || [];
+    const removable = modifiers
+        .filter(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword || modifier.kind === ts.SyntaxKind.DefaultKeyword)
+        .sort((a, b) => b.getStart(sourceFile) - a.getStart(sourceFile));
+    for (const modifier of removable) {
+        const modifierStart = modifier.getStart(sourceFile) - start;
+        const modifierEnd = modifier.getEnd() - start;
+        text = text.slice(0, modifierStart) + text.slice(modifierEnd).replace(/^\s+/, '');
+    }
+    return text;
+}
+
+/**
+ * Lists the identifiers bound by a (possibly destructuring) binding name.
+ */
+function getBindingNames(name: ts.BindingName): string[] {
+    if (ts.isIdentifier(name)) {
+        return [name.text];
+    }
+    return name.elements.flatMap(element => ts.isBindingElement(element) ? getBindingNames(element.name) : []);
+}
+
+/**
+ * Returns the specifier of a `require('...')` call, if the expression is one.
+ */
+function getRequireSpecifier(expression: ts.Expression | undefined): string | undefined {
+    if (expression && ts.isCallExpression(expression) && ts.isIdentifier(expression.expression) &&
+        expression.expression.text === 'require' && expression.arguments.length === 1 &&
+        ts.isStringLiteral(expression.arguments[0])) {
+        return expression.arguments[0].text;
+    }
+    return undefined;
+}
+
+/**
+ * Whether a node carries the given modifier keyword.
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+}
+
+/**
+ * Parses a module and indexes its top-level declarations, imports and exports.
+ */
+function parseModuleScope(filePath: string, text: string): ModuleScope {
+    const sourceFile = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true);
+    const scope: ModuleScope = {
+        filePath,
+        declarations: new Map(),
+        imports: new Map(),
+        exports: new Map(),
+        reExports: new Map(),
+        starExports: [],
+    };
+
+    const addDeclaration = (statement: ts.Statement, index: number, names: string[]): void => {
+        const declaration = { key: `${filePath}#${index}`, text: stripExportModifiers(statement, sourceFile), names };
+        names.forEach(name => scope.declarations.set(name, declaration));
+        if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+            const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+            names.forEach(name => scope.exports.set(isDefault ? 'default' : name, name));
+        }
+    };
+
+    sourceFile.statements.forEach((statement, index) => {
+        if (hasModifier(statement, ts.SyntaxKind.DeclareKeyword)) {
+            return;
+        }
+        if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+            const clause = statement.importClause;
+            if (!clause || clause.isTypeOnly) {
+                return;
+            }
+            const specifier = statement.moduleSpecifier.text;
+            if (clause.name) {
+                scope.imports.set(clause.name.text, { specifier, importedName: 'default' });
+            }
+            if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+                scope.imports.set(clause.namedBindings.name.text, { specifier, importedName: '*' });
+            } else if (clause.namedBindings) {
+                for (const element of clause.namedBindings.elements) {
+                    if (!element.isTypeOnly) {
+                        scope.imports.set(element.name.text, { specifier, importedName: (element.propertyName || element.name).text });
+                    }
+                }
+            }
+        } else if (ts.isImportEqualsDeclaration(statement) && ts.isExternalModuleReference(statement.moduleReference) &&
+            ts.isStringLiteral(statement.moduleReference.expression) && !statement.isTypeOnly) {
+            scope.imports.set(statement.name.text, { specifier: statement.moduleReference.expression.text, importedName: '*' });
+        } else if (ts.isExportDeclaration(statement)) {
+            if (statement.isTypeOnly) {
+                return;
+            }
+            const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+                ? statement.moduleSpecifier.text
+                : undefined;
+            if (!statement.exportClause) {
+                if (specifier) {
+                    scope.starExports.push(specifier);
+                }
+            } else if (ts.isNamedExports(statement.exportClause)) {
+                for (const element of statement.exportClause.elements) {
+                    const localName = (element.propertyName || element.name).text;
+                    if (element.isTypeOnly) {
+                        continue;
+                    }
+                    if (specifier) {
+                        scope.reExports.set(element.name.text, { specifier, importedName: localName });
+                    } else {
+                        scope.exports.set(element.name.text, localName);
+                    }
+                }
+            }
+        } else if (ts.isExportAssignment(statement) && !statement.isExportEquals && ts.isIdentifier(statement.expression)) {
+            scope.exports.set('default', statement.expression.text);
+        } else if ((ts.isFunctionDeclaration(statement) && statement.body) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+            if (statement.name) {
+                addDeclaration(statement, index, [statement.name.text]);
+            }
+        } else if (ts.isVariableStatement(statement)) {
+            const declarations = statement.declarationList.declarations;
+            if (declarations.every(declaration => getRequireSpecifier(declaration.initializer) !== undefined)) {
+                // CommonJS imports: `const x = require('./x')` / `const { a, b: c } = require('./x')`
+                for (const declaration of declarations) {
+                    const specifier = getRequireSpecifier(declaration.initializer)!;
+                    if (ts.isIdentifier(declaration.name)) {
+                        scope.imports.set(declaration.name.text, { specifier, importedName: '*' });
+                    } else if (ts.isObjectBindingPattern(declaration.name)) {
+                        for (const element of declaration.name.elements) {
+                            if (ts.isIdentifier(element.name)) {
+                                const importedName = element.propertyName && ts.isIdentifier(element.propertyName)
+                                    ? element.propertyName.text
+                                    : element.name.text;
+                                scope.imports.set(element.name.text, { specifier, importedName });
+                            }
+                        }
+                    }
+                }
+            } else {
+                addDeclaration(statement, index, declarations.flatMap(declaration => getBindingNames(declaration.name)));
+            }
+        }
+    });
+
+    return scope;
+}
+
+/**
+ * Collects the declarations an editor selection depends on from its document and the
+ * document's local imports.
+ *
+ * Names are bundled into a single scope, so two different declarations with the same name
+ * (e.g. from different modules) cannot both be included; the second is reported as unresolved.
+ *
+ * @param selection - The selected code
+ * @param documentText - Full text of the document containing the selection (may be unsaved)
+ * @param documentPath - File system path of that document, used to resolve relative imports
+ * @param readFile - Reads workspace files; returns undefined for missing files
+ * @returns The collected declarations, the names they define and the unresolved imports
+ */
+export function collectDependencies(
+    selection: string,
+    documentText: string,
+    documentPath: string,
+    readFile: (filePath: string) => string | undefined = readFileIfExists
+): CollectedDependencies {
+    const fileContents = new Map<string, string | undefined>([[documentPath, documentText]]);
+    const modules = new Map<string, ModuleScope>();
+    const owners = new Map<string, string>(); // Defined name → key of whatever defines it
+    const chunks: string[] = [];
+    const unresolved: string[] = [];
+
+    const read = (filePath: string): string | undefined => {
+        if (!fileContents.has(filePath)) {
+            fileContents.set(filePath, readFile(filePath));
+        }
+        return fileContents.get(filePath);
+    };
+
+    const getModule = (filePath: string): ModuleScope => {
+        let scope = modules.get(filePath);
+        if (!scope) {
+            scope = parseModuleScope(filePath, read(filePath) || '');
+            modules.set(filePath, scope);
+        }
+        return scope;
+    };
+
+    const resolveModulePath = (fromFile: string, specifier: string): string | undefined => {
+        if (!specifier.startsWith('.')) {
+            return undefined;
+        }
+        const base = path.resolve(path.dirname(fromFile), specifier);
+        const withoutJsExtension = base.replace(/\.(m|c)?jsx?$/, '');
+        const candidates = [
+            base,
+            ...RESOLVABLE_EXTENSIONS.map(extension => base + extension),
+            ...RESOLVABLE_EXTENSIONS.map(extension => withoutJsExtension + extension),
+            ...RESOLVABLE_EXTENSIONS.map(extension => path.join(base, `index${extension}`))
+        ];
+        return candidates.find(candidate => read(candidate) !== undefined);
+    };
+
+    const claim = (name: string, owner: string, description: string): boolean => {
+        const existing = owners.get(name);
+        if (existing !== undefined && existing !== owner) {
+            unresolved.push(`${name} (${description}: another declaration with this name is already included)`);
+            return false;
+        }
+        owners.set(name, owner);
+        return true;
+    };
+
+    // Defines `name` as it is bound at the top level of `scope`; false if it is not bound there
+    const defineLocal = (scope: ModuleScope, name: string): boolean => {
+        if (scope.filePath === documentPath && owners.get(name) === SELECTION_OWNER) {
+            return true;
+        }
+        const declaration = scope.declarations.get(name);
+        if (declaration) {
+            if (owners.get(name) === declaration.key) {
+                return true;
+            }
+            if (!declaration.names.every(declared => claim(declared, declaration.key, path.basename(scope.filePath)))) {
+                return false;
+            }
+            // Dependencies first; the owner is recorded before recursing, so cycles terminate
+            findFreeIdentifiers(declaration.text).forEach(free => defineLocal(scope, free));
+            chunks.push(declaration.text);
+            return true;
+        }
+        const binding = scope.imports.get(name);
+        return binding ? defineImport(scope, name, binding) : false;
+    };
+
+    // Defines `localName` as the value `binding` imports into `scope`
+    const defineImport = (scope: ModuleScope, localName: string, binding: ImportBinding): boolean => {
+        const targetPath = resolveModulePath(scope.filePath, binding.specifier);
+        if (!targetPath) {
+            const reason = binding.specifier.startsWith('.') ? 'file not found' : 'package imports cannot be bundled';
+            unresolved.push(`${localName} (from '${binding.specifier}': ${reason})`);
+            return false;
+        }
+        const owner = `${targetPath}#${binding.importedName}`;
+        if (owners.get(localName) === owner) {
+            return true;
+        }
+        const target = getModule(targetPath);
+
+        if (binding.importedName === '*') {
+            const members = listExports(target, new Set())
+                .map(exported => ({ exported, local: resolveExport(target, exported, new Set()) }))
+                .filter(member => member.local !== undefined)
+                .map(({ exported, local }) => exported === local ? local : `${JSON.stringify(exported)}: ${local}`);
+            if (!claim(localName, owner, binding.specifier)) {
+                return false;
+            }
+            chunks.push(`const ${localName} = { ${members.join(', ')} };`);
+            return true;
+        }
+
+        const local = resolveExport(target, binding.importedName, new Set());
+        if (!local) {
+            // An export that exists but could not be defined was already reported by `claim`
+            if (!listExports(target, new Set()).includes(binding.importedName)) {
+                unresolved.push(`${localName} ('${binding.importedName}' is not exported by '${binding.specifier}')`);
+            }
+            return false;
+        }
+        if (local !== localName) {
+            if (!claim(localName, owner, binding.specifier)) {
+                return false;
+            }
+            chunks.push(`const ${localName} = ${local};`);
+        }
+        return true;
+    };
+
+    // Defines the value `scope` exports as `exportedName`; returns the name it is defined under
+    const resolveExport = (scope: ModuleScope, exportedName: string, seen: Set<string>): string | undefined => {
+        if (seen.has(scope.filePath)) {
+            return undefined;
+        }
+        seen.add(scope.filePath);
+
+        const local = scope.exports.get(exportedName);
+        if (local !== undefined) {
+            return defineLocal(scope, local) ? local : undefined;
+        }
+        const reExport = scope.reExports.get(exportedName);
+        if (reExport) {
+            const targetPath = resolveModulePath(scope.filePath, reExport.specifier);
+            return targetPath ? resolveExport(getModule(targetPath), reExport.importedName, seen) : undefined;
+        }
+        for (const specifier of scope.starExports) {
+            const targetPath = resolveModulePath(scope.filePath, specifier);
+            const resolved = targetPath ? resolveExport(getModule(targetPath), exportedName, new Set(seen)) : undefined;
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return undefined;
+    };
+
+    const listExports = (scope: ModuleScope, seen: Set<string>): string[] => {
+        if (seen.has(scope.filePath)) {
+            return [];
+        }
+        seen.add(scope.filePath);
+        const names = [...scope.exports.keys(), ...scope.reExports.keys()];
+        for (const specifier of scope.starExports) {
+            const targetPath = resolveModulePath(scope.filePath, specifier);
+            if (targetPath) {
+                names.push(...listExports(getModule(targetPath), seen).filter(name => name !== 'default'));
+            }
+        }
+        return Array.from(new Set(names));
+    };
+
+    // The selection's own functions are defined by the selection, never by the collected context
+    parseFunctions(selection).functions
+        .filter(fn => fn.name && fn.kind !== 'method')
+        .forEach(fn => owners.set(fn.name!, SELECTION_OWNER));
+
+    const documentScope = getModule(documentPath);
+    findFreeIdentifiers(selection).forEach(name => defineLocal(documentScope, name));
+
+    return {
+        code: chunks.join('\n\n'),
+        identifiers: Array.from(owners.entries()).filter(([, owner]) => owner !== SELECTION_OWNER).map(([name]) => name),
+        unresolved,
+    };
+}
@@ -0,0 +1,368 @@
+/**
+ * @fileoverview Function Parser built on the TypeScript Compiler API
+ *
+ * Function code reaches PerfCopilot as loose snippets (chat prompts, editor selections,
+ * LLM output). Regexes over those snippets break on destructured parameters, default values
+ * containing parentheses, class methods, generics, `export default function` and names
+ * containing `$`. This file parses snippets with the `typescript` package instead:
+ * - `parseFunctions` lists every top-level function with its name, kind (declaration, arrow,
+ *   expression, method), parameters, async/generator flags and source range.
+ * - `renameFunction` renames a top-level function and every reference to it (recursive calls).
+ * - `findFreeIdentifiers` lists the names a snippet uses without declaring them.
+ * - `toStandaloneFunctions` turns a bare method snippet into function declarations.
+ *
+ * A bare method snippet (`name(a, b) { ... }`) is not valid at the top level of a file; when
+ * the snippet only parses inside a class body, it is parsed that way and reported as a method.
+ */
+
+import * as ts from 'typescript';
+import { ParsedFunction, ParsedFunctionParameter, ParsedSnippet } from '../models/types';
+
+/**
+ * Wrapper used to parse bare method snippets.
+ */
+const METHOD_WRAPPER_PREFIX = 'class __PerfCopilotSnippet__ {\n';
+const METHOD_WRAPPER_SUFFIX = '\n}';
+
+/**
+ * A parsed source file together with the offset of the user's snippet inside it.
+ */
+interface SnippetSource {
+    sourceFile: ts.SourceFile;
+    offset: number;
+    syntaxErrors: string[];
+    wrapped: boolean;
+}
+
+/**
+ * Returns the syntax errors of `text` (TypeScript syntax, which is a superset of JavaScript).
+ */
+function getSyntaxErrors(text: string): string[] {
+    const output = ts.transpileModule(text, {
+        fileName: 'snippet.ts',
+        reportDiagnostics: true,
+        compilerOptions: { target: ts.ScriptTarget.ES2022 },
+    });
+    return (output.diagnostics || []).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+/**
+ * Parses a snippet, falling back to the class-body wrapper for bare method snippets.
+ */
+function parseSnippetSource(code: string): SnippetSource {
+    const syntaxErrors = getSyntaxErrors(code);
+    if (syntaxErrors.length > 0) {
+        const wrappedCode = METHOD_WRAPPER_PREFIX + code + METHOD_WRAPPER_SUFFIX;
+        if (getSyntaxErrors(wrappedCode).length === 0) {
+            return {
+                sourceFile: ts.createSourceFile('snippet.ts', wrappedCode, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS),
+                offset: METHOD_WRAPPER_PREFIX.length,
+                syntaxErrors: [],
+                wrapped: true,
+            };
+        }
+    }
+    return {
+        sourceFile: ts.createSourceFile('snippet.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS),
+        offset: 0,
+        syntaxErrors,
+        wrapped: false,
+    };
+}
+
+/**
+ * Strips parentheses and type assertions around an expression.
+ */
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) ||
+        ts.isTypeAssertionExpression(current) || ts.isSatisfiesExpression(current)) {
+        current = current.expression;
+    }
+    return current;
+}
+
+/**
+ * Whether a node carries the given modifier keyword.
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind);
+}
+
+/**
+ * Returns the text of a property/method name, if it is statically known.
+ */
+function getPropertyNameText(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+        return name.text;
+    }
+    return undefined;
+}
+
+/**
+ * Builds a `ParsedFunction` record for a function-like node.
+ */
+function describeFunction(
+    source: SnippetSource,
+    fn: ts.SignatureDeclaration & { body?: ts.Node; asteriskToken?: ts.AsteriskToken },
+    rangeNode: ts.Node,
+    name: string | undefined,
+    kind: ParsedFunction['kind'],
+    className?: string
+): ParsedFunction {
+    const { sourceFile, offset } = source;
+    const parameters: ParsedFunctionParameter[] = fn.parameters.map(parameter => ({
+        name: ts.isIdentifier(parameter.name) ? parameter.name.text : parameter.name.getText(sourceFile),
+        optional: parameter.questionToken !== undefined,
+        rest: parameter.dotDotDotToken !== undefined,
+        hasDefault: parameter.initializer !== undefined,
+        ...(parameter.type ? { type: parameter.type.getText(sourceFile) } : {}),
+    }));
+    const start = rangeNode.getStart(sourceFile);
+    const end = rangeNode.getEnd();
+    const wrapperLines = source.wrapped ? 1 : 0;
+
+    return {
+        name,
+        kind,
+        ...(className ? { className } : {}),
+        parameters,
+        isAsync: hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+        isGenerator: fn.asteriskToken !== undefined,
+        start: start - offset,
+        end: end - offset,
+        startLine: sourceFile.getLineAndCharacterOfPosition(start).line + 1 - wrapperLines,
+        endLine: sourceFile.getLineAndCharacterOfPosition(end).line + 1 - wrapperLines,
+    };
+}
+
+/**
+ * Lists the methods (and arrow-function properties) of a class as functions.
+ */
+function describeClassMembers(source: SnippetSource, node: ts.ClassLikeDeclaration): ParsedFunction[] {
+    const className = source.wrapped ? undefined : node.name?.text;
+    const functions: ParsedFunction[] = [];
+    for (const member of node.members) {
+        if (ts.isMethodDeclaration(member) && member.body) {
+            functions.push(describeFunction(source, member, member, getPropertyNameText(member.name), 'method', className));
+        } else if (ts.isPropertyDeclaration(member) && member.initializer) {
+            const initializer = unwrapExpression(member.initializer);
+            if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+                const kind = ts.isArrowFunction(initializer) ? 'arrow' : 'expression';
+                functions.push(describeFunction(source, initializer, member, getPropertyNameText(member.name), kind, className));
+            }
+        }
+    }
+    return functions;
+}
+
+/**
+ * Lists the functions defined by one top-level statement.
+ */
+function describeStatement(source: SnippetSource, statement: ts.Statement): ParsedFunction[] {
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+        return [describeFunction(source, statement, statement, statement.name?.text, 'declaration')];
+    }
+    if (ts.isClassDeclaration(statement)) {
+        return describeClassMembers(source, statement);
+    }
+    if (ts.isVariableStatement(statement)) {
+        const functions: ParsedFunction[] = [];
+        for (const declaration of statement.declarationList.declarations) {
+            if (!declaration.initializer || !ts.isIdentifier(declaration.name)) {
+                continue;
+            }
+            const initializer = unwrapExpression(declaration.initializer);
+            if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+                // A single declaration spans the whole statement (keeps `const`/`export` in the range)
+                const rangeNode = statement.declarationList.declarations.length === 1 ? statement : declaration;
+                const kind = ts.isArrowFunction(initializer) ? 'arrow' : 'expression';
+                functions.push(describeFunction(source, initializer, rangeNode, declaration.name.text, kind));
+            }
+        }
+        return functions;
+    }
+    if (ts.isExpressionStatement(statement) || ts.isExportAssignment(statement)) {
+        const expression = unwrapExpression(statement.expression);
+        if (ts.isArrowFunction(expression)) {
+            return [describeFunction(source, expression, statement, undefined, 'arrow')];
+        }
+        if (ts.isFunctionExpression(expression)) {
+            return [describeFunction(source, expression, statement, expression.name?.text, 'expression')];
+        }
+        if (ts.isClassExpression(expression)) {
+            return describeClassMembers(source, expression);
+        }
+    }
+    return [];
+}
+
+/**
+ * Parses a snippet and lists its top-level functions.
+ *
+ * Functions are reported even if the snippet has syntax errors (the parser recovers), so
+ * callers that need valid code must check `syntaxErrors`.
+ *
+ * @param code - The JavaScript/TypeScript snippet
+ * @returns The top-level functions in source order and any syntax errors
+ */
+export function parseFunctions(code: string): ParsedSnippet {
+    const source = parseSnippetSource(code);
+    const functions = source.sourceFile.statements.flatMap(statement => describeStatement(source, statement));
+    return { functions, syntaxErrors: source.syntaxErrors };
+}
+
+/**
+ * Whether an identifier names a property/member rather than referencing a binding.
+ * The name in a shorthand property (`{ helper }`) is both, so it counts as a reference.
+ */
+function isPropertyName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (ts.isPropertyAssignment(parent) && parent.name === node) ||
+        (ts.isMethodDeclaration(parent) && parent.name === node) ||
+        (ts.isPropertyDeclaration(parent) && parent.name === node) ||
+        (ts.isQualifiedName(parent) && parent.right === node);
+}
+
+/**
+ * Whether an identifier is the name a declaration introduces (binding, parameter, function,
+ * class, enum, import or catch variable) rather than a reference.
+ */
+function isDeclarationName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return ((ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isBindingElement(parent) ||
+        ts.isFunctionDeclaration(parent) || ts.isFunctionExpression(parent) || ts.isClassDeclaration(parent) ||
+        ts.isClassExpression(parent) || ts.isEnumDeclaration(parent) || ts.isImportClause(parent) ||
+        ts.isImportSpecifier(parent) || ts.isNamespaceImport(parent) || ts.isImportEqualsDeclaration(parent)) &&
+        parent.name === node);
+}
+
+/**
+ * Whether an identifier is neither a binding nor a reference to one (member names, labels,
+ * `import.meta`, property names in destructuring and import/export specifiers).
+ */
+function isNonReferenceName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return isPropertyName(node) ||
+        ((ts.isGetAccessorDeclaration(parent) || ts.isSetAccessorDeclaration(parent) ||
+            ts.isEnumMember(parent) || ts.isMetaProperty(parent)) && parent.name === node) ||
+        ((ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) && parent.label === node) ||
+        ((ts.isBindingElement(parent) || ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) &&
+            parent.propertyName === node);
+}
+
+/**
+ * Lists the identifiers a snippet references but never declares, e.g. module-level helpers,
+ * constants and imports that must be in scope for the snippet to run.
+ *
+ * Names declared anywhere in the snippet (including parameters and locals) are excluded, so
+ * shadowing is not tracked. Identifiers only used as types are excluded, since the transpile
+ * step erases them. Globals (`Math`, `console`, ...) are reported like any other free name.
+ *
+ * @param code - The JavaScript/TypeScript snippet
+ * @returns The free identifiers in order of first use
+ */
+export function findFreeIdentifiers(code: string): string[] {
+    const { sourceFile } = parseSnippetSource(code);
+    const declared = new Set<string>();
+    const referenced: string[] = [];
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) {
+            return;
+        }
+        if (ts.isIdentifier(node) && !isNonReferenceName(node)) {
+            if (isDeclarationName(node)) {
+                declared.add(node.text);
+            } else {
+                referenced.push(node.text);
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return Array.from(new Set(referenced)).filter(name => !declared.has(name));
+}
+
+/**
+ * Renames a top-level function and every reference to it (including recursive calls).
+ *
+ * References are matched by identifier, so strings, comments and property names such as
+ * `obj.originalName` are left untouched; a shorthand property `{ originalName }` keeps its key.
+ * Shadowing by local bindings is not tracked.
+ *
+ * @param code - The snippet containing the function
+ * @param originalName - Current name of the function
+ * @param newName - Name to give the function
+ * @returns The rewritten snippet, or undefined if no top-level function named `originalName` exists
+ */
+export function renameFunction(code: string, originalName: string, newName: string): string | undefined {
+    const source = parseSnippetSource(code);
+    const target = source.sourceFile.statements
+        .flatMap(statement => describeStatement(source, statement))
+        .find(fn => fn.name === originalName && fn.kind !== 'method');
+    if (!target) {
+        return undefined;
+    }
+
+    const references: Array<{ position: number; text: string }> = [];
+    const visit = (node: ts.Node): void => {
+        if (ts.isIdentifier(node) && node.text === originalName && !isPropertyName(node)) {
+            // A shorthand property keeps its key: `{ fib }` becomes `{ fib: newName }`
+            const text = ts.isShorthandPropertyAssignment(node.parent) ? `${originalName}: ${newName}` : newName;
+            references.push({ position: node.getStart(source.sourceFile) - source.offset, text });
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source.sourceFile);
+
+    // Apply from the end so earlier offsets stay valid
+    let result = code;
+    for (const { position, text } of references.sort((a, b) => b.position - a.position)) {
+        result = result.slice(0, position) + text + result.slice(position + originalName.length);
+    }
+    return result;
+}
+
+/**
+ * Rewrites a bare method snippet (`total(items) { ... }`, as selected from a class body) into
+ * function declarations, so it can be executed on its own. Modifiers (`static`, `private`,
+ * decorators, ...) are dropped; `async` and `*` are kept. The rest of the source, including its
+ * line breaks, is left as is. Methods that use `this` still need their instance to run.
+ *
+ * @param code - The snippet
+ * @returns The rewritten snippet, or `code` unchanged if it is not a bare method snippet or a
+ *   member cannot become a function (computed or private names, overloads, properties)
+ */
+export function toStandaloneFunctions(code: string): string {
+    const source = parseSnippetSource(code);
+    const wrapper = source.sourceFile.statements[0];
+    if (!source.wrapped || !wrapper || !ts.isClassDeclaration(wrapper)) {
+        return code;
+    }
+
+    const headers: Array<{ start: number; end: number; text: string }> = [];
+    for (const member of wrapper.members) {
+        if (ts.isSemicolonClassElement(member)) {
+            continue;
+        }
+        if (!ts.isMethodDeclaration(member) || !member.body || !ts.isIdentifier(member.name) || member.questionToken) {
+            return code;
+        }
+        const keywords = `${hasModifier(member, ts.SyntaxKind.AsyncKeyword) ? 'async ' : ''}function${member.asteriskToken ? '*' : ''} `;
+        headers.push({
+            start: member.getStart(source.sourceFile) - source.offset,
+            end: member.name.getStart(source.sourceFile) - source.offset,
+            text: keywords,
+        });
+    }
+
+    // Apply from the end so earlier offsets stay valid
+    let result = code;
+    for (const header of headers.reverse()) {
+        result = result.slice(0, header.start) + header.text + result.slice(header.end);
+    }
+    return result;
+}
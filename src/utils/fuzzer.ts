@@ -0,0 +1,610 @@
+/**
+ * @fileoverview Property-Based Fuzzing for Equivalence Checks
+ *
+ * The LLM generates only a handful of test inputs, which is too few to catch divergence on
+ * edge cases. In fuzzing mode the verifier checks alternatives against hundreds of generated
+ * inputs instead, fast-check style:
+ * - `inferArgumentSchemas` infers the shape of each argument from the TypeScript parameter
+ *   types when available, otherwise from the LLM-generated example inputs.
+ * - `fuzzProperty` generates seeded random arguments of growing size and evaluates a property
+ *   (the verifier's comparison of an alternative with the original) on each of them.
+ * - On the first failure the arguments are shrunk to a minimal counterexample that still
+ *   fails (smaller numbers, shorter strings and arrays, fewer properties).
+ *
+ * Generation is deterministic for a given seed and schema, so a run can be replayed. All
+ * generated values are JSON values, because arguments reach the `vm` sandbox as JSON.
+ */
+
+import * as ts from 'typescript';
+import { ValueSchema } from '../models/types';
+import { parseFunctions } from './functionParser';
+
+/**
+ * Default number of generated inputs per alternative
+ */
+export const DEFAULT_FUZZ_RUNS = 200;
+
+/**
+ * Default time limit (ms) for fuzzing one alternative
+ */
+export const DEFAULT_FUZZ_TIME_BUDGET_MS = 15000;
+
+/**
+ * Maximum number of property evaluations spent on shrinking a counterexample
+ */
+const MAX_SHRINK_EVALUATIONS = 200;
+
+/**
+ * Size reached by the last run (maximum array/string length, scales number ranges)
+ */
+const MAX_SIZE = 30;
+
+/**
+ * Range of generated numbers when no examples bound it
+ */
+const DEFAULT_NUMBER_RANGE = 1000;
+
+/**
+ * Probability of generating an edge value (0, 1, -1, range bounds) for a number
+ */
+const EDGE_PROBABILITY = 0.2;
+
+/**
+ * Characters used for generated strings (including non-ASCII and a surrogate pair)
+ */
+const STRING_ALPHABET = ['a', 'b', 'c', 'x', 'y', 'z', 'A', 'Z', '0', '1', '9', ' ', '-', '_', '.', 'é', 'ß', '😀'];
+
+/**
+ * Maximum number of example strings kept per schema
+ */
+const MAX_STRING_EXAMPLES = 10;
+
+/**
+ * Schema matching any JSON primitive
+ */
+const ANY_SCHEMA: ValueSchema = { kind: 'any' };
+
+/**
+ * Result of a failed run, after shrinking
+ */
+export interface FuzzFailure<T> {
+    /**
+     * The shrunk arguments and the property's failure detail for them
+     */
+    args: any[];
+    detail: T;
+
+    /**
+     * The arguments as generated, before shrinking
+     */
+    generatedArgs: any[];
+
+    /**
+     * 1-based index of the failing run
+     */
+    run: number;
+
+    /**
+     * Number of successful shrink steps
+     */
+    shrinkSteps: number;
+}
+
+/**
+ * Outcome of fuzzing a property
+ */
+export interface FuzzReport<T> {
+    /**
+     * Number of runs evaluated (fewer than requested if stopped or out of time)
+     */
+    runsCompleted: number;
+
+    /**
+     * The first failure, shrunk; undefined if every run passed
+     */
+    failure?: FuzzFailure<T>;
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ *
+ * @param seed - The seed (any integer)
+ * @returns A function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Chooses a random seed for a fuzzing run.
+ *
+ * @returns A non-negative 31-bit integer
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 0x7FFFFFFF);
+}
+
+/**
+ * Infers the schema of each argument of a function.
+ *
+ * @param examples - Example argument lists (the LLM-generated test inputs)
+ * @param code - Source of the function (TypeScript parameter types are used when present)
+ * @param functionName - Name of the function in `code`
+ * @returns One schema per argument position
+ */
+export function inferArgumentSchemas(examples: any[][], code: string, functionName: string): ValueSchema[] {
+    const parsed = parseFunctions(code).functions.find(fn => fn.name === functionName);
+    const parameters = parsed ? parsed.parameters.filter(parameter => !parameter.rest) : [];
+    const arity = examples.length > 0 ? Math.max(...examples.map(args => args.length)) : parameters.length;
+
+    return Array.from({ length: arity }, (_, index) => {
+        const typeText = parameters[index]?.type;
+        const fromType = typeText ? inferSchemaFromType(typeText) : undefined;
+        if (fromType) {
+            return fromType;
+        }
+        const values = examples.filter(args => index < args.length).map(args => args[index]);
+        return values.length > 0 ? inferSchemaFromValues(values) : ANY_SCHEMA;
+    });
+}
+
+/**
+ * Infers a schema covering all of the given example values.
+ *
+ * @param values - Example values (at least one)
+ * @returns The merged schema
+ */
+export function inferSchemaFromValues(values: any[]): ValueSchema {
+    return values.map(schemaOfValue).reduce(mergeSchemas);
+}
+
+/**
+ * Infers a schema from a TypeScript type annotation.
+ *
+ * @param typeText - Source text of the type (e.g. `Array<{ id: number; tags?: string[] }>`)
+ * @returns The schema, or undefined if the type cannot be generated (e.g. interfaces, Map)
+ */
+export function inferSchemaFromType(typeText: string): ValueSchema | undefined {
+    const sourceFile = ts.createSourceFile('type.ts', `type T = ${typeText};`, ts.ScriptTarget.Latest, false, ts.ScriptKind.TS);
+    const statement = sourceFile.statements[0];
+    if (sourceFile.statements.length !== 1 || !statement || !ts.isTypeAliasDeclaration(statement)) {
+        return undefined;
+    }
+    return schemaOfTypeNode(statement.type);
+}
+
+/**
+ * Describes a schema compactly for logs (e.g. `array<int 0..10>`).
+ *
+ * @param schema - The schema
+ * @returns A short description
+ */
+export function describeSchema(schema: ValueSchema): string {
+    switch (schema.kind) {
+        case 'number': {
+            const range = schema.min !== undefined && schema.max !== undefined ? ` ${schema.min}..${schema.max}` : '';
+            return `${schema.integer ? 'int' : 'number'}${range}`;
+        }
+        case 'literal':
+            return JSON.stringify(schema.value);
+        case 'array':
+            return `array<${schema.items ? describeSchema(schema.items) : 'any'}>`;
+        case 'tuple':
+            return `[${schema.items.map(describeSchema).join(', ')}]`;
+        case 'object':
+            return `{ ${Object.entries(schema.properties)
+                .map(([key, value]) => `${key}${schema.optional.includes(key) ? '?' : ''}: ${describeSchema(value)}`)
+                .join('; ')} }`;
+        case 'union':
+            return schema.options.map(describeSchema).join(' | ');
+        default:
+            return schema.kind;
+    }
+}
+
+/**
+ * Generates a value matching a schema.
+ *
+ * @param schema - The schema
+ * @param random - Random number generator (see `createRandom`)
+ * @param size - Current size (0..MAX_SIZE): maximum collection length, scales number ranges
+ * @returns A JSON value
+ */
+export function generateValue(schema: ValueSchema, random: () => number, size: number): any {
+    switch (schema.kind) {
+        case 'number':
+            return generateNumber(schema, random, size);
+        case 'string':
+            if (schema.examples && schema.examples.length > 0 && random() < 0.5) {
+                return pick(random, schema.examples);
+            }
+            return Array.from({ length: randomInt(random, 0, size) }, () => pick(random, STRING_ALPHABET)).join('');
+        case 'boolean':
+            return random() < 0.5;
+        case 'null':
+            return null;
+        case 'literal':
+            return schema.value;
+        case 'array': {
+            const items = schema.items ?? ANY_SCHEMA;
+            return Array.from({ length: randomInt(random, 0, size) }, () => generateValue(items, random, size));
+        }
+        case 'tuple':
+            return schema.items.map(item => generateValue(item, random, size));
+        case 'object': {
+            const value: Record<string, any> = {};
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                if (!schema.optional.includes(key) || random() < 0.5) {
+                    value[key] = generateValue(propertySchema, random, size);
+                }
+            }
+            return value;
+        }
+        case 'union':
+            return generateValue(pick(random, schema.options), random, size);
+        default:
+            return generateValue(pick(random, [
+                { kind: 'number', integer: true },
+                { kind: 'string' },
+                { kind: 'boolean' },
+                { kind: 'null' },
+            ] as ValueSchema[]), random, size);
+    }
+}
+
+/**
+ * Lists simpler variants of a value, simplest first (used to shrink counterexamples).
+ *
+ * @param value - A JSON value
+ * @returns Candidate replacements, each strictly simpler than `value`
+ */
+export function shrinkValue(value: any): any[] {
+    if (typeof value === 'number') {
+        if (value === 0 || !Number.isFinite(value)) {
+            return [];
+        }
+        const candidates = [0];
+        if (!Number.isInteger(value)) {
+            candidates.push(Math.trunc(value) || 0);
+        }
+        const half = Number.isInteger(value) ? Math.trunc(value / 2) : value / 2;
+        candidates.push(half || 0, value - Math.sign(value));
+        return unique(candidates.filter(candidate => Math.abs(candidate) < Math.abs(value)));
+    }
+    if (typeof value === 'string') {
+        if (value.length === 0) {
+            return [];
+        }
+        const characters = Array.from(value);
+        return unique(['', characters.slice(0, Math.floor(characters.length / 2)).join(''), characters.slice(1).join(''), characters.slice(0, -1).join('')]);
+    }
+    if (value === true) {
+        return [false];
+    }
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return [];
+        }
+        const candidates: any[] = [[]];
+        if (value.length > 1) {
+            candidates.push(value.slice(0, Math.floor(value.length / 2)));
+            for (let i = 0; i < value.length; i++) {
+                candidates.push([...value.slice(0, i), ...value.slice(i + 1)]);
+            }
+        }
+        value.forEach((item, index) => {
+            for (const smaller of shrinkValue(item)) {
+                candidates.push(value.map((original, i) => (i === index ? smaller : original)));
+            }
+        });
+        return candidates;
+    }
+    if (value !== null && typeof value === 'object') {
+        const candidates: any[] = [];
+        for (const key of Object.keys(value)) {
+            for (const smaller of shrinkValue(value[key])) {
+                candidates.push({ ...value, [key]: smaller });
+            }
+        }
+        return candidates;
+    }
+    return [];
+}
+
+/**
+ * Checks a property against generated arguments, shrinking the first failure.
+ *
+ * @param schemas - Schema of each argument
+ * @param property - Evaluates the property; returns a failure detail, or undefined if it holds
+ * @param options - Number of runs, seed and time budget (the seed must be set)
+ * @param shouldStop - Polled before each run; fuzzing stops early when it returns true
+ * @returns The number of runs evaluated and the shrunk failure, if any
+ */
+export async function fuzzProperty<T>(
+    schemas: ValueSchema[],
+    property: (args: any[]) => Promise<T | undefined>,
+    options: { runs: number; seed: number; timeBudgetMs?: number },
+    shouldStop: () => boolean = () => false
+): Promise<FuzzReport<T>> {
+    const random = createRandom(options.seed);
+    const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_FUZZ_TIME_BUDGET_MS);
+
+    for (let run = 0; run < options.runs; run++) {
+        if (shouldStop() || Date.now() > deadline) {
+            return { runsCompleted: run };
+        }
+        // Start small and grow, so simple inputs are tried first
+        const size = Math.round(MAX_SIZE * run / Math.max(1, options.runs - 1));
+        const args = schemas.map(schema => generateValue(schema, random, size));
+        const detail = await property(args);
+        if (detail !== undefined) {
+            const shrunk = await shrinkArguments(args, detail, property, deadline);
+            return {
+                runsCompleted: run + 1,
+                failure: { args: shrunk.args, detail: shrunk.detail, generatedArgs: args, run: run + 1, shrinkSteps: shrunk.steps },
+            };
+        }
+    }
+    return { runsCompleted: options.runs };
+}
+
+/**
+ * Greedily replaces arguments by simpler variants for as long as the property keeps failing.
+ */
+async function shrinkArguments<T>(
+    args: any[],
+    detail: T,
+    property: (args: any[]) => Promise<T | undefined>,
+    deadline: number
+): Promise<{ args: any[]; detail: T; steps: number }> {
+    let current = { args, detail, steps: 0 };
+    let evaluations = 0;
+
+    let shrunk = true;
+    while (shrunk && evaluations < MAX_SHRINK_EVALUATIONS && Date.now() <= deadline) {
+        shrunk = false;
+        for (let index = 0; index < current.args.length && !shrunk; index++) {
+            for (const smaller of shrinkValue(current.args[index])) {
+                if (evaluations++ >= MAX_SHRINK_EVALUATIONS || Date.now() > deadline) {
+                    break;
+                }
+                const candidate = current.args.map((value, i) => (i === index ? smaller : value));
+                const candidateDetail = await property(candidate);
+                if (candidateDetail !== undefined) {
+                    current = { args: candidate, detail: candidateDetail, steps: current.steps + 1 };
+                    shrunk = true;
+                    break;
+                }
+            }
+        }
+    }
+    return current;
+}
+
+/**
+ * Schema of a single example value.
+ */
+function schemaOfValue(value: any): ValueSchema {
+    if (value === null) {
+        return { kind: 'null' };
+    }
+    if (typeof value === 'number') {
+        return { kind: 'number', integer: Number.isInteger(value), min: value, max: value };
+    }
+    if (typeof value === 'string') {
+        return { kind: 'string', examples: [value] };
+    }
+    if (typeof value === 'boolean') {
+        return { kind: 'boolean' };
+    }
+    if (Array.isArray(value)) {
+        return value.length > 0 ? { kind: 'array', items: inferSchemaFromValues(value) } : { kind: 'array' };
+    }
+    if (typeof value === 'object') {
+        const properties: Record<string, ValueSchema> = {};
+        for (const [key, propertyValue] of Object.entries(value)) {
+            properties[key] = schemaOfValue(propertyValue);
+        }
+        return { kind: 'object', properties, optional: [] };
+    }
+    return ANY_SCHEMA;
+}
+
+/**
+ * Merges two schemas into one covering the values of both.
+ */
+function mergeSchemas(a: ValueSchema, b: ValueSchema): ValueSchema {
+    if (a.kind === 'any' || b.kind === 'any') {
+        return ANY_SCHEMA;
+    }
+    if (b.kind === 'union') {
+        return b.options.reduce(mergeSchemas, a);
+    }
+    if (a.kind === 'union') {
+        const index = a.options.findIndex(option => option.kind === b.kind && b.kind !== 'literal');
+        const options = index === -1
+            ? [...a.options, b]
+            : a.options.map((option, i) => (i === index ? mergeSchemas(option, b) : option));
+        return { kind: 'union', options };
+    }
+    if (a.kind !== b.kind) {
+        return { kind: 'union', options: [a, b] };
+    }
+
+    switch (a.kind) {
+        case 'number': {
+            const other = b as typeof a;
+            return {
+                kind: 'number',
+                integer: a.integer && other.integer,
+                min: Math.min(a.min ?? Infinity, other.min ?? Infinity),
+                max: Math.max(a.max ?? -Infinity, other.max ?? -Infinity),
+            };
+        }
+        case 'string': {
+            const examples = unique([...(a.examples ?? []), ...((b as typeof a).examples ?? [])]).slice(0, MAX_STRING_EXAMPLES);
+            return { kind: 'string', examples };
+        }
+        case 'array': {
+            const other = b as typeof a;
+            const items = a.items && other.items ? mergeSchemas(a.items, other.items) : a.items ?? other.items;
+            return items ? { kind: 'array', items } : { kind: 'array' };
+        }
+        case 'object': {
+            const other = b as typeof a;
+            const properties: Record<string, ValueSchema> = { ...a.properties };
+            const optional = new Set([...a.optional, ...other.optional]);
+            for (const [key, schema] of Object.entries(other.properties)) {
+                properties[key] = key in a.properties ? mergeSchemas(a.properties[key], schema) : schema;
+            }
+            for (const key of Object.keys(properties)) {
+                if (!(key in a.properties) || !(key in other.properties)) {
+                    optional.add(key);
+                }
+            }
+            return { kind: 'object', properties, optional: Array.from(optional) };
+        }
+        case 'literal':
+            return a.value === (b as typeof a).value ? a : { kind: 'union', options: [a, b] };
+        default:
+            return a;
+    }
+}
+
+/**
+ * Schema of a TypeScript type node; undefined for types that cannot be generated.
+ */
+function schemaOfTypeNode(node: ts.TypeNode): ValueSchema | undefined {
+    switch (node.kind) {
+        case ts.SyntaxKind.NumberKeyword:
+            return { kind: 'number', integer: false };
+        case ts.SyntaxKind.StringKeyword:
+            return { kind: 'string' };
+        case ts.SyntaxKind.BooleanKeyword:
+            return { kind: 'boolean' };
+        case ts.SyntaxKind.AnyKeyword:
+        case ts.SyntaxKind.UnknownKeyword:
+            return ANY_SCHEMA;
+    }
+    if (ts.isParenthesizedTypeNode(node)) {
+        return schemaOfTypeNode(node.type);
+    }
+    if (ts.isTypeOperatorNode(node) && node.operator === ts.SyntaxKind.ReadonlyKeyword) {
+        return schemaOfTypeNode(node.type);
+    }
+    if (ts.isArrayTypeNode(node)) {
+        const items = schemaOfTypeNode(node.elementType);
+        return items && { kind: 'array', items };
+    }
+    if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName) &&
+        (node.typeName.text === 'Array' || node.typeName.text === 'ReadonlyArray') && node.typeArguments?.length === 1) {
+        const items = schemaOfTypeNode(node.typeArguments[0]);
+        return items && { kind: 'array', items };
+    }
+    if (ts.isTupleTypeNode(node)) {
+        const items = node.elements.map(element => schemaOfTypeNode(ts.isNamedTupleMember(element) ? element.type : element));
+        return items.every(item => item !== undefined) ? { kind: 'tuple', items: items as ValueSchema[] } : undefined;
+    }
+    if (ts.isLiteralTypeNode(node)) {
+        return schemaOfLiteral(node.literal);
+    }
+    if (ts.isUnionTypeNode(node)) {
+        // `undefined` cannot be passed as JSON; optional values are generated as present
+        const options = node.types
+            .filter(type => type.kind !== ts.SyntaxKind.UndefinedKeyword)
+            .map(schemaOfTypeNode);
+        if (options.length === 0 || options.some(option => option === undefined)) {
+            return undefined;
+        }
+        return options.length === 1 ? options[0] : { kind: 'union', options: options as ValueSchema[] };
+    }
+    if (ts.isTypeLiteralNode(node)) {
+        const properties: Record<string, ValueSchema> = {};
+        const optional: string[] = [];
+        for (const member of node.members) {
+            const name = ts.isPropertySignature(member) && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))
+                ? member.name.text
+                : undefined;
+            const schema = name !== undefined && ts.isPropertySignature(member) && member.type ? schemaOfTypeNode(member.type) : undefined;
+            if (name === undefined || !schema) {
+                return undefined;
+            }
+            properties[name] = schema;
+            if ((member as ts.PropertySignature).questionToken) {
+                optional.push(name);
+            }
+        }
+        return { kind: 'object', properties, optional };
+    }
+    return undefined;
+}
+
+/**
+ * Schema of a literal type (`'asc'`, `42`, `-1`, `true`, `null`).
+ */
+function schemaOfLiteral(literal: ts.LiteralTypeNode['literal']): ValueSchema | undefined {
+    switch (literal.kind) {
+        case ts.SyntaxKind.NullKeyword:
+            return { kind: 'null' };
+        case ts.SyntaxKind.TrueKeyword:
+            return { kind: 'literal', value: true };
+        case ts.SyntaxKind.FalseKeyword:
+            return { kind: 'literal', value: false };
+        case ts.SyntaxKind.StringLiteral:
+            return { kind: 'literal', value: (literal as ts.StringLiteral).text };
+        case ts.SyntaxKind.NumericLiteral:
+            return { kind: 'literal', value: Number((literal as ts.NumericLiteral).text) };
+        case ts.SyntaxKind.PrefixUnaryExpression: {
+            const expression = literal as ts.PrefixUnaryExpression;
+            return expression.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(expression.operand)
+                ? { kind: 'literal', value: -Number(expression.operand.text) }
+                : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Generates a number: sometimes an edge value, otherwise uniform in a range that grows with
+ * the size. Ranges inferred from examples are widened to include negatives and larger values.
+ */
+function generateNumber(schema: Extract<ValueSchema, { kind: 'number' }>, random: () => number, size: number): number {
+    const low = schema.min !== undefined ? Math.min(schema.min, -1) : -DEFAULT_NUMBER_RANGE;
+    const high = schema.max !== undefined ? Math.max(schema.max, 1) * 2 : DEFAULT_NUMBER_RANGE;
+    if (random() < EDGE_PROBABILITY) {
+        return pick(random, [0, 1, -1, low, high]);
+    }
+    const scale = (size + 1) / (MAX_SIZE + 1);
+    const value = (low + random() * (high - low)) * scale;
+    // `|| 0` turns -0 into 0 (JSON cannot carry -0)
+    return schema.integer || random() < 0.5 ? Math.round(value) || 0 : Math.round(value * 100) / 100 || 0;
+}
+
+/**
+ * Random integer in [min, max].
+ */
+function randomInt(random: () => number, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Random element of a non-empty array.
+ */
+function pick<T>(random: () => number, values: T[]): T {
+    return values[Math.floor(random() * values.length)];
+}
+
+/**
+ * Removes duplicate primitives, keeping the first occurrence.
+ */
+function unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+}
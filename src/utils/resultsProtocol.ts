@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Results Protocol between the Benchmark Runner and BenchmarkService
+ *
+ * The benchmark runner (`benchmarkRunner.ts`) runs in a child process and can only talk
+ * to the extension through stdout. At the end of a run it prints exactly one line of the form:
+ *
+ *     RESULTS_JSON: {"version":5,"fastest":"...","results":[...],"environment":{...},"complexity":{...}}
+ *
+ * This file owns that contract:
+ * - The line prefix and the current schema version.
+ * - A small declarative schema describing the payload.
+ * - Helpers to serialize a payload (runner side) and to extract + validate it (service side).
+ *
+ * Any change to the payload shape MUST bump `RESULTS_SCHEMA_VERSION` and update the schema
+ * below, so older/newer runners are detected instead of silently misparsed.
+ */
+
+import { BenchmarkResultsPayload } from '../models/types';
+
+/**
+ * Prefix of the stdout line carrying the structured results.
+ */
+export const RESULTS_JSON_PREFIX = 'RESULTS_JSON:';
+
+/**
+ * Current version of the results payload schema.
+ */
+export const RESULTS_SCHEMA_VERSION = 5;
+
+/**
+ * Primitive type names understood by the schema validator.
+ */
+type SchemaFieldType = 'string' | 'number' | 'boolean' | 'number[]';
+
+/**
+ * Schema for a single field of an object in the payload.
+ */
+interface SchemaField {
+    type: SchemaFieldType;
+    optional?: boolean;
+}
+
+/**
+ * Schema for each result item (one per implementation).
+ */
+const RESULT_ITEM_SCHEMA: Record<string, SchemaField> = {
+    name: { type: 'string' },
+    ops: { type: 'number' },
+    margin: { type: 'number' },
+    samples: { type: 'number' },
+    mean: { type: 'number' },
+    deviation: { type: 'number' },
+    sampleTimes: { type: 'number[]' },
+    // Memory pass (only present when the runner was started with --expose-gc)
+    heapUsedBefore: { type: 'number', optional: true },
+    heapUsedAfter: { type: 'number', optional: true },
+    allocatedBytesPerCall: { type: 'number', optional: true },
+    retainedBytes: { type: 'number', optional: true },
+    gcCount: { type: 'number', optional: true },
+    gcTimeMs: { type: 'number', optional: true },
+    // Async implementations (promise-returning)
+    isAsync: { type: 'boolean', optional: true },
+    syncTimeMs: { type: 'number', optional: true },
+    resolveTimeMs: { type: 'number', optional: true },
+};
+
+/**
+ * Schema for the environment block.
+ */
+const ENVIRONMENT_SCHEMA: Record<string, SchemaField> = {
+    node: { type: 'string' },
+    v8: { type: 'string' },
+    platform: { type: 'string' },
+    arch: { type: 'string' },
+    cpuModel: { type: 'string' },
+    cpuCount: { type: 'number' },
+    totalMemory: { type: 'number' },
+    timestamp: { type: 'string' },
+};
+
+/**
+ * Checks the fields of `value` against `schema`, appending problems to `errors`.
+ */
+function validateFields(value: any, schema: Record<string, SchemaField>, path: string, errors: string[]): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    for (const [key, field] of Object.entries(schema)) {
+        const fieldValue = value[key];
+        if (fieldValue === undefined) {
+            if (!field.optional) {
+                errors.push(`${path}.${key} is required`);
+            }
+            continue;
+        }
+        if (field.type === 'number[]') {
+            if (!Array.isArray(fieldValue) || !fieldValue.every(item => typeof item === 'number' && Number.isFinite(item))) {
+                errors.push(`${path}.${key} must be an array of finite numbers`);
+            }
+            continue;
+        }
+        if (typeof fieldValue !== field.type || (field.type === 'number' && !Number.isFinite(fieldValue))) {
+            errors.push(`${path}.${key} must be a ${field.type === 'number' ? 'finite number' : field.type}`);
+        }
+    }
+}
+
+/**
+ * Checks the optional complexity block, appending problems to `errors`.
+ */
+function validateComplexity(value: any, errors: string[]): void {
+    const path = 'payload.complexity';
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    if (!Array.isArray(value.sizes) || !value.sizes.every((size: any) => typeof size === 'number' && size > 0)) {
+        errors.push(`${path}.sizes must be an array of positive numbers`);
+        return;
+    }
+    if (!Array.isArray(value.series)) {
+        errors.push(`${path}.series must be an array`);
+        return;
+    }
+    value.series.forEach((series: any, index: number) => {
+        if (typeof series?.name !== 'string') {
+            errors.push(`${path}.series[${index}].name must be a string`);
+        }
+        if (!Array.isArray(series?.times) || series.times.length !== value.sizes.length ||
+            !series.times.every((time: any) => time === null || (typeof time === 'number' && Number.isFinite(time)))) {
+            errors.push(`${path}.series[${index}].times must have one number (or null) per size`);
+        }
+    });
+}
+
+/**
+ * Validates an unknown value against the results payload schema.
+ *
+ * @param value - The parsed JSON value to validate
+ * @returns A list of human-readable problems; empty if the payload is valid
+ */
+export function validateResultsPayload(value: any): string[] {
+    const errors: string[] = [];
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return ['payload must be an object'];
+    }
+    if (value.version !== RESULTS_SCHEMA_VERSION) {
+        errors.push(`payload.version must be ${RESULTS_SCHEMA_VERSION} (got ${JSON.stringify(value.version)})`);
+    }
+    if (typeof value.fastest !== 'string') {
+        errors.push('payload.fastest must be a string');
+    }
+    if (!Array.isArray(value.results) || value.results.length === 0) {
+        errors.push('payload.results must be a non-empty array');
+    } else {
+        value.results.forEach((item: any, index: number) => {
+            validateFields(item, RESULT_ITEM_SCHEMA, `payload.results[${index}]`, errors);
+        });
+    }
+    validateFields(value.environment, ENVIRONMENT_SCHEMA, 'payload.environment', errors);
+    if (value.complexity !== undefined) {
+        validateComplexity(value.complexity, errors);
+    }
+
+    return errors;
+}
+
+/**
+ * Serializes a payload into the single stdout line read by BenchmarkService.
+ *
+ * @param payload - The results payload
+ * @returns The `RESULTS_JSON:` line (without trailing newline)
+ */
+export function formatResultsLine(payload: BenchmarkResultsPayload): string {
+    return `${RESULTS_JSON_PREFIX} ${JSON.stringify(payload)}`;
+}
+
+/**
+ * Finds the `RESULTS_JSON:` line in the runner output and parses it.
+ *
+ * @param output - The full stdout/stderr text captured from the runner
+ * @returns The parsed payload, or undefined if no `RESULTS_JSON:` line is present
+ * @throws Error if the line is present but is not valid JSON or does not match the schema
+ */
+export function extractResultsPayload(output: string): BenchmarkResultsPayload | undefined {
+    const lineRegex = new RegExp(`^\\s*${RESULTS_JSON_PREFIX}\\s*(.*)$`, 'm');
+    const match = output.match(lineRegex);
+    if (!match) {
+        return undefined;
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(match[1]);
+    } catch (error: any) {
+        throw new Error(`RESULTS_JSON line is not valid JSON: ${error.message}`);
+    }
+
+    const errors = validateResultsPayload(parsed);
+    if (errors.length > 0) {
+        throw new Error(`RESULTS_JSON payload failed schema validation: ${errors.join('; ')}`);
+    }
+    return parsed as BenchmarkResultsPayload;
+}
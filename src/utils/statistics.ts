@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Statistics Utilities for Benchmark Comparison
+ *
+ * Benny reports a single ops/sec figure per implementation, which is not enough to decide
+ * whether one implementation is *really* faster than another: two implementations within
+ * the measurement noise would still produce a "fastest". This file provides the small amount
+ * of statistics needed to make that call from the raw per-sample timings:
+ * - Descriptive statistics (mean, sample variance).
+ * - Welch's unequal-variances t-test (two-sided p-value).
+ * - A confidence interval for the speedup ratio (baseline mean time / candidate mean time),
+ *   computed on the log scale with the delta method.
+ *
+ * Everything is implemented locally (no external dependency) using the regularized
+ * incomplete beta function to evaluate the Student's t distribution.
+ */
+
+import { BenchmarkResultItem, SignificanceComparison } from '../models/types';
+
+/**
+ * Significance level used for all comparisons (95% confidence).
+ */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Verdict used when the difference between two implementations is within noise.
+ */
+export const NO_SIGNIFICANT_DIFFERENCE = 'no significant difference';
+
+/**
+ * Arithmetic mean of a list of numbers.
+ */
+export function mean(values: number[]): number {
+    if (values.length === 0) {
+        return NaN;
+    }
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Unbiased sample variance (n - 1 denominator).
+ */
+export function sampleVariance(values: number[]): number {
+    if (values.length < 2) {
+        return NaN;
+    }
+    const m = mean(values);
+    return values.reduce((sum, value) => sum + (value - m) * (value - m), 0) / (values.length - 1);
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation).
+ */
+function logGamma(x: number): number {
+    const coefficients = [
+        76.18009172947146, -86.50532032941677, 24.01409824083091,
+        -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+    ];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    for (const coefficient of coefficients) {
+        series += coefficient / ++y;
+    }
+    return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+/**
+ * Continued fraction evaluation for the incomplete beta function (modified Lentz's method).
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+    const maxIterations = 200;
+    const epsilon = 3e-14;
+    const tiny = 1e-300;
+
+    let c = 1;
+    let d = 1 - (a + b) * x / (a + 1);
+    if (Math.abs(d) < tiny) { d = tiny; }
+    d = 1 / d;
+    let result = d;
+
+    for (let m = 1; m <= maxIterations; m++) {
+        const m2 = 2 * m;
+        let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) { d = tiny; }
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) { c = tiny; }
+        d = 1 / d;
+        result *= d * c;
+
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) { d = tiny; }
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) { c = tiny; }
+        d = 1 / d;
+        const delta = d * c;
+        result *= delta;
+        if (Math.abs(delta - 1) < epsilon) {
+            break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b).
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) { return 0; }
+    if (x >= 1) { return 1; }
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    if (x < (a + 1) / (a + b + 2)) {
+        return front * betaContinuedFraction(x, a, b) / a;
+    }
+    return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+/**
+ * Two-sided p-value of a t statistic with `df` degrees of freedom.
+ */
+export function studentTTwoSidedPValue(t: number, df: number): number {
+    if (!Number.isFinite(t)) {
+        return 0;
+    }
+    return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Critical value t* such that P(|T| > t*) = alpha for `df` degrees of freedom (bisection).
+ */
+export function studentTCriticalValue(df: number, alpha: number = SIGNIFICANCE_LEVEL): number {
+    let low = 0;
+    let high = 1000;
+    for (let i = 0; i < 100; i++) {
+        const middle = (low + high) / 2;
+        if (studentTTwoSidedPValue(middle, df) > alpha) {
+            low = middle;
+        } else {
+            high = middle;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Result of Welch's unequal-variances t-test.
+ */
+export interface WelchTestResult {
+    t: number;
+    df: number;
+    pValue: number;
+}
+
+/**
+ * Welch's t-test for the difference in means of two independent samples.
+ *
+ * @param a - First sample
+ * @param b - Second sample
+ * @returns The t statistic, Welch-Satterthwaite degrees of freedom and two-sided p-value
+ * @throws Error if either sample has fewer than two observations
+ */
+export function welchTTest(a: number[], b: number[]): WelchTestResult {
+    if (a.length < 2 || b.length < 2) {
+        throw new Error('Welch\'s t-test requires at least two samples per group.');
+    }
+    const seA = sampleVariance(a) / a.length;
+    const seB = sampleVariance(b) / b.length;
+    const diff = mean(a) - mean(b);
+    const se = seA + seB;
+
+    if (se === 0) {
+        // Both samples are constant: either identical or trivially different
+        return { t: diff === 0 ? 0 : Infinity, df: a.length + b.length - 2, pValue: diff === 0 ? 1 : 0 };
+    }
+
+    const t = diff / Math.sqrt(se);
+    const df = (se * se) / ((seA * seA) / (a.length - 1) + (seB * seB) / (b.length - 1));
+    return { t, df, pValue: studentTTwoSidedPValue(t, df) };
+}
+
+/**
+ * Compares a candidate implementation against the baseline using their raw sample timings.
+ *
+ * The speedup ratio is `baseline mean time / candidate mean time` (> 1 means the candidate
+ * is faster). Its confidence interval is computed on the log scale with the delta method.
+ *
+ * @param baseline - The baseline result item (usually 'Original'); must carry `sampleTimes`
+ * @param candidate - The candidate result item; must carry `sampleTimes`
+ * @param alpha - Significance level
+ * @returns The comparison, or undefined if either side lacks enough samples
+ */
+export function compareToBaseline(
+    baseline: BenchmarkResultItem,
+    candidate: BenchmarkResultItem,
+    alpha: number = SIGNIFICANCE_LEVEL
+): SignificanceComparison | undefined {
+    const baselineTimes = baseline.sampleTimes || [];
+    const candidateTimes = candidate.sampleTimes || [];
+    if (baselineTimes.length < 2 || candidateTimes.length < 2) {
+        return undefined;
+    }
+
+    const baselineMean = mean(baselineTimes);
+    const candidateMean = mean(candidateTimes);
+    if (!(baselineMean > 0) || !(candidateMean > 0)) {
+        return undefined;
+    }
+
+    const test = welchTTest(baselineTimes, candidateTimes);
+    const speedup = baselineMean / candidateMean;
+
+    // Delta method: Var(log mean) ~= s^2 / (n * mean^2)
+    const logSe = Math.sqrt(
+        sampleVariance(baselineTimes) / (baselineTimes.length * baselineMean * baselineMean) +
+        sampleVariance(candidateTimes) / (candidateTimes.length * candidateMean * candidateMean)
+    );
+    const critical = studentTCriticalValue(Math.max(1, test.df), alpha);
+    const ciLow = Math.exp(Math.log(speedup) - critical * logSe);
+    const ciHigh = Math.exp(Math.log(speedup) + critical * logSe);
+
+    const significant = test.pValue < alpha;
+    let verdict: SignificanceComparison['verdict'] = NO_SIGNIFICANT_DIFFERENCE;
+    if (significant) {
+        verdict = speedup > 1 ? 'faster' : 'slower';
+    }
+
+    return {
+        name: candidate.name,
+        baseline: baseline.name,
+        test: 'welch-t',
+        pValue: test.pValue,
+        speedup,
+        ciLow,
+        ciHigh,
+        confidence: 1 - alpha,
+        significant,
+        verdict
+    };
+}
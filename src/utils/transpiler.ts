@@ -0,0 +1,258 @@
+/**
+ * @fileoverview TypeScript Transpilation for Verification and Benchmarking
+ *
+ * The correctness verifier and the benchmark runner evaluate implementations with Node's `vm`
+ * module, which only understands JavaScript: any type annotation, interface, `as` cast or generic
+ * in a ```ts snippet makes execution throw. This file turns each implementation into runnable
+ * JavaScript with `ts.transpileModule` before it is verified or written into the benchmark module:
+ * - The user's source stays in `FunctionImplementation.code` (shown in the chat report);
+ *   the JavaScript goes into `executableCode`.
+ * - A line map (decoded from the emitted source map) is kept in `lineMap`, so errors raised
+ *   while executing the JavaScript can point back to the line of the original source.
+ *
+ * Plain JavaScript goes through the same step; it is emitted essentially unchanged.
+ * Declarations collected from the workspace (`FunctionImplementation.context`) are emitted
+ * ahead of the function, so they are defined wherever the implementation runs.
+ */
+
+import * as ts from 'typescript';
+import { FunctionImplementation } from '../models/types';
+import { toStandaloneFunctions } from './functionParser';
+
+/**
+ * Result of transpiling a snippet.
+ */
+export interface TranspiledSnippet {
+    /**
+     * The emitted JavaScript (without the trailing source map comment)
+     */
+    code: string;
+
+    /**
+     * For each 0-based line of `code`, the 1-based line of the source it came from (0 if unknown)
+     */
+    lineMap: number[];
+
+    /**
+     * Syntax errors, formatted as "Line N: message"
+     */
+    diagnostics: string[];
+}
+
+/**
+ * Base64 alphabet used by source map VLQ encoding.
+ */
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decodes one base64 VLQ-encoded source map segment into its numeric fields.
+ */
+function decodeVlqSegment(segment: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = BASE64_CHARS.indexOf(char);
+        if (digit < 0) {
+            break;
+        }
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >> 1) : value >> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
+
+/**
+ * Builds a generated-line → source-line map from the `mappings` field of a source map.
+ *
+ * @param mappings - The VLQ `mappings` string
+ * @param generatedLineCount - Number of lines in the generated code
+ * @returns For each 0-based generated line, the 1-based source line (0 if the line has no mapping)
+ */
+export function decodeLineMap(mappings: string, generatedLineCount: number): number[] {
+    const lineMap: number[] = new Array(generatedLineCount).fill(0);
+    let sourceLine = 0; // Source line is delta-encoded across the whole mappings string
+
+    mappings.split(';').forEach((line, generatedLine) => {
+        let firstSourceLine: number | undefined;
+        for (const segment of line.split(',')) {
+            const fields = decodeVlqSegment(segment);
+            if (fields.length >= 4) {
+                sourceLine += fields[2];
+                if (firstSourceLine === undefined) {
+                    firstSourceLine = sourceLine;
+                }
+            }
+        }
+        if (firstSourceLine !== undefined && generatedLine < generatedLineCount) {
+            lineMap[generatedLine] = firstSourceLine + 1;
+        }
+    });
+
+    // Lines without segments (e.g. blank lines) inherit the nearest mapped line above them
+    for (let line = 1; line < lineMap.length; line++) {
+        if (lineMap[line] === 0) {
+            lineMap[line] = lineMap[line - 1];
+        }
+    }
+    return lineMap;
+}
+
+/**
+ * Removes `export` from a snippet: the `vm` context has no `exports` object, so the CommonJS
+ * output of `export function f` (`exports.f = f`) would throw. `export`/`export default`
+ * modifiers are dropped, anonymous default exports become plain expressions and export lists
+ * are blanked. Line breaks are kept, so the line map still points at the user's source.
+ */
+function stripExports(code: string): string {
+    const sourceFile = ts.createSourceFile('snippet.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+
+    for (const statement of sourceFile.statements) {
+        const start = statement.getStart(sourceFile);
+        if (ts.isExportDeclaration(statement)) {
+            edits.push({ start, end: statement.getEnd(), text: code.slice(start, statement.getEnd()).replace(/[^\n]/g, '') });
+        } else if (ts.isExportAssignment(statement)) {
+            // `export default <expression>;` -> `(<expression>);`
+            edits.push({ start, end: statement.expression.getStart(sourceFile), text: '(' });
+            edits.push({ start: statement.expression.getEnd(), end: statement.expression.getEnd(), text: ')' });
+        } else if (ts.canHaveModifiers(statement)) {
+            const modifiers = ts.getModifiers(statement) || [];
+            const exportKeyword = modifiers.find(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+            if (!exportKeyword) {
+                continue;
+            }
+            const defaultKeyword = modifiers.find(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+            const lastKeyword = defaultKeyword ?? exportKeyword;
+            const rest = code.slice(lastKeyword.getEnd());
+            const keywordsEnd = lastKeyword.getEnd() + rest.length - rest.trimStart().length;
+            const name = (statement as ts.Node & { name?: ts.Node }).name;
+            if (defaultKeyword && !name) {
+                // `export default function () {}` is not a valid statement without the export
+                edits.push({ start: exportKeyword.getStart(sourceFile), end: keywordsEnd, text: '(' });
+                edits.push({ start: statement.getEnd(), end: statement.getEnd(), text: ')' });
+            } else {
+                edits.push({ start: exportKeyword.getStart(sourceFile), end: keywordsEnd, text: '' });
+            }
+        }
+    }
+
+    // Apply from the end so earlier offsets stay valid
+    let result = code;
+    for (const edit of edits.sort((a, b) => b.start - a.start)) {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+}
+
+/**
+ * Transpiles a TypeScript (or JavaScript) snippet to JavaScript runnable in a `vm` context.
+ * Types are erased only; modern syntax (async/await, classes, optional chaining) is kept.
+ * A bare method snippet (e.g. a method selected from a class) is emitted as a function declaration,
+ * and `export` keywords are removed (see `stripExports`).
+ *
+ * @param code - The snippet source
+ * @returns The JavaScript, the line map back to the source and any syntax errors
+ */
+export function transpileSnippet(code: string): TranspiledSnippet {
+    const source = stripExports(toStandaloneFunctions(code));
+    const output = ts.transpileModule(source, {
+        fileName: 'snippet.ts',
+        reportDiagnostics: true,
+        compilerOptions: {
+            target: ts.ScriptTarget.ES2022,
+            module: ts.ModuleKind.CommonJS,
+            sourceMap: true,
+            removeComments: false,
+        },
+    });
+
+    const javascript = output.outputText.replace(/\n?\/\/# sourceMappingURL=.*\s*$/, '\n');
+    const lineCount = javascript.split('\n').length;
+    const mappings = output.sourceMapText ? JSON.parse(output.sourceMapText).mappings : '';
+
+    const sourceFile = ts.createSourceFile('snippet.ts', source, ts.ScriptTarget.Latest);
+    const diagnostics = (output.diagnostics || []).map(diagnostic => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+        if (diagnostic.start === undefined) {
+            return message;
+        }
+        return `Line ${sourceFile.getLineAndCharacterOfPosition(diagnostic.start).line + 1}: ${message}`;
+    });
+
+    return { code: javascript, lineMap: decodeLineMap(mappings, lineCount), diagnostics };
+}
+
+/**
+ * Prepares an implementation for execution: transpiles its source and records the
+ * runnable JavaScript and line map on a copy of the implementation.
+ *
+ * If the implementation has a `context` (see `dependencyCollector.ts`), it is transpiled too
+ * and placed ahead of the function in `executableCode`; its lines map to 0 (unknown).
+ *
+ * @param implementation - The implementation (its `code` is the user-facing source)
+ * @returns A copy with `executableCode` and `lineMap` set
+ * @throws Error listing the syntax errors if the source cannot be transpiled
+ */
+export function prepareImplementation(implementation: FunctionImplementation): FunctionImplementation {
+    const transpiled = transpileSnippet(implementation.code);
+    if (transpiled.diagnostics.length > 0) {
+        throw new Error(`Could not transpile ${implementation.name}: ${transpiled.diagnostics.join('; ')}`);
+    }
+    if (!implementation.context) {
+        return { ...implementation, executableCode: transpiled.code, lineMap: transpiled.lineMap };
+    }
+
+    const context = transpileSnippet(implementation.context);
+    if (context.diagnostics.length > 0) {
+        throw new Error(`Could not transpile the context of ${implementation.name}: ${context.diagnostics.join('; ')}`);
+    }
+    const contextCode = context.code.replace(/\n+$/, '');
+    const contextLineCount = contextCode.split('\n').length;
+    return {
+        ...implementation,
+        executableCode: `${contextCode}\n${transpiled.code}`,
+        lineMap: [...new Array(contextLineCount).fill(0), ...transpiled.lineMap],
+    };
+}
+
+/**
+ * Returns the code to execute for an implementation (transpiled if available).
+ *
+ * @param implementation - The implementation
+ * @returns `executableCode` if the implementation was prepared, otherwise `code`
+ */
+export function getExecutableCode(implementation: FunctionImplementation): string {
+    return implementation.executableCode ?? implementation.code;
+}
+
+/**
+ * Finds the line of the source that caused an error thrown by code evaluated under `filename`.
+ *
+ * @param stack - The error stack (or message) mentioning `filename:line`
+ * @param filename - The filename the code was evaluated with
+ * @param lineMap - The implementation's line map (identity mapping if omitted)
+ * @returns The 1-based source line, or undefined if the stack has no location in `filename`
+ */
+export function mapErrorLine(stack: string | undefined, filename: string, lineMap?: number[]): number | undefined {
+    if (!stack) {
+        return undefined;
+    }
+    const escaped = filename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = stack.match(new RegExp(`${escaped}:(\\d+)`));
+    if (!match) {
+        return undefined;
+    }
+    const generatedLine = Number(match[1]);
+    if (!lineMap) {
+        return generatedLine;
+    }
+    const sourceLine = lineMap[generatedLine - 1];
+    return sourceLine > 0 ? sourceLine : undefined;
+}
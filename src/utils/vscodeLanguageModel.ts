@@ -0,0 +1,279 @@
+/**
+ * @fileoverview VS Code Language Model Adapter
+ *
+ * Adapts a `vscode.lm` chat model to the host-agnostic `PipelineLanguageModel` used by the
+ * correctness verifier and the analysis pipeline (`core/`), which must not depend on the
+ * `vscode` module so they can also run in the CLI.
+ *
+ * `PipelineChatModel` adapts the other way, so the chat participant can use the models of
+ * `core/languageModels.ts` (OpenAI-compatible, replay, recording) like a `vscode.lm` model.
+ * `MeteredChatModel` measures the tokens and latency of the requests sent to a chat model.
+ */
+
+import * as vscode from 'vscode';
+import { PipelineCancellationToken, PipelineLanguageModel, PipelineLogger } from '../models/types';
+
+/**
+ * A `vscode.lm` chat model as a `PipelineLanguageModel`.
+ */
+export class VsCodeLanguageModel implements PipelineLanguageModel {
+    /**
+     * The model as "vendor/name"
+     */
+    public readonly id: string;
+
+    /**
+     * The VS Code chat model
+     */
+    private model: vscode.LanguageModelChat;
+
+    /**
+     * Logger for unexpected response parts
+     */
+    private logger?: PipelineLogger;
+
+    /**
+     * Creates a new adapter.
+     *
+     * @param model - The VS Code chat model
+     * @param logger - Logger for unexpected response parts
+     */
+    constructor(model: vscode.LanguageModelChat, logger?: PipelineLogger) {
+        this.model = model;
+        this.logger = logger;
+        this.id = `${model.vendor}/${model.name}`;
+    }
+
+    /**
+     * Sends the prompt as a user message and accumulates the text parts of the streamed answer.
+     *
+     * @param prompt - The prompt
+     * @param token - Cancellation token (a `vscode.CancellationToken` when called from the extension)
+     * @returns The answer, or the text received so far if the request was cancelled
+     */
+    public async complete(prompt: string, token: PipelineCancellationToken): Promise<string> {
+        const response = await this.model.sendRequest([vscode.LanguageModelChatMessage.User(prompt)], {}, token as vscode.CancellationToken);
+        let text = '';
+        for await (const chunk of response.stream) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            if (typeof chunk === 'object' && chunk !== null && 'value' in chunk && typeof chunk.value === 'string') {
+                text += chunk.value;
+            } else {
+                this.logger?.appendLine(`[${this.id}] Received unexpected chunk structure: ${JSON.stringify(chunk)}`);
+            }
+        }
+        return text;
+    }
+}
+
+/**
+ * A `PipelineLanguageModel` as a `vscode.LanguageModelChat`. The answer is streamed as a single
+ * text part once it is complete.
+ */
+export class PipelineChatModel implements vscode.LanguageModelChat {
+    /**
+     * The id of the pipeline model
+     */
+    public readonly id: string;
+
+    /**
+     * The part of the id after the first "/", or the whole id
+     */
+    public readonly name: string;
+
+    /**
+     * The part of the id before the first "/", or "perfcopilot"
+     */
+    public readonly vendor: string;
+
+    /**
+     * Same as the name
+     */
+    public readonly family: string;
+
+    /**
+     * Unknown; always "1"
+     */
+    public readonly version = '1';
+
+    /**
+     * Unknown; the context window is left to the server
+     */
+    public readonly maxInputTokens = Number.MAX_SAFE_INTEGER;
+
+    /**
+     * The pipeline model
+     */
+    private model: PipelineLanguageModel;
+
+    /**
+     * Creates a new adapter.
+     *
+     * @param model - The pipeline model
+     */
+    constructor(model: PipelineLanguageModel) {
+        this.model = model;
+        this.id = model.id;
+        const separator = model.id.indexOf('/');
+        this.vendor = separator > 0 ? model.id.slice(0, separator) : 'perfcopilot';
+        this.name = separator > 0 ? model.id.slice(separator + 1) : model.id;
+        this.family = this.name;
+    }
+
+    /**
+     * Sends the text of the messages, separated by blank lines, as a single prompt.
+     *
+     * @param messages - The messages
+     * @param options - Ignored
+     * @param token - Cancellation token
+     * @returns The answer as a stream with one text part
+     */
+    public async sendRequest(
+        messages: vscode.LanguageModelChatMessage[],
+        options?: vscode.LanguageModelChatRequestOptions,
+        token?: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelChatResponse> {
+        const prompt = messages.map(message => messageText(message)).join('\n\n');
+        const answer = await this.model.complete(prompt, token ?? { isCancellationRequested: false });
+        return {
+            stream: (async function* () { yield new vscode.LanguageModelTextPart(answer); })(),
+            text: (async function* () { yield answer; })()
+        };
+    }
+
+    /**
+     * Estimates the number of tokens as one per four characters.
+     *
+     * @param text - A text or a message
+     * @returns The estimate
+     */
+    public async countTokens(text: string | vscode.LanguageModelChatMessage): Promise<number> {
+        return Math.ceil((typeof text === 'string' ? text : messageText(text)).length / 4);
+    }
+}
+
+/**
+ * Tokens and latency of a request measured by `MeteredChatModel`
+ */
+export interface RequestMeasurement {
+    inputTokens: number;
+    outputTokens: number;
+    latencyMs: number;
+}
+
+/**
+ * A chat model that measures its requests. The measurement is reported once the streamed answer
+ * has been read to its end (or the reader stopped early); the chunks are passed on unchanged.
+ * Tokens are counted with the model's `countTokens`, or estimated if it fails.
+ */
+export class MeteredChatModel implements vscode.LanguageModelChat {
+    public readonly id: string;
+    public readonly name: string;
+    public readonly vendor: string;
+    public readonly family: string;
+    public readonly version: string;
+    public readonly maxInputTokens: number;
+
+    /**
+     * The measured model
+     */
+    private model: vscode.LanguageModelChat;
+
+    /**
+     * Called with the measurement of each request
+     */
+    private onMeasurement: (measurement: RequestMeasurement) => void;
+
+    /**
+     * Creates a new metered model.
+     *
+     * @param model - The model to measure
+     * @param onMeasurement - Called with the measurement of each request
+     */
+    constructor(model: vscode.LanguageModelChat, onMeasurement: (measurement: RequestMeasurement) => void) {
+        this.model = model;
+        this.onMeasurement = onMeasurement;
+        this.id = model.id;
+        this.name = model.name;
+        this.vendor = model.vendor;
+        this.family = model.family;
+        this.version = model.version;
+        this.maxInputTokens = model.maxInputTokens;
+    }
+
+    /**
+     * Sends the request to the measured model and measures its answer.
+     *
+     * @param messages - The messages
+     * @param options - Request options
+     * @param token - Cancellation token
+     * @returns The answer of the measured model, with a measured `stream`
+     */
+    public async sendRequest(
+        messages: vscode.LanguageModelChatMessage[],
+        options?: vscode.LanguageModelChatRequestOptions,
+        token?: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelChatResponse> {
+        const start = Date.now();
+        const response = await this.model.sendRequest(messages, options, token);
+        if (!response || !response.stream) {
+            return response;
+        }
+
+        const report = async (text: string) => {
+            const latencyMs = Date.now() - start;
+            const inputTokens = (await Promise.all(messages.map(message => this.countTokens(message)))).reduce((sum, count) => sum + count, 0);
+            this.onMeasurement({ inputTokens, outputTokens: await this.countTokens(text), latencyMs });
+        };
+        const stream = response.stream;
+        async function* measuredStream() {
+            let text = '';
+            try {
+                for await (const chunk of stream) {
+                    if (typeof chunk === 'object' && chunk !== null && 'value' in chunk && typeof chunk.value === 'string') {
+                        text += chunk.value;
+                    }
+                    yield chunk;
+                }
+            } finally {
+                await report(text);
+            }
+        }
+        return { stream: measuredStream(), text: response.text };
+    }
+
+    /**
+     * Counts the tokens with the measured model, or estimates them as one per four characters if
+     * it cannot count them.
+     *
+     * @param text - A text or a message
+     * @returns The number of tokens
+     */
+    public async countTokens(text: string | vscode.LanguageModelChatMessage): Promise<number> {
+        try {
+            const count = await this.model.countTokens(text);
+            if (typeof count === 'number' && Number.isFinite(count)) {
+                return count;
+            }
+        } catch {
+            // Estimated below
+        }
+        return Math.ceil((typeof text === 'string' ? text : messageText(text)).length / 4);
+    }
+}
+
+/**
+ * Returns the text parts of a message, joined.
+ */
+function messageText(message: vscode.LanguageModelChatMessage): string {
+    // The content is a string in older versions of the API
+    const content: unknown = message.content;
+    if (typeof content === 'string') {
+        return content;
+    }
+    return (content as unknown[])
+        .map(part => typeof part === 'object' && part !== null && 'value' in part && typeof part.value === 'string' ? part.value : '')
+        .join('');
+}